@@ -0,0 +1,819 @@
+import type { WebSocketServer, RawData } from 'ws';
+import type { AddressInfo } from 'net';
+import {
+  ClientMessage,
+  PROTOCOL_VERSION,
+  CODEC_NEGOTIATION_VERSION,
+  SERVER_CAPABILITIES,
+  PlayerUpdateBroadcast,
+  ServerMessage,
+  WIRE_CODECS,
+  WireCodec,
+  encodeServerMessage,
+  isProtocolCompatible,
+  parseClientMessage
+} from '../src/network/protocol';
+import type { GameEventData, PlayerType, RoundState, ScoreEntry } from '../src/types/game';
+import type { RoundTimings } from '../src/network/RoundState';
+import { ABILITIES } from '../src/network/Abilities';
+import { SnapshotDecoder } from '../src/network/SnapshotDelta';
+import { DEFAULT_MAP_ID, isMapId } from '../src/game/maps';
+import { PlayerSocket, ServerPlayer, Session } from './Session';
+
+export interface GameServerOptions {
+  port?: number;
+  host?: string;
+  // Drop clients that haven't sent anything for this long
+  idleTimeoutMs?: number;
+  // How long a dropped player's slot is held for them to reconnect into
+  resumeGraceMs?: number;
+  // Overrides for the round clock, e.g. short rounds for tests
+  roundTimings?: Partial<RoundTimings>;
+  // Map for sessions that don't ask for one (see src/game/maps)
+  mapId?: string;
+  quiet?: boolean;
+}
+
+// Where players stand before their first player_update arrives
+const DEFAULT_SPAWN: [number, number, number] = [0, 3, 10];
+
+// Join codes avoid characters that are easy to misread (0/O, 1/I)
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
+
+// How often session round clocks are checked for a phase change, and held-back updates sent
+const ROUND_TICK_MS = 100;
+
+// The updates carrying a dash can land a while after it ends
+const DASH_GRACE_MS = 500;
+
+// WebSocket.OPEN, spelled out because ws isn't loaded when a browser tab hosts
+const OPEN = 1;
+
+// ws hands binary frames over as one Buffer, a list of fragments, or an ArrayBuffer
+const toBytes = (data: RawData): Uint8Array =>
+  Array.isArray(data) ? Buffer.concat(data) : data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+
+/**
+ * Local stand-in for jackalopes-server.
+ *
+ * Speaks the same protocol as the production server (see
+ * src/network/protocol.ts) so the game and headless bots can play full
+ * matches without it. State is kept in memory only. Under Node it listens
+ * with ws; in a browser tab hosting for the others, connections are handed
+ * over with accept().
+ */
+export class GameServer {
+  private wss: WebSocketServer | null = null;
+  private sessions: Map<string, Session> = new Map();
+  private players: Map<PlayerSocket, ServerPlayer> = new Map();
+  // Every player that can still be resumed, connected or not, by resume token
+  private resumable: Map<string, ServerPlayer> = new Map();
+  private graceTimers: Map<string, NodeJS.Timeout> = new Map();
+  private nextPlayerId = 1;
+  private idleTimer: NodeJS.Timeout | null = null;
+  private roundTimer: NodeJS.Timeout | null = null;
+  private options: Required<GameServerOptions>;
+
+  constructor(options: GameServerOptions = {}) {
+    this.options = {
+      port: options.port ?? 8082,
+      host: options.host ?? '0.0.0.0',
+      idleTimeoutMs: options.idleTimeoutMs ?? 30000,
+      resumeGraceMs: options.resumeGraceMs ?? 15000,
+      roundTimings: options.roundTimings ?? {},
+      mapId: options.mapId ?? DEFAULT_MAP_ID,
+      quiet: options.quiet ?? false
+    };
+  }
+
+  /**
+   * Start listening; resolves with the bound port (useful with port 0)
+   */
+  async start(): Promise<number> {
+    // Imported here so a browser tab can host without bundling ws
+    const { WebSocketServer } = await import('ws');
+    return new Promise((resolve, reject) => {
+      const wss = new WebSocketServer({ port: this.options.port, host: this.options.host });
+      this.wss = wss;
+
+      wss.once('error', reject);
+      wss.once('listening', () => {
+        wss.off('error', reject);
+        const port = (wss.address() as AddressInfo).port;
+        this.log(`🚀 Jackalopes dev server listening on ws://${this.options.host}:${port} (protocol v${PROTOCOL_VERSION})`);
+        resolve(port);
+      });
+
+      wss.on('connection', socket => this.accept(socket));
+      this.run();
+    });
+  }
+
+  /**
+   * Start the clocks without listening, for connections handed over with accept()
+   */
+  run(): void {
+    if (this.roundTimer) return;
+    this.idleTimer = setInterval(() => this.dropIdlePlayers(), Math.min(this.options.idleTimeoutMs, 5000));
+    this.roundTimer = setInterval(() => {
+      this.tickRounds();
+      this.sendOwedUpdates();
+    }, ROUND_TICK_MS);
+  }
+
+  /**
+   * Close every connection and stop listening
+   */
+  stop(): Promise<void> {
+    if (this.idleTimer) {
+      clearInterval(this.idleTimer);
+      this.idleTimer = null;
+    }
+    if (this.roundTimer) {
+      clearInterval(this.roundTimer);
+      this.roundTimer = null;
+    }
+    this.graceTimers.forEach(timer => clearTimeout(timer));
+    this.graceTimers.clear();
+
+    const sockets = Array.from(this.players.keys());
+    this.sessions.clear();
+    this.players.clear();
+    this.resumable.clear();
+    sockets.forEach(socket => socket.terminate());
+
+    return new Promise(resolve => {
+      if (!this.wss) {
+        resolve();
+        return;
+      }
+      this.wss.close(() => resolve());
+      this.wss = null;
+    });
+  }
+
+  getSessions(): Session[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Take on a newly opened connection as a new player
+   */
+  accept(socket: PlayerSocket): void {
+    const player: ServerPlayer = {
+      id: `player_${this.nextPlayerId++}`,
+      name: 'Player',
+      socket,
+      sessionKey: null,
+      playerIndex: -1,
+      state: {
+        position: DEFAULT_SPAWN,
+        rotation: [0, 0, 0, 1],
+        health: 100,
+        playerType: 'jackalope',
+        flashlightOn: false
+      },
+      lastSeen: Date.now(),
+      resumeToken: crypto.randomUUID(),
+      disconnectedAt: null,
+      codec: 'json',
+      snapshots: new SnapshotDecoder(),
+      snapshot: null,
+      lastUpdate: null
+    };
+    this.players.set(socket, player);
+    this.resumable.set(player.resumeToken, player);
+    this.log(`🔌 ${player.id} connected (${this.players.size} online)`);
+
+    this.send(player, { type: 'welcome', protocolVersion: PROTOCOL_VERSION });
+
+    // Look the player up per message: resuming swaps a different player onto this socket
+    socket.on('message', (data, isBinary) => {
+      const current = this.players.get(socket);
+      if (!current) return;
+      current.lastSeen = Date.now();
+      const decoded = parseClientMessage(typeof data === 'string' ? data : isBinary ? toBytes(data) : data.toString());
+      if (!decoded.ok) {
+        this.log(`⚠️ ${current.id} sent malformed message: ${decoded.error}`);
+        this.send(current, { type: 'error', message: decoded.error, code: 'malformed_message' });
+        return;
+      }
+      decoded.warnings.forEach(warning => this.log(`⚠️ ${current.id}: ${warning}`));
+      // One bad message mustn't take down the server, or the tab hosting it
+      try {
+        this.handleMessage(current, decoded.value);
+      } catch (error) {
+        this.log(`❌ ${current.id}'s ${decoded.value.type} failed:`, error instanceof Error ? error.message : error);
+        this.send(current, { type: 'error', message: `Could not handle ${decoded.value.type}`, code: 'internal_error' });
+      }
+    });
+
+    socket.on('close', () => {
+      const current = this.players.get(socket);
+      if (current) this.handleDisconnect(current);
+    });
+    socket.on('error', error => this.log(`❌ ${this.players.get(socket)?.id ?? 'socket'} error:`, error.message));
+  }
+
+  private handleMessage(player: ServerPlayer, message: ClientMessage): void {
+    switch (message.type) {
+      case 'auth': {
+        if (!isProtocolCompatible(message.protocolVersion)) {
+          this.send(player, {
+            type: 'error',
+            message: `Unsupported protocol version ${message.protocolVersion} (server speaks v${PROTOCOL_VERSION})`,
+            code: 'protocol_mismatch'
+          });
+          player.socket.close();
+          return;
+        }
+        const previous = message.resumeToken ? this.resumable.get(message.resumeToken) : undefined;
+        const resumed = !!previous && previous !== player;
+        if (resumed) {
+          player = this.resume(player, previous!);
+        } else {
+          // Clients may authenticate on open and again on welcome; keep the same id
+          player.name = message.playerName;
+        }
+        // Our favourite of the codecs the client offers; older clients and those that don't say get JSON
+        player.codec = message.protocolVersion >= CODEC_NEGOTIATION_VERSION
+          ? WIRE_CODECS.find(codec => message.codecs?.includes(codec)) ?? 'json'
+          : 'json';
+        this.send(player, {
+          type: 'auth_success',
+          protocolVersion: PROTOCOL_VERSION,
+          player: { id: player.id, name: player.name },
+          authoritative: true,
+          resumeToken: player.resumeToken,
+          resumeGraceMs: this.options.resumeGraceMs,
+          resumed,
+          playerIndex: resumed ? player.playerIndex : undefined,
+          playerType: resumed ? player.state.playerType : undefined,
+          codec: player.codec,
+          capabilities: SERVER_CAPABILITIES
+        });
+        break;
+      }
+
+      case 'join_session':
+        this.joinSession(player, message.sessionKey, message.playerType, message.spectate);
+        break;
+
+      case 'list_sessions':
+        this.send(player, {
+          type: 'session_list',
+          sessions: this.getSessions().filter(session => !session.isPrivate).map(session => session.summary())
+        });
+        break;
+
+      case 'create_session': {
+        if (message.mapId !== undefined && !isMapId(message.mapId)) {
+          this.send(player, { type: 'error', message: `There's no map called ${message.mapId}`, code: 'unknown_map' });
+          return;
+        }
+        const name = message.name ?? `${player.name}'s game`;
+        const key = message.private ? this.generateJoinCode() : this.uniqueSessionKey(name);
+        const session = new Session(key, {
+          name: message.private ? name : key,
+          isPrivate: message.private === true,
+          mapId: message.mapId ?? this.options.mapId,
+          roundTimings: this.options.roundTimings
+        });
+        this.sessions.set(key, session);
+        this.log(`🏠 ${player.id} created ${session.isPrivate ? 'private ' : ''}session ${key} on ${session.map.id}`);
+        this.joinSession(player, key, message.playerType);
+        break;
+      }
+
+      case 'team_switch_request': {
+        const session = this.playingSessionOf(player);
+        if (!session) return;
+        if (!session.canSwitch(player, message.playerType)) {
+          this.send(player, {
+            type: 'error',
+            message: `Can't switch to ${message.playerType}s without unbalancing the teams`,
+            code: 'team_switch_denied'
+          });
+          return;
+        }
+        this.setTeam(session, player, message.playerType, 'switch');
+        break;
+      }
+
+      case 'player_update': {
+        const session = this.playingSessionOf(player);
+        if (!session) return;
+        const { inputs, ...state } = message.state;
+        // Burrowed jackalopes stay put until they surface
+        const frozen = !session.round.rules().movement || session.hits.abilities.isActive(player.id, 'burrow');
+        const movement = session.movement.apply(player.id, state.position, state.sequence, inputs, frozen);
+        if (movement.corrected) {
+          this.log(`🚧 Clamped ${player.id}'s movement at input ${movement.sequence}`);
+        }
+        player.state = {
+          ...player.state,
+          position: movement.position,
+          rotation: state.rotation,
+          health: session.hits.health.get(player.id),
+          flashlightOn: state.flashlightOn ?? player.state.flashlightOn
+        };
+        session.hits.updatePlayer(player.id, player.state);
+        // Only predicting clients send inputs, and only they need to hear back unless they were clamped
+        if (inputs || movement.corrected) {
+          this.send(player, { type: 'input_ack', ...movement, health: player.state.health });
+        }
+        player.lastUpdate = {
+          type: 'player_update',
+          id: player.id,
+          state: { ...state, position: movement.position, playerType: player.state.playerType, health: player.state.health }
+        };
+        this.relay(session, player, player.lastUpdate);
+        this.wake(session, player);
+        break;
+      }
+
+      case 'game_event': {
+        const session = this.playingSessionOf(player);
+        if (!session) return;
+        // A numbered event may already have come in a snapshot
+        if (message.sequence !== undefined && !player.snapshots.takeEvent(message.sequence)) return;
+        this.handleGameEvent(session, player, message.event);
+        break;
+      }
+
+      case 'request_player_list': {
+        const session = this.sessionOf(player);
+        if (!session) return;
+        this.send(player, { type: 'player_list', players: session.snapshot() });
+        break;
+      }
+
+      case 'ping':
+        this.send(player, { type: 'pong', timestamp: message.timestamp, serverTime: Date.now() });
+        break;
+
+      case 'chat': {
+        const session = this.sessionOf(player);
+        if (!session) return;
+        this.broadcast(session, {
+          type: 'chat',
+          message: message.message,
+          id: player.id,
+          playerType: player.state.playerType
+        });
+        break;
+      }
+
+      case 'game_snapshot': {
+        const decoded = player.snapshots.decode(message.delta);
+        // A repeat, or overtaken by a newer one; what it carried has been dealt with
+        if (!decoded.ok && decoded.reason === 'stale') return;
+        this.send(player, { type: 'snapshot_ack', sequence: message.delta.sequence, baselineLost: !decoded.ok || undefined });
+        if (!decoded.ok) return;
+        player.snapshot = decoded.snapshot;
+        // Events that went missing on their own arrive here; the rest were taken already
+        const session = this.playingSessionOf(player);
+        if (session) decoded.snapshot.events.forEach(event => this.handleGameEvent(session, player, event));
+        break;
+      }
+
+      case 'keepalive':
+        // Nothing to do beyond refreshing lastSeen
+        break;
+    }
+  }
+
+  private handleGameEvent(session: Session, player: ServerPlayer, event: GameEventData): void {
+    // Events are always attributed to whoever sent them
+    const attributed = event.event_type === 'player_shoot' || event.event_type === 'hit_report'
+      || event.event_type === 'capture_claim' || event.event_type === 'ability_used'
+      || event.event_type === 'player_respawn';
+    if (attributed && event.player_id !== player.id) {
+      this.log(`⚠️ ${player.id} sent ${event.event_type} for ${event.player_id}, ignoring`);
+      return;
+    }
+
+    switch (event.event_type) {
+      case 'player_respawn': {
+        if (!session.round.rules().respawn) {
+          this.log(`⏸️ Ignoring ${event.player_id}'s respawn during ${session.round.getState().phase}`);
+          return;
+        }
+        if (!session.mayRespawn(player.id)) {
+          this.log(`⚠️ ${player.id} asked to respawn while still in play, ignoring`);
+          return;
+        }
+        // Where they come back is the server's call, not the requester's
+        const spawn = session.respawn(player);
+        this.log(`🐣 ${event.player_id} respawns at ${spawn.pointId}`);
+        this.broadcast(session, {
+          type: 'game_event',
+          event: { ...event, spawnPosition: spawn.position, protectedUntil: spawn.protectedUntil }
+        });
+        return;
+      }
+
+      case 'player_shoot':
+        session.hits.recordShot(event);
+        // Shots are only seen by those who can see the shooter; hits still reach everyone
+        this.sendAll(session.audience().filter(viewer => viewer.id === player.id || session.isSpectator(viewer.id)
+          || session.interest.tierOf(viewer.id, player.id) !== 'dormant'), { type: 'game_event', event });
+        return;
+
+      case 'hit_report': {
+        if (!session.round.rules().hits) {
+          this.log(`🚫 Rejected hit on ${event.target_id} by ${event.player_id}: ${session.round.getState().phase}`);
+          return;
+        }
+        // Claims stay on the server; only confirmed hits go out
+        const result = session.hits.validate(event);
+        if (result.ok) {
+          const { damage, health, killed } = result.hit;
+          this.log(`🎯 ${event.player_id} hit ${event.target_id} for ${damage} (${event.shotId}), ${health} left`);
+          this.broadcast(session, { type: 'game_event', event: result.hit });
+          // Finishing someone off is a point for the killer's team
+          if (killed) {
+            this.score(session, {
+              id: `kill:${event.shotId}`,
+              kind: 'kill',
+              team: player.state.playerType,
+              playerId: player.id,
+              targetId: event.target_id,
+              shotId: event.shotId
+            });
+          }
+        } else {
+          this.log(`🚫 Rejected hit on ${event.target_id} by ${event.player_id}: ${result.reason}`);
+        }
+        return;
+      }
+
+      case 'player_hit':
+        // Only the server confirms hits in its sessions
+        this.log(`⚠️ ${player.id} tried to send player_hit, ignoring`);
+        return;
+
+      case 'capture_claim':
+        if (player.state.playerType !== 'jackalope') {
+          this.log(`⚠️ ${player.id} claimed a capture as a ${player.state.playerType}, ignoring`);
+          return;
+        }
+        if (!session.map.scoringZones.some(zone => zone.id === event.holeId)) {
+          this.log(`⚠️ ${player.id} claimed a capture at ${event.holeId}, which ${session.map.id} doesn't have`);
+          return;
+        }
+        this.score(session, {
+          id: `capture:${event.claimId}`,
+          kind: 'capture',
+          team: 'jackalope',
+          playerId: player.id,
+          holeId: event.holeId
+        });
+        return;
+
+      case 'ability_used': {
+        if (player.state.playerType !== 'jackalope') {
+          this.log(`⚠️ ${player.id} used ${event.ability} as a ${player.state.playerType}, ignoring`);
+          return;
+        }
+        if (!session.round.rules().movement) {
+          this.log(`🚫 Rejected ${event.player_id}'s ${event.ability}: ${session.round.getState().phase}`);
+          return;
+        }
+        const used = session.hits.abilities.use(player.id, event.ability);
+        if (!used.ok) {
+          this.log(`🚫 Rejected ${event.player_id}'s ${event.ability}: ${used.reason}`);
+          return;
+        }
+        if (event.ability === 'dash') {
+          session.movement.boost(player.id, ABILITIES.dash.distance, used.activeUntil + DASH_GRACE_MS);
+        }
+        // Goes back to the sender too, as the go-ahead to start it
+        break;
+      }
+
+      case 'game_score_update':
+      case 'game_score_request':
+        // Team totals come from the ledger now; relaying clients' own tallies would only fight it
+        return;
+
+      case 'score_entry':
+        // Only the server scores in its sessions
+        this.log(`⚠️ ${player.id} tried to send score_entry, ignoring`);
+        return;
+    }
+
+    this.broadcast(session, { type: 'game_event', event });
+  }
+
+  private joinSession(player: ServerPlayer, sessionKey: string, preferred?: PlayerType, spectate = false): void {
+    // Re-joining the same session is a no-op apart from the reply
+    if (player.sessionKey !== sessionKey) {
+      this.leaveSession(player);
+
+      let session = this.sessions.get(sessionKey);
+      if (!session) {
+        session = new Session(sessionKey, { mapId: this.options.mapId, roundTimings: this.options.roundTimings });
+        this.sessions.set(sessionKey, session);
+        this.log(`🏠 Created session ${sessionKey}`);
+      }
+
+      player.sessionKey = sessionKey;
+      if (spectate || session.isFull()) {
+        // Spectators are invisible to the players; nothing to announce
+        player.playerIndex = -1;
+        session.addSpectator(player);
+        this.log(`👀 ${player.id} is spectating ${sessionKey}, #${session.queuePosition(player.id)} in the queue`);
+      } else {
+        this.seat(session, player, preferred);
+      }
+    }
+
+    this.sendJoinSuccess(this.sessions.get(sessionKey)!, player);
+  }
+
+  // Give `player` a slot and a team in `session` and announce them
+  private seat(session: Session, player: ServerPlayer, preferred?: PlayerType): void {
+    player.playerIndex = session.nextPlayerIndex();
+    player.state = { ...player.state, playerType: session.assignTeam(preferred) };
+    session.add(player);
+
+    this.log(`👤 ${player.id} joined ${session.key} as #${player.playerIndex} (${player.state.playerType}), ${session.size} in session`);
+    this.broadcast(session, { type: 'player_joined', id: player.id, state: player.state }, player.id);
+  }
+
+  private sendJoinSuccess(session: Session, player: ServerPlayer): void {
+    const spectator = session.isSpectator(player.id);
+    this.send(player, {
+      type: 'join_success',
+      player: { id: player.id, name: player.name },
+      session: { id: session.id, key: session.key, name: session.name, private: session.isPrivate, mapId: session.map.id },
+      playerIndex: player.playerIndex,
+      playerType: spectator ? undefined : player.state.playerType,
+      playerCount: session.size,
+      lobbyFull: session.isFull(),
+      spectator: spectator || undefined,
+      queuePosition: spectator ? session.queuePosition(player.id) : undefined
+    });
+    this.send(player, { type: 'player_list', players: session.snapshot() });
+    this.send(player, { type: 'round_state', state: session.round.getState() });
+    this.send(player, { type: 'score_ledger', entries: session.ledger.entries() });
+  }
+
+  /**
+   * Put a point in the session's ledger if the round is counting and the
+   * player it ends (the one killed, or the jackalope making the capture) is
+   * still in play, then announce it and the new totals
+   */
+  private score(session: Session, scored: Omit<ScoreEntry, 'round' | 'timestamp'>): void {
+    const round = session.round.getState();
+    const ended = scored.kind === 'kill' ? scored.targetId! : scored.playerId;
+    if (!session.round.rules().scoring || session.awaitingRespawn.has(ended)) {
+      this.log(`🚫 No score for ${scored.playerId} (${scored.kind}): ${round.phase}${session.awaitingRespawn.has(ended) ? `, ${ended} hasn't respawned` : ''}`);
+      return;
+    }
+
+    const entry: ScoreEntry = { ...scored, round: round.round, timestamp: Date.now() };
+    if (!session.ledger.record(entry)) return;
+    session.awaitingRespawn.add(ended);
+
+    this.log(`🏆 ${entry.playerId} scored a ${entry.kind} for the ${entry.team}s`);
+    this.broadcast(session, { type: 'score_entry', entry });
+    const state = session.round.score(session.ledger.totals(round.round), entry.timestamp);
+    if (state) this.announceRound(session, state);
+  }
+
+  private tickRounds(): void {
+    const now = Date.now();
+    this.sessions.forEach(session => {
+      const state = session.round.update(now, session.size);
+      if (!state) return;
+      if (state.phase === 'live') {
+        // Everyone respawns for a fresh round; let the teleports through
+        session.all().forEach(player => {
+          session.movement.reset(player.id);
+          session.hits.respawnPlayer(player.id);
+          session.hits.abilities.reset(player.id);
+          session.awaitingRoundStart.add(player.id);
+        });
+        session.spawns.reset();
+        session.awaitingRespawn.clear();
+      }
+      this.announceRound(session, state);
+    });
+  }
+
+  private announceRound(session: Session, state: RoundState): void {
+    this.log(`🏁 ${session.key}: ${state.phase}${state.winner ? ` (${state.winner})` : ''}, ${state.scores.jackalopes}-${state.scores.mercs}`);
+    this.broadcast(session, { type: 'round_state', state });
+  }
+
+  private leaveSession(player: ServerPlayer): void {
+    const session = this.sessionOf(player);
+    player.sessionKey = null;
+    player.lastUpdate = null;
+    if (!session) return;
+
+    if (session.removeSpectator(player.id)) {
+      this.log(`👋 Spectator ${player.id} left ${session.key}`);
+      this.sendQueuePositions(session);
+    } else {
+      session.remove(player.id);
+      this.broadcast(session, { type: 'player_left', id: player.id });
+      this.log(`👋 ${player.id} left ${session.key}, ${session.size} in session`);
+    }
+
+    if (session.isEmpty()) {
+      this.sessions.delete(session.key);
+      this.log(`🗑️ Closed empty session ${session.key}`);
+      return;
+    }
+
+    // A free slot goes to whoever has been waiting longest
+    const next = session.nextSpectator();
+    if (next) {
+      this.seat(session, next);
+      this.sendJoinSuccess(session, next);
+      this.sendQueuePositions(session);
+    }
+
+    const move = session.rebalance();
+    if (move) {
+      this.setTeam(session, move.player, move.team, 'balance');
+    }
+  }
+
+  private sendQueuePositions(session: Session): void {
+    session.spectatorQueue().forEach((spectator, index) => {
+      this.send(spectator, { type: 'spectator_queue', position: index + 1 });
+    });
+  }
+
+  private setTeam(session: Session, player: ServerPlayer, team: PlayerType, reason: 'switch' | 'balance'): void {
+    player.state = { ...player.state, playerType: team };
+    session.hits.updatePlayer(player.id, player.state);
+    // A switch puts the player somewhere new; don't clamp the jump to their new spawn
+    session.movement.reset(player.id);
+    this.log(`🔀 ${player.id} is now a ${team} (${reason})`);
+    this.broadcast(session, { type: 'team_assignment', id: player.id, playerType: team, reason });
+  }
+
+  private handleDisconnect(player: ServerPlayer): void {
+    this.players.delete(player.socket);
+    const session = this.sessionOf(player);
+
+    // Hold the slot so a reconnect gets the same player back; spectators have no slot to hold
+    if (session && !session.isSpectator(player.id) && this.options.resumeGraceMs > 0) {
+      player.disconnectedAt = Date.now();
+      this.graceTimers.set(player.id, setTimeout(() => this.expire(player), this.options.resumeGraceMs));
+      this.broadcast(session, { type: 'player_reconnecting', id: player.id, graceMs: this.options.resumeGraceMs }, player.id);
+      this.log(`📴 ${player.id} dropped, holding their slot for ${this.options.resumeGraceMs}ms (${this.players.size} online)`);
+      return;
+    }
+
+    this.resumable.delete(player.resumeToken);
+    this.leaveSession(player);
+    this.log(`🔌 ${player.id} disconnected (${this.players.size} online)`);
+  }
+
+  /**
+   * Move the connection that presented `previous`'s resume token onto `previous`,
+   * discarding the fresh player it connected as
+   */
+  private resume(fresh: ServerPlayer, previous: ServerPlayer): ServerPlayer {
+    this.resumable.delete(fresh.resumeToken);
+    this.players.delete(fresh.socket);
+
+    // The old connection may not have been noticed as dead yet
+    if (previous.disconnectedAt === null) {
+      this.players.delete(previous.socket);
+      previous.socket.terminate();
+    }
+    clearTimeout(this.graceTimers.get(previous.id));
+    this.graceTimers.delete(previous.id);
+
+    previous.socket = fresh.socket;
+    // The new connection numbers its snapshots and events from scratch
+    previous.snapshots = fresh.snapshots;
+    previous.disconnectedAt = null;
+    previous.lastSeen = Date.now();
+    this.players.set(previous.socket, previous);
+
+    const session = this.sessionOf(previous);
+    if (session) {
+      this.broadcast(session, { type: 'player_resumed', id: previous.id, state: previous.state }, previous.id);
+    }
+    this.log(`🔁 ${previous.id} resumed as #${previous.playerIndex} (${this.players.size} online)`);
+    return previous;
+  }
+
+  private expire(player: ServerPlayer): void {
+    this.graceTimers.delete(player.id);
+    this.resumable.delete(player.resumeToken);
+    this.log(`⌛ ${player.id} did not come back`);
+    this.leaveSession(player);
+  }
+
+  private generateJoinCode(): string {
+    let code: string;
+    do {
+      code = Array.from({ length: JOIN_CODE_LENGTH }, () =>
+        JOIN_CODE_ALPHABET[Math.floor(Math.random() * JOIN_CODE_ALPHABET.length)]
+      ).join('');
+    } while (this.sessions.has(code));
+    return code;
+  }
+
+  // Public sessions are keyed by name; a second "Friday game" becomes "Friday game 2"
+  private uniqueSessionKey(name: string): string {
+    let key = name;
+    for (let suffix = 2; this.sessions.has(key); suffix++) {
+      key = `${name} ${suffix}`;
+    }
+    return key;
+  }
+
+  private dropIdlePlayers(): void {
+    const cutoff = Date.now() - this.options.idleTimeoutMs;
+    this.players.forEach(player => {
+      if (player.lastSeen < cutoff) {
+        this.log(`⏱️ Dropping idle ${player.id}`);
+        player.socket.terminate();
+      }
+    });
+  }
+
+  private sessionOf(player: ServerPlayer): Session | undefined {
+    return player.sessionKey ? this.sessions.get(player.sessionKey) : undefined;
+  }
+
+  // The player's session, but only if they're playing in it rather than spectating
+  private playingSessionOf(player: ServerPlayer): Session | undefined {
+    const session = this.sessionOf(player);
+    return session && !session.isSpectator(player.id) ? session : undefined;
+  }
+
+  private send(player: ServerPlayer, message: ServerMessage): void {
+    if (player.socket.readyState === OPEN) {
+      player.socket.send(encodeServerMessage(message, player.codec));
+    }
+  }
+
+  private broadcast(session: Session, message: ServerMessage, exceptId?: string): void {
+    this.sendAll(session.audience().filter(player => player.id !== exceptId), message);
+  }
+
+  // Encoded at most once per codec, however many players are listening
+  private sendAll(players: ServerPlayer[], message: ServerMessage): void {
+    const encoded: Partial<Record<WireCodec, string | ArrayBuffer>> = {};
+    players.forEach(player => {
+      if (player.socket.readyState === OPEN) {
+        encoded[player.codec] ??= encodeServerMessage(message, player.codec);
+        player.socket.send(encoded[player.codec]!);
+      }
+    });
+  }
+
+  // Pass an update on to whoever it's relevant to, as often as it's relevant
+  private relay(session: Session, subject: ServerPlayer, update: PlayerUpdateBroadcast): void {
+    this.sendAll(session.audience().filter(viewer => viewer.id !== subject.id
+      // Spectators follow anyone, so they hear everything
+      && (session.isSpectator(viewer.id) || this.admit(session, viewer, subject))), update);
+  }
+
+  // Whether `viewer` should hear about `subject` now; tells the viewer when `subject` goes dormant or wakes
+  private admit(session: Session, viewer: ServerPlayer, subject: ServerPlayer): boolean {
+    const wasDormant = session.interest.tierOf(viewer.id, subject.id) === 'dormant';
+    const admitted = session.interest.admit(viewer.id, viewer.state, subject.id, subject.state.position);
+    if (wasDormant !== (session.interest.tierOf(viewer.id, subject.id) === 'dormant')) {
+      this.send(viewer, { type: 'relevancy', dormant: session.interest.dormantFor(viewer.id) });
+    }
+    return admitted;
+  }
+
+  // Updates the reduced rate held back, now that it allows them
+  private sendOwedUpdates(): void {
+    this.sessions.forEach(session => session.interest.takeOwed().forEach(({ viewerId, subjectId }) => {
+      const viewer = session.get(viewerId);
+      const update = session.get(subjectId)?.lastUpdate;
+      if (viewer && update) this.send(viewer, update);
+    }));
+  }
+
+  // Someone who moved may now be in range of players they had dormant, who might be standing still
+  private wake(session: Session, viewer: ServerPlayer): void {
+    session.interest.dormantFor(viewer.id).forEach(id => {
+      const subject = session.get(id);
+      if (subject?.lastUpdate && this.admit(session, viewer, subject)) {
+        this.send(viewer, subject.lastUpdate);
+      }
+    });
+  }
+
+  private log(message: string, ...args: unknown[]): void {
+    if (!this.options.quiet) {
+      console.log(`[GameServer] ${message}`, ...args);
+    }
+  }
+}
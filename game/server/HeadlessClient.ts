@@ -0,0 +1,368 @@
+import { WebSocket } from 'ws';
+import {
+  ClientMessage,
+  PROTOCOL_VERSION,
+  ServerCapability,
+  ServerMessage,
+  ServerMessageType,
+  SessionSummary,
+  WIRE_CODECS,
+  WireCodec,
+  encodeClientMessage,
+  parseServerMessage
+} from '../src/network/protocol';
+import { ClockSync } from '../src/network/ClockSync';
+import { SnapshotEncoder } from '../src/network/SnapshotDelta';
+import type { GameSnapshot, JackalopeAbility, MovementInput, PlayerType, SnapshotDelta, Vector3 } from '../src/types/game';
+
+type MessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>;
+
+/**
+ * Minimal protocol client with no rendering, used to drive bots against the
+ * local server from Node
+ */
+export class HeadlessClient {
+  readonly name: string;
+  id: string | null = null;
+  playerIndex = -1;
+  playerType: PlayerType | null = null;
+  sessionKey: string | null = null;
+  mapId: string | null = null;
+  spectator = false;
+  queuePosition = 0;
+  resumeToken: string | null = null;
+  resumed = false;
+  // Players the server has stopped telling us about (see Relevancy)
+  dormant: string[] = [];
+  // Codecs offered at auth, and the one the server picked
+  readonly codecs: WireCodec[];
+  codec: WireCodec = 'json';
+  // What the server offered at auth
+  capabilities: ServerCapability[] = [];
+  readonly received: ServerMessage[] = [];
+  readonly errors: string[] = [];
+  readonly clock = new ClockSync();
+  private socket: WebSocket | null = null;
+  private waiters: Array<{ match: (message: ServerMessage) => boolean; resolve: (message: ServerMessage) => void }> = [];
+  private sequence = 0;
+  readonly snapshots = new SnapshotEncoder();
+
+  constructor(name: string, codecs: WireCodec[] = WIRE_CODECS) {
+    this.name = name;
+    this.codecs = codecs;
+  }
+
+  /**
+   * Connect, authenticate and join a session. Joining again after drop()
+   * presents the resume token and gets the same player back.
+   */
+  async join(url: string, sessionKey: string, preferred?: PlayerType): Promise<void> {
+    // Replies from an earlier connection would otherwise satisfy the waits below
+    this.received.length = 0;
+    this.codec = 'json';
+    this.snapshots.resync();
+    this.clock.reset();
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    socket.on('message', (data, isBinary) => {
+      const decoded = parseServerMessage(isBinary ? data as Buffer : data.toString());
+      if (!decoded.ok) {
+        this.errors.push(decoded.error);
+        return;
+      }
+      this.handleMessage(decoded.value);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('open', () => resolve());
+      socket.once('error', reject);
+    });
+
+    this.send({
+      type: 'auth',
+      protocolVersion: PROTOCOL_VERSION,
+      playerName: this.name,
+      resumeToken: this.resumeToken ?? undefined,
+      codecs: this.codecs
+    });
+    const auth = await this.waitFor('auth_success');
+    this.codec = auth.codec ?? 'json';
+    this.capabilities = auth.capabilities ?? [];
+    this.id = auth.player.id;
+    this.resumeToken = auth.resumeToken ?? null;
+    this.resumed = auth.resumed === true;
+
+    await this.joinSession(sessionKey, preferred);
+  }
+
+  /**
+   * Move to another session on the current connection
+   */
+  async joinSession(sessionKey: string, preferred?: PlayerType, spectate = false): Promise<void> {
+    const since = this.received.length;
+    this.send({ type: 'join_session', playerName: this.name, sessionKey, playerType: preferred, spectate: spectate || undefined });
+    await this.waitFor('join_success', message => this.received.indexOf(message) >= since);
+  }
+
+  /**
+   * Open a new session and join it; resolves with its key (the join code, if private)
+   */
+  async createSession(name?: string, isPrivate = false, mapId?: string): Promise<string> {
+    const since = this.received.length;
+    this.send({ type: 'create_session', playerName: this.name, name, private: isPrivate, mapId });
+    await this.waitFor('join_success', message => this.received.indexOf(message) >= since);
+    return this.sessionKey!;
+  }
+
+  async listSessions(): Promise<SessionSummary[]> {
+    const since = this.received.length;
+    this.send({ type: 'list_sessions' });
+    const list = await this.waitFor('session_list', message => this.received.indexOf(message) >= since);
+    return list.sessions;
+  }
+
+  /**
+   * Ping the server `samples` times, one after another, to estimate its clock
+   */
+  async syncClock(samples = 5): Promise<ClockSync> {
+    for (let i = 0; i < samples; i++) {
+      const timestamp = Date.now();
+      this.send({ type: 'ping', timestamp });
+      const pong = await this.waitFor('pong', message => message.timestamp === timestamp);
+      if (pong.serverTime !== undefined) {
+        this.clock.addSample(timestamp, pong.serverTime);
+      }
+    }
+    return this.clock;
+  }
+
+  sendUpdate(position: Vector3): void {
+    this.send({
+      type: 'player_update',
+      state: {
+        position,
+        rotation: [0, 0, 0, 1],
+        sequence: ++this.sequence,
+        playerType: this.playerType ?? 'merc',
+        timestamp: this.clock.getServerTime()
+      }
+    });
+  }
+
+  /**
+   * Claim to have walked forward to `position` over `steps` physics steps,
+   * sending the inputs like a predicting client. Returns the last input's sequence.
+   */
+  sendMove(position: Vector3, steps: number, stepSeconds = 1 / 240): number {
+    const inputs: MovementInput[] = [];
+    for (let i = 0; i < steps; i++) {
+      inputs.push({
+        sequence: ++this.sequence,
+        forward: true,
+        backward: false,
+        left: false,
+        right: false,
+        jump: false,
+        sprint: true,
+        moveX: 0,
+        moveY: 0,
+        yaw: 0,
+        delta: stepSeconds
+      });
+    }
+    this.send({
+      type: 'player_update',
+      state: {
+        position,
+        rotation: [0, 0, 0, 1],
+        sequence: this.sequence,
+        inputs,
+        playerType: this.playerType ?? 'merc',
+        timestamp: this.clock.getServerTime()
+      }
+    });
+    return this.sequence;
+  }
+
+  shoot(origin: Vector3, direction: Vector3, options: { latency?: number; timestamp?: number; weapon?: string } = {}): string {
+    const shotId = `shot_${this.id}_${Date.now()}_${this.sequence++}`;
+    this.send({
+      type: 'game_event',
+      event: {
+        event_type: 'player_shoot',
+        shotId,
+        origin,
+        direction,
+        player_id: this.id!,
+        playerType: this.playerType ?? 'merc',
+        weapon: options.weapon,
+        latency: options.latency,
+        timestamp: options.timestamp ?? this.clock.getServerTime()
+      }
+    });
+    return shotId;
+  }
+
+  reportHit(shotId: string, targetId: string, hitPosition: Vector3): void {
+    this.send({
+      type: 'game_event',
+      event: {
+        event_type: 'hit_report',
+        shotId,
+        player_id: this.id!,
+        target_id: targetId,
+        hitPosition,
+        timestamp: this.clock.getServerTime()
+      }
+    });
+  }
+
+  /**
+   * Claim to have reached a rabbit hole, as a jackalope does to score
+   */
+  capture(holeId = 'center'): string {
+    const claimId = `capture_${this.id}_${Date.now()}_${this.sequence++}`;
+    this.send({
+      type: 'game_event',
+      event: {
+        event_type: 'capture_claim',
+        player_id: this.id!,
+        holeId,
+        claimId,
+        timestamp: this.clock.getServerTime()
+      }
+    });
+    return claimId;
+  }
+
+  /**
+   * Use a jackalope ability; the server echoes it back if it was ready
+   */
+  ability(ability: JackalopeAbility, position: Vector3, direction?: Vector3): string {
+    const abilityId = `${ability}_${this.id}_${Date.now()}_${this.sequence++}`;
+    this.send({
+      type: 'game_event',
+      event: {
+        event_type: 'ability_used',
+        player_id: this.id!,
+        ability,
+        abilityId,
+        position,
+        direction,
+        timestamp: this.clock.getServerTime()
+      }
+    });
+    return abilityId;
+  }
+
+  /**
+   * Send a snapshot as a delta against the last acknowledged one; returns what went out
+   */
+  sendSnapshot(snapshot: GameSnapshot): SnapshotDelta {
+    const delta = this.snapshots.encode(snapshot);
+    this.send({ type: 'game_snapshot', delta });
+    return delta;
+  }
+
+  /**
+   * Ask to come back in; the server picks where, so `position` is only there
+   * to check that a client's choice is ignored
+   */
+  respawn(position?: Vector3): void {
+    this.send({
+      type: 'game_event',
+      event: {
+        event_type: 'player_respawn',
+        player_id: this.id!,
+        requestedBy: this.id!,
+        spawnPosition: position,
+        timestamp: this.clock.getServerTime()
+      }
+    });
+  }
+
+  send(message: ClientMessage): void {
+    this.socket?.send(encodeClientMessage(message, this.codec));
+  }
+
+  /**
+   * Resolve with the first message (already received or future) matching `type` and `match`
+   */
+  waitFor<T extends ServerMessageType>(
+    type: T,
+    match: (message: MessageOf<T>) => boolean = () => true,
+    timeoutMs = 5000
+  ): Promise<MessageOf<T>> {
+    const matches = (message: ServerMessage): boolean =>
+      message.type === type && match(message as MessageOf<T>);
+
+    const existing = this.received.find(matches);
+    if (existing) return Promise.resolve(existing as MessageOf<T>);
+
+    return new Promise((resolve, reject) => {
+      const waiter = {
+        match: matches,
+        resolve: (message: ServerMessage) => {
+          clearTimeout(timer);
+          resolve(message as MessageOf<T>);
+        }
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter(w => w !== waiter);
+        reject(new Error(`${this.name}: timed out waiting for ${type}`));
+      }, timeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Cut the connection without a close handshake, like a network drop
+   */
+  drop(): void {
+    this.socket?.terminate();
+    this.socket = null;
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => {
+      if (!this.socket || this.socket.readyState === WebSocket.CLOSED) {
+        resolve();
+        return;
+      }
+      this.socket.once('close', () => resolve());
+      this.socket.close();
+    });
+  }
+
+  private applyJoin(joined: MessageOf<'join_success'>): void {
+    this.sessionKey = joined.session?.key ?? null;
+    this.mapId = joined.session?.mapId ?? null;
+    this.playerIndex = joined.playerIndex ?? -1;
+    this.playerType = joined.playerType ?? null;
+    this.spectator = joined.spectator === true;
+    this.queuePosition = joined.queuePosition ?? 0;
+    this.dormant = [];
+  }
+
+  private handleMessage(message: ServerMessage): void {
+    // Spectators are seated with an unrequested join_success, so apply them all here
+    if (message.type === 'join_success') {
+      this.applyJoin(message);
+    } else if (message.type === 'spectator_queue') {
+      this.queuePosition = message.position;
+    } else if (message.type === 'team_assignment' && message.id === this.id) {
+      this.playerType = message.playerType;
+    } else if (message.type === 'snapshot_ack') {
+      if (message.baselineLost) this.snapshots.resync(); else this.snapshots.acknowledge(message.sequence);
+    } else if (message.type === 'relevancy') {
+      this.dormant = message.dormant;
+    }
+    this.received.push(message);
+    this.waiters = this.waiters.filter(waiter => {
+      if (!waiter.match(message)) return true;
+      waiter.resolve(message);
+      return false;
+    });
+  }
+}
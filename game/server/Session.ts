@@ -0,0 +1,275 @@
+import type { RawData } from 'ws';
+import type { GameSnapshot, PlayerType } from '../src/types/game';
+import {
+  MAX_PLAYERS_PER_SESSION,
+  PlayerUpdateBroadcast,
+  RemotePlayerState,
+  SessionSummary,
+  WireCodec
+} from '../src/network/protocol';
+import { HitAuthority } from '../src/network/HitAuthority';
+import { MovementAuthority } from '../src/network/MovementAuthority';
+import { InterestManager } from '../src/network/Relevancy';
+import { RoundStateMachine, RoundTimings } from '../src/network/RoundState';
+import { ScoreLedger } from '../src/network/ScoreLedger';
+import type { SnapshotDecoder } from '../src/network/SnapshotDelta';
+import { SpawnChoice, SpawnSelector } from '../src/network/Spawns';
+import { FOG_PRESETS, getMap, spawnMapOf } from '../src/game/maps';
+import type { GameMap } from '../src/types/map';
+
+/**
+ * The server's end of a client's connection: a ws socket, or a stand-in with
+ * the same shape, like a browser tab's (see src/network/BroadcastTransport)
+ */
+export interface PlayerSocket {
+  readonly readyState: number;
+  send(frame: string | ArrayBuffer): void;
+  close(): void;
+  terminate(): void;
+  on(event: 'message', listener: (data: RawData | string, isBinary: boolean) => void): unknown;
+  on(event: 'close', listener: () => void): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+}
+
+/**
+ * A connected client as seen by the server
+ */
+export interface ServerPlayer {
+  id: string;
+  name: string;
+  socket: PlayerSocket;
+  sessionKey: string | null;
+  playerIndex: number;
+  state: RemotePlayerState;
+  lastSeen: number;
+  // Lets the client reclaim this player after a dropped connection
+  resumeToken: string;
+  // Set while the player is gone but still within its grace window
+  disconnectedAt: number | null;
+  // How messages to this player are encoded, agreed at auth
+  codec: WireCodec;
+  // Rebuilds the client's delta-compressed snapshots; `snapshot` is the latest
+  snapshots: SnapshotDecoder;
+  snapshot: GameSnapshot | null;
+  // The last update relayed about this player, for viewers they stop being dormant to
+  lastUpdate: PlayerUpdateBroadcast | null;
+}
+
+const otherTeam = (team: PlayerType): PlayerType => team === 'jackalope' ? 'merc' : 'jackalope';
+
+/**
+ * A single game session (room) on the local server
+ */
+export class Session {
+  readonly key: string;
+  readonly id: string;
+  readonly name: string;
+  // Left out of the lobby listing; only reachable by its key (the join code)
+  readonly isPrivate: boolean;
+  readonly createdAt: number = Date.now();
+  // What it's played on: spawn points, rabbit holes, and what blocks sight
+  readonly map: GameMap;
+  // The server is the authority for hits in its sessions
+  readonly hits = new HitAuthority();
+  // ...and for how far players can move between updates
+  readonly movement = new MovementAuthority();
+  // ...and for the match clock and the score
+  readonly round: RoundStateMachine;
+  // Every point scored here, which the round's totals are counted from
+  readonly ledger = new ScoreLedger();
+  // ...and for where players come back into play
+  readonly spawns: SpawnSelector;
+  // Who hears about whom, and how often; nobody past the fog is heard at all
+  readonly interest: InterestManager;
+  // Players who were killed, or jackalopes who made a capture, and haven't
+  // respawned yet; they can't score or be scored on again until they do
+  readonly awaitingRespawn = new Set<string>();
+  // Players who haven't been put at their spawns since the round went live
+  readonly awaitingRoundStart = new Set<string>();
+  private players: Map<string, ServerPlayer> = new Map();
+  // Watching and waiting for a slot, in arrival order. Not on a team, not hittable, never announced.
+  private spectators: ServerPlayer[] = [];
+
+  constructor(key: string, options: { name?: string; isPrivate?: boolean; mapId?: string; roundTimings?: Partial<RoundTimings> } = {}) {
+    this.key = key;
+    this.id = `session_${key.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`;
+    this.name = options.name ?? key;
+    this.isPrivate = options.isPrivate ?? false;
+    this.map = getMap(options.mapId);
+    this.spawns = new SpawnSelector(spawnMapOf(this.map));
+    this.interest = new InterestManager(FOG_PRESETS[this.map.fog].far, spawnMapOf(this.map).occluders);
+    this.round = new RoundStateMachine(options.roundTimings, this.createdAt);
+  }
+
+  get size(): number {
+    return this.players.size;
+  }
+
+  isEmpty(): boolean {
+    return this.players.size === 0 && this.spectators.length === 0;
+  }
+
+  isFull(): boolean {
+    return this.players.size >= MAX_PLAYERS_PER_SESSION;
+  }
+
+  has(playerId: string): boolean {
+    return this.players.has(playerId);
+  }
+
+  get(playerId: string): ServerPlayer | undefined {
+    return this.players.get(playerId);
+  }
+
+  // Lowest free slot; slots only order players now, teams are assigned separately
+  nextPlayerIndex(): number {
+    const taken = new Set(Array.from(this.players.values(), player => player.playerIndex));
+    let index = 0;
+    while (taken.has(index)) index++;
+    return index;
+  }
+
+  teamSize(team: PlayerType): number {
+    return this.all().filter(player => player.state.playerType === team).length;
+  }
+
+  /**
+   * Team for a player about to join: the smaller one, or `preferred` if that
+   * doesn't leave the teams more than one apart. Ties go to the jackalopes.
+   */
+  assignTeam(preferred?: PlayerType): PlayerType {
+    if (preferred && this.teamSize(preferred) <= this.teamSize(otherTeam(preferred))) {
+      return preferred;
+    }
+    return this.teamSize('merc') < this.teamSize('jackalope') ? 'merc' : 'jackalope';
+  }
+
+  /**
+   * Whether `player` may move to `team`: only towards the smaller team, so a
+   * switch never leaves the teams further apart than before
+   */
+  canSwitch(player: ServerPlayer, team: PlayerType): boolean {
+    return player.state.playerType !== team && this.teamSize(team) < this.teamSize(player.state.playerType);
+  }
+
+  /**
+   * After someone leaves: if the teams are two or more apart, the latest
+   * joiner of the bigger team and the team to move them to
+   */
+  rebalance(): { player: ServerPlayer; team: PlayerType } | null {
+    const jackalopes = this.teamSize('jackalope');
+    const mercs = this.teamSize('merc');
+    if (Math.abs(jackalopes - mercs) < 2) return null;
+
+    const bigger: PlayerType = jackalopes > mercs ? 'jackalope' : 'merc';
+    const player = this.all().filter(candidate => candidate.state.playerType === bigger).pop()!;
+    return { player, team: otherTeam(bigger) };
+  }
+
+  add(player: ServerPlayer): void {
+    this.players.set(player.id, player);
+    this.hits.updatePlayer(player.id, player.state);
+  }
+
+  remove(playerId: string): ServerPlayer | undefined {
+    const player = this.players.get(playerId);
+    this.players.delete(playerId);
+    this.hits.removePlayer(playerId);
+    this.movement.remove(playerId);
+    this.spawns.remove(playerId);
+    this.interest.forget(playerId);
+    this.awaitingRespawn.delete(playerId);
+    this.awaitingRoundStart.delete(playerId);
+    return player;
+  }
+
+  /**
+   * Whether a player may ask to come back: once they're down or have made a
+   * capture, or once as a round starts and everyone heads for their spawns
+   */
+  mayRespawn(playerId: string): boolean {
+    return this.hits.health.isDead(playerId) || this.awaitingRespawn.has(playerId) || this.awaitingRoundStart.has(playerId);
+  }
+
+  /**
+   * Pick a spawn point for a player, away from the enemies still standing, and put them there
+   */
+  respawn(player: ServerPlayer, now: number = Date.now()): SpawnChoice {
+    const team = player.state.playerType;
+    const enemies = this.all()
+      .filter(other => other.state.playerType !== team && !this.hits.health.isDead(other.id))
+      .map(other => other.state.position);
+    const spawn = this.spawns.choose(player.id, team, enemies, now);
+
+    // Respawns teleport; don't hold the jump against the next update
+    this.movement.reset(player.id);
+    this.hits.respawnPlayer(player.id, spawn.protectedUntil);
+    this.awaitingRespawn.delete(player.id);
+    this.awaitingRoundStart.delete(player.id);
+    player.state = { ...player.state, position: spawn.position, health: this.hits.health.get(player.id, now) };
+    this.hits.updatePlayer(player.id, player.state, now);
+    return spawn;
+  }
+
+  all(): ServerPlayer[] {
+    return Array.from(this.players.values());
+  }
+
+  addSpectator(player: ServerPlayer): void {
+    this.spectators.push(player);
+  }
+
+  removeSpectator(playerId: string): boolean {
+    const before = this.spectators.length;
+    this.spectators = this.spectators.filter(spectator => spectator.id !== playerId);
+    return this.spectators.length !== before;
+  }
+
+  isSpectator(playerId: string): boolean {
+    return this.spectators.some(spectator => spectator.id === playerId);
+  }
+
+  // 1-based place in the queue, or 0 if not spectating
+  queuePosition(playerId: string): number {
+    return this.spectators.findIndex(spectator => spectator.id === playerId) + 1;
+  }
+
+  spectatorQueue(): ServerPlayer[] {
+    return [...this.spectators];
+  }
+
+  // Take the spectator who has waited longest, to fill a free slot
+  nextSpectator(): ServerPlayer | undefined {
+    return this.isFull() ? undefined : this.spectators.shift();
+  }
+
+  // Everyone who should see what happens in the session: players and spectators
+  audience(): ServerPlayer[] {
+    return [...this.all(), ...this.spectators];
+  }
+
+  others(playerId: string): ServerPlayer[] {
+    return this.all().filter(player => player.id !== playerId);
+  }
+
+  summary(): SessionSummary {
+    return {
+      key: this.key,
+      name: this.name,
+      playerCount: this.size,
+      maxPlayers: MAX_PLAYERS_PER_SESSION,
+      spectatorCount: this.spectators.length,
+      private: this.isPrivate,
+      mapId: this.map.id
+    };
+  }
+
+  // Player map in the shape expected by player_list / connection messages
+  snapshot(): Record<string, RemotePlayerState> {
+    const players: Record<string, RemotePlayerState> = {};
+    this.players.forEach(player => {
+      players[player.id] = { ...player.state, health: this.hits.health.get(player.id) };
+    });
+    return players;
+  }
+}
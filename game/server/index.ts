@@ -0,0 +1,42 @@
+/**
+ * Run the local development server:
+ *
+ *   npm run server              # ws://localhost:8082
+ *   npm run server -- --port 9000
+ *   npm run server -- --map crossroads
+ *   npm run server -- --map generated-1234   # arena built from seed 1234
+ */
+import { GameServer } from './GameServer';
+import { DEFAULT_MAP_ID, MAPS, isMapId } from '../src/game/maps';
+
+const readPort = (): number => {
+  const flag = process.argv.indexOf('--port');
+  const value = flag !== -1 ? process.argv[flag + 1] : process.env.PORT;
+  const port = value ? parseInt(value, 10) : 8082;
+  return Number.isNaN(port) ? 8082 : port;
+};
+
+// Map for sessions that don't pick one
+const readMap = (): string => {
+  const flag = process.argv.indexOf('--map');
+  const value = flag !== -1 ? process.argv[flag + 1] : process.env.MAP;
+  if (!value) return DEFAULT_MAP_ID;
+  if (!isMapId(value)) {
+    console.error(`[GameServer] Unknown map ${value}; choose from ${Object.keys(MAPS).join(', ')} or generated-<seed>`);
+    process.exit(1);
+  }
+  return value;
+};
+
+const server = new GameServer({ port: readPort(), mapId: readMap() });
+
+server.start().catch(error => {
+  console.error('[GameServer] Failed to start:', error.message);
+  process.exit(1);
+});
+
+const shutdown = () => {
+  server.stop().then(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
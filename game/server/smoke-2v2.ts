@@ -0,0 +1,760 @@
+/**
+ * Headless 2v2 match against the local server, for CI:
+ *
+ *   npm run server:smoke
+ *
+ * Starts a server on a free port, joins four bots to one session (plus one
+ * bot in a second session to check isolation), syncs their clocks, exchanges
+ * updates, delta snapshots, inputs, shots and abilities, drops and resumes a connection, browses and
+ * creates sessions, spectates a full session (over JSON while the bots talk binary),
+ * thins updates by relevancy, switches and rebalances teams,
+ * then plays and scores a short round through overtime on a second server, rolls the
+ * network simulator's dice twice to see they land the same, plays over a connection
+ * handed to the server the way a hosting browser tab does, and exits
+ * non-zero if anything doesn't arrive where it should.
+ */
+import { EventEmitter } from 'events';
+import { GameServer } from './GameServer';
+import { HeadlessClient } from './HeadlessClient';
+import type { PlayerSocket } from './Session';
+import {
+  PROTOCOL_VERSION,
+  CODEC_NEGOTIATION_VERSION,
+  PlayerUpdateBroadcast,
+  ServerMessage,
+  encodeClientMessage,
+  parseServerMessage
+} from '../src/network/protocol';
+import { ScoreLedger } from '../src/network/ScoreLedger';
+import { getMap, loadMap } from '../src/game/maps';
+import { generateArena } from '../src/game/maps/generator';
+import { decodeBinaryClientMessage, encodeBinaryClientMessage } from '../src/network/BinaryCodec';
+import { NETWORK_PRESETS, NetworkSimulator } from '../src/network/NetworkSimulator';
+import type {
+  GameSnapshot,
+  PlayerHitEvent,
+  PlayerRespawnEvent,
+  PlayerShootEvent,
+  PlayerState,
+  RoundPhase
+} from '../src/types/game';
+
+const SESSION = 'JACKALOPES-SMOKE';
+const RESUME_GRACE_MS = 300;
+const OTHER_SESSION = 'JACKALOPES-SMOKE-OTHER';
+const RELEVANCY_SESSION = 'JACKALOPES-SMOKE-RELEVANCY';
+const ROUND_TIMINGS = { warmupMs: 100, roundMs: 1000, overtimeMs: 300, resultsMs: 400, intermissionMs: 100 };
+
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) throw new Error(message);
+};
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+const run = async (): Promise<void> => {
+  const server = new GameServer({ port: 0, host: '127.0.0.1', resumeGraceMs: RESUME_GRACE_MS, quiet: true });
+  const port = await server.start();
+  const url = `ws://127.0.0.1:${port}`;
+  const bots = ['alpha', 'bravo', 'charlie', 'delta'].map(name => new HeadlessClient(name));
+  const outsider = new HeadlessClient('outsider');
+  // Only speaks JSON, to share a session with bots on the binary codec
+  const guest = new HeadlessClient('guest', ['json']);
+
+  try {
+    // Join one at a time so indices are deterministic
+    for (const bot of bots) {
+      await bot.join(url, SESSION);
+    }
+    await outsider.join(url, OTHER_SESSION);
+
+    const types = bots.map(bot => bot.playerType);
+    assert(types.filter(type => type === 'jackalope').length === 2, `expected 2 jackalopes, got ${types.join(',')}`);
+    assert(types.filter(type => type === 'merc').length === 2, `expected 2 mercs, got ${types.join(',')}`);
+    console.log(`✅ 2v2 teams: ${bots.map(bot => `${bot.name}=${bot.playerType}`).join(', ')}`);
+
+    // Same machine, so the estimated offset should be close to zero
+    for (const bot of bots) {
+      const clock = await bot.syncClock();
+      assert(clock.isSynced(), `${bot.name} never synced its clock`);
+      assert(Math.abs(clock.getOffset()) < 50, `${bot.name} clock offset ${clock.getOffset()}ms`);
+    }
+    console.log(`✅ Clocks synced (rtt ${bots[0].clock.getRoundTripTime()}ms)`);
+
+    // Everyone learns about everyone else, via player_list or player_joined
+    for (const bot of bots) {
+      for (const other of bots) {
+        if (other === bot) continue;
+        await Promise.race([
+          bot.waitFor('player_joined', message => message.id === other.id),
+          bot.waitFor('player_list', message => other.id! in message.players)
+        ]);
+      }
+    }
+    console.log('✅ All players see each other');
+
+    // Movement reaches the rest of the session
+    bots.forEach((bot, index) => bot.sendUpdate([index * 2, 1, -index * 2]));
+    for (const bot of bots) {
+      for (const other of bots) {
+        if (other === bot) continue;
+        await bot.waitFor('player_update', message => message.id === other.id);
+      }
+    }
+    console.log('✅ player_update relayed');
+
+    // The bots offered binary and got it; positions survive the trip to within quantization
+    assert(bots.every(bot => bot.codec === 'binary'), `bots got codecs ${bots.map(bot => bot.codec).join(',')}`);
+    const relayed = bots[0].received.find(message => message.type === 'player_update' && message.id === bots[2].id);
+    assert(relayed?.type === 'player_update' && relayed.state.position.every((value, axis) =>
+      Math.abs(value - [4, 1, -4][axis]) <= 1 / 256), `binary update arrived as ${JSON.stringify(relayed)}`);
+    const sample: PlayerState = {
+      position: [-123.456, 7.89, 1000.001],
+      rotation: [0.1, -0.7, 0.2, 0.676],
+      velocity: [3.3, -9.81, 0],
+      sequence: 1_700_000_000_123,
+      playerType: 'jackalope',
+      running: true,
+      flashlightOn: true,
+      health: 42.5,
+      timestamp: 1_700_000_000_456,
+      inputs: [
+        { sequence: 1_700_000_000_124, forward: true, backward: false, left: false, right: true, jump: false, sprint: true,
+          moveX: 0.5, moveY: -1, yaw: -2.5, delta: 1 / 240 }
+      ]
+    };
+    const frame = encodeBinaryClientMessage({ type: 'player_update', state: sample })!;
+    const decoded = decodeBinaryClientMessage(frame);
+    if (!decoded.ok || decoded.value.type !== 'player_update') throw new Error(`binary round trip failed: ${JSON.stringify(decoded)}`);
+    const roundTrip = decoded.value.state;
+    const length = Math.hypot(...sample.rotation);
+    const dot = Math.abs(roundTrip.rotation.reduce((sum, value, axis) => sum + value * sample.rotation[axis] / length, 0));
+    const [input] = roundTrip.inputs!;
+    assert(roundTrip.sequence === sample.sequence && roundTrip.timestamp === sample.timestamp &&
+      roundTrip.position.every((value, axis) => Math.abs(value - sample.position[axis]) <= 1 / 256) &&
+      roundTrip.velocity!.every((value, axis) => Math.abs(value - sample.velocity![axis]) <= 1 / 128) &&
+      dot > 0.9999 && roundTrip.health === 42.5 && roundTrip.running && roundTrip.flashlightOn && !roundTrip.jumping &&
+      input.sequence === 1_700_000_000_124 && input.forward && input.right && input.sprint && !input.jump &&
+      Math.abs(input.yaw - sample.inputs![0].yaw) < 1e-3 && Math.abs(input.delta - 1 / 240) < 1e-4,
+    `binary round trip drifted: ${JSON.stringify(roundTrip)}`);
+    const jsonBytes = JSON.stringify({ type: 'player_update', state: sample }).length;
+    console.log(`✅ Binary codec negotiated (${frame.byteLength} bytes vs ${jsonBytes} as JSON)`);
+
+    // Snapshots go out as deltas against the last acknowledged one; events repeat until acknowledged
+    const snapshotter = bots[0];
+    const serverView = () => server.getSessions().find(session => session.key === SESSION)!
+      .audience().find(player => player.id === snapshotter.id)!.snapshot;
+    const snapshotAck = (sequence: number) =>
+      snapshotter.waitFor('snapshot_ack', message => message.sequence === sequence);
+    const shotEvent = (shotId: string): PlayerShootEvent => ({
+      event_type: 'player_shoot', shotId, player_id: snapshotter.id!, playerType: snapshotter.playerType!,
+      origin: [0, 1, 0], direction: [0, 0, -1], timestamp: snapshotter.clock.getServerTime()
+    });
+    const snapshotOf = (x: number, events: PlayerShootEvent[] = []): GameSnapshot => ({
+      sequence: 0,
+      timestamp: Math.round(snapshotter.clock.getServerTime()),
+      players: {
+        [snapshotter.id!]: { id: snapshotter.id!, position: [x, 1, 0], rotation: [0, 0, 0, 1], health: 100 },
+        [bots[1].id!]: { id: bots[1].id!, position: [2, 1, -2], rotation: [0, 0, 0, 1], health: 80 }
+      },
+      events
+    });
+    assert(snapshotter.capabilities.includes('snapshot_deltas'), `server didn't offer snapshot deltas: ${snapshotter.capabilities}`);
+    const keyframe = snapshotter.sendSnapshot(snapshotOf(0));
+    assert(keyframe.baseline === undefined && Object.keys(keyframe.players).length === 2, `first snapshot wasn't a keyframe: ${JSON.stringify(keyframe)}`);
+    await snapshotAck(keyframe.sequence);
+    const moved = snapshotter.sendSnapshot(snapshotOf(3, [shotEvent('snapshot-shot-a')]));
+    assert(moved.baseline === keyframe.sequence && Object.keys(moved.players).length === 1 &&
+      Object.keys(moved.players[snapshotter.id!]).join(',') === 'id,position' && moved.events.length === 1,
+      `delta carried more than what changed: ${JSON.stringify(moved)}`);
+    await snapshotAck(moved.sequence);
+    assert(serverView()?.players[snapshotter.id!].position[0] === 3 && serverView()?.players[bots[1].id!].health === 80,
+      `server rebuilt ${JSON.stringify(serverView())}`);
+    // Lose a snapshot on the way: its event rides along with the next one, the acknowledged one doesn't
+    snapshotter.snapshots.encode(snapshotOf(3, [shotEvent('snapshot-shot-b')]));
+    const afterLoss = snapshotter.sendSnapshot(snapshotOf(3));
+    assert(afterLoss.baseline === moved.sequence && Object.keys(afterLoss.players).length === 0 &&
+      afterLoss.events.map(({ event }) => (event as PlayerShootEvent).shotId).join(',') === 'snapshot-shot-b',
+      `lost event wasn't resent: ${JSON.stringify(afterLoss)}`);
+    await snapshotAck(afterLoss.sequence);
+    assert(snapshotter.snapshots.pendingEvents() === 0, 'acknowledged events are still pending');
+    assert(serverView()?.events.length === 1, `server saw events ${JSON.stringify(serverView()?.events)}`);
+    // A repeated frame is dropped without an ack, and leaves the rebuilt snapshot alone
+    const acksBefore = snapshotter.received.filter(message => message.type === 'snapshot_ack').length;
+    snapshotter.send({ type: 'game_snapshot', delta: moved });
+    await sleep(50);
+    assert(snapshotter.received.filter(message => message.type === 'snapshot_ack').length === acksBefore &&
+      serverView()?.events.length === 1, `stale snapshot was applied: ${JSON.stringify(serverView())}`);
+    // An event sent on its own and then repeated in a snapshot is taken once
+    const direct = shotEvent('snapshot-shot-c');
+    const takenShots = () => snapshotter.received.filter(message => message.type === 'game_event' &&
+      (message.event as PlayerShootEvent).shotId === 'snapshot-shot-c').length;
+    snapshotter.send({ type: 'game_event', event: direct, sequence: snapshotter.snapshots.queue(direct) });
+    const repeated = snapshotter.sendSnapshot(snapshotOf(3));
+    assert(repeated.events.length === 1, `direct event wasn't held for the snapshot: ${JSON.stringify(repeated)}`);
+    await snapshotAck(repeated.sequence);
+    await sleep(50);
+    assert(takenShots() === 1 && serverView()?.events.length === 0, `direct event taken ${takenShots()} times`);
+    // Build on a snapshot the server never got: it asks for a keyframe and gets one
+    const unseen = snapshotter.snapshots.encode(snapshotOf(4));
+    snapshotter.snapshots.acknowledge(unseen.sequence);
+    const orphan = snapshotter.sendSnapshot(snapshotOf(5));
+    await snapshotter.waitFor('snapshot_ack', message => message.sequence === orphan.sequence && message.baselineLost === true);
+    const recovery = snapshotter.sendSnapshot(snapshotOf(5));
+    assert(recovery.baseline === undefined, `no keyframe after the baseline was lost: ${JSON.stringify(recovery)}`);
+    await snapshotAck(recovery.sequence);
+    assert(serverView()?.players[snapshotter.id!].position[0] === 5, `server didn't recover: ${JSON.stringify(serverView())}`);
+    console.log(`✅ Snapshot deltas acknowledged (${Object.keys(moved.players).length} of 2 players in a delta), lost event resent, stale frame dropped, direct event taken once, keyframe after a lost baseline`);
+
+    // Shots are relayed to the whole session
+    const merc = bots.find(bot => bot.playerType === 'merc')!;
+    const shotId = merc.shoot([0, 1, 0], [0, 0, -1]);
+    for (const bot of bots) {
+      await bot.waitFor('game_event', message =>
+        message.event.event_type === 'player_shoot' && message.event.shotId === shotId);
+    }
+    // Fields that aren't part of the event are stripped before it's relayed
+    const paddedShotId = `padded_${merc.id}`;
+    merc.send({
+      type: 'game_event',
+      event: {
+        event_type: 'player_shoot', shotId: paddedShotId, player_id: merc.id!, playerType: 'merc',
+        origin: [0, 1, 0], direction: [0, 0, -1], timestamp: merc.clock.getServerTime(), smuggled: 'x'
+      } as PlayerShootEvent
+    });
+    const padded = await bots[1].waitFor('game_event', message =>
+      message.event.event_type === 'player_shoot' && message.event.shotId === paddedShotId);
+    assert(!('smuggled' in padded.event), `unknown field relayed: ${JSON.stringify(padded.event)}`);
+    console.log('✅ game_event relayed, unknown fields dropped');
+
+    // Hits are only confirmed when they line up with the target's position
+    const jackalopes = bots.filter(bot => bot.playerType === 'jackalope');
+    const [target, bystander] = jackalopes;
+    const targetPosition: [number, number, number] = [bots.indexOf(target) * 2, 1, -bots.indexOf(target) * 2];
+    const bystanderPosition: [number, number, number] = [bots.indexOf(bystander) * 2, 1, -bots.indexOf(bystander) * 2];
+    const missedShot = merc.shoot([0, 1, 0], [0, 0, -1]);
+    merc.reportHit(missedShot, bystander.id!, [bystanderPosition[0] + 40, bystanderPosition[1], bystanderPosition[2]]);
+    merc.reportHit(shotId, target.id!, targetPosition);
+    for (const bot of bots) {
+      await bot.waitFor('game_event', message =>
+        message.event.event_type === 'player_hit' && message.event.shotId === shotId && message.event.player_id === target.id);
+    }
+    const falseHits = bots[0].received.filter(message =>
+      message.type === 'game_event' && message.event.event_type === 'player_hit' && message.event.shotId === missedShot);
+    assert(falseHits.length === 0, 'implausible hit was confirmed');
+    console.log('✅ player_hit confirmed by server, implausible hit rejected');
+
+    // Fireballs lose punch with distance, and the jackalope's kick hurts mercs up close
+    const runner = bystander;
+    const farPosition: [number, number, number] = [bystanderPosition[0], 1, bystanderPosition[2] + 40];
+    merc.sendUpdate(farPosition);
+    await sleep(50);
+    const farShot = merc.shoot(farPosition, [0, 0, -1]);
+    // A fireball takes about a third of a second to cover that
+    await sleep(350);
+    merc.reportHit(farShot, runner.id!, bystanderPosition);
+    const farHit = (await runner.waitFor('game_event', message =>
+      message.event.event_type === 'player_hit' && message.event.shotId === farShot)).event as PlayerHitEvent;
+    assert(farHit.damage < 100 && farHit.killed === false && farHit.health === 100 - farHit.damage,
+      `long-range hit: ${JSON.stringify(farHit)}`);
+    runner.sendUpdate(bystanderPosition);
+    await merc.waitFor('player_update', message => message.id === runner.id && message.state.health === 100 - farHit.damage);
+    const rewound = server.getSessions().find(session => session.key === SESSION)!.hits.history.getSnapshotAtTime(Date.now());
+    assert(rewound?.players[runner.id!].health === 100 - farHit.damage,
+      `history lost the runner's health: ${JSON.stringify(rewound?.players[runner.id!])}`);
+    const mercPosition: [number, number, number] = [bystanderPosition[0] + 2, 1, bystanderPosition[2]];
+    merc.sendUpdate(mercPosition);
+    await sleep(50);
+    const kick = runner.shoot(bystanderPosition, [1, 0, 0], { weapon: 'counter' });
+    runner.reportHit(kick, merc.id!, mercPosition);
+    const kickHit = (await merc.waitFor('game_event', message =>
+      message.event.event_type === 'player_hit' && message.event.shotId === kick)).event as PlayerHitEvent;
+    assert(kickHit.player_id === merc.id && kickHit.health === 75,
+      `counter-attack: ${JSON.stringify(kickHit)}`);
+    console.log(`✅ Fireball did ${farHit.damage} at 40 units, counter-attack left the merc on ${kickHit.health}`);
+
+    // The flamethrower only burns what's in front of it
+    const flamePosition: [number, number, number] = [bystanderPosition[0], 1, bystanderPosition[2] + 6];
+    merc.sendUpdate(flamePosition);
+    await sleep(50);
+    const wide = merc.shoot(flamePosition, [1, 0, 0], { weapon: 'flamethrower' });
+    merc.reportHit(wide, runner.id!, bystanderPosition);
+    const flame = merc.shoot(flamePosition, [0, 0, -1], { weapon: 'flamethrower' });
+    merc.reportHit(flame, runner.id!, bystanderPosition);
+    const flameHit = (await runner.waitFor('game_event', message =>
+      message.event.event_type === 'player_hit' && message.event.shotId === flame)).event as PlayerHitEvent;
+    assert(!runner.received.some(message =>
+      message.type === 'game_event' && message.event.event_type === 'player_hit' && message.event.shotId === wide),
+      'flamethrower hit something outside its cone');
+    assert(flameHit.damage < farHit.damage && flameHit.killed === false, `flamethrower hit: ${JSON.stringify(flameHit)}`);
+    console.log(`✅ Flamethrower burned for ${flameHit.damage}, nothing outside its cone`);
+
+    // A laggy merc hits where the jackalope was on their screen, not where it is now
+    const before: [number, number, number] = [50, 1, 50];
+    const after: [number, number, number] = [80, 1, 50];
+    merc.sendUpdate([50, 1, 40]);
+    runner.sendUpdate(before);
+    await sleep(250);
+    runner.sendUpdate(before);
+    await sleep(50);
+    runner.sendUpdate(after);
+    await sleep(20);
+    const laggyShot = merc.shoot([50, 1, 40], [0, 0, 1], { latency: 150, timestamp: merc.clock.getServerTime() - 150 });
+    merc.reportHit(laggyShot, runner.id!, before);
+    await bots[0].waitFor('game_event', message =>
+      message.event.event_type === 'player_hit' && message.event.shotId === laggyShot);
+    console.log('✅ Lag-compensated hit confirmed');
+
+    // A burrowed jackalope can't be hit or move, and can't burrow again until the cooldown runs out
+    const burrow = runner.ability('burrow', after);
+    await merc.waitFor('game_event', message =>
+      message.event.event_type === 'ability_used' && message.event.abilityId === burrow);
+    merc.sendUpdate([80, 1, 45]);
+    await sleep(50);
+    const buriedShot = merc.shoot([80, 1, 45], [0, 0, 1]);
+    merc.reportHit(buriedShot, runner.id!, after);
+    const burrowAgain = runner.ability('burrow', after);
+    const dug = runner.sendMove([80, 1, 58], 24);
+    const dugAck = await runner.waitFor('input_ack', message => message.sequence === dug);
+    await sleep(100);
+    assert(dugAck.corrected && dugAck.position[2] < 51, `burrowed jackalope moved to ${dugAck.position.join(',')}`);
+    assert(!merc.received.some(message =>
+      message.type === 'game_event' && message.event.event_type === 'player_hit' && message.event.shotId === buriedShot),
+      'burrowed jackalope was hit');
+    assert(!merc.received.some(message =>
+      message.type === 'game_event' && message.event.event_type === 'ability_used' && message.event.abilityId === burrowAgain),
+      'burrow was used again during its cooldown');
+    console.log('✅ Burrowed jackalope held still and dodged a hit, cooldown enforced');
+
+    // Predicted movement is acknowledged, and moves the inputs can't explain are clamped
+    const walker = bots[0];
+    const walked = walker.sendMove([0, 1, -3], 24);
+    const walkAck = await walker.waitFor('input_ack', message => message.sequence === walked);
+    assert(!walkAck.corrected, `legitimate move was corrected to ${walkAck.position.join(',')}`);
+    const teleported = walker.sendMove([0, 1, -103], 24);
+    const teleportAck = await walker.waitFor('input_ack', message => message.sequence === teleported);
+    assert(teleportAck.corrected && teleportAck.position[2] > -10, `teleport was accepted at ${teleportAck.position.join(',')}`);
+    await bots[1].waitFor('player_update', message =>
+      message.id === walker.id && message.state.sequence === teleported &&
+      Math.abs(message.state.position[2] - teleportAck.position[2]) <= 1 / 256);
+    console.log(`✅ Inputs acknowledged, teleport clamped to z=${teleportAck.position[2].toFixed(1)}`);
+
+    // A jackalope's dash covers more ground than the inputs that came with it
+    assert(walker.playerType === 'jackalope', `${walker.name} can't dash as a ${walker.playerType}`);
+    const dashFrom = teleportAck.position;
+    const dash = walker.ability('dash', dashFrom, [0, 0, -1]);
+    await walker.waitFor('game_event', message =>
+      message.event.event_type === 'ability_used' && message.event.abilityId === dash);
+    const dashed = walker.sendMove([dashFrom[0], 1, dashFrom[2] - 12], 24);
+    const dashAck = await walker.waitFor('input_ack', message => message.sequence === dashed);
+    assert(!dashAck.corrected, `dash was clamped to ${dashAck.position.join(',')}`);
+    console.log('✅ Dash let through');
+
+    // Once a client has sent inputs, leaving them off doesn't get a teleport past the check
+    walker.sendUpdate([dashFrom[0], 1, dashFrom[2] - 112]);
+    const bareAck = await walker.waitFor('input_ack', message => message.sequence > dashed);
+    assert(bareAck.corrected && bareAck.position[2] > dashAck.position[2] - 2, `teleport without inputs was accepted at ${bareAck.position.join(',')}`);
+    console.log('✅ Update without inputs clamped for a predicting client');
+
+    // A dropped player keeps their slot and comes back as the same player
+    const dropped = bots[2];
+    const { id: droppedId, playerIndex: droppedIndex } = dropped;
+    dropped.drop();
+    await bots[0].waitFor('player_reconnecting', message => message.id === droppedId);
+    await dropped.join(url, SESSION);
+    assert(dropped.resumed, `${dropped.name} was not resumed`);
+    assert(dropped.id === droppedId && dropped.playerIndex === droppedIndex,
+      `${dropped.name} came back as ${dropped.id} #${dropped.playerIndex}, was ${droppedId} #${droppedIndex}`);
+    await bots[0].waitFor('player_resumed', message => message.id === droppedId);
+    assert(!bots[0].received.some(message => message.type === 'player_left' && message.id === droppedId),
+      'resumed player was announced as leaving');
+    console.log(`✅ ${dropped.name} resumed as ${droppedId} #${droppedIndex}`);
+
+    // Nothing leaks into the other session
+    const leaked = outsider.received.filter(message =>
+      (message.type === 'player_update' || message.type === 'player_joined') && bots.some(bot => bot.id === message.id));
+    assert(leaked.length === 0, `outsider received ${leaked.length} messages from ${SESSION}`);
+    assert(server.getSessions().length === 2, `expected 2 sessions, got ${server.getSessions().length}`);
+    console.log('✅ Sessions are isolated');
+
+    // The lobby lists public sessions with their player counts; private ones only by code
+    const listed = await outsider.listSessions();
+    const smokeListing = listed.find(session => session.key === SESSION);
+    assert(smokeListing?.playerCount === 4 && smokeListing.maxPlayers === 4 && smokeListing.mapId === 'arena',
+      `${SESSION} listed as ${JSON.stringify(smokeListing)}`);
+    const joinCode = await outsider.createSession('Smoke private room', true, 'crossroads');
+    assert(outsider.mapId === 'crossroads', `private room is on ${outsider.mapId}`);
+    assert(/^[A-Z0-9]{6}$/.test(joinCode), `unexpected join code ${joinCode}`);
+    assert(!(await bots[0].listSessions()).some(session => session.key === joinCode), 'private session was listed');
+    assert(!(await bots[0].listSessions()).some(session => session.key === OTHER_SESSION), 'empty session was not closed');
+    // outsider is the room's only jackalope, so asking for the same team is refused
+    await guest.join(url, joinCode, 'jackalope');
+    assert(guest.playerType === 'merc', `guest joined an uneven room as ${guest.playerType}`);
+    await outsider.waitFor('player_joined', message => message.id === guest.id);
+    assert(guest.mapId === 'crossroads', `guest was told the map is ${guest.mapId}`);
+    console.log(`✅ Session list and private room ${joinCode} on ${guest.mapId}`);
+
+    // Sessions can only be opened on maps the server has, and broken map files are turned away
+    guest.send({ type: 'create_session', playerName: guest.name, mapId: 'nowhere' });
+    await guest.waitFor('error', message => message.code === 'unknown_map');
+    guest.send({ type: 'create_session', playerName: guest.name, mapId: 'constructor' });
+    await guest.waitFor('error', message => message.code === 'unknown_map' && message.message.includes('constructor'));
+    assert(getMap('__proto__').id === getMap().id, `__proto__ resolved to ${getMap('__proto__').id}`);
+    const broken = loadMap({ ...getMap(), id: 'Broken Map', spawns: [], scoringZones: [{ id: 'hole', radius: -1 }] });
+    assert(!broken.ok && broken.errors.length === 3, `broken map loaded as ${JSON.stringify(broken)}`);
+    console.log(`✅ Unknown map refused, broken map file rejected (${!broken.ok && broken.errors.join('; ')})`);
+
+    // A generated arena travels as its seed; the server and every client build the same one
+    const arenaCode = await guest.createSession('Smoke generated room', true, 'generated-1234');
+    assert(guest.mapId === 'generated-1234', `generated room is on ${guest.mapId}`);
+    const generatedSession = server.getSessions().find(session => session.key === arenaCode);
+    assert(JSON.stringify(generatedSession?.map) === JSON.stringify(generateArena(1234)), 'generated arena differs from its seed');
+    assert(loadMap(JSON.parse(JSON.stringify(generateArena(1234)))).ok, 'generated arena fails its own checks');
+    assert(JSON.stringify(generateArena(1235)) !== JSON.stringify(generateArena(1234)), 'seeds 1234 and 1235 built the same arena');
+    console.log(`✅ Generated arena ${arenaCode} rebuilt identically from seed 1234`);
+
+    await checkRelevancy(url);
+
+    // A full session takes newcomers as spectators: they watch, but don't play
+    await guest.joinSession(SESSION);
+    assert(guest.spectator && guest.queuePosition === 1,
+      `guest joined a full session as ${guest.spectator ? `spectator #${guest.queuePosition}` : guest.playerType}`);
+    await outsider.waitFor('player_left', message => message.id === guest.id);
+    bots[0].sendUpdate([0, 1, 0]);
+    await guest.waitFor('player_update', message => message.id === bots[0].id);
+    assert(guest.codec === 'json', `JSON-only guest was given ${guest.codec}`);
+    guest.sendUpdate([5, 1, 5]);
+    await sleep(50);
+    assert(!bots[1].received.some(message =>
+      (message.type === 'player_update' || message.type === 'player_joined') && message.id === guest.id),
+      'spectator was shown to the players');
+    console.log('✅ Spectator watches a full session');
+
+    // Leaving is announced once the grace window runs out, and the free slot goes to the spectator
+    const seatedSince = guest.received.length;
+    await bots[3].close();
+    await bots[0].waitFor('player_reconnecting', message => message.id === bots[3].id);
+    await bots[0].waitFor('player_left', message => message.id === bots[3].id);
+    await guest.waitFor('join_success', message => guest.received.indexOf(message) >= seatedSince);
+    await bots[0].waitFor('player_joined', message => message.id === guest.id);
+    assert(!guest.spectator && guest.playerType === 'merc', `guest was seated as ${guest.playerType}`);
+    console.log('✅ player_left announced, spectator seated');
+
+    await guest.close();
+    await bots[0].waitFor('player_left', message => message.id === guest.id);
+
+    // 2 jackalopes v 1 merc: switching to the bigger team is refused, to the smaller one allowed
+    const [alpha, bravo, charlie] = bots;
+    bravo.send({ type: 'team_switch_request', playerType: 'jackalope' });
+    await bravo.waitFor('error', message => message.code === 'team_switch_denied');
+    alpha.send({ type: 'team_switch_request', playerType: 'merc' });
+    await charlie.waitFor('team_assignment', message =>
+      message.id === alpha.id && message.playerType === 'merc' && message.reason === 'switch');
+    assert(alpha.playerType === 'merc', `${alpha.name} is still a ${alpha.playerType}`);
+
+    // Losing the last jackalope leaves 0v2, so the newest merc is moved across
+    await charlie.close();
+    await alpha.waitFor('player_left', message => message.id === charlie.id);
+    await bravo.waitFor('team_assignment', message =>
+      message.id === bravo.id && message.playerType === 'jackalope' && message.reason === 'balance');
+    assert(bravo.playerType === 'jackalope' && alpha.playerType === 'merc',
+      `teams after rebalance: ${alpha.name}=${alpha.playerType}, ${bravo.name}=${bravo.playerType}`);
+    console.log(`✅ Team switch and rebalance: ${alpha.name}=${alpha.playerType}, ${bravo.name}=${bravo.playerType}`);
+
+    const protocolErrors = [...bots, outsider, guest].flatMap(bot => bot.errors);
+    assert(protocolErrors.length === 0, `protocol errors: ${protocolErrors.join('; ')}`);
+  } finally {
+    await Promise.all([...bots, outsider, guest].map(bot => bot.close()));
+    await server.stop();
+  }
+
+  await runRound();
+  checkNetworkSimulator();
+  await checkHandedOverSocket();
+};
+
+/**
+ * Two players alone in a night-fogged arena (140m visible): close by they
+ * hear each other in full, out of sight behind a few times a second, and
+ * lost in the fog not at all until one of them comes near again
+ */
+const checkRelevancy = async (url: string): Promise<void> => {
+  const [hotel, india] = ['hotel', 'india'].map(name => new HeadlessClient(name));
+  const updateAt = (z: number) => (message: PlayerUpdateBroadcast) =>
+    message.id === india.id && Math.abs(message.state.position[2] - z) < 1 / 256;
+  const heard = (z: number) => hotel.received.some(message => message.type === 'player_update' && updateAt(z)(message));
+
+  try {
+    await hotel.join(url, RELEVANCY_SESSION);
+    await india.join(url, RELEVANCY_SESSION);
+
+    // Facing -Z, with india close in front
+    hotel.sendUpdate([0, 1, 0]);
+    india.sendUpdate([0, 1, -10]);
+    await hotel.waitFor('player_update', updateAt(-10));
+
+    // Deep in the fog: hotel is told, and hears nothing more
+    india.sendUpdate([0, 1, 1000]);
+    await hotel.waitFor('relevancy', message => message.dormant.includes(india.id!));
+    india.sendUpdate([0, 1, 1001]);
+    await sleep(100);
+    assert(hotel.dormant.join() === india.id && !heard(1000) && !heard(1001), `hotel heard a dormant player (dormant: ${hotel.dormant})`);
+
+    // Behind, out of view and past arm's reach: a burst is thinned, but the last of it still arrives
+    india.sendUpdate([0, 1, 50]);
+    await hotel.waitFor('relevancy', message => message.dormant.length === 0);
+    await hotel.waitFor('player_update', updateAt(50));
+    india.sendUpdate([0, 1, 51]);
+    india.sendUpdate([0, 1, 52]);
+    await hotel.waitFor('player_update', updateAt(52), 1000);
+    assert(!heard(51), 'every update of a player behind was sent');
+
+    // Walking up to a player standing still in the fog wakes them with their last update
+    india.sendUpdate([0, 1, 1000]);
+    await hotel.waitFor('relevancy', message => message.dormant.includes(india.id!));
+    const since = hotel.received.length;
+    hotel.sendUpdate([0, 1, 990]);
+    await hotel.waitFor('player_update', message => updateAt(1000)(message) && hotel.received.indexOf(message) >= since);
+    assert(hotel.dormant.length === 0, `still dormant after coming close: ${hotel.dormant}`);
+    console.log('✅ Relevancy: full when near, thinned behind, dormant in the fog and woken on approach');
+
+    const protocolErrors = [hotel, india].flatMap(bot => bot.errors);
+    assert(protocolErrors.length === 0, `protocol errors: ${protocolErrors.join('; ')}`);
+  } finally {
+    await Promise.all([hotel, india].map(bot => bot.close()));
+  }
+};
+
+/**
+ * One short round on its own server: warmup, a level round into sudden
+ * death, the deciding point, a frozen results screen and the score ledger
+ * for a late joiner, then on to the next round
+ */
+const runRound = async (): Promise<void> => {
+  const server = new GameServer({ port: 0, host: '127.0.0.1', quiet: true, roundTimings: ROUND_TIMINGS });
+  const port = await server.start();
+  const url = `ws://127.0.0.1:${port}`;
+  const [first, second, late] = ['echo', 'foxtrot', 'golf'].map(name => new HeadlessClient(name));
+  const phase = (bot: HeadlessClient, phase: RoundPhase) =>
+    bot.waitFor('round_state', message => message.state.phase === phase, 2000);
+
+  try {
+    await first.join(url, SESSION);
+    const waiting = await phase(first, 'waiting');
+    assert(waiting.state.round === 0, `new session starts at round ${waiting.state.round}`);
+    await second.join(url, SESSION);
+    await phase(first, 'warmup');
+    const live = await phase(first, 'live');
+    assert(live.state.round === 1 && live.state.endsAt !== null, `live as ${JSON.stringify(live.state)}`);
+
+    // One point each: a merc brings the jackalope down, and it respawns and makes a capture
+    const jackalope = first.playerType === 'jackalope' ? first : second;
+    const merc = jackalope === first ? second : first;
+    jackalope.sendUpdate([0, 1, 0]);
+    merc.sendUpdate([0, 1, 10]);
+    await sleep(50);
+    const shot = merc.shoot([0, 1, 10], [0, 0, -1]);
+    merc.reportHit(shot, jackalope.id!, [0, 1, 0]);
+    await jackalope.waitFor('score_entry', message => message.entry.kind === 'kill' && message.entry.shotId === shot);
+    const early = jackalope.capture();
+    jackalope.respawn([0, 1, 0]);
+    const nowhere = jackalope.capture('nowhere');
+    // Clients only pass score entries around when the server leaves scoring to them
+    merc.send({
+      type: 'game_event',
+      event: {
+        event_type: 'score_entry',
+        timestamp: Date.now(),
+        entry: { id: 'forged', kind: 'kill', team: merc.playerType!, playerId: merc.id!, round: 1, timestamp: Date.now() }
+      }
+    });
+    const captured = jackalope.capture();
+    await merc.waitFor('score_entry', message => message.entry.id === `capture:${captured}`);
+    assert(!merc.received.some(message => message.type === 'score_entry' && message.entry.id === `capture:${early}`),
+      'capture before respawning was counted');
+    assert(!merc.received.some(message => message.type === 'score_entry' && message.entry.id === `capture:${nowhere}`),
+      'capture at a rabbit hole the map does not have was counted');
+    assert(!jackalope.received.some(message =>
+      (message.type === 'score_entry' && message.entry.id === 'forged') ||
+      (message.type === 'game_event' && message.event.event_type === 'score_entry')),
+      'a client-sent score entry was counted');
+
+    // The server picks a jackalope spawn out of the merc's sight, ignoring the one asked for,
+    // and the jackalope can't be hurt there for a moment
+    const respawned = (await merc.waitFor('game_event', message =>
+      message.event.event_type === 'player_respawn' && message.event.player_id === jackalope.id)).event as PlayerRespawnEvent;
+    const spawnAt = respawned.spawnPosition!;
+    const spawnPoint = getMap(jackalope.mapId ?? undefined).spawns.find(point =>
+      point.team === 'jackalope' && Math.sign(point.position[0]) === Math.sign(spawnAt[0]) && Math.sign(point.position[2]) === Math.sign(spawnAt[2]));
+    assert(spawnPoint && Math.hypot(spawnAt[0], spawnAt[2]) > Math.hypot(spawnPoint.position[0], spawnPoint.position[2]),
+      `respawned at ${spawnAt.join(',')}`);
+    assert(respawned.protectedUntil! > merc.clock.getServerTime(), `protected until ${respawned.protectedUntil}`);
+    jackalope.sendUpdate(spawnAt);
+    merc.sendUpdate([spawnAt[0], 1, spawnAt[2] + 10]);
+    await sleep(50);
+    const spawnShot = merc.shoot([spawnAt[0], 1, spawnAt[2] + 10], [0, 0, -1]);
+    merc.reportHit(spawnShot, jackalope.id!, spawnAt);
+    await sleep(100);
+    assert(!merc.received.some(message =>
+      message.type === 'game_event' && message.event.event_type === 'player_hit' && message.event.shotId === spawnShot),
+      'spawn protected jackalope was hit');
+
+    // Each respawn pushes the jackalope further out
+    jackalope.respawn();
+    const retreated = (await merc.waitFor('game_event', message =>
+      message.event.event_type === 'player_respawn' && message.event.player_id === jackalope.id && message.event !== respawned)).event as PlayerRespawnEvent;
+    const retreatAt = retreated.spawnPosition!;
+    assert(Math.hypot(retreatAt[0], retreatAt[2]) > Math.hypot(spawnAt[0], spawnAt[2]), `second respawn at ${retreatAt.join(',')}`);
+    console.log(`✅ Spawns chosen by the server (${spawnAt.map(n => n.toFixed(0)).join(',')} then ${retreatAt.map(n => n.toFixed(0)).join(',')}), protection held`);
+
+    // Nobody respawns someone else, or themselves while still in play once they've taken their round-start spawn
+    merc.send({
+      type: 'game_event',
+      event: { event_type: 'player_respawn', player_id: jackalope.id!, requestedBy: merc.id!, timestamp: merc.clock.getServerTime() }
+    });
+    jackalope.respawn();
+    await sleep(100);
+    assert(!merc.received.some(message => message.type === 'game_event' && message.event.event_type === 'player_respawn' &&
+      message.event !== respawned && message.event !== retreated), 'a respawn was granted to a player still in play');
+    console.log('✅ Respawns only for players who are down or scored');
+
+    // Level at the whistle, so it goes to sudden death and the next point wins it
+    const overtime = await phase(first, 'overtime');
+    assert(overtime.state.scores.jackalopes === 1 && overtime.state.scores.mercs === 1,
+      `overtime as ${JSON.stringify(overtime.state)}`);
+    jackalope.respawn([0, 1, 0]);
+    jackalope.capture();
+    const results = await phase(second, 'results');
+    assert(results.state.winner === 'jackalope' && results.state.scores.jackalopes === 2 && results.state.scores.mercs === 1,
+      `results as ${JSON.stringify(results.state)}`);
+
+    // The results screen holds everyone where they stood
+    const frozen = merc.sendMove([0, 1, 7], 24);
+    const frozenAck = await merc.waitFor('input_ack', message => message.sequence === frozen);
+    assert(frozenAck.corrected, `moved ${frozenAck.position.join(',')} during results`);
+
+    // Someone arriving afterwards is sent every entry, and counts the same scoreboard from them
+    await late.join(url, SESSION);
+    const ledger = new ScoreLedger();
+    ledger.load((await late.waitFor('score_ledger')).entries);
+    const lines = ledger.breakdown(1);
+    assert(ledger.size === 3 && lines[jackalope.id!]?.captures === 2 && lines[jackalope.id!]?.deaths === 1 && lines[merc.id!]?.kills === 1,
+      `late joiner's scoreboard: ${JSON.stringify(lines)}`);
+    console.log(`✅ Score ledger: ${JSON.stringify(ledger.totals(1))}, sent whole to a late joiner`);
+
+    await phase(first, 'intermission');
+    const since = first.received.length;
+    const next = await first.waitFor('round_state', message =>
+      message.state.phase === 'live' && first.received.indexOf(message) >= since, 2000);
+    assert(next.state.round === 2 && next.state.scores.jackalopes + next.state.scores.mercs === 0,
+      `next round as ${JSON.stringify(next.state)}`);
+    console.log(`✅ Round played through overtime, ${results.state.winner} won, round ${next.state.round} started`);
+
+    const protocolErrors = [first, second, late].flatMap(bot => bot.errors);
+    assert(protocolErrors.length === 0, `protocol errors: ${protocolErrors.join('; ')}`);
+  } finally {
+    await Promise.all([first, second, late].map(bot => bot.close()));
+    await server.stop();
+  }
+};
+
+/**
+ * The simulator's losses and delays replay exactly from a seed, and frames
+ * only overtake each other when it means them to
+ */
+const checkNetworkSimulator = (): void => {
+  const simulator = new NetworkSimulator();
+  const { latencyMs, jitterMs } = NETWORK_PRESETS['3g'];
+  const roll = (seed: number): number[][] => {
+    simulator.reseed(seed);
+    let orderedUntil = 0;
+    return Array.from({ length: 500 }, (_, i) => {
+      const delivery = simulator.deliver('sent', i * 10, orderedUntil);
+      assert(delivery.arrivals.every(arrival => arrival >= i * 10 + latencyMs - jitterMs), `frame ${i} arrived early`);
+      orderedUntil = delivery.orderedUntil;
+      return delivery.arrivals;
+    });
+  };
+
+  simulator.usePreset('3g');
+  const arrivals = roll(7);
+  const traffic = simulator.getTraffic().sent;
+  assert(JSON.stringify(roll(7)) === JSON.stringify(arrivals), 'the same seed rolled differently');
+  assert(JSON.stringify(roll(8)) !== JSON.stringify(arrivals), 'seeds 7 and 8 rolled the same');
+  assert(traffic.dropped > 0 && traffic.reordered > 0, `3G dropped ${traffic.dropped} and reordered ${traffic.reordered} of 500`);
+
+  // Without reordering, jitter alone never lets a frame overtake the one before
+  simulator.configure({ loss: 0, duplicate: 0, reorder: 0 });
+  const ordered = roll(7).flat();
+  assert(ordered.every((arrival, i) => i === 0 || arrival >= ordered[i - 1]), 'jitter reordered frames');
+
+  simulator.usePreset('ideal');
+  assert(simulator.deliver('sent', 1000, 0).arrivals.join() === '1000', 'ideal conditions delayed a frame');
+  console.log(`✅ Network simulator: 3G dropped ${traffic.dropped}, reordered ${traffic.reordered} and doubled ${traffic.duplicated} of 500, the same again from the same seed`);
+};
+
+/**
+ * The server's end of a connection that didn't come through ws, like the
+ * ones a hosting tab hands over from its BroadcastChannel
+ */
+class HandedOverSocket extends EventEmitter implements PlayerSocket {
+  readyState = 1;
+  readonly received: ServerMessage[] = [];
+
+  send(frame: string | ArrayBuffer): void {
+    const decoded = parseServerMessage(typeof frame === 'string' ? frame : new Uint8Array(frame));
+    assert(decoded.ok, `handed-over socket was sent ${decoded.ok || decoded.error}`);
+    if (decoded.ok) this.received.push(decoded.value);
+  }
+
+  close(): void {
+    this.readyState = 3;
+    this.emit('close');
+  }
+
+  terminate(): void {
+    this.close();
+  }
+
+  say(frame: string | ArrayBuffer): void {
+    this.emit('message', frame, typeof frame !== 'string');
+  }
+}
+
+const checkHandedOverSocket = async (): Promise<void> => {
+  const server = new GameServer({ quiet: true });
+  server.run();
+  const socket = new HandedOverSocket();
+
+  try {
+    server.accept(socket);
+    assert(socket.received[0]?.type === 'welcome', `handed-over socket was greeted with ${socket.received[0]?.type}`);
+    socket.say(encodeClientMessage({ type: 'auth', protocolVersion: PROTOCOL_VERSION, playerName: 'juliet', codecs: ['binary', 'json'] }));
+    const auth = socket.received.find(message => message.type === 'auth_success');
+    assert(auth?.type === 'auth_success' && auth.codec === 'binary', `auth over a handed-over socket: ${JSON.stringify(auth)}`);
+    socket.say(encodeClientMessage({ type: 'join_session', playerName: 'juliet', sessionKey: SESSION }, 'binary'));
+    await sleep(10);
+    assert(socket.received.some(message => message.type === 'join_success'), 'handed-over socket did not join');
+    console.log('✅ A connection handed over without ws authenticates, speaks binary and joins');
+
+    // A client from before codec negotiation gets JSON whatever it offers
+    const legacy = new HandedOverSocket();
+    server.accept(legacy);
+    legacy.say(encodeClientMessage({ type: 'auth', protocolVersion: CODEC_NEGOTIATION_VERSION - 1, playerName: 'kilo', codecs: ['binary'] }));
+    const legacyAuth = legacy.received.find(message => message.type === 'auth_success');
+    assert(legacyAuth?.type === 'auth_success' && legacyAuth.codec === 'json', `v1 auth: ${JSON.stringify(legacyAuth)}`);
+    console.log(`✅ Protocol v${CODEC_NEGOTIATION_VERSION - 1} client kept on JSON`);
+  } finally {
+    await server.stop();
+  }
+};
+
+run().then(
+  () => {
+    console.log('🎉 2v2 smoke test passed');
+    process.exit(0);
+  },
+  error => {
+    console.error('❌ 2v2 smoke test failed:', error.message);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,228 @@
+/**
+ * Checks of the client-side networking pieces that the 2v2 match only
+ * exercises indirectly, run without a server or a browser:
+ *
+ *   npm run client:smoke
+ *
+ * Feeds the clock estimate known offsets and drift (and a second server
+ * after a reset), samples remote players between, past and across a teleport,
+ * reconciles predicted inputs against acknowledgements, round-trips binary
+ * frames both ways, and encodes and decodes snapshot deltas through loss,
+ * repeats and a lost baseline. Exits non-zero if anything is off.
+ */
+import { ClockSync } from '../src/network/ClockSync';
+import { InterpolationBuffer } from '../src/network/SnapshotInterpolation';
+import { InputPredictor } from '../src/network/InputPrediction';
+import {
+  decodeBinaryClientMessage,
+  decodeBinaryServerMessage,
+  encodeBinaryClientMessage,
+  encodeBinaryServerMessage
+} from '../src/network/BinaryCodec';
+import { MAX_PENDING_EVENTS, SnapshotDecoder, SnapshotEncoder } from '../src/network/SnapshotDelta';
+import type { GameSnapshot, MovementInput, PlayerShootEvent, PlayerState, Vector3 } from '../src/types/game';
+
+const assert = (condition: unknown, message: string): void => {
+  if (!condition) throw new Error(message);
+};
+
+const near = (a: number, b: number, tolerance: number): boolean => Math.abs(a - b) <= tolerance;
+
+const nearVector = (a: Vector3, b: Vector3, tolerance: number): boolean =>
+  a.every((value, axis) => near(value, b[axis], tolerance));
+
+const checkClockSync = (): void => {
+  // A server 5s ahead: whatever the round trip, the offset comes out the same
+  const clock = new ClockSync();
+  const now = Date.now();
+  [40, 60, 50, 45].forEach((roundTrip, i) => {
+    const sentAt = now - 1000 + i * 100;
+    clock.addSample(sentAt, sentAt + roundTrip / 2 + 5000, sentAt + roundTrip);
+  });
+  // One pong stuck in a queue on the way back; its sample is left out
+  clock.addSample(now - 500, now - 500 + 20 + 5000, now - 500 + 900);
+  assert(near(clock.getOffset(), 5000, 1), `offset ${clock.getOffset()} instead of 5000`);
+  assert(clock.getRoundTripTime() === 50, `round trip ${clock.getRoundTripTime()} instead of 50`);
+  assert(!clock.addSample(now, now, now - 1), 'sample with a negative round trip was kept');
+  assert(near(clock.getServerTime(), Date.now() + 5000, 50), `server time ${clock.getServerTime() - Date.now()}ms ahead`);
+
+  // A server clock running 0.5ms per second fast, pinged every 2s for 30s
+  const drifting = new ClockSync();
+  const start = 1_000_000;
+  for (let i = 0; i <= 15; i++) {
+    const sentAt = start + i * 2000;
+    drifting.addSample(sentAt, sentAt + 25 + 200 + (sentAt - start) * 0.0005, sentAt + 50);
+  }
+  assert(near(drifting.getDrift(), 0.0005, 1e-5), `drift ${drifting.getDrift()} instead of 0.0005`);
+  const later = start + 60_000;
+  assert(near(drifting.getOffset(later), 200 + 60_000 * 0.0005, 1), `offset a minute on ${drifting.getOffset(later)}`);
+
+  // Reset before moving to a server 5s behind: nothing of the old one lingers, and the clock isn't held back
+  clock.reset();
+  assert(!clock.isSynced() && clock.getRoundTripTime() === null, 'reset kept samples');
+  const sentAt = Date.now();
+  clock.addSample(sentAt, sentAt + 25 - 5000, sentAt + 50);
+  assert(near(clock.getOffset(), -5000, 1), `offset after reset ${clock.getOffset()} instead of -5000`);
+  assert(near(clock.getServerTime(), Date.now() - 5000, 50), 'server time still held at the old server\'s clock');
+  console.log('✅ Clock sync: offset, drift, a slow pong ignored, reset for a new server');
+};
+
+const checkInterpolation = (): void => {
+  const buffer = new InterpolationBuffer({
+    renderDelayMs: 100, maxExtrapolationMs: 250, bufferMs: 1000, teleportSpeed: 100, maxClockSkewMs: 1000
+  });
+  const rotation: [number, number, number, number] = [0, 0, 0, 1];
+  buffer.push({ position: [0, 0, 0], rotation }, 1000);
+  buffer.push({ position: [10, 0, 0], rotation: [0, 1, 0, 0], velocity: [10, 0, 0] }, 1100);
+  // Late, so dropped
+  buffer.push({ position: [99, 0, 0], rotation }, 1050);
+
+  const halfway = buffer.sample(1050)!;
+  assert(nearVector(halfway.position, [5, 0, 0], 1e-6) && !halfway.extrapolated, `halfway at ${JSON.stringify(halfway)}`);
+  assert(near(Math.hypot(...halfway.rotation), 1, 1e-6) && near(halfway.rotation[1], Math.SQRT1_2, 1e-6),
+    `rotation not slerped: ${halfway.rotation}`);
+  const past = buffer.sample(1500)!;
+  assert(past.extrapolated && nearVector(past.position, [12.5, 0, 0], 1e-6), `extrapolation not capped: ${JSON.stringify(past)}`);
+
+  // Too far to have run: held at the last position rather than smeared across the map
+  buffer.push({ position: [1000, 0, 0], rotation }, 1200);
+  const across = buffer.sample(1150)!;
+  assert(nearVector(across.position, [10, 0, 0], 1e-6), `interpolated across a teleport: ${JSON.stringify(across)}`);
+  console.log('✅ Interpolation: between updates, capped extrapolation, late update dropped, teleport held');
+};
+
+const checkPrediction = (): void => {
+  const input = (sequence: number): MovementInput => ({
+    sequence, forward: false, backward: false, left: false, right: true, jump: false, sprint: false,
+    moveX: 1, moveY: 0, yaw: 0, delta: 1 / 60
+  });
+  // Each step moves one unit along x
+  const predictor = new InputPredictor<number>((from, step) => ({
+    position: [from.position[0] + step.input.moveX, 0, 0],
+    state: from.state + 1
+  }));
+  for (let x = 1; x <= 5; x++) {
+    predictor.record(input(predictor.nextSequence()), [x, 0, 0], x);
+  }
+  assert(predictor.takeUnsent().length === 5 && predictor.takeUnsent().length === 0, 'inputs sent twice');
+
+  const agreed = predictor.acknowledge(2, [2.1, 0, 0])!;
+  assert(!agreed.corrected && agreed.replayed === 0 && agreed.position[0] === 5, `small error corrected: ${JSON.stringify(agreed)}`);
+  const corrected = predictor.acknowledge(3, [2.5, 0, 0])!;
+  assert(corrected.corrected && corrected.replayed === 2 && nearVector(corrected.position, [4.5, 0, 0], 1e-9) && corrected.state === 5,
+    `not replayed from the server's position: ${JSON.stringify(corrected)}`);
+  assert(predictor.acknowledge(1, [0, 0, 0]) === null, 'stale acknowledgement applied');
+  const metrics = predictor.getMetrics();
+  assert(metrics.totalCorrections === 1 && metrics.pendingInputs === 2 && metrics.lastAckedSequence === 3,
+    `metrics ${JSON.stringify(metrics)}`);
+  console.log('✅ Prediction: small errors kept, large ones replayed from the server, stale acks ignored');
+};
+
+const checkBinaryCodec = (): void => {
+  const state: PlayerState = {
+    position: [-120.25, 3.5, 48.75],
+    rotation: [0, 0.3826834, 0, 0.9238795],
+    velocity: [4, -9.5, 0],
+    sequence: 77,
+    playerType: 'jackalope',
+    jumping: true,
+    running: false,
+    shooting: false,
+    flashlightOn: false,
+    health: 60,
+    timestamp: 1_700_000_000_000
+  };
+  const frame = encodeBinaryServerMessage({ type: 'player_update', id: 'player_2', state, serverCorrection: true });
+  assert(frame !== null, 'player_update broadcast has no binary form');
+  const decoded = decodeBinaryServerMessage(frame!);
+  assert(decoded.ok && decoded.value.type === 'player_update', `broadcast didn't decode: ${JSON.stringify(decoded)}`);
+  if (decoded.ok && decoded.value.type === 'player_update') {
+    const back = decoded.value;
+    assert(back.id === 'player_2' && back.state.playerType === 'jackalope' && back.state.jumping &&
+      back.state.sequence === 77 && back.state.timestamp === state.timestamp &&
+      nearVector(back.state.position, state.position, 1 / 256) && nearVector(back.state.velocity!, state.velocity!, 1 / 128),
+      `broadcast drifted: ${JSON.stringify(back)}`);
+  }
+  assert(encodeBinaryServerMessage({ type: 'pong', timestamp: 1 }) === null, 'pong given a binary form');
+  assert(!decodeBinaryServerMessage(new Uint8Array([255])).ok, 'unknown tag decoded');
+  assert(!decodeBinaryClientMessage(new Uint8Array([...new Uint8Array(encodeBinaryClientMessage({ type: 'player_update', state })!), 0])).ok,
+    'trailing bytes accepted');
+
+  const snapshot = new SnapshotEncoder().encode(snapshotOf(1, [shot('binary')]));
+  const snapshotFrame = decodeBinaryClientMessage(encodeBinaryClientMessage({ type: 'game_snapshot', delta: snapshot })!);
+  assert(snapshotFrame.ok && snapshotFrame.value.type === 'game_snapshot' &&
+    snapshotFrame.value.delta.events[0].sequence === 1 &&
+    (snapshotFrame.value.delta.events[0].event as PlayerShootEvent).shotId === 'binary',
+    `snapshot frame drifted: ${JSON.stringify(snapshotFrame)}`);
+  console.log('✅ Binary codec: broadcasts and snapshots round-trip, junk rejected');
+};
+
+const shot = (shotId: string): PlayerShootEvent => ({
+  event_type: 'player_shoot', shotId, player_id: 'player_1', playerType: 'merc',
+  origin: [0, 1, 0], direction: [0, 0, -1], timestamp: 1000
+});
+
+const snapshotOf = (x: number, events: PlayerShootEvent[] = []): GameSnapshot => ({
+  sequence: 0,
+  timestamp: 1000 + x,
+  players: {
+    player_1: { id: 'player_1', position: [x, 1, 0], rotation: [0, 0, 0, 1], health: 100 },
+    player_2: { id: 'player_2', position: [2, 1, -2], rotation: [0, 0, 0, 1], health: 80 }
+  },
+  events
+});
+
+const checkSnapshotDeltas = (): void => {
+  const encoder = new SnapshotEncoder();
+  const decoder = new SnapshotDecoder();
+  const shotIds = (snapshot: GameSnapshot): string =>
+    snapshot.events.map(event => (event as PlayerShootEvent).shotId).join(',');
+
+  const keyframe = encoder.encode(snapshotOf(0));
+  const first = decoder.decode(keyframe);
+  assert(first.ok && first.snapshot.players.player_2.health === 80, `keyframe: ${JSON.stringify(first)}`);
+  encoder.acknowledge(keyframe.sequence);
+
+  // A numbered event sent on its own, then a snapshot that's lost, then one that arrives
+  const direct = encoder.queue(shot('direct'));
+  assert(decoder.takeEvent(direct) && !decoder.takeEvent(direct), 'direct event taken twice');
+  encoder.encode(snapshotOf(1, [shot('lost')]));
+  const arrived = encoder.encode(snapshotOf(2));
+  const decoded = decoder.decode(arrived);
+  assert(decoded.ok && shotIds(decoded.snapshot) === 'lost' && decoded.snapshot.players.player_1.position[0] === 2 &&
+    decoded.snapshot.players.player_2.health === 80, `after a loss: ${JSON.stringify(decoded)}`);
+  const repeat = decoder.decode(arrived);
+  assert(!repeat.ok && repeat.reason === 'stale', `repeated frame: ${JSON.stringify(repeat)}`);
+  encoder.acknowledge(arrived.sequence);
+  assert(encoder.pendingEvents() === 0, 'acknowledged events still pending');
+
+  // Built on a snapshot the decoder never had
+  const unseen = encoder.encode(snapshotOf(3));
+  encoder.acknowledge(unseen.sequence);
+  const orphan = decoder.decode(encoder.encode(snapshotOf(4)));
+  assert(!orphan.ok && orphan.reason === 'baseline_lost', `orphan: ${JSON.stringify(orphan)}`);
+  encoder.resync();
+  const recovered = decoder.decode(encoder.encode(snapshotOf(4)));
+  assert(recovered.ok && recovered.snapshot.players.player_1.position[0] === 4, `no recovery: ${JSON.stringify(recovered)}`);
+
+  // A receiver that never acks doesn't make every snapshot grow without end
+  for (let i = 0; i < MAX_PENDING_EVENTS * 2; i++) encoder.queue(shot(`flood-${i}`));
+  assert(encoder.encode(snapshotOf(5)).events.length === MAX_PENDING_EVENTS, 'pending events not capped');
+  console.log('✅ Snapshot deltas: lost events resent, each taken once, repeats dropped, keyframe after a lost baseline');
+};
+
+const run = (): void => {
+  checkClockSync();
+  checkInterpolation();
+  checkPrediction();
+  checkBinaryCodec();
+  checkSnapshotDeltas();
+};
+
+try {
+  run();
+  console.log('🎉 Client smoke test passed');
+} catch (error) {
+  console.error('❌ Client smoke test failed:', (error as Error).message);
+  process.exit(1);
+}
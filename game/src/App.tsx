@@ -8,31 +8,53 @@ import { useFrame, useThree } from '@react-three/fiber'
 import { CuboidCollider, Physics, RigidBody } from '@react-three/rapier'
 import { useControls, folder, Leva } from 'leva'
 import { useTexture } from '@react-three/drei'
-import { useRef, useEffect, useState, useMemo, useCallback, Suspense } from 'react'
+import { useRef, useEffect, useState, useMemo, Suspense } from 'react'
 import * as THREE from 'three'
 import { Player, PlayerControls } from './game/player'
 import { Jackalope } from './game/jackalope'
 import { SphereTool, setSphereDarkMode } from './game/sphere-tool'
 import { Platforms } from './game/platforms'
-import { MultiplayerManager, useRemoteShots } from './network/MultiplayerManager'
+import { MultiplayerManager, ReconciliationDebugOverlay, useRemoteShots } from './network/MultiplayerManager'
+import { LobbyBrowser } from './network/LobbyBrowser'
 import { NetworkStats } from './network/NetworkStats'
 import { ConnectionManager } from './network/ConnectionManager'
+import clockSync from './network/ClockSync'
+import networkSimulator, {
+    NETWORK_PRESETS,
+    NETWORK_PRESET_LABELS,
+    NetworkConditions,
+    NetworkPresetName,
+    SimulatedTraffic,
+    isNetworkPresetName
+} from './network/NetworkSimulator'
+import { TrafficDirection } from './network/TrafficStats'
+import { isHostingTabs, watchTabHost } from './network/BroadcastTransport'
 import { ConnectionTest } from './components/ConnectionTest'
 import { VirtualGamepad } from './components/VirtualGamepad'
 import { RemotePlayer } from './game/RemotePlayer'
+import { Decoys } from './game/Decoys'
+import { FOG_PRESETS, LIGHTING_PRESETS, startingPosition } from './game/maps'
+import { MapEditorScene } from './game/MapEditorScene'
+import { MapEditorPanel } from './components/MapEditorPanel'
+import { useMapEditor } from './hooks/useMapEditor'
+import { GameMap } from './types/map'
 import { AudioController } from './components/AudioController' // Import the AudioController component
 import { WeaponSoundEffects } from './components/WeaponSoundEffects' // Import the WeaponSoundEffects component
 import { HealthBar } from './components/HealthBar' // Import the HealthBar component
+import { AbilityBar } from './components/AbilityBar'
 import { AudioToggleButton } from './components/AudioToggleButton' // Import the AudioToggleButton component
 import { initDebugSystem, DEBUG_LEVELS } from './utils/debugUtils';
 import { PlayerPositionTracker } from './components/PlayerPositionTracker';
+import { SpectatorCamera, SpectatorFollowTarget, SpectatorOverlay } from './components/SpectatorCamera';
 import { IntroScreenManager } from './components/IntroScreen/IntroScreenManager';
 import { ScoreDisplay } from './components/ScoreDisplay'; // Import the ScoreDisplay component
+import { Scoreboard } from './components/Scoreboard';
 import ReactDOM from 'react-dom/client'; // Import for RemoveUnwantedElements
 import entityStateObserver from './network/EntityStateObserver';
 import soundManager from './components/SoundManager';
 // Add import for MultiplayerSyncManager
 import MultiplayerSyncManager from './network/MultiplayerSyncManager';
+import { GameEventData, PlayerType, RoundState } from './types/game';
 import { useGLTF } from '@react-three/drei';
 import { MercModelPath, JackalopeModelPath } from './assets';
 import { ModelLoader } from './components/ModelLoader';
@@ -45,9 +67,18 @@ declare global {
         __shotBroadcast?: ((shot: any) => any) | undefined;
         __setDebugLevel?: (level: number) => void; // Add debug level control
         __toggleNetworkLogs?: (verbose: boolean) => string; // Add network log control
+        // Network simulator (see NetworkSimulator), for playing over a bad connection on purpose
+        __setNetworkConditions?: (conditions: Partial<NetworkConditions>) => NetworkConditions;
+        __setNetworkPreset?: (name: NetworkPresetName) => NetworkConditions;
+        __getNetworkConditions?: () => {
+            preset: NetworkPresetName | null;
+            conditions: NetworkConditions;
+            traffic: Record<TrafficDirection, SimulatedTraffic>;
+        };
+        __reseedNetwork?: (seed?: number) => void;
         connectionManager?: any; // Make ConnectionManager accessible globally
         __networkManager?: {
-            sendRespawnRequest: (playerId: string, spawnPosition?: [number, number, number]) => void;
+            sendRespawnRequest: (playerId: string) => void;
         };
         jackalopesGame?: {
             playerType?: 'merc' | 'jackalope';
@@ -55,24 +86,17 @@ declare global {
             flashlightOn?: boolean; // Add flashlight state
             debugLevel?: number; // Store debug level
             // Add spawn manager
-            spawnManager?: {
-                baseSpawnX: number;
-                currentSpawnX: number;
-                stepSize: number;
-                minX: number;
-                getNextSpawnPoint: () => [number, number, number];
-                resetSpawnPoints: () => [number, number, number];
-                getSpawnPoint: () => [number, number, number];
-            };
             // Add other global game properties as needed
         };
         playerPositionTracker?: {
             updatePosition: (newPos: THREE.Vector3) => void;
         };
-        __lastHitJackalope?: string;
     }
 }
 
+// How long a killed player stays down before asking to come back
+const RESPAWN_DELAY_MS = 2000;
+
 // Add Moon component
 const Moon = ({ orbitRadius, height, orbitSpeed }: { orbitRadius: number, height: number, orbitSpeed: number }) => {
     const moonRef = useRef<THREE.Group>(null);
@@ -546,18 +570,6 @@ const MultiplayerDebugPanel = ({
     }
   };
   
-  const resetPlayerCount = () => {
-    if (connectionManager && connectionManager.resetPlayerCount) {
-      connectionManager.resetPlayerCount();
-      console.log('🔄 Reset player count - next reload will assign new player types');
-      
-      // After reset, force a reload to get a new player type
-      if (confirm('Reset player count successful! Reload now to get a new player type?')) {
-        window.location.reload();
-      }
-    }
-  };
-
   return visible ? (
     <div style={{
       position: 'fixed',
@@ -658,23 +670,6 @@ const MultiplayerDebugPanel = ({
         </button>
       </div>
       
-      <div style={{ marginBottom: '10px' }}>
-        <button 
-          onClick={resetPlayerCount}
-          style={{ 
-            backgroundColor: '#F44336', 
-            border: 'none', 
-            color: 'white', 
-            padding: '5px 10px', 
-            margin: '0 5px 5px 0',
-            borderRadius: '3px',
-            cursor: 'pointer'
-          }}
-        >
-          RESET PLAYER COUNT
-        </button>
-      </div>
-      
       <div style={{ fontSize: '10px', opacity: 0.8 }}>
         Connection: {connectionManager ? 'Ready' : 'Not initialized'}<br />
         Mode: {isOfflineMode ? 'Offline (LocalStorage)' : 'Online (WebSocket)'}<br />
@@ -1239,6 +1234,7 @@ export function App() {
     
     // Add health state
     const [playerHealth, setPlayerHealth] = useState(100);
+    const [spawnProtected, setSpawnProtected] = useState(false);
     
     // Add score state
     const [jackalopesScore, setJackalopesScore] = useState(0);
@@ -1247,64 +1243,6 @@ export function App() {
     // Host tracking for score and timer synchronization
     const [isHost, setIsHost] = useState(false);
     
-    // Add a ref to track the last time a score was updated
-    const lastScoreTime = useRef<number>(0);
-    
-    // Track which jackalopes have been hit to avoid double-counting
-    // This is shared between both scoring mechanisms
-    const scoredJackalopesRef = useRef(new Set<string>());
-    
-    // Track mercs that have been scored (for jackalope scoring)
-    const scoredMercsRef = useRef(new Set<string>());
-    
-    // Log current tracking state for debugging
-    useEffect(() => {
-      try {
-        const storedJackalopes = localStorage.getItem('scored_jackalopes');
-        console.log(`🎯 APP INIT: Tracked jackalopes from localStorage: ${storedJackalopes || 'none'}`);
-      } catch (err) {
-        console.error('Error checking localStorage:', err);
-      }
-      
-      // Log at startup what jackalopes are already in the tracking set
-      console.log(`🎯 APP INIT: Current tracked jackalopes: ${Array.from(scoredJackalopesRef.current).join(', ') || 'none'} (count: ${scoredJackalopesRef.current.size})`);
-    }, []);
-    
-    // Initialize scored jackalopes tracking from localStorage
-    useEffect(() => {
-      try {
-        const storedScoredJackalopes = localStorage.getItem('scored_jackalopes');
-        if (storedScoredJackalopes) {
-          const parsedJackalopes = JSON.parse(storedScoredJackalopes);
-          if (Array.isArray(parsedJackalopes)) {
-            scoredJackalopesRef.current = new Set(parsedJackalopes);
-            console.log(`📊 Loaded ${scoredJackalopesRef.current.size} previously scored jackalopes from localStorage`);
-          }
-        }
-      } catch (err) {
-        console.error('Error loading scored jackalopes from localStorage:', err);
-      }
-    }, []);
-    
-    // Helper function to save scored jackalopes to localStorage
-    const saveScoredJackalopes = () => {
-      try {
-        const jackalopesArray = Array.from(scoredJackalopesRef.current);
-        localStorage.setItem('scored_jackalopes', JSON.stringify(jackalopesArray));
-      } catch (err) {
-        console.error('Error saving scored jackalopes to localStorage:', err);
-      }
-    };
-    
-    // Helper function to clear tracking for a specific jackalope
-    const clearScoredJackalope = (jackalopeId: string) => {
-      if (scoredJackalopesRef.current.has(jackalopeId)) {
-        console.log(`🎯 Clearing scored tracking for respawned jackalope ${jackalopeId}`);
-        scoredJackalopesRef.current.delete(jackalopeId);
-        saveScoredJackalopes();
-      }
-    };
-    
     // Initialize debug system
     useEffect(() => {
         // Initialize the debug system with a default level
@@ -1342,6 +1280,14 @@ export function App() {
     
     // Create a shared ConnectionManager instance with the development server URL
     const [connectionManager] = useState(() => new ConnectionManager('ws://localhost:8082'));
+    // What we're playing on; the session decides in multiplayer
+    const [map, setMap] = useState<GameMap>(() => connectionManager.getMap());
+    useEffect(() => {
+        connectionManager.on('map_changed', setMap);
+        return () => {
+            connectionManager.off('map_changed', setMap);
+        };
+    }, [connectionManager]);
     // Add state to track if we're in offline mode
     const [isOfflineMode, setIsOfflineMode] = useState(false);
     // Track if notification is visible
@@ -1430,62 +1376,26 @@ export function App() {
             const clientId = connectionManager.getClientId();
             const isFirstClient = connectionManager.isFirstClient();
             
-            if (isFirstClient) {
+            // Playing across tabs, the tab running the local server hosts
+            if (isFirstClient || isHostingTabs()) {
                 console.log(`🎮 This client (${clientId}) is designated as the HOST`);
                 setIsHost(true);
-                // Mark as host in localStorage for cross-tab awareness
-                localStorage.setItem('jackalopes_host', 'true');
-                localStorage.setItem('jackalopes_host_timestamp', Date.now().toString());
-                localStorage.setItem('jackalopes_host_id', clientId || 'unknown');
             } else {
                 console.log(`🎮 This client (${clientId}) is a regular CLIENT`);
                 setIsHost(false);
-                localStorage.removeItem('jackalopes_host');
             }
         };
         
         const handleDisconnected = () => {
             console.log('App received disconnected event');
-            // When disconnected, check if we should become host for local gameplay
-            const shouldBecomeHost = !localStorage.getItem('jackalopes_host') || 
-                Date.now() - parseInt(localStorage.getItem('jackalopes_host_timestamp') || '0', 10) > 10000;
-            
-            if (shouldBecomeHost) {
-                console.log('🎮 Becoming HOST in offline mode');
-                setIsHost(true);
-                localStorage.setItem('jackalopes_host', 'true');
-                localStorage.setItem('jackalopes_host_timestamp', Date.now().toString());
-            } else {
-                console.log('🎮 Another client is already HOST in offline mode');
-                setIsHost(false);
-            }
-        };
-        
-        // Add listeners for storage events to detect host changes across tabs
-        const handleStorageChange = (e: StorageEvent) => {
-            if (e.key === 'jackalopes_host_timestamp' && e.newValue) {
-                // Another tab declared itself host
-                const hostId = localStorage.getItem('jackalopes_host_id');
-                const myClientId = connectionManager.getClientId() || 'unknown';
-                
-                if (hostId && hostId !== myClientId) {
-                    console.log(`🎮 Another client (${hostId}) became host, I (${myClientId}) am now a client`);
-                    setIsHost(false);
-                }
-            }
-            
-            // Also watch for timer resets
-            if (e.key === 'timer_remaining' && e.newValue) {
-                // Check if this was from a host
-                const hostId = localStorage.getItem('timer_host_id');
-                if (hostId === 'host' && !isHost) {
-                    console.log('⏱️ Timer updated by host via localStorage');
-                }
-            }
+            setIsHost(isHostingTabs());
         };
         
-        // Listen for storage events to detect host changes
-        window.addEventListener('storage', handleStorageChange);
+        // The host lock passes to this tab when the hosting tab closes
+        const stopWatchingTabHost = watchTabHost(() => {
+            console.log('🎮 This tab is now hosting the match across tabs');
+            setIsHost(true);
+        });
         
         // Register connection manager event handlers
         connectionManager.on('server_unreachable', handleServerUnreachable);
@@ -1500,51 +1410,108 @@ export function App() {
         }
         
         return () => {
-            window.removeEventListener('storage', handleStorageChange);
+            stopWatchingTabHost();
             connectionManager.off('server_unreachable', handleServerUnreachable);
             connectionManager.off('connected', handleConnected);
             connectionManager.off('disconnected', handleDisconnected);
         };
     }, [connectionManager]);
     
-    // Listen for host death and takeover if needed
+    // The map editor builds on the current map and test-plays the draft offline
+    const { mapEditor } = useControls('Map Editor', {
+        mapEditor: {
+            value: false,
+            label: 'Open Editor'
+        }
+    }, {
+        collapsed: true,
+        order: 996
+    });
+    const [testPlay, setTestPlay] = useState<PlayerType | null>(null);
+    const editing = mapEditor && !testPlay;
+    const editor = useMapEditor(map, editing);
+    const playedMap = mapEditor ? editor.draft : map;
+
     useEffect(() => {
-        const hostHeartbeatInterval = setInterval(() => {
-            if (isHost) {
-                // Update heartbeat as host
-                localStorage.setItem('jackalopes_host_timestamp', Date.now().toString());
-                localStorage.setItem('jackalopes_host_id', connectionManager.getClientId() || 'unknown');
-            } else {
-                // Check if current host is still alive
-                const lastHeartbeat = parseInt(localStorage.getItem('jackalopes_host_timestamp') || '0', 10);
-                const now = Date.now();
-                
-                // If no heartbeat for 10 seconds, take over as host
-                if (now - lastHeartbeat > 10000) {
-                    console.log('🎮 Current host appears inactive, taking over as new host');
-                    setIsHost(true);
-                    localStorage.setItem('jackalopes_host', 'true');
-                    localStorage.setItem('jackalopes_host_timestamp', now.toString());
-                    localStorage.setItem('jackalopes_host_id', connectionManager.getClientId() || 'unknown');
-                }
-            }
-        }, 5000);
-        
-        return () => {
-            clearInterval(hostHeartbeatInterval);
-        };
-    }, [isHost, connectionManager]);
-    
+        if (!mapEditor) setTestPlay(null);
+    }, [mapEditor]);
+
     // Add multiplayer controls to Leva panel and track its state change
-    const { enableMultiplayer } = useControls('Multiplayer', {
+    const [{
+        enableMultiplayer: multiplayerSetting,
+        networkPreset,
+        latencyMs,
+        jitterMs,
+        loss,
+        duplicate,
+        reorder
+    }, setMultiplayerControls] = useControls('Multiplayer', () => ({
         enableMultiplayer: {
             value: true,
             label: 'Enable Connection'
-        }
-    }, {
+        },
+        // Simulated latency, jitter and loss on the server connection, each way
+        simulation: folder({
+            networkPreset: {
+                value: 'ideal',
+                options: { ...Object.fromEntries(Object.entries(NETWORK_PRESET_LABELS).map(([name, label]) => [label, name])), Custom: 'custom' },
+                label: 'Preset'
+            },
+            latencyMs: { value: 0, min: 0, max: 1000, step: 5, label: 'Latency (ms)' },
+            jitterMs: { value: 0, min: 0, max: 500, step: 5, label: 'Jitter (ms)' },
+            loss: { value: 0, min: 0, max: 0.5, step: 0.005, label: 'Loss' },
+            duplicate: { value: 0, min: 0, max: 0.2, step: 0.005, label: 'Duplicate' },
+            reorder: { value: 0, min: 0, max: 0.2, step: 0.005, label: 'Reorder' }
+        }, { collapsed: true })
+    }), {
         collapsed: true,
         order: 997
     });
+    // Leave the session while the editor is open
+    const enableMultiplayer = multiplayerSetting && !mapEditor;
+
+    // Picking a preset fills in the sliders; moving a slider makes it custom
+    useEffect(() => {
+        if (isNetworkPresetName(networkPreset)) networkSimulator.usePreset(networkPreset);
+    }, [networkPreset]);
+
+    useEffect(() => {
+        networkSimulator.configure({ latencyMs, jitterMs, loss, duplicate, reorder });
+    }, [latencyMs, jitterMs, loss, duplicate, reorder]);
+
+    // The panel follows the simulator, whether the change came from it or from the console
+    useEffect(() => {
+        const showConditions = (conditions: NetworkConditions) =>
+            setMultiplayerControls({ ...conditions, networkPreset: networkSimulator.getPreset() ?? 'custom' });
+        networkSimulator.on('change', showConditions);
+
+        window.__setNetworkConditions = (conditions: Partial<NetworkConditions>) => {
+            networkSimulator.configure(conditions);
+            return networkSimulator.getConditions();
+        };
+        window.__setNetworkPreset = (name: NetworkPresetName) => {
+            if (!isNetworkPresetName(name)) {
+                console.warn(`Unknown network preset ${name}; try one of ${Object.keys(NETWORK_PRESETS).join(', ')}`);
+                return networkSimulator.getConditions();
+            }
+            networkSimulator.usePreset(name);
+            return networkSimulator.getConditions();
+        };
+        window.__getNetworkConditions = () => ({
+            preset: networkSimulator.getPreset(),
+            conditions: networkSimulator.getConditions(),
+            traffic: networkSimulator.getTraffic()
+        });
+        window.__reseedNetwork = (seed?: number) => networkSimulator.reseed(seed);
+
+        return () => {
+            networkSimulator.off('change', showConditions);
+            delete window.__setNetworkConditions;
+            delete window.__setNetworkPreset;
+            delete window.__getNetworkConditions;
+            delete window.__reseedNetwork;
+        };
+    }, [setMultiplayerControls]);
 
     // Set to false initially to hide the panel by default
     const [showMultiplayerTools, setShowMultiplayerTools] = useState(false);
@@ -1612,7 +1579,7 @@ export function App() {
         order: 998
     })
 
-    const { 
+    const [{ 
         fogEnabled,
         fogColor,
         fogNear,
@@ -1645,7 +1612,7 @@ export function App() {
         starsSize,
         starsColor,
         starsTwinkle
-    } = useControls({
+    }, setSceneControls] = useControls(() => ({
         fog: folder({
             fogEnabled: true,
             fogColor: '#030812', // Darker blue color for night sky
@@ -1694,14 +1661,29 @@ export function App() {
             bloomIntensity: { value: 0.5, min: 0, max: 2, step: 0.1 },
             bloomLuminanceThreshold: { value: 0.6, min: 0, max: 1, step: 0.1 }
         }, { collapsed: true })
-    }, {
+    }), {
         collapsed: true,
         persist: true,
         order: 995
     })
+    
+    // Each map comes with its own light and fog; the panel can still tweak them afterwards
+    useEffect(() => {
+        const lighting = LIGHTING_PRESETS[playedMap.lighting];
+        const fog = FOG_PRESETS[playedMap.fog];
+        setSceneControls({
+            fogColor: fog.color,
+            fogNear: fog.near,
+            fogFar: fog.far,
+            ambientIntensity: lighting.ambientIntensity,
+            directionalIntensity: lighting.directionalIntensity,
+            directionalHeight: lighting.directionalHeight,
+            directionalDistance: lighting.directionalDistance
+        });
+    }, [playedMap.lighting, playedMap.fog, setSceneControls]);
 
     // Update the Game UI controls to include virtual gamepad toggle
-    const { showTools, showConnectionTest, virtualGamepad, thirdPersonView, characterType, darkMode, forceDarkLevel, ...restControls } = useControls('Game UI', {
+    const { showTools, showConnectionTest, virtualGamepad, thirdPersonView, characterType: characterSetting, darkMode, forceDarkLevel, ...restControls } = useControls('Game UI', {
         showTools: {
             value: false,
             label: 'Show Multiplayer Tools'
@@ -1733,6 +1715,9 @@ export function App() {
         }
     }, { collapsed: true });
     
+    // Test-play picks its own side
+    const characterType = testPlay ?? characterSetting;
+
     // Get the setter from the returned controls object
     const setControls = (restControls as any).set;
     
@@ -2241,12 +2226,6 @@ export function App() {
             const characterInfo = connectionManager.getPlayerCharacterType();
             console.log('🎮 Character assignment from ConnectionManager:', characterInfo);
             
-            // Double-check that assignment matches index
-            if ((playerIndex % 2 === 0 && characterInfo.type !== 'jackalope') || 
-                (playerIndex % 2 === 1 && characterInfo.type !== 'merc')) {
-                console.error(`⚠️ Character type mismatch! Index ${playerIndex} should be ${playerIndex % 2 === 0 ? 'JACKALOPE' : 'MERC'} but is ${characterInfo.type.toUpperCase()}`);
-            }
-            
             // Update local state and ensure UI updates
             // IMPORTANT: Override any previous settings with the connection-manager assigned type
             setPlayerCharacterInfo(characterInfo);
@@ -2268,6 +2247,72 @@ export function App() {
         }
     }, [connectionManager, enableMultiplayer, connectionManager?.getPlayerIndex(), characterType]);
 
+    // The session decides teams; follow it when it assigns, switches or rebalances us
+    useEffect(() => {
+        if (!connectionManager || !enableMultiplayer) return;
+        
+        const handleTeamAssigned = (info: { type: 'merc' | 'jackalope', thirdPerson: boolean, reason: string }) => {
+            console.log(`🎮 Team assigned by server: ${info.type} (${info.reason})`);
+            setPlayerCharacterInfo({ type: info.type, thirdPerson: info.thirdPerson });
+        };
+        
+        connectionManager.on('team_assigned', handleTeamAssigned);
+        return () => {
+            connectionManager.off('team_assigned', handleTeamAssigned);
+        };
+    }, [connectionManager, enableMultiplayer]);
+
+    // The session's round: its clock, its scores, and what the phase allows
+    const [roundState, setRoundState] = useState<RoundState | null>(null);
+    const roundAllowsScoring = () => !enableMultiplayer || !connectionManager || connectionManager.getRoundRules().scoring;
+    
+    useEffect(() => {
+        if (!connectionManager || !enableMultiplayer) return;
+        
+        let previousPhase = connectionManager.getRoundState()?.phase;
+        
+        const handleRoundState = (state: RoundState) => {
+            // A round going live brings everyone back in at their team's spawns
+            if (state.phase === 'live' && previousPhase !== 'live') {
+                const playerId = connectionManager.getPlayerId();
+                if (playerId && !connectionManager.isSpectator()) {
+                    connectionManager.sendRespawnRequest(playerId);
+                }
+            }
+            previousPhase = state.phase;
+            setRoundState(state);
+            // The server keeps the round's score; ours is only a guess until it says
+            setJackalopesScore(state.scores.jackalopes);
+            setMercsScore(state.scores.mercs);
+        };
+        
+        setRoundState(connectionManager.getRoundState());
+        connectionManager.on('round_state', handleRoundState);
+        return () => {
+            connectionManager.off('round_state', handleRoundState);
+        };
+    }, [connectionManager, enableMultiplayer]);
+
+    // Spectators (a full session, or asked to watch) get no character, just a camera
+    const [isSpectating, setIsSpectating] = useState(false);
+    const [spectateTarget, setSpectateTarget] = useState<string | null>(null);
+    const spectateTargetPosition = useRef(new THREE.Vector3());
+    
+    useEffect(() => {
+        if (!connectionManager || !enableMultiplayer) return;
+        
+        const handleSpectatorChanged = (info: { spectator: boolean, queuePosition: number }) => {
+            setIsSpectating(info.spectator);
+            if (!info.spectator) setSpectateTarget(null);
+        };
+        
+        setIsSpectating(connectionManager.isSpectator());
+        connectionManager.on('spectator_changed', handleSpectatorChanged);
+        return () => {
+            connectionManager.off('spectator_changed', handleSpectatorChanged);
+        };
+    }, [connectionManager, enableMultiplayer]);
+
     // Force characterType to match playerCharacterInfo when it changes
     useEffect(() => {
         if (playerCharacterInfo && playerCharacterInfo.type) {
@@ -2342,15 +2387,15 @@ export function App() {
                 // Get current character info
                 const characterInfo = playerCharacterInfo;
                 
-                // Check if the type matches the index parity
-                const expectedType = playerIndex % 2 === 0 ? 'jackalope' : 'merc';
+                // Check the type matches the team the session assigned
+                const expectedType = connectionManager.getPlayerCharacterType().type;
                 if (characterInfo.type !== expectedType) {
                     console.error(`Character type mismatch! Forcing correction...`);
                     // Correct the character type
                     const correctedInfo = connectionManager.resetAndCorrectCharacterType();
                     setPlayerCharacterInfo(correctedInfo);
                 } else {
-                    console.log(`Character type ${characterInfo.type} correctly matches player index ${playerIndex}`);
+                    console.log(`Character type ${characterInfo.type} matches the assigned team`);
                 }
             }
         }, 3000); // Check after 3 seconds to allow for player index assignment
@@ -2881,23 +2926,47 @@ export function App() {
         );
     };
     
-    // Add effect to handle health test (pressing 'H' key reduces health)
+    // Health comes from the authority; when it kills us we ask to respawn after a moment
     useEffect(() => {
-        const handleKeyDown = (e: KeyboardEvent) => {
-            if (e.key === 'h' || e.key === 'H') {
-                // Reduce health by 10 on H press
-                setPlayerHealth(prev => Math.max(0, prev - 10));
-            }
-            
-            // Press 'R' to reset health
-            if (e.key === 'r' || e.key === 'R') {
-                setPlayerHealth(100);
-            }
+        if (!connectionManager || !enableMultiplayer) return;
+        
+        let respawnTimer: ReturnType<typeof setTimeout> | null = null;
+        const handleHealthChanged = ({ health }: { health: number }) => setPlayerHealth(health);
+        const handleGameEvent = (event: GameEventData) => {
+            const playerId = connectionManager.getPlayerId();
+            if (event.event_type !== 'player_hit' || !event.killed || event.player_id !== playerId) return;
+            if (respawnTimer) clearTimeout(respawnTimer);
+            respawnTimer = setTimeout(() => {
+                respawnTimer = null;
+                connectionManager.sendRespawnRequest(playerId);
+            }, RESPAWN_DELAY_MS);
         };
         
-        window.addEventListener('keydown', handleKeyDown);
-        return () => window.removeEventListener('keydown', handleKeyDown);
-    }, []);
+        // Shield the health bar for as long as the authority keeps us from being hurt
+        let protectionTimer: ReturnType<typeof setTimeout> | null = null;
+        const handleSpawnProtection = (event: Event) => {
+            const { playerId, durationMs } = (event as CustomEvent<{ playerId: string; durationMs: number }>).detail;
+            if (playerId !== connectionManager.getPlayerId()) return;
+            if (protectionTimer) clearTimeout(protectionTimer);
+            setSpawnProtected(true);
+            protectionTimer = setTimeout(() => {
+                protectionTimer = null;
+                setSpawnProtected(false);
+            }, durationMs);
+        };
+        
+        setPlayerHealth(connectionManager.getHealth());
+        connectionManager.on('health_changed', handleHealthChanged);
+        connectionManager.on('game_event', handleGameEvent);
+        window.addEventListener('spawn_protection', handleSpawnProtection);
+        return () => {
+            if (respawnTimer) clearTimeout(respawnTimer);
+            if (protectionTimer) clearTimeout(protectionTimer);
+            connectionManager.off('health_changed', handleHealthChanged);
+            connectionManager.off('game_event', handleGameEvent);
+            window.removeEventListener('spawn_protection', handleSpawnProtection);
+        };
+    }, [connectionManager, enableMultiplayer]);
     
     // Make connectionManager available globally
     useEffect(() => {
@@ -2906,10 +2975,10 @@ export function App() {
         
         // Also set window.__networkManager for respawn functionality
         window.__networkManager = {
-          sendRespawnRequest: (playerId: string, spawnPosition?: [number, number, number]) => {
+          sendRespawnRequest: (playerId: string) => {
             if (connectionManager) {
-              console.log(`[App] Sending respawn request for player ${playerId} with default spawn position [-100, 3, 10]`);
-              connectionManager.sendRespawnRequest(playerId, spawnPosition);
+              console.log(`[App] Sending respawn request for player ${playerId}`);
+              connectionManager.sendRespawnRequest(playerId);
             } else {
               console.error('[App] Cannot send respawn request: connectionManager is not initialized');
             }
@@ -2979,804 +3048,25 @@ export function App() {
         }
     }, []);
     
-    // Add listener for circle collisions to update Jackalope score
+    // A jackalope reaching the rabbit hole; in multiplayer the server decides whether it counts
     useEffect(() => {
-      // Handler for jackalope scoring points when touching the center circle
-      const handleJackalopeScored = () => {
-        // Only increment score if the local player is a jackalope
-        if (window.jackalopesGame?.playerType === 'jackalope') {
-          const newScore = jackalopesScore + 1;
-          setJackalopesScore(newScore);
-          // Update last score time to prevent timer resets from overriding
-          lastScoreTime.current = Date.now();
-          console.log('🐰 Jackalope scored a point! New score:', newScore);
-          
-          // Store the updated score in localStorage
-          try {
-            localStorage.setItem('jackalopes_score', String(newScore));
-            localStorage.setItem('scores_last_updated', String(Date.now()));
-          } catch (err) {
-            console.error('Error storing score in localStorage:', err);
-          }
-          
-          // Broadcast score update to all players if in multiplayer mode
-          if (enableMultiplayer && connectionManager && connectionManager.isReadyToSend()) {
-            // Use a direct broadcast message with a unique format for better reliability
-            console.log('📣 Broadcasting jackalope score:', newScore);
-            connectionManager.sendMessage({
-              type: 'game_event',
-              event: {
-                event_type: 'game_score_update', // More specific event type
-                source: 'jackalope_scored',
-                scoreType: 'jackalope', // Explicitly mark which score is being updated
-                jackalopesScore: newScore,
-                mercsScore: mercsScore,
-                timestamp: Date.now(),
-                shotId: `score-j-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
-              }
-            });
-          }
+      const handleJackalopeScored = (event: Event) => {
+        if (!roundAllowsScoring() || window.jackalopesGame?.playerType !== 'jackalope') return;
+        
+        if (!enableMultiplayer) {
+          setJackalopesScore(prev => prev + 1);
+        } else if (connectionManager?.isReadyToSend()) {
+          const { holeId = 'center', position } = (event as CustomEvent<{ holeId?: string, position?: [number, number, number] }>).detail ?? {};
+          connectionManager.sendCaptureClaim(holeId, position);
         }
       };
       
-      // Create a custom event for jackalope scoring
       window.addEventListener('jackalope_scored', handleJackalopeScored);
       
       return () => {
         window.removeEventListener('jackalope_scored', handleJackalopeScored);
       };
-    }, [jackalopesScore, mercsScore, enableMultiplayer, connectionManager]);
-    
-    // Add listener for merc scoring when hitting a jackalope
-    useEffect(() => {
-      // Handler for merc scoring points when hitting a jackalope
-      const handleMercScored = (event: CustomEvent) => {
-        // Only increment score if the local player is a merc
-        if (window.jackalopesGame?.playerType === 'merc') {
-          // Extract jackalope ID from the event
-          const jackalopeId = event.detail?.jackalopeId;
-          const mercId = event.detail?.mercId;
-          const shotId = event.detail?.shotId;
-          
-          if (!jackalopeId) {
-            console.log(`🎯 Missing jackalopeId in merc_scored event:`, event.detail);
-            return;
-          }
-          
-          console.log(`🎯 Processing scoring event: Merc ${mercId} hit Jackalope ${jackalopeId} with shot ${shotId}`);
-          
-          // Skip if we've already scored for this jackalope
-          if (scoredJackalopesRef.current.has(jackalopeId)) {
-            console.log(`🎯 Already scored for jackalope ${jackalopeId}, not incrementing score`);
-            return;
-          }
-          
-          // Mark this jackalope as scored
-          scoredJackalopesRef.current.add(jackalopeId);
-          console.log(`🎯 Adding jackalope ${jackalopeId} to scored list (total: ${scoredJackalopesRef.current.size})`);
-          
-          // If the set gets too large, clear older entries (after 100 entries)
-          if (scoredJackalopesRef.current.size > 100) {
-            console.log('🎯 Clearing old scored jackalopes from tracking');
-            scoredJackalopesRef.current.clear();
-          } else {
-            // Save updated list to localStorage  
-            saveScoredJackalopes();
-          }
-          
-          const newScore = mercsScore + 1;
-          setMercsScore(newScore);
-          // Update last score time to prevent timer resets from overriding
-          lastScoreTime.current = Date.now();
-          console.log(`🎯 Merc scored a point! Current score: ${mercsScore}, updating to: ${newScore}`);
-          
-          // Store the updated score in localStorage
-          try {
-            localStorage.setItem('mercs_score', String(newScore));
-            localStorage.setItem('scores_last_updated', String(Date.now()));
-            localStorage.setItem('last_score_time', Date.now().toString());
-          } catch (err) {
-            console.error('Error storing score in localStorage:', err);
-          }
-          
-          // Broadcast score update to all players if in multiplayer mode
-          if (enableMultiplayer && connectionManager && connectionManager.isReadyToSend()) {
-            // Generate a unique event ID to prevent duplicate processing
-            const scoreEventId = `score-m-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-            
-            // Use a direct broadcast message with a unique format for better reliability
-            console.log('📣 Broadcasting merc score:', newScore);
-            connectionManager.sendMessage({
-              type: 'game_event',
-              event: {
-                event_type: 'game_score_update',
-                source: 'merc_scored_direct_hit',
-                scoreType: 'merc', // Explicitly mark which score is being updated
-                jackalopesScore: jackalopesScore,
-                mercsScore: newScore,
-                eliminatedJackalopeId: jackalopeId, // Include which jackalope was eliminated
-                mercId: mercId,
-                hitShotId: shotId, // Original shot ID that caused the hit
-                scored_time: Date.now(), // Add timestamp to help with race conditions
-                scoredJackalopes: Array.from(scoredJackalopesRef.current), // Share which jackalopes have been scored
-                timestamp: Date.now(),
-                shotId: scoreEventId
-              }
-            });
-            
-            // Also broadcast via window event for cross-tab communication
-            window.dispatchEvent(new CustomEvent('game_score_update', {
-              detail: {
-                event_type: 'game_score_update',
-                source: 'merc_scored_local',
-                scoreType: 'merc',
-                jackalopesScore: jackalopesScore,
-                mercsScore: newScore,
-                scored_time: Date.now(),
-                shotId: `score-m-local-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
-              }
-            }));
-            
-            // Mark this score update as processed
-            processedScoreUpdates.add(scoreEventId);
-          }
-        }
-      };
-      
-      // Listen for the merc_scored event
-      window.addEventListener('merc_scored', handleMercScored as EventListener);
-      
-      return () => {
-        window.removeEventListener('merc_scored', handleMercScored as EventListener);
-      };
-    }, [mercsScore, jackalopesScore, enableMultiplayer, connectionManager]);
-    
-    // Initialize scores from localStorage if available
-    useEffect(() => {
-      try {
-        const storedJackalopesScore = localStorage.getItem('jackalopes_score');
-        const storedMercsScore = localStorage.getItem('mercs_score');
-        
-        if (storedJackalopesScore) {
-          const parsedScore = parseInt(storedJackalopesScore, 10);
-          if (!isNaN(parsedScore) && parsedScore > jackalopesScore) {
-            console.log(`📊 Loading jackalopes score from localStorage: ${parsedScore}`);
-            setJackalopesScore(parsedScore);
-          }
-        }
-        
-        if (storedMercsScore) {
-          const parsedScore = parseInt(storedMercsScore, 10);
-          if (!isNaN(parsedScore) && parsedScore > mercsScore) {
-            console.log(`📊 Loading mercs score from localStorage: ${parsedScore}`);
-            setMercsScore(parsedScore);
-          }
-        }
-      } catch (err) {
-        console.error('Error loading scores from localStorage:', err);
-      }
-    }, []);
-    
-    // Listen for localStorage changes to sync scores between tabs
-    useEffect(() => {
-      const handleStorageChange = (e: StorageEvent) => {
-        if (e.key === 'jackalopes_score') {
-          const newScore = parseInt(e.newValue || '0', 10);
-          if (!isNaN(newScore) && newScore > jackalopesScore) {
-            console.log(`📊 Updating jackalopes score from localStorage: ${newScore}`);
-            setJackalopesScore(newScore);
-          }
-        } else if (e.key === 'mercs_score') {
-          const newScore = parseInt(e.newValue || '0', 10);
-          if (!isNaN(newScore) && newScore > mercsScore) {
-            console.log(`📊 Updating mercs score from localStorage: ${newScore}`);
-            setMercsScore(newScore);
-          }
-        }
-      };
-      
-      window.addEventListener('storage', handleStorageChange);
-      
-      return () => {
-        window.removeEventListener('storage', handleStorageChange);
-      };
-    }, [jackalopesScore, mercsScore]);
-    
-    // Add listener for score update events from other players
-    useEffect(() => {
-      // Only set up handler when multiplayer is enabled
-      if (!enableMultiplayer || !connectionManager) return;
-      
-      // Track processed score updates to avoid duplicates
-      const processedScoreUpdates = new Set<string>();
-      
-      // Handle the game event messages from the server
-      const handleGameEvent = (data: any) => {
-        // Check if this is a score update event
-        if (data && data.event && data.event.event_type === 'game_score_update' && data.event.shotId) {
-          const event = data.event;
-          
-          console.log('📊 Received score update event:', event);
-          
-          // Skip if we've already processed this score update
-          if (processedScoreUpdates.has(event.shotId)) {
-            console.log('⏩ Skipping duplicate score update:', event.shotId);
-            return;
-          }
-          
-          // Mark this update as processed
-          processedScoreUpdates.add(event.shotId);
-          
-          // Limit the size of the processed set to avoid memory leaks
-          if (processedScoreUpdates.size > 100) {
-            // Remove oldest entries
-            const updatesArray = Array.from(processedScoreUpdates);
-            processedScoreUpdates.clear();
-            updatesArray.slice(-50).forEach(id => processedScoreUpdates.add(id));
-          }
-          
-          console.log(`📊 Received score update from network: J=${event.jackalopesScore}, M=${event.mercsScore}, source=${event.source || 'unknown'}`);
-          
-          // Handle score updates by source type
-          if (event.source === 'timer_reset') {
-            // Only apply timer resets if our scores aren't more recent
-            if (!event.reset_time || Date.now() - event.reset_time < 5000) {
-              console.log('📊 Processing timer reset from network');
-              setJackalopesScore(0);
-              setMercsScore(0);
-              localStorage.setItem('jackalopes_score', '0');
-              localStorage.setItem('mercs_score', '0');
-            } else {
-              console.log('📊 Ignoring old timer reset event');
-            }
-          } 
-          else if (event.source && (event.source.includes('merc_scored') || event.source.includes('jackalope_scored'))) {
-            // Direct scoring events - always apply these with priority
-            console.log('📊 Processing direct scoring event from network');
-            
-            // If this is a merc scoring event, update merc score
-            if (event.source.includes('merc_scored') && event.mercsScore > mercsScore) {
-              setMercsScore(event.mercsScore);
-              // Update last score time
-              lastScoreTime.current = Date.now();
-              localStorage.setItem('mercs_score', String(event.mercsScore));
-            }
-            
-            // If this is a jackalope scoring event, update jackalope score
-            if (event.source.includes('jackalope_scored') && event.jackalopesScore > jackalopesScore) {
-              setJackalopesScore(event.jackalopesScore);
-              // Update last score time
-              lastScoreTime.current = Date.now();
-              localStorage.setItem('jackalopes_score', String(event.jackalopesScore));
-            }
-            
-            // Update scored jackalopes tracking if provided
-            if (event.scoredJackalopes && Array.isArray(event.scoredJackalopes)) {
-              console.log(`📊 Updating scored jackalopes list with ${event.scoredJackalopes.length} entries from network`);
-              
-              // Merge the received list with our current list
-              event.scoredJackalopes.forEach((id: string) => {
-                scoredJackalopesRef.current.add(id);
-              });
-              
-              // Save to localStorage
-              saveScoredJackalopes();
-            }
-            
-            // If a single jackalope was eliminated, add it to our tracking
-            if (event.eliminatedJackalopeId) {
-              console.log(`📊 Adding jackalope ${event.eliminatedJackalopeId} to scored list from network event`);
-              scoredJackalopesRef.current.add(event.eliminatedJackalopeId);
-              saveScoredJackalopes();
-            }
-          } 
-          else {
-            // Other score updates (periodic sync, etc)
-            console.log('📊 Processing general score update from network');
-            
-            // For general updates, take the higher score
-            const newJackalopesScore = Math.max(jackalopesScore, event.jackalopesScore || 0);
-            const newMercsScore = Math.max(mercsScore, event.mercsScore || 0);
-            
-            if (newJackalopesScore !== jackalopesScore || newMercsScore !== mercsScore) {
-              console.log(`📊 Updating scores to higher values: J=${newJackalopesScore}, M=${newMercsScore}`);
-              
-              if (newJackalopesScore !== jackalopesScore) {
-                setJackalopesScore(newJackalopesScore);
-                localStorage.setItem('jackalopes_score', String(newJackalopesScore));
-              }
-              
-              if (newMercsScore !== mercsScore) {
-                setMercsScore(newMercsScore);
-                localStorage.setItem('mercs_score', String(newMercsScore));
-              }
-              
-              // Update last score time if either score changed
-              lastScoreTime.current = Date.now();
-            } else {
-              console.log('📊 No score changes needed - our scores are higher or equal');
-            }
-          }
-          
-          // Announce the score update to make it very clear
-          if (event.scoreType === 'jackalope') {
-            console.log(`🐰 Jackalope scored! Current scores: J=${jackalopesScore}, M=${mercsScore}`);
-          } else if (event.scoreType === 'merc') {
-            console.log(`🎯 Merc scored! Current scores: J=${jackalopesScore}, M=${mercsScore}`);
-          }
-        }
-      };
-      
-      // Handle the custom window events dispatched by MultiplayerSyncManager
-      const handleWindowScoreEvent = (e: Event) => {
-        const event = (e as CustomEvent).detail;
-        if (!event || !event.shotId) return;
-        
-        console.log('📊 Received score update from window event:', event);
-        
-        // Skip if we've already processed this score update
-        if (processedScoreUpdates.has(event.shotId)) {
-          console.log('⏩ Skipping duplicate score update from window event:', event.shotId);
-          return;
-        }
-        
-        // Mark this update as processed
-        processedScoreUpdates.add(event.shotId);
-        
-        console.log(`📊 Updating scores from window event: J=${event.jackalopesScore}, M=${event.mercsScore}, source=${event.source || 'unknown'}`);
-        
-        // Handle score updates by source type
-        if (event.source === 'timer_reset') {
-          // Only apply timer resets if our scores aren't more recent
-          if (!event.reset_time || Date.now() - event.reset_time < 5000) {
-            console.log('📊 Processing timer reset from window event');
-            setJackalopesScore(0);
-            setMercsScore(0);
-            localStorage.setItem('jackalopes_score', '0');
-            localStorage.setItem('mercs_score', '0');
-          } else {
-            console.log('📊 Ignoring old timer reset window event');
-          }
-        } 
-        else if (event.source && (event.source.includes('merc_scored') || event.source.includes('jackalope_scored'))) {
-          // Direct scoring events - always apply these with priority
-          console.log('📊 Processing direct scoring event from window');
-          
-          // If this is a merc scoring event, update merc score
-          if (event.source.includes('merc_scored') && event.mercsScore > mercsScore) {
-            setMercsScore(event.mercsScore);
-            // Update last score time
-            lastScoreTime.current = Date.now();
-            localStorage.setItem('mercs_score', String(event.mercsScore));
-          }
-          
-          // If this is a jackalope scoring event, update jackalope score
-          if (event.source.includes('jackalope_scored') && event.jackalopesScore > jackalopesScore) {
-            setJackalopesScore(event.jackalopesScore);
-            // Update last score time
-            lastScoreTime.current = Date.now();
-            localStorage.setItem('jackalopes_score', String(event.jackalopesScore));
-          }
-          
-          // Update scored jackalopes tracking if provided
-          if (event.scoredJackalopes && Array.isArray(event.scoredJackalopes)) {
-            console.log(`📊 Updating scored jackalopes list with ${event.scoredJackalopes.length} entries from window event`);
-            
-            // Merge the received list with our current list
-            event.scoredJackalopes.forEach((id: string) => {
-              scoredJackalopesRef.current.add(id);
-            });
-            
-            // Save to localStorage
-            saveScoredJackalopes();
-          }
-          
-          // If a single jackalope was eliminated, add it to our tracking
-          if (event.eliminatedJackalopeId) {
-            console.log(`📊 Adding jackalope ${event.eliminatedJackalopeId} to scored list from window event`);
-            scoredJackalopesRef.current.add(event.eliminatedJackalopeId);
-            saveScoredJackalopes();
-          }
-        } 
-        else {
-          // Other score updates (periodic sync, etc)
-          console.log('📊 Processing general score update from window');
-          
-          // For general updates, take the higher score
-          const newJackalopesScore = Math.max(jackalopesScore, event.jackalopesScore || 0);
-          const newMercsScore = Math.max(mercsScore, event.mercsScore || 0);
-          
-          if (newJackalopesScore !== jackalopesScore || newMercsScore !== mercsScore) {
-            console.log(`📊 Updating scores to higher values: J=${newJackalopesScore}, M=${newMercsScore}`);
-            
-            if (newJackalopesScore !== jackalopesScore) {
-              setJackalopesScore(newJackalopesScore);
-              localStorage.setItem('jackalopes_score', String(newJackalopesScore));
-            }
-            
-            if (newMercsScore !== mercsScore) {
-              setMercsScore(newMercsScore);
-              localStorage.setItem('mercs_score', String(newMercsScore));
-            }
-            
-            // Update last score time if either score changed
-            lastScoreTime.current = Date.now();
-          } else {
-            console.log('📊 No score changes needed - our scores are higher or equal');
-          }
-        }
-        
-        // Announce the score update to make it very clear
-        if (event.scoreType === 'jackalope') {
-          console.log(`🐰 Jackalope scored! Current scores: J=${jackalopesScore}, M=${mercsScore}`);
-        } else if (event.scoreType === 'merc') {
-          console.log(`🎯 Merc scored! Current scores: J=${jackalopesScore}, M=${mercsScore}`);
-        }
-      };
-      
-      // Listen for window events as well for better cross-client synchronization
-      window.addEventListener('game_score_update', handleWindowScoreEvent);
-      
-      // Add listener for game events
-      connectionManager.on('game_event', handleGameEvent);
-      
-      // Request current scores from all players when we connect
-      if (connectionManager.isReadyToSend()) {
-        console.log('🔄 Requesting current scores from all players...');
-        setTimeout(() => {
-          connectionManager.sendMessage({
-            type: 'game_event',
-            event: {
-              event_type: 'game_score_request', // More specific event type
-              timestamp: Date.now(),
-              shotId: `req-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
-            }
-          });
-        }, 1000); // Delay to ensure connection is ready
-      }
-      
-      // Listen for score requests and respond with our scores
-      const handleScoreRequest = (data: any) => {
-        if (data && data.event && data.event.event_type === 'game_score_request') {
-          console.log('📡 Received score request, sending our scores...');
-          if (connectionManager.isReadyToSend()) {
-            connectionManager.sendMessage({
-              type: 'game_event',
-              event: {
-                event_type: 'game_score_update',
-                source: 'score_request_response',
-                jackalopesScore: jackalopesScore,
-                mercsScore: mercsScore,
-                timestamp: Date.now(),
-                shotId: `resp-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
-              }
-            });
-          }
-        }
-      };
-      
-      // Add this as a separate handler
-      connectionManager.on('game_event', handleScoreRequest);
-      
-      // Also implement a periodic score synchronization
-      const syncInterval = setInterval(() => {
-        if (connectionManager && connectionManager.isReadyToSend()) {
-          // Send our current scores every 10 seconds to ensure synchronization
-          connectionManager.sendMessage({
-            type: 'game_event',
-            event: {
-              event_type: 'game_score_update',
-              source: 'periodic_sync',
-              jackalopesScore: jackalopesScore,
-              mercsScore: mercsScore,
-              timestamp: Date.now(),
-              shotId: `sync-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
-            }
-          });
-        }
-      }, 10000); // Sync every 10 seconds
-      
-      return () => {
-        // Clean up the subscriptions
-        connectionManager.off('game_event', handleGameEvent);
-        connectionManager.off('game_event', handleScoreRequest);
-        window.removeEventListener('game_score_update', handleWindowScoreEvent);
-        clearInterval(syncInterval);
-      };
-    }, [enableMultiplayer, connectionManager, jackalopesScore, mercsScore]);
-    
-    // Add handler for respawn events from server
-    useEffect(() => {
-      const handleRespawnEvent = (event: CustomEvent) => {
-        const respawnedPlayerId = event.detail?.playerId;
-        if (respawnedPlayerId) {
-          // Clear tracking for this jackalope when it respawns from a network event
-          clearScoredJackalope(respawnedPlayerId);
-          console.log(`🔄 Cleared tracking for respawned jackalope: ${respawnedPlayerId}`);
-        }
-      };
-      
-      window.addEventListener('player_respawn', handleRespawnEvent as EventListener);
-      
-      return () => {
-        window.removeEventListener('player_respawn', handleRespawnEvent as EventListener);
-      };
-    }, []);
-    
-    // Add this near the top of the App function component where other refs are defined
-    const processedScoreUpdates = useRef(new Set<string>()).current;
-    // Add this after lastScoreTime ref
-    const lastBroadcastTime = useRef(Date.now());
-    
-    // Update handleJackalopeScored function
-    const handleJackalopeScored = (event: CustomEvent) => {
-      // Only increment score if the local player is a jackalope
-      if (window.jackalopesGame?.playerType === 'jackalope') {
-        const mercId = event.detail?.mercId;
-        
-        if (!mercId) {
-          console.log(`🐰 Missing mercId in jackalope_scored event:`, event.detail);
-          return;
-        }
-        
-        console.log(`🐰 Processing scoring event: Jackalope scored against Merc ${mercId}`);
-        
-        // Skip if we've already scored for this merc (in the last minute)
-        const mercKey = `merc-${mercId}-${Math.floor(Date.now() / 60000)}`;
-        
-        if (scoredMercsRef.current.has(mercKey)) {
-          console.log(`🐰 Already scored for merc ${mercId} recently, not incrementing score`);
-          return;
-        }
-        
-        // Mark this merc as scored against
-        scoredMercsRef.current.add(mercKey);
-        console.log(`🐰 Adding merc ${mercId} to scored list (total: ${scoredMercsRef.current.size})`);
-        
-        // If the set gets too large, clear older entries
-        if (scoredMercsRef.current.size > 100) {
-          console.log('🐰 Clearing old scored mercs from tracking');
-          scoredMercsRef.current.clear();
-        }
-        
-        const newScore = jackalopesScore + 1;
-        setJackalopesScore(newScore);
-        // Update last score time to prevent timer resets from overriding
-        lastScoreTime.current = Date.now();
-        console.log(`🐰 Jackalope scored a point! Current score: ${jackalopesScore}, updating to: ${newScore}`);
-        
-        // Store the updated score in localStorage
-        try {
-          localStorage.setItem('jackalopes_score', String(newScore)); 
-          localStorage.setItem('scores_last_updated', String(Date.now()));
-          localStorage.setItem('last_score_time', Date.now().toString());
-        } catch (err) {
-          console.error('Error storing score in localStorage:', err);
-        }
-        
-        // Broadcast score update to all players if in multiplayer mode
-        if (enableMultiplayer && connectionManager && connectionManager.isReadyToSend()) {
-          // Generate a unique event ID to prevent duplicate processing
-          const scoreEventId = `score-j-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-          
-          // Use a direct broadcast message with a unique format for better reliability
-          console.log('📣 Broadcasting jackalope score:', newScore);
-          connectionManager.sendMessage({
-            type: 'game_event',
-            event: {
-              event_type: 'game_score_update',
-              source: 'jackalope_scored_direct_hit',
-              scoreType: 'jackalope', // Explicitly mark which score is being updated
-              jackalopesScore: newScore,
-              mercsScore: mercsScore,
-              targetMercId: mercId, // Include which merc was the target
-              scored_time: Date.now(), // Add timestamp to help with race conditions
-              timestamp: Date.now(),
-              shotId: scoreEventId
-            }
-          });
-          
-          // Also broadcast via window event for cross-tab communication
-          window.dispatchEvent(new CustomEvent('game_score_update', {
-            detail: {
-              event_type: 'game_score_update',
-              source: 'jackalope_scored_local',
-              scoreType: 'jackalope',
-              jackalopesScore: newScore,
-              mercsScore: mercsScore,
-              scored_time: Date.now(),
-              shotId: `score-j-local-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
-            }
-          }));
-          
-          // Mark this score update as processed
-          processedScoreUpdates.add(scoreEventId);
-        }
-      }
-    };
-    
-    // Add periodic score sync function
-    const syncScoresWithNetwork = useCallback(() => {
-      // Only broadcast every 5 seconds at most
-      const now = Date.now();
-      if (now - lastBroadcastTime.current < 5000) {
-        return;
-      }
-      
-      lastBroadcastTime.current = now;
-      
-      // Don't broadcast if both scores are 0
-      if (jackalopesScore === 0 && mercsScore === 0) {
-        return;
-      }
-      
-      // Broadcast current scores to all players if in multiplayer mode
-      if (enableMultiplayer && connectionManager && connectionManager.isReadyToSend()) {
-        console.log('📣 Broadcasting periodic score sync');
-        
-        // Generate a unique event ID to prevent duplicate processing
-        const syncEventId = `sync-${now}-${Math.random().toString(36).substring(2, 9)}`;
-        
-        connectionManager.sendMessage({
-          type: 'game_event',
-          event: {
-            event_type: 'game_score_update',
-            source: 'periodic_sync',
-            jackalopesScore: jackalopesScore,
-            mercsScore: mercsScore,
-            timestamp: now,
-            shotId: syncEventId
-          }
-        });
-        
-        // Mark this sync as processed
-        processedScoreUpdates.add(syncEventId);
-        
-        // Also broadcast via window event for cross-tab communication
-        window.dispatchEvent(new CustomEvent('game_score_update', {
-          detail: {
-            source: 'periodic_sync',
-            jackalopesScore: jackalopesScore,
-            mercsScore: mercsScore,
-            timestamp: now,
-            shotId: `sync-window-${now}-${Math.random().toString(36).substring(2, 9)}`
-          }
-        }));
-      }
-    }, [jackalopesScore, mercsScore, enableMultiplayer, connectionManager]);
-    
-    // Add this effect to sync scores periodically
-    useEffect(() => {
-      // Set up periodic score sync to ensure all clients have latest scores
-      const syncInterval = setInterval(syncScoresWithNetwork, 15000);
-      
-      return () => clearInterval(syncInterval);
-    }, [syncScoresWithNetwork]);
-    
-    // Listen for timer reset events
-    useEffect(() => {
-      const handleTimerReset = (e: Event) => {
-        const event = (e as CustomEvent).detail;
-        if (!event || !event.id) return;
-        
-        console.log('⏱️ Received timer reset event from ScoreDisplay:', event);
-        
-        // Skip if we've already processed this reset
-        if (processedScoreUpdates.has(event.id)) {
-          return;
-        }
-        
-        // Mark this reset as processed
-        processedScoreUpdates.add(event.id);
-        
-        // Check if scores were updated recently
-        const timeSinceLastScore = Date.now() - lastScoreTime.current;
-        if (timeSinceLastScore > 5000 && (jackalopesScore > 0 || mercsScore > 0)) {
-          // Reset scores if it's been more than 5 seconds since the last score update
-          console.log('⏱️ Resetting scores from timer event');
-          setJackalopesScore(0);
-          setMercsScore(0);
-          localStorage.setItem('jackalopes_score', '0');
-          localStorage.setItem('mercs_score', '0');
-          localStorage.setItem('scores_reset_time', Date.now().toString());
-          
-          // Broadcast score reset
-          if (enableMultiplayer && connectionManager && connectionManager.isReadyToSend()) {
-            const resetEventId = `reset-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-            
-            connectionManager.sendMessage({
-              type: 'game_event',
-              event: {
-                event_type: 'game_score_update',
-                source: 'timer_reset',
-                jackalopesScore: 0,
-                mercsScore: 0,
-                reset_time: Date.now(),
-                timestamp: Date.now(),
-                shotId: resetEventId
-              }
-            });
-            
-            // Mark this reset as processed
-            processedScoreUpdates.add(resetEventId);
-          }
-        } else {
-          console.log(`⏱️ Not resetting scores from timer event - scores were updated ${timeSinceLastScore}ms ago`);
-        }
-      };
-      
-      window.addEventListener('timer_reset', handleTimerReset as EventListener);
-      
-      return () => {
-        window.removeEventListener('timer_reset', handleTimerReset as EventListener);
-      };
-    }, [jackalopesScore, mercsScore, enableMultiplayer, connectionManager]);
-    
-    // Initialize scores from localStorage
-    useEffect(() => {
-        try {
-            const storedJackalopesScore = localStorage.getItem('jackalopes_score');
-            const storedMercsScore = localStorage.getItem('mercs_score');
-            
-            if (storedJackalopesScore) {
-                setJackalopesScore(parseInt(storedJackalopesScore, 10));
-            }
-            
-            if (storedMercsScore) {
-                setMercsScore(parseInt(storedMercsScore, 10));
-            }
-            
-            console.log(`📊 Loaded scores from localStorage: Jackalopes ${storedJackalopesScore || 0}, Mercs ${storedMercsScore || 0}`);
-        } catch (err) {
-            console.error('Error loading scores from localStorage:', err);
-        }
-        
-        // Add listeners for host-based score synchronization
-        const handleHostScoreUpdate = (e: CustomEvent) => {
-            if (!isHost) {
-                console.log('📊 Received score update from host:', e.detail);
-                setJackalopesScore(e.detail.jackalopesScore);
-                setMercsScore(e.detail.mercsScore);
-                lastScoreTime.current = e.detail.timestamp || Date.now();
-            }
-        };
-        
-        window.addEventListener('host_score_update', handleHostScoreUpdate as EventListener);
-        
-        return () => {
-            window.removeEventListener('host_score_update', handleHostScoreUpdate as EventListener);
-        };
-    }, [isHost]);
-    
-    // Create network manager functions to expose in global scope
-    const networkManager = {
-      sendRespawnRequest: (playerId: string, spawnPosition?: [number, number, number]) => {
-        if (connectionManager) {
-          console.log(`[App] Sending respawn request for player ${playerId} with default spawn position [-100, 3, 10]`);
-          connectionManager.sendRespawnRequest(playerId, spawnPosition);
-        } else {
-          console.error('[App] Cannot send respawn request: connectionManager is not initialized');
-        }
-      }
-    };
-    
-    // Hook up respawn request function with optional spawn position to ConnectionManager
-    const handleRespawnRequest = (playerId: string, spawnPosition?: [number, number, number]) => {
-      if (!connectionManager) {
-        console.error('[App] Cannot send respawn request: connectionManager not initialized');
-        return;
-      }
-      
-      const defaultSpawnPosition: [number, number, number] = [-100, 3, 10];
-      
-      // Use provided position or default
-      const finalSpawnPosition = spawnPosition || defaultSpawnPosition;
-      
-      console.log(`[App] Sending respawn request with position [${finalSpawnPosition.join(', ')}]`);
-      
-      // Send the respawn request to server
-      connectionManager.sendRespawnRequest(playerId, finalSpawnPosition);
-    }
+    }, [enableMultiplayer, connectionManager]);
     
     // Make game properties accessible globally
     window.jackalopesGame = {
@@ -3786,30 +3076,6 @@ export function App() {
         debugLevel: 1
     } as any; // Use type assertion to bypass type check
     
-    // Create a jackalope spawn position manager
-    if (typeof window !== 'undefined' && window.jackalopesGame && !window.jackalopesGame.spawnManager) {
-        window.jackalopesGame.spawnManager = {
-            baseSpawnX: -100,
-            currentSpawnX: -100,
-            stepSize: 50,
-            minX: -500, // Changed from -50 to -500 to allow going further out
-            getNextSpawnPoint: function(): [number, number, number] {
-                // Adjust X to move further away by stepSize (subtract instead of add)
-                this.currentSpawnX = Math.max(this.minX, this.currentSpawnX - this.stepSize);
-                console.log(`🐰 [SpawnManager] Next spawn at X: ${this.currentSpawnX}`);
-                return [this.currentSpawnX, 3, 10];
-            },
-            resetSpawnPoints: function() {
-                console.log(`🐰 [SpawnManager] Resetting spawn positions to base X: ${this.baseSpawnX}`);
-                this.currentSpawnX = this.baseSpawnX;
-                return [this.currentSpawnX, 3, 10];
-            },
-            getSpawnPoint: function(): [number, number, number] {
-                return [this.currentSpawnX, 3, 10];
-            }
-        };
-    }
-    
     // Set up player position tracker for third-person camera
     useEffect(() => {
         // Log when third-person view is activated or deactivated
@@ -3994,13 +3260,14 @@ export function App() {
                     timeStep={1/240} // Increased physics rate to 240Hz for smoother movement
                     interpolate={true}
                     gravity={[0, -9.81, 0]}>
+                    {!isSpectating && !editing && (
                     <PlayerControls thirdPersonView={enableMultiplayer ? playerCharacterInfo.thirdPerson : thirdPersonView}>
                         {/* Conditionally render either the Player (merc) or Jackalope */}
                         {enableMultiplayer ? (
                             playerCharacterInfo.type === 'merc' ? (
                                 <Player 
                                     ref={playerRef}
-                                    position={[10, 7, 10]}
+                                    position={startingPosition('merc', playedMap)}
                                     walkSpeed={0.02}
                                     runSpeed={0.025}
                                     jumpForce={jumpForce * 0.7}
@@ -4023,7 +3290,8 @@ export function App() {
                             ) : (
                                 <Jackalope
                                     ref={playerRef}
-                                    position={[-100, 7, 10]} // Different spawn position for jackalope
+                                    position={startingPosition('jackalope', playedMap)}
+                                    map={playedMap}
                                     walkSpeed={0.56}
                                     runSpeed={1.0}
                                     jumpForce={jumpForce * 0.8}
@@ -4047,7 +3315,7 @@ export function App() {
                             characterType === 'merc' ? (
                                 <Player 
                                     ref={playerRef}
-                                    position={[10, 7, 10]}
+                                    position={startingPosition('merc', playedMap)}
                                     walkSpeed={0.02}
                                     runSpeed={0.025}
                                     jumpForce={jumpForce * 0.7}
@@ -4070,7 +3338,8 @@ export function App() {
                             ) : (
                                 <Jackalope
                                     ref={playerRef}
-                                    position={[-100, 7, 10]} // Different spawn position for jackalope
+                                    position={startingPosition('jackalope', playedMap)}
+                                    map={playedMap}
                                     walkSpeed={0.56}
                                     runSpeed={1.0}
                                     jumpForce={jumpForce * 0.8}
@@ -4092,25 +3361,32 @@ export function App() {
                             )
                         )}
                     </PlayerControls>
-                    <Platforms />
+                    )}
+                    <Platforms map={playedMap} />
 
                     <Scene playerRef={playerRef} />
                     
                     {/* Show SphereTool only for merc character - jackalobes don't shoot */}
-                    {(enableMultiplayer ? playerCharacterInfo.type === 'merc' : characterType === 'merc') && (
+                    {!isSpectating && !editing && (enableMultiplayer ? playerCharacterInfo.type === 'merc' : characterType === 'merc') && (
                         <SphereTool 
                             onShoot={enableMultiplayer ? 
-                                (origin, direction) => {
-                                    console.log('App: onShoot called with', { origin, direction });
+                                (origin, direction, weapon) => {
+                                    console.log('App: onShoot called with', { origin, direction, weapon });
                                     try {
-                                        connectionManager.sendShootEvent(origin, direction);
+                                        const shotId = connectionManager.sendShootEvent(origin, direction, weapon);
                                         console.log('App: successfully sent shoot event');
+                                        return shotId;
                                     } catch (error) {
                                         console.error('App: error sending shoot event:', error);
+                                        return null;
                                     }
                                 } 
                                 : undefined
                             }
+                            onHit={enableMultiplayer ?
+                                (shotId, targetId, hitPosition) => connectionManager.sendHitReport(shotId, targetId, hitPosition)
+                                : undefined
+                            }
                             remoteShots={remoteShots}
                             thirdPersonView={enableMultiplayer ? playerCharacterInfo.thirdPerson : thirdPersonView}
                             playerPosition={enableMultiplayer ? 
@@ -4120,16 +3396,21 @@ export function App() {
                     )}
 
                     {/* Use enableMultiplayer instead of showMultiplayerTools for the actual multiplayer functionality */}
-                    {enableMultiplayer && playerRefReady && (
+                    {enableMultiplayer && (playerRefReady || isSpectating) && (
                         <MultiplayerManager 
+                            key={isSpectating ? 'spectating' : 'playing'}
                             localPlayerRef={playerRef} 
                             connectionManager={connectionManager}
                         />
                     )}
+
+                    {enableMultiplayer && <Decoys connectionManager={connectionManager} />}
                 </Physics>
 
+                {editing && <MapEditorScene editor={editor} />}
+
                 <PerspectiveCamera 
-                    makeDefault={!thirdPersonView} 
+                    makeDefault={!thirdPersonView && !isSpectating && !editing} 
                     position={[0, 10, 10]} 
                     rotation={[0, 0, 0]}
                     near={0.1}
@@ -4138,7 +3419,7 @@ export function App() {
                 />
 
                 {/* Add third-person camera when needed */}
-                {(enableMultiplayer ? playerCharacterInfo.thirdPerson : thirdPersonView) && (
+                {!isSpectating && !editing && (enableMultiplayer ? playerCharacterInfo.thirdPerson : thirdPersonView) && (
                     <PerspectiveCamera
                         ref={thirdPersonCameraRef}
                         makeDefault
@@ -4149,8 +3430,33 @@ export function App() {
                     />
                 )}
 
+                {/* Spectators fly freely or trail whoever they picked */}
+                {isSpectating && !spectateTarget && <SpectatorCamera invertY={invertYAxis} />}
+                {isSpectating && spectateTarget && (
+                    <>
+                        <PerspectiveCamera
+                            ref={thirdPersonCameraRef}
+                            makeDefault
+                            position={[0, cameraHeight, cameraDistance]}
+                            near={0.1}
+                            far={500}
+                            fov={75}
+                        />
+                        <SpectatorFollowTarget playerId={spectateTarget} target={spectateTargetPosition.current} />
+                        <ThirdPersonCameraControls
+                            key={spectateTarget}
+                            player={spectateTargetPosition.current}
+                            cameraRef={thirdPersonCameraRef}
+                            enabled
+                            distance={cameraDistance}
+                            height={cameraHeight}
+                            invertY={invertYAxis}
+                        />
+                    </>
+                )}
+
                 {/* Add simplified ThirdPersonCameraControls */}
-                {(enableMultiplayer ? playerCharacterInfo.thirdPerson : thirdPersonView) && playerPosition.current && (
+                {!isSpectating && !editing && (enableMultiplayer ? playerCharacterInfo.thirdPerson : thirdPersonView) && playerPosition.current && (
                     <ThirdPersonCameraControls 
                         player={playerPosition.current}
                         cameraRef={thirdPersonCameraRef}
@@ -4171,7 +3477,7 @@ export function App() {
                 {moonOrbit && <MoonOrbit />}
 
                 {/* Add WeaponSoundEffects component if player is merc */}
-                {(enableMultiplayer ? playerCharacterInfo.type === 'merc' : characterType === 'merc') && (
+                {!isSpectating && !editing && (enableMultiplayer ? playerCharacterInfo.type === 'merc' : characterType === 'merc') && (
                     <WeaponSoundEffects />
                 )}
 
@@ -4215,7 +3521,9 @@ export function App() {
             </Canvas>
 
             {/* Only show crosshair in first-person view */}
-            {(enableMultiplayer ? !playerCharacterInfo.thirdPerson : !thirdPersonView) && <Crosshair />}
+            {!isSpectating && !editing && (enableMultiplayer ? !playerCharacterInfo.thirdPerson : !thirdPersonView) && <Crosshair />}
+
+            {mapEditor && <MapEditorPanel editor={editor} testPlay={testPlay} onTestPlay={setTestPlay} />}
             
             {/* Stats Display - must be outside Canvas */}
             <StatsDisplay />
@@ -4243,6 +3551,23 @@ export function App() {
                 />
             )}
 
+            {showMultiplayerTools && showDebug && connectionManager && (
+                <ReconciliationDebugOverlay connectionManager={connectionManager} />
+            )}
+
+            {/* Pages that pin a room (shortcode session attribute) don't get to leave it */}
+            {enableMultiplayer && !window.jackalopesGameSettings?.sessionLocked && (
+                <LobbyBrowser connectionManager={connectionManager} />
+            )}
+            
+            {enableMultiplayer && isSpectating && (
+                <SpectatorOverlay
+                    connectionManager={connectionManager}
+                    following={spectateTarget}
+                    onFollow={setSpectateTarget}
+                />
+            )}
+
             {/* Offline Mode Notification - tied to enableMultiplayer for functionality, showMultiplayerTools for visibility */}
             {enableMultiplayer && showMultiplayerTools && showOfflineNotification && (
                 <div style={{
@@ -4264,13 +3589,13 @@ export function App() {
                         Server connection failed. Running in offline mode.
                     </p>
                     <p style={{ margin: '5px 0 0', fontSize: '12px' }}>
-                        Cross-browser shots are enabled using localStorage
+                        Shots are only shown in this tab
                     </p>
                 </div>
             )}
             
             {/* Lobby Full Notification */}
-            {enableMultiplayer && connectionManager?.isLobbyFull?.() && (
+            {enableMultiplayer && !isSpectating && connectionManager?.isLobbyFull?.() && (
                 <div style={{
                     position: 'fixed',
                     top: showOfflineNotification ? '110px' : '50px',
@@ -4381,58 +3706,23 @@ export function App() {
                 </div>
             )}
 
-            {/* Replace HealthBar with ScoreDisplay */}
             <ScoreDisplay 
                 jackalopesScore={jackalopesScore} 
                 mercsScore={mercsScore}
-                isHost={isHost}
-                onReset={() => {
-                    // Only reset scores if no scoring events in the last 3 seconds
-                    // This prevents the timer from resetting scores that were just updated
-                    const timeSinceLastScore = Date.now() - lastScoreTime.current;
-                    if (timeSinceLastScore > 3000 || (jackalopesScore === 0 && mercsScore === 0)) {
-                        // Reset scores to 0-0 when timer reaches zero
-                        setJackalopesScore(0);
-                        setMercsScore(0);
-                        
-                        // Also update localStorage
-                        localStorage.setItem('jackalopes_score', '0');
-                        localStorage.setItem('mercs_score', '0');
-                        localStorage.setItem('scores_reset_time', Date.now().toString());
-                        
-                        // Also notify other clients if multiplayer is enabled
-                        if (enableMultiplayer && connectionManager && connectionManager.isReadyToSend()) {
-                            connectionManager.sendMessage({
-                                type: 'game_event',
-                                event: {
-                                    event_type: 'game_score_update',
-                                    source: 'timer_reset',
-                                    jackalopesScore: 0,
-                                    mercsScore: 0,
-                                    reset_time: Date.now(),
-                                    timestamp: Date.now(),
-                                    shotId: `reset-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
-                                }
-                            });
-                            
-                            // Also broadcast via window event for cross-tab communication
-                            window.dispatchEvent(new CustomEvent('game_score_update', {
-                                detail: {
-                                    source: 'timer_reset',
-                                    jackalopesScore: 0,
-                                    mercsScore: 0,
-                                    reset_time: Date.now(),
-                                    shotId: `reset-window-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
-                                }
-                            }));
-                        }
-                        
-                        console.log('🕒 Timer reached zero - scores reset to 0-0');
-                    } else {
-                        console.log(`🕒 Timer reached zero but score was updated ${timeSinceLastScore}ms ago - not resetting`);
-                    }
-                }}
+                round={enableMultiplayer ? roundState : null}
             />
+            
+            {enableMultiplayer && (
+                <Scoreboard connectionManager={connectionManager} round={roundState} />
+            )}
+            
+            {enableMultiplayer && !isSpectating && (
+                <HealthBar health={playerHealth} shielded={spawnProtected} />
+            )}
+
+            {enableMultiplayer && !isSpectating && playerCharacterInfo.type === 'jackalope' && (
+                <AbilityBar connectionManager={connectionManager} />
+            )}
 
             {/* Add AudioToggleButton for easy audio control - custom positioning when virtual gamepad is shown */}
             {showVirtualGamepad ? (
@@ -4464,59 +3754,6 @@ export function App() {
             <IntroScreenManager 
                 playerType={playerCharacterInfo.type}
             />
-            
-            {/* After score display */}
-            <ScoreDisplay
-                jackalopesScore={jackalopesScore} 
-                mercsScore={mercsScore}
-                isHost={isHost}
-                onReset={() => {
-                    // Only reset scores if no scoring events in the last 3 seconds
-                    // This prevents the timer from resetting scores that were just updated
-                    const timeSinceLastScore = Date.now() - lastScoreTime.current;
-                    if (timeSinceLastScore > 3000 || (jackalopesScore === 0 && mercsScore === 0)) {
-                        // Reset scores to 0-0 when timer reaches zero
-                        setJackalopesScore(0);
-                        setMercsScore(0);
-                        
-                        // Also update localStorage
-                        localStorage.setItem('jackalopes_score', '0');
-                        localStorage.setItem('mercs_score', '0');
-                        localStorage.setItem('scores_reset_time', Date.now().toString());
-                        
-                        // Also notify other clients if multiplayer is enabled
-                        if (enableMultiplayer && connectionManager && connectionManager.isReadyToSend()) {
-                            connectionManager.sendMessage({
-                                type: 'game_event',
-                                event: {
-                                    event_type: 'game_score_update',
-                                    source: 'timer_reset',
-                                    jackalopesScore: 0,
-                                    mercsScore: 0,
-                                    reset_time: Date.now(),
-                                    timestamp: Date.now(),
-                                    shotId: `reset-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
-                                }
-                            });
-                            
-                            // Also broadcast via window event for cross-tab communication
-                            window.dispatchEvent(new CustomEvent('game_score_update', {
-                                detail: {
-                                    source: 'timer_reset',
-                                    jackalopesScore: 0,
-                                    mercsScore: 0,
-                                    reset_time: Date.now(),
-                                    shotId: `reset-window-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
-                                }
-                            }));
-                        }
-                        
-                        console.log('🕒 Timer reached zero - scores reset to 0-0');
-                    } else {
-                        console.log(`🕒 Timer reached zero but score was updated ${timeSinceLastScore}ms ago - not resetting`);
-                    }
-                }}
-            />
         </>
     );
 }
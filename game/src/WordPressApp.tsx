@@ -56,33 +56,29 @@ export default function App({ serverUrl, isFullscreen, isWordPress, assetsUrl }:
     // Make game version available globally
     console.log(`Jackalopes Game v${gameVersion}`);
     
-    // Determine player type based on connection order
-    const getPlayerTypeFromIndex = () => {
-      // Count existing players (simplified version)
-      const playerCount = parseInt(localStorage.getItem('jackalopes_player_count') || '0');
-      
-      // Update player count
-      localStorage.setItem('jackalopes_player_count', (playerCount + 1).toString());
-      
-      // Even indices are jackalopes, odd are mercs
-      return playerCount % 2 === 0 ? 'jackalope' : 'merc';
-    };
-    
-    // Set player type
-    setPlayerType(getPlayerTypeFromIndex());
-    
   }, []);
   
   // Set up connection to the WebSocket server
   const {
     status: connectionStatus,
     playerId,
+    playerType: assignedPlayerType,
     error: connectionError,
     connect,
     sendPlayerUpdate,
     sendShot
   } = useConnection(serverUrl, isWordPress, true, playerIdRef.current);
   
+  // The session picks our team when we join
+  useEffect(() => {
+    if (assignedPlayerType) {
+      setPlayerType(assignedPlayerType);
+      if (window.jackalopesGame) {
+        window.jackalopesGame.playerType = assignedPlayerType;
+      }
+    }
+  }, [assignedPlayerType]);
+  
   // Use the asset URL for loading game assets
   const getGameAssetPath = (assetName: string): string => {
     return getAssetPath(assetName);
@@ -19,6 +19,11 @@ export type GamepadState = {
     jump: boolean
     leftStickPress: boolean
     shoot: boolean
+    switchWeapon: boolean
+    // Jackalope abilities
+    dash: boolean
+    burrow: boolean
+    decoy: boolean
   }
   connected: boolean
 }
@@ -29,7 +34,12 @@ export function useGamepad() {
     rightStick: { x: 0, y: 0 },
     buttons: {
       jump: false,
-      shoot: false
+      leftStickPress: false,
+      shoot: false,
+      switchWeapon: false,
+      dash: false,
+      burrow: false,
+      decoy: false
     },
     connected: false
   })
@@ -57,6 +67,10 @@ export function useGamepad() {
     const jumpButton = gamepad.buttons[0].pressed // A button
     const leftStickPress = gamepad.buttons[10].pressed // L3 button
     const shootButton = gamepad.buttons[7].value > TRIGGER_DEADZONE // RT button with analog support
+    const switchWeaponButton = gamepad.buttons[3].pressed // Y button
+    const dashButton = gamepad.buttons[1].pressed // B button
+    const burrowButton = gamepad.buttons[2].pressed // X button
+    const decoyButton = gamepad.buttons[4].pressed // LB button
 
     setGamepadState({
       leftStick: { x: leftX, y: leftY },
@@ -64,7 +78,11 @@ export function useGamepad() {
       buttons: {
         jump: jumpButton,
         leftStickPress: leftStickPress,
-        shoot: shootButton
+        shoot: shootButton,
+        switchWeapon: switchWeaponButton,
+        dash: dashButton,
+        burrow: burrowButton,
+        decoy: decoyButton
       },
       connected: true
     })
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { ConnectionManager } from '../network/ConnectionManager';
+import { ABILITIES, JACKALOPE_ABILITIES } from '../network/Abilities';
+import { JackalopeAbility } from '../types/game';
+
+interface AbilityBarProps {
+  connectionManager: ConnectionManager;
+}
+
+// Keyboard / gamepad bindings, as handled in game/jackalope.tsx
+const ABILITY_BINDINGS: Record<JackalopeAbility, string> = {
+  dash: 'Q / B',
+  burrow: 'E / X',
+  decoy: 'R / LB'
+};
+
+// How often the cooldowns are re-read; smooth enough for a sweep
+const REFRESH_MS = 100;
+
+/**
+ * The jackalope's abilities along the bottom of the screen. Each slot dims
+ * and sweeps back to full while its cooldown runs, with the seconds left on top.
+ */
+export const AbilityBar: React.FC<AbilityBarProps> = ({ connectionManager }) => {
+  const [cooldowns, setCooldowns] = useState<Record<JackalopeAbility, number>>({ dash: 0, burrow: 0, decoy: 0 });
+
+  useEffect(() => {
+    const refresh = () => {
+      setCooldowns({
+        dash: connectionManager.getAbilityCooldown('dash'),
+        burrow: connectionManager.getAbilityCooldown('burrow'),
+        decoy: connectionManager.getAbilityCooldown('decoy')
+      });
+    };
+    refresh();
+    const interval = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [connectionManager]);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: '30px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        display: 'flex',
+        gap: '10px',
+        zIndex: 1000,
+        userSelect: 'none'
+      }}
+    >
+      {JACKALOPE_ABILITIES.map(ability => {
+        const remaining = cooldowns[ability];
+        const ready = remaining === 0;
+        // Share of the cooldown still to go, drawn as a shade over the slot
+        const shade = Math.min(1, remaining / ABILITIES[ability].cooldownMs);
+
+        return (
+          <div
+            key={ability}
+            style={{
+              position: 'relative',
+              width: '64px',
+              height: '64px',
+              backgroundColor: 'rgba(0, 0, 0, 0.5)',
+              border: `2px solid ${ready ? '#4682B4' : 'rgba(255, 255, 255, 0.2)'}`,
+              borderRadius: '8px',
+              overflow: 'hidden',
+              color: 'white',
+              fontFamily: 'monospace',
+              textAlign: 'center'
+            }}
+          >
+            <div
+              style={{
+                position: 'absolute',
+                left: 0,
+                right: 0,
+                bottom: 0,
+                height: `${shade * 100}%`,
+                backgroundColor: 'rgba(0, 0, 0, 0.6)'
+              }}
+            />
+            <div style={{ position: 'relative', marginTop: '8px', fontSize: '12px', fontWeight: 'bold' }}>
+              {ABILITIES[ability].name}
+            </div>
+            <div style={{ position: 'relative', marginTop: '4px', fontSize: ready ? '10px' : '16px', opacity: ready ? 0.7 : 1 }}>
+              {ready ? ABILITY_BINDINGS[ability] : Math.ceil(remaining / 1000)}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AbilityBar;
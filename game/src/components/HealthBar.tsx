@@ -4,6 +4,7 @@ interface HealthBarProps {
   health?: number; // Current health value (0-100)
   maxHealth?: number; // Maximum health value
   showText?: boolean; // Whether to show health text
+  shielded?: boolean; // Spawn protection is up
   width?: string; // Width of the health bar
   height?: string; // Height of the health bar
   className?: string; // Additional CSS classes
@@ -16,6 +17,7 @@ export const HealthBar: React.FC<HealthBarProps> = ({
   health = 100,
   maxHealth = 100,
   showText = true,
+  shielded = false,
   width = '200px',
   height = '25px',
   className = '',
@@ -42,7 +44,7 @@ export const HealthBar: React.FC<HealthBarProps> = ({
     overflow: 'hidden',
     boxShadow: '0 2px 8px rgba(0, 0, 0, 0.3)',
     zIndex: 1000,
-    border: '1px solid rgba(255, 255, 255, 0.2)'
+    border: shielded ? '2px solid #4682B4' : '1px solid rgba(255, 255, 255, 0.2)'
   };
 
   const progressStyle: React.CSSProperties = {
@@ -87,7 +89,7 @@ export const HealthBar: React.FC<HealthBarProps> = ({
       <div style={progressStyle} />
       {showText && (
         <div style={textStyle}>
-          {Math.round(displayedHealth)}/{maxHealth}
+          {shielded && '🛡 '}{Math.round(displayedHealth)}/{maxHealth}
         </div>
       )}
     </div>
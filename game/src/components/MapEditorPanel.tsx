@@ -0,0 +1,216 @@
+import React, { useRef, useState } from 'react';
+import { PlayerType } from '../types/game';
+import { FogPresetName, LightingPresetName } from '../types/map';
+import { MapEditorState } from '../hooks/useMapEditor';
+import { EDITOR_TOOLS, describeItem, exportMap } from '../game/maps/editing';
+import { FOG_PRESETS, LIGHTING_PRESETS, loadMap } from '../game/maps';
+
+type MapEditorPanelProps = {
+  editor: MapEditorState;
+  // Team being test-played, or null while editing
+  testPlay: PlayerType | null;
+  onTestPlay: (team: PlayerType | null) => void;
+};
+
+const SNAP_STEPS = [0.5, 1, 2, 5];
+
+const buttonStyle: React.CSSProperties = {
+  background: 'rgba(255,255,255,0.15)',
+  color: 'white',
+  border: '1px solid rgba(255,255,255,0.3)',
+  borderRadius: '3px',
+  padding: '2px 6px',
+  fontSize: '12px',
+  cursor: 'pointer'
+};
+
+const activeButtonStyle: React.CSSProperties = {
+  ...buttonStyle,
+  background: 'rgba(70,130,180,0.6)',
+  borderColor: '#4682B4'
+};
+
+const inputStyle: React.CSSProperties = {
+  background: 'rgba(0,0,0,0.5)',
+  color: 'white',
+  border: '1px solid rgba(255,255,255,0.3)',
+  borderRadius: '3px',
+  padding: '2px 4px',
+  fontSize: '12px',
+  fontFamily: 'monospace',
+  flex: 1,
+  minWidth: 0
+};
+
+const rowStyle: React.CSSProperties = { display: 'flex', gap: '5px', alignItems: 'center', flexWrap: 'wrap', marginBottom: '8px' };
+
+const headingStyle: React.CSSProperties = { marginBottom: '5px', fontWeight: 'bold' };
+
+/**
+ * The map editor's controls: what to place, how to snap and transform,
+ * undo/redo, map settings, import/export and test-play
+ */
+export const MapEditorPanel: React.FC<MapEditorPanelProps> = ({ editor, testPlay, onTestPlay }) => {
+  const { draft, selection } = editor;
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const exportFile = () => {
+    const blob = new Blob([exportMap(draft)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${draft.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch (error) {
+      setErrors([`${file.name} is not JSON: ${(error as Error).message}`]);
+      return;
+    }
+    const result = loadMap(raw);
+    if (result.ok) {
+      editor.load(result.map);
+      setErrors([]);
+    } else {
+      setErrors(result.errors);
+    }
+  };
+
+  // Only a map the game would load is worth playing
+  const play = (team: PlayerType) => {
+    const result = loadMap(draft);
+    if (result.ok) {
+      setErrors([]);
+      onTestPlay(team);
+    } else {
+      setErrors(result.errors);
+    }
+  };
+
+  const panelStyle: React.CSSProperties = {
+    position: 'absolute',
+    top: '10px',
+    left: '10px',
+    background: 'rgba(0,0,0,0.7)',
+    color: 'white',
+    padding: '10px',
+    borderRadius: '4px',
+    fontSize: '12px',
+    fontFamily: 'monospace',
+    zIndex: 1000,
+    width: '280px'
+  };
+
+  if (testPlay) {
+    return (
+      <div style={panelStyle}>
+        <div style={rowStyle}>
+          <span style={{ flex: 1 }}>Test-playing {draft.name} as {testPlay}</span>
+          <button style={buttonStyle} onClick={() => onTestPlay(null)}>Back to editor</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={panelStyle}>
+      <div style={headingStyle}>Map editor</div>
+      <div style={rowStyle}>
+        <input
+          style={inputStyle}
+          value={draft.name}
+          placeholder="Name"
+          onChange={event => editor.update(map => ({ ...map, name: event.target.value }))}
+        />
+        <input
+          style={inputStyle}
+          value={draft.id}
+          placeholder="id"
+          onChange={event => editor.update(map => ({ ...map, id: event.target.value.toLowerCase() }))}
+        />
+      </div>
+      <div style={rowStyle}>
+        <select
+          style={inputStyle}
+          value={draft.lighting}
+          onChange={event => editor.update(map => ({ ...map, lighting: event.target.value as LightingPresetName }))}
+        >
+          {Object.keys(LIGHTING_PRESETS).map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <select
+          style={inputStyle}
+          value={draft.fog}
+          onChange={event => editor.update(map => ({ ...map, fog: event.target.value as FogPresetName }))}
+        >
+          {Object.keys(FOG_PRESETS).map(name => <option key={name} value={name}>{name} fog</option>)}
+        </select>
+      </div>
+
+      <div style={headingStyle}>Place (click the ground)</div>
+      <div style={rowStyle}>
+        {EDITOR_TOOLS.map(({ tool, label }) => (
+          <button
+            key={tool}
+            style={editor.tool === tool ? activeButtonStyle : buttonStyle}
+            onClick={() => editor.setTool(editor.tool === tool ? null : tool)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div style={headingStyle}>Edit</div>
+      <div style={rowStyle}>
+        <button style={editor.mode === 'translate' ? activeButtonStyle : buttonStyle} onClick={() => editor.setMode('translate')}>
+          Move (G)
+        </button>
+        <button style={editor.mode === 'scale' ? activeButtonStyle : buttonStyle} onClick={() => editor.setMode('scale')}>
+          Scale (S)
+        </button>
+        <select
+          style={{ ...inputStyle, flex: 'none' }}
+          value={editor.snap ?? ''}
+          onChange={event => editor.setSnap(event.target.value ? Number(event.target.value) : null)}
+        >
+          <option value="">No snap</option>
+          {SNAP_STEPS.map(step => <option key={step} value={step}>Snap {step}</option>)}
+        </select>
+      </div>
+      <div style={rowStyle}>
+        <button style={buttonStyle} disabled={!editor.canUndo} onClick={editor.undo}>Undo</button>
+        <button style={buttonStyle} disabled={!editor.canRedo} onClick={editor.redo}>Redo</button>
+        <button style={buttonStyle} disabled={!selection} onClick={editor.duplicate}>Duplicate</button>
+        <button style={buttonStyle} disabled={!selection} onClick={editor.remove}>Delete</button>
+      </div>
+      <div style={{ marginBottom: '8px', opacity: 0.8 }}>
+        {selection ? describeItem(draft, selection) : 'Nothing selected'}
+      </div>
+
+      <div style={rowStyle}>
+        <button style={buttonStyle} onClick={exportFile}>Export JSON</button>
+        <button style={buttonStyle} onClick={() => fileInput.current?.click()}>Import JSON</button>
+        <input ref={fileInput} type="file" accept="application/json,.json" style={{ display: 'none' }} onChange={importFile} />
+      </div>
+      <div style={rowStyle}>
+        <button style={buttonStyle} onClick={() => play('merc')}>Play as merc</button>
+        <button style={buttonStyle} onClick={() => play('jackalope')}>Play as jackalope</button>
+      </div>
+
+      {errors.length > 0 && (
+        <div style={{ color: '#f88', maxHeight: '120px', overflowY: 'auto' }}>
+          {errors.map(error => <div key={error}>{error}</div>)}
+        </div>
+      )}
+    </div>
+  );
+};
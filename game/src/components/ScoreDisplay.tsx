@@ -1,22 +1,46 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
+import clockSync from '../network/ClockSync';
+import { RoundState } from '../types/game';
 
 interface ScoreDisplayProps {
   jackalopesScore: number;
   mercsScore: number;
   className?: string;
-  onReset?: () => void; // Add callback for when timer reaches zero
-  isHost?: boolean; // Add prop to determine if this client is the host
+  // The session's round; without one (offline) only the scores are shown
+  round?: RoundState | null;
 }
 
+const PHASE_LABELS: Record<RoundState['phase'], string> = {
+  waiting: 'Waiting for players',
+  warmup: 'Warmup',
+  live: '',
+  overtime: 'Sudden death',
+  results: 'Round over',
+  intermission: 'Next round in'
+};
+
+const WINNER_LABELS: Record<NonNullable<RoundState['winner']>, string> = {
+  jackalope: 'Jackalopes win!',
+  merc: 'Mercs win!',
+  draw: 'Draw'
+};
+
+// Format seconds to MM:SS
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
+
 /**
- * ScoreDisplay component shows the current score for both teams
+ * ScoreDisplay component shows the current score for both teams, and the
+ * round's phase and clock as announced by the server
  */
 export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
   jackalopesScore = 0,
   mercsScore = 0,
   className = '',
-  onReset,
-  isHost = false, // Default to non-host
+  round = null,
 }) => {
   // Add state to track score changes for animation
   const [lastJackalopesScore, setLastJackalopesScore] = useState(jackalopesScore);
@@ -24,403 +48,34 @@ export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
   const [jackalopesFlash, setJackalopesFlash] = useState(false);
   const [mercsFlash, setMercsFlash] = useState(false);
   
-  // Host state tracking
-  const isHostRef = useRef(isHost);
+  // The phase ends at a server time; count down to it on the synced clock
+  const [now, setNow] = useState(() => clockSync.getServerTime());
   
-  // Update host ref when prop changes
   useEffect(() => {
-    isHostRef.current = isHost;
-    console.log(`⏱️ ScoreDisplay host status: ${isHost ? 'HOST' : 'CLIENT'}`);
-  }, [isHost]);
+    if (!round?.endsAt) return;
+    const interval = window.setInterval(() => setNow(clockSync.getServerTime()), 250);
+    return () => clearInterval(interval);
+  }, [round?.endsAt]);
   
-  // Add state for countdown timer (5 minutes = 300 seconds)
-  const [timeRemaining, setTimeRemaining] = useState(() => {
-    // Try to load existing timer from localStorage first
-    try {
-      const savedTime = localStorage.getItem('timer_remaining');
-      const savedTimestamp = localStorage.getItem('timer_timestamp');
-      
-      if (savedTime && savedTimestamp) {
-        const elapsedSeconds = Math.floor((Date.now() - parseInt(savedTimestamp, 10)) / 1000);
-        const remainingTime = Math.max(0, parseInt(savedTime, 10) - elapsedSeconds);
-        
-        if (remainingTime > 0 && remainingTime <= 300) {
-          console.log(`⏱️ Restored timer from localStorage: ${remainingTime}s remaining`);
-          return remainingTime;
-        }
-      }
-    } catch (err) {
-      console.error('Error loading timer from localStorage:', err);
-    }
-    
-    // Default to 5 minutes (300 seconds)
-    return 300;
-  });
-  
-  // Track last reset time to avoid duplicate resets
-  const lastResetTime = useRef(0);
-  
-  // Maintain a ref to the latest score values to avoid closure issues
-  const scoresRef = useRef({ jackalopesScore, mercsScore });
-  
-  // Track first mount to avoid unnecessary resets
-  const isFirstMount = useRef(true);
-  
-  // Track if timer is currently active
-  const timerActiveRef = useRef(true);
-  
-  // Update ref whenever scores change
-  useEffect(() => {
-    scoresRef.current = { jackalopesScore, mercsScore };
-  }, [jackalopesScore, mercsScore]);
-  
-  // Format seconds to MM:SS
-  const formatTime = (seconds: number): string => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
-  };
-  
-  // Save timer state to localStorage
-  const saveTimerState = (time: number) => {
-    try {
-      localStorage.setItem('timer_remaining', time.toString());
-      localStorage.setItem('timer_timestamp', Date.now().toString());
-      localStorage.setItem('timer_host_id', isHostRef.current ? 'host' : 'client');
-      
-      // Also save whether a recent score happened
-      const lastScoreTime = localStorage.getItem('last_score_time');
-      if (lastScoreTime) {
-        const timeSinceLastScore = Date.now() - parseInt(lastScoreTime, 10);
-        localStorage.setItem('timer_should_reset_scores', (timeSinceLastScore > 5000).toString());
-      } else {
-        localStorage.setItem('timer_should_reset_scores', 'true');
-      }
-      
-      // Broadcast timer update via custom event for other tabs/windows
-      if (isHostRef.current) {
-        window.dispatchEvent(new CustomEvent('host_timer_update', {
-          detail: {
-            timeRemaining: time,
-            timestamp: Date.now(),
-            hostId: 'host'
-          }
-        }));
-      }
-    } catch (err) {
-      console.error('Error saving timer to localStorage:', err);
-    }
-  };
-  
-  // Create a memoized reset function that only resets when timer reaches zero
-  const resetTimer = useCallback(() => {
-    // Only host should initiate timer resets
-    if (!isHostRef.current && localStorage.getItem('timer_host_id') !== 'client') {
-      console.log('⏱️ Non-host client not initiating timer reset');
-      return;
-    }
-    
-    // Prevent multiple resets within 3 seconds
-    const now = Date.now();
-    if (now - lastResetTime.current < 3000) {
-      console.log('⏱️ Ignoring duplicate timer reset - too soon after previous reset');
-      return;
-    }
-    
-    console.log('⏱️ Timer reset: setting to 5 minutes');
-    setTimeRemaining(300); // Reset to 5 minutes
-    saveTimerState(300);
-    lastResetTime.current = now;
-    
-    // Check if there was a recent score update before resetting scores
-    const lastScoreTime = localStorage.getItem('last_score_time');
-    const shouldResetScores = !lastScoreTime || (Date.now() - parseInt(lastScoreTime, 10) > 5000);
-    
-    // Only call onReset if we actually need to reset the scores
-    // This ensures we're not constantly resetting scores to zero
-    if (onReset && shouldResetScores && (scoresRef.current.jackalopesScore > 0 || scoresRef.current.mercsScore > 0)) {
-      console.log('⏱️ Calling onReset to reset scores');
-      onReset();
-    } else if (onReset && !shouldResetScores) {
-      console.log('⏱️ Skipping score reset because a score was updated recently');
-    }
-    
-    // Broadcast reset to other clients with our host status
-    window.dispatchEvent(new CustomEvent('timer_reset', {
-      detail: {
-        timestamp: Date.now(),
-        id: `timer-reset-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-        fromHost: isHostRef.current,
-        shouldResetScores
-      }
-    }));
-  }, [onReset]);
-  
-  // Timer countdown effect
-  useEffect(() => {
-    // Create a custom event for broadcasting timer resets
-    const broadcastTimerReset = () => {
-      try {
-        window.dispatchEvent(new CustomEvent('timer_reset', {
-          detail: {
-            timestamp: Date.now(),
-            id: `timer-reset-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-            fromHost: isHostRef.current
-          }
-        }));
-      } catch (err) {
-        console.error('Error broadcasting timer reset:', err);
-      }
-    };
-    
-    // Broadcast full timer update (not just reset)
-    const broadcastTimerState = (time: number) => {
-      if (isHostRef.current) {
-        try {
-          window.dispatchEvent(new CustomEvent('host_timer_full_sync', {
-            detail: {
-              timeRemaining: time,
-              timestamp: Date.now(),
-              fromHost: true
-            }
-          }));
-        } catch (err) {
-          console.error('Error broadcasting timer state:', err);
-        }
-      }
-    };
-    
-    // Only host should update the timer
-    let timerInterval: number | undefined;
-    
-    if (isHostRef.current) {
-      timerInterval = window.setInterval(() => {
-        setTimeRemaining(prev => {
-          if (!timerActiveRef.current) {
-            return prev; // Don't update if timer is paused
-          }
-          
-          const newTime = prev - 1;
-          
-          // Save timer state more frequently when we're the host
-          // On specific intervals to reduce performance impact
-          if (newTime % 5 === 0 || newTime <= 10) {
-            saveTimerState(newTime);
-          }
-          
-          // Do a full timer sync more often to prevent drift
-          if (newTime % 15 === 0 || newTime <= 30) {
-            broadcastTimerState(newTime);
-          }
-          
-          // Warn when approaching zero
-          if (newTime === 10) {
-            console.log('⏱️ Timer approaching zero - 10 seconds remaining');
-          }
-          
-          if (newTime <= 0) {
-            // Timer reached zero, reset scores
-            console.log('⏱️ Timer reached zero, resetting');
-            resetTimer();
-            broadcastTimerReset(); // Broadcast reset event
-            return 300;
-          }
-          return newTime;
-        });
-      }, 1000);
-    } else {
-      // Non-host clients also run a timer but only for display consistency
-      // They will get overridden by host broadcasts
-      timerInterval = window.setInterval(() => {
-        setTimeRemaining(prev => {
-          return Math.max(0, prev - 1);
-        });
-      }, 1000);
-    }
-    
-    // Listen for timer reset events from other sources
-    const handleTimerResetEvent = (e: CustomEvent) => {
-      console.log('⏱️ Received timer reset event:', e.detail);
-      
-      // If the reset came from the host, always process it
-      if (e.detail.fromHost && !isHostRef.current) {
-        console.log('⏱️ Processing timer reset from host');
-        setTimeRemaining(300);
-        
-        // If the host says to reset scores, do it
-        if (e.detail.shouldResetScores && onReset) {
-          onReset();
-        }
-        return;
-      }
-      
-      // Only process if it's been more than 3 seconds since our last reset
-      // and we're the host (non-hosts shouldn't reset unless from host)
-      const now = Date.now();
-      if (isHostRef.current && now - lastResetTime.current > 3000) {
-        resetTimer();
-      } else if (!isHostRef.current) {
-        console.log('⏱️ Non-host ignoring timer reset not from host');
-      } else {
-        console.log('⏱️ Ignoring timer reset event - too soon after our reset');
-      }
-    };
-    
-    // Handle full timer sync events (for fixing clock drift)
-    const handleFullTimerSync = (e: CustomEvent) => {
-      if (!isHostRef.current && e.detail.fromHost) {
-        console.log('⏱️ Received full timer sync from host:', e.detail);
-        // Always accept exact time from host to fix desynchronization
-        setTimeRemaining(e.detail.timeRemaining);
-      }
-    };
-    
-    window.addEventListener('timer_reset', handleTimerResetEvent as EventListener);
-    window.addEventListener('host_timer_full_sync', handleFullTimerSync as EventListener);
-    
-    // Force a full timer sync on component mount and when host state changes
-    if (isHostRef.current) {
-      broadcastTimerState(timeRemaining);
-    }
-    
-    return () => {
-      if (timerInterval) clearInterval(timerInterval);
-      window.removeEventListener('timer_reset', handleTimerResetEvent as EventListener);
-      window.removeEventListener('host_timer_full_sync', handleFullTimerSync as EventListener);
-    };
-  }, [resetTimer, isHost]);
-  
-  // Add an additional effect to force sync when host status changes
-  useEffect(() => {
-    console.log(`⏱️ Host status changed to: ${isHost ? 'HOST' : 'CLIENT'}`);
-    
-    // Force a timer sync whenever host status changes
-    if (isHost) {
-      // New host should broadcast current time immediately
-      window.dispatchEvent(new CustomEvent('host_timer_full_sync', {
-        detail: {
-          timeRemaining,
-          timestamp: Date.now(),
-          fromHost: true
-        }
-      }));
-    }
-  }, [isHost, timeRemaining]);
-  
-  // Initialize timer when component mounts
-  useEffect(() => {
-    if (isFirstMount.current) {
-      console.log(`⏱️ ScoreDisplay mounted - initializing timer (${isHost ? 'HOST' : 'CLIENT'})`);
-      isFirstMount.current = false;
-      
-      // Check if scores were just reset recently
-      const resetTime = localStorage.getItem('scores_reset_time');
-      const now = Date.now();
-      
-      if (resetTime && now - parseInt(resetTime, 10) < 3000) {
-        console.log('⏱️ Scores were just reset recently, not resetting again');
-      }
-    }
-    
-    // Listen for timer sync events from other clients
-    const handleTimerSync = (e: StorageEvent) => {
-      if (e.key === 'timer_timestamp' && e.newValue) {
-        // Only accept timer updates from host if we're not the host
-        const hostId = localStorage.getItem('timer_host_id');
-        if (!isHostRef.current && hostId === 'host') {
-          console.log('⏱️ Received timer sync from host via localStorage');
-          
-          try {
-            const savedTime = localStorage.getItem('timer_remaining');
-            if (savedTime) {
-              const elapsedSeconds = Math.floor((Date.now() - parseInt(e.newValue, 10)) / 1000);
-              const remainingTime = Math.max(0, parseInt(savedTime, 10) - elapsedSeconds);
-              
-              if (remainingTime > 0 && remainingTime <= 300 && Math.abs(remainingTime - timeRemaining) > 2) {
-                console.log(`⏱️ Syncing timer from host: ${remainingTime}s remaining`);
-                setTimeRemaining(remainingTime);
-              }
-            }
-          } catch (err) {
-            console.error('Error syncing timer from localStorage:', err);
-          }
-        }
-      }
-    };
-    
-    // Handle direct host timer updates via custom event
-    const handleHostTimerUpdate = (e: CustomEvent) => {
-      if (!isHostRef.current) { // Only non-hosts should process these updates
-        console.log('⏱️ Received direct timer update from host:', e.detail);
-        
-        // Check if this update is significantly different from our current time
-        // This prevents minor drift corrections from being too jarring
-        const diff = Math.abs(timeRemaining - e.detail.timeRemaining);
-        
-        if (diff >= 2) { // Only update if 2 or more seconds difference
-          console.log(`⏱️ Correcting timer drift of ${diff} seconds`);
-          setTimeRemaining(e.detail.timeRemaining);
-        } else {
-          console.log(`⏱️ Ignoring minor drift correction of ${diff} seconds`);
-        }
-      }
-    };
-    
-    window.addEventListener('storage', handleTimerSync);
-    window.addEventListener('host_timer_update', handleHostTimerUpdate as EventListener);
-    
-    return () => {
-      // Save timer state when component unmounts
-      saveTimerState(timeRemaining);
-      window.removeEventListener('storage', handleTimerSync);
-      window.removeEventListener('host_timer_update', handleHostTimerUpdate as EventListener);
-    };
-  }, [timeRemaining, isHost]);
+  const timeRemaining = round?.endsAt ? Math.max(0, Math.ceil((round.endsAt - now) / 1000)) : null;
+  const counting = round?.phase === 'live' || round?.phase === 'overtime';
   
   // Watch for score changes and trigger animation
   useEffect(() => {
     if (jackalopesScore > lastJackalopesScore) {
       setJackalopesFlash(true);
       setTimeout(() => setJackalopesFlash(false), 2000); // 2 second flash
-      
-      // Update last score time in localStorage
-      localStorage.setItem('last_score_time', Date.now().toString());
-      
-      // Broadcast score update if we're the host
-      if (isHostRef.current) {
-        window.dispatchEvent(new CustomEvent('host_score_update', {
-          detail: {
-            jackalopesScore,
-            mercsScore,
-            timestamp: Date.now()
-          }
-        }));
-      }
     }
     setLastJackalopesScore(jackalopesScore);
-  }, [jackalopesScore, lastJackalopesScore, mercsScore]);
+  }, [jackalopesScore, lastJackalopesScore]);
   
   useEffect(() => {
     if (mercsScore > lastMercsScore) {
       setMercsFlash(true);
       setTimeout(() => setMercsFlash(false), 2000); // 2 second flash
-      
-      // Update last score time in localStorage
-      localStorage.setItem('last_score_time', Date.now().toString());
-      
-      // Broadcast score update if we're the host
-      if (isHostRef.current) {
-        window.dispatchEvent(new CustomEvent('host_score_update', {
-          detail: {
-            jackalopesScore,
-            mercsScore,
-            timestamp: Date.now()
-          }
-        }));
-      }
     }
     setLastMercsScore(mercsScore);
-  }, [mercsScore, lastMercsScore, jackalopesScore]);
+  }, [mercsScore, lastMercsScore]);
 
   // Styles for the score display
   const containerStyle: React.CSSProperties = {
@@ -467,28 +122,56 @@ export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
     fontSize: mercsFlash ? '20px' : '16px', // Reduced from 22px/18px
   };
   
-  // Style for timer
+  // Style for timer; only the live clock turns red
+  const urgent = counting && timeRemaining !== null && timeRemaining <= 60;
   const timerStyle: React.CSSProperties = {
     ...scoreStyle,
-    color: timeRemaining <= 60 ? '#ff3333' : '#ffffff', // Red when less than a minute, white otherwise
-    fontSize: timeRemaining <= 10 ? '18px' : '14px', // Reduced from 20px/16px
+    color: urgent ? '#ff3333' : '#ffffff',
+    fontSize: urgent && timeRemaining! <= 10 ? '18px' : '14px',
     transition: 'all 0.3s ease',
   };
 
-  // Add host indicator style
-  const hostIndicatorStyle: React.CSSProperties = {
+  const phaseStyle: React.CSSProperties = {
+    ...scoreStyle,
     fontSize: '12px',
-    color: isHost ? '#7fef7f' : 'transparent',
-    marginRight: '5px',
+    fontWeight: 'normal',
+    textTransform: 'uppercase',
+    letterSpacing: '1px',
+    color: round?.phase === 'overtime' ? '#ffcc00' : '#cccccc',
+  };
+
+  const resultsStyle: React.CSSProperties = {
+    position: 'absolute',
+    top: '30%',
+    left: '50%',
+    transform: 'translate(-50%, -50%)',
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+    borderRadius: '10px',
+    padding: '24px 36px',
+    color: 'white',
+    textAlign: 'center',
+    fontFamily: containerStyle.fontFamily,
+    zIndex: 1001,
+    userSelect: 'none',
   };
 
   return (
+    <>
+    {round?.phase === 'results' && round.winner && (
+      <div style={resultsStyle} className="round-results">
+        <div style={{ fontSize: '28px', fontWeight: 'bold', marginBottom: '8px' }}>{WINNER_LABELS[round.winner]}</div>
+        <div style={{ fontSize: '16px' }}>
+          Round {round.round} · Jackalopes {round.scores.jackalopes} – {round.scores.mercs} Mercs
+        </div>
+      </div>
+    )}
     <div 
       style={containerStyle} 
       className={`score-display ${className}`}
     >
-      {/* Add host indicator */}
-      <span style={hostIndicatorStyle}>●</span>
+      {round && PHASE_LABELS[round.phase] && (
+        <span style={phaseStyle}>{PHASE_LABELS[round.phase]}</span>
+      )}
       
       <span 
         style={jackalopesStyle}
@@ -503,13 +186,17 @@ export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
       >
         Mercs: {mercsScore}
       </span>
-      <span style={scoreStyle}>·</span>
-      <span 
-        style={timerStyle}
-        className={timeRemaining <= 10 ? 'timer-flash' : ''}
-      >
-        {formatTime(timeRemaining)}
-      </span>
+      {timeRemaining !== null && round?.phase !== 'results' && (
+        <>
+          <span style={scoreStyle}>·</span>
+          <span 
+            style={timerStyle}
+            className={urgent && timeRemaining <= 10 ? 'timer-flash' : ''}
+          >
+            {formatTime(timeRemaining)}
+          </span>
+        </>
+      )}
       
       {/* Add CSS animation */}
       <style>{`
@@ -532,6 +219,7 @@ export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
         }
       `}</style>
     </div>
+    </>
   );
 };
 
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { ConnectionManager } from '../network/ConnectionManager';
+import { ScoreLedger } from '../network/ScoreLedger';
+import { PlayerScoreLine, PlayerType, RoundState } from '../types/game';
+
+interface ScoreboardProps {
+  connectionManager: ConnectionManager;
+  round: RoundState | null;
+}
+
+type Row = PlayerScoreLine & { id: string; team?: PlayerType };
+
+const TEAM_COLORS: Record<PlayerType, string> = {
+  jackalope: '#4682B4',
+  merc: '#ff4500'
+};
+
+/**
+ * Per-player kills, captures and deaths for the current round, counted from
+ * the session's score ledger. Shown while Tab is held and on the results screen.
+ */
+export const Scoreboard: React.FC<ScoreboardProps> = ({ connectionManager, round }) => {
+  const [held, setHeld] = useState(false);
+  const [lines, setLines] = useState<Record<string, PlayerScoreLine>>({});
+  const roundNumber = round?.round;
+
+  useEffect(() => {
+    const count = (ledger: ScoreLedger) => setLines(ledger.breakdown(roundNumber));
+    count(connectionManager.getScoreLedger());
+    connectionManager.on('score_ledger', count);
+    return () => {
+      connectionManager.off('score_ledger', count);
+    };
+  }, [connectionManager, roundNumber]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Tab') return;
+      // Don't let the browser move focus out of the game
+      event.preventDefault();
+      setHeld(true);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.key === 'Tab') setHeld(false);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  if (!held && round?.phase !== 'results') return null;
+
+  // Everyone in the session gets a row, scored or not
+  const selfId = connectionManager.getPlayerId();
+  const teams: Record<string, PlayerType | undefined> = {};
+  Object.entries(connectionManager.getPlayers()).forEach(([id, state]) => {
+    teams[id] = state.playerType;
+  });
+  if (selfId && !connectionManager.isSpectator()) {
+    teams[selfId] = connectionManager.getPlayerCharacterType().type;
+  }
+  const ids = new Set([...Object.keys(teams), ...Object.keys(lines)]);
+  const rows: Row[] = Array.from(ids, id => ({
+    id,
+    team: teams[id],
+    ...(lines[id] ?? { kills: 0, captures: 0, deaths: 0 })
+  })).sort((a, b) => (b.kills + b.captures) - (a.kills + a.captures) || a.deaths - b.deaths);
+
+  const cellStyle: React.CSSProperties = { padding: '3px 10px', textAlign: 'right' };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: round?.phase === 'results' ? '45%' : '20%',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        backgroundColor: 'rgba(0, 0, 0, 0.8)',
+        borderRadius: '10px',
+        padding: '12px 18px',
+        color: 'white',
+        fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif',
+        fontSize: '13px',
+        zIndex: 1001,
+        userSelect: 'none'
+      }}
+    >
+      <table style={{ borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ opacity: 0.7 }}>
+            <th style={{ ...cellStyle, textAlign: 'left' }}>{roundNumber ? `Round ${roundNumber}` : 'Player'}</th>
+            <th style={cellStyle}>Kills</th>
+            <th style={cellStyle}>Captures</th>
+            <th style={cellStyle}>Deaths</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.id} style={{ fontWeight: row.id === selfId ? 'bold' : 'normal' }}>
+              <td style={{ ...cellStyle, textAlign: 'left', color: row.team ? TEAM_COLORS[row.team] : 'white' }}>{row.id}</td>
+              <td style={cellStyle}>{row.kills}</td>
+              <td style={cellStyle}>{row.captures}</td>
+              <td style={cellStyle}>{row.deaths}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default Scoreboard;
@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { useFrame } from '@react-three/fiber';
+import { PerspectiveCamera } from '@react-three/drei';
+import { ConnectionManager } from '../network/ConnectionManager';
+import snapshotInterpolation from '../network/SnapshotInterpolation';
+
+interface SpectatorCameraProps {
+  position?: [number, number, number];
+  // Units per second
+  speed?: number;
+  invertY?: boolean;
+}
+
+/**
+ * Free-flying camera for spectators: WASD to move along the view, Space and
+ * Shift to rise and sink, mouse to look once the pointer is locked
+ */
+export const SpectatorCamera: React.FC<SpectatorCameraProps> = ({
+  position = [0, 20, 30],
+  speed = 20,
+  invertY = false
+}) => {
+  const cameraRef = useRef<THREE.PerspectiveCamera>(null);
+  const keys = useRef<Set<string>>(new Set());
+  const look = useRef({ yaw: 0, pitch: -0.4 });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => keys.current.add(event.code);
+    const handleKeyUp = (event: KeyboardEvent) => keys.current.delete(event.code);
+    const requestPointerLock = () => {
+      if (!document.pointerLockElement) document.body.requestPointerLock?.();
+    };
+    const handleMouseMove = (event: MouseEvent) => {
+      if (!document.pointerLockElement) return;
+      look.current.yaw -= event.movementX * 0.002;
+      look.current.pitch -= event.movementY * 0.002 * (invertY ? -1 : 1);
+      look.current.pitch = THREE.MathUtils.clamp(look.current.pitch, -Math.PI / 2 + 0.01, Math.PI / 2 - 0.01);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    document.addEventListener('click', requestPointerLock);
+    document.addEventListener('mousemove', handleMouseMove);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      document.removeEventListener('click', requestPointerLock);
+      document.removeEventListener('mousemove', handleMouseMove);
+      keys.current.clear();
+    };
+  }, [invertY]);
+
+  const forward = useRef(new THREE.Vector3());
+  const right = useRef(new THREE.Vector3());
+  const move = useRef(new THREE.Vector3());
+
+  useFrame((_, delta) => {
+    const camera = cameraRef.current;
+    if (!camera) return;
+
+    const { yaw, pitch } = look.current;
+    camera.rotation.set(pitch, yaw, 0, 'YXZ');
+
+    const pressed = keys.current;
+    camera.getWorldDirection(forward.current);
+    right.current.crossVectors(forward.current, camera.up).normalize();
+    move.current.set(0, 0, 0);
+    if (pressed.has('KeyW')) move.current.add(forward.current);
+    if (pressed.has('KeyS')) move.current.sub(forward.current);
+    if (pressed.has('KeyD')) move.current.add(right.current);
+    if (pressed.has('KeyA')) move.current.sub(right.current);
+    if (pressed.has('Space')) move.current.y += 1;
+    if (pressed.has('ShiftLeft') || pressed.has('ShiftRight')) move.current.y -= 1;
+
+    if (move.current.lengthSq() > 0) {
+      camera.position.addScaledVector(move.current.normalize(), speed * Math.min(delta, 0.1));
+    }
+  });
+
+  return (
+    <PerspectiveCamera
+      ref={cameraRef}
+      makeDefault
+      position={position}
+      near={0.1}
+      far={500}
+      fov={75}
+    />
+  );
+};
+
+/**
+ * Keeps `target` on a remote player's interpolated position, for the follow camera
+ */
+export const SpectatorFollowTarget: React.FC<{ playerId: string; target: THREE.Vector3 }> = ({ playerId, target }) => {
+  useFrame(() => {
+    const sampled = snapshotInterpolation.sample(playerId);
+    if (sampled) target.fromArray(sampled.position);
+  });
+  return null;
+};
+
+type WatchedPlayer = { id: string; playerType?: 'merc' | 'jackalope' };
+
+interface SpectatorOverlayProps {
+  connectionManager: ConnectionManager;
+  following: string | null;
+  onFollow: (playerId: string | null) => void;
+}
+
+/**
+ * Spectator controls: who to follow, free camera, and our place in the queue
+ */
+export const SpectatorOverlay: React.FC<SpectatorOverlayProps> = ({ connectionManager, following, onFollow }) => {
+  const [players, setPlayers] = useState<Record<string, WatchedPlayer>>(() => {
+    const known: Record<string, WatchedPlayer> = {};
+    Object.entries(connectionManager.getPlayers()).forEach(([id, state]) => {
+      known[id] = { id, playerType: state.playerType };
+    });
+    return known;
+  });
+  const [queuePosition, setQueuePosition] = useState(() => connectionManager.getQueuePosition());
+
+  useEffect(() => {
+    const handlePlayerJoined = (data: { id: string; state?: { playerType?: 'merc' | 'jackalope' } }) => {
+      setPlayers(prev => ({ ...prev, [data.id]: { id: data.id, playerType: data.state?.playerType } }));
+    };
+    const handlePlayerLeft = (data: { id: string }) => {
+      setPlayers(prev => {
+        const { [data.id]: _, ...rest } = prev;
+        return rest;
+      });
+    };
+    const handleTeamChanged = (data: { id: string; playerType: 'merc' | 'jackalope' }) => {
+      setPlayers(prev => prev[data.id] ? { ...prev, [data.id]: { ...prev[data.id], playerType: data.playerType } } : prev);
+    };
+    const handleSpectatorChanged = (data: { queuePosition: number }) => {
+      setQueuePosition(data.queuePosition);
+    };
+
+    connectionManager.on('player_joined', handlePlayerJoined);
+    connectionManager.on('player_left', handlePlayerLeft);
+    connectionManager.on('player_team_changed', handleTeamChanged);
+    connectionManager.on('spectator_changed', handleSpectatorChanged);
+    return () => {
+      connectionManager.off('player_joined', handlePlayerJoined);
+      connectionManager.off('player_left', handlePlayerLeft);
+      connectionManager.off('player_team_changed', handleTeamChanged);
+      connectionManager.off('spectator_changed', handleSpectatorChanged);
+    };
+  }, [connectionManager]);
+
+  // Stop following someone who left
+  useEffect(() => {
+    if (following && !players[following]) onFollow(null);
+  }, [following, players, onFollow]);
+
+  const buttonStyle = (active: boolean): React.CSSProperties => ({
+    background: active ? 'rgba(255,255,255,0.4)' : 'rgba(255,255,255,0.15)',
+    color: 'white',
+    border: '1px solid rgba(255,255,255,0.3)',
+    borderRadius: '3px',
+    padding: '2px 6px',
+    fontSize: '12px',
+    cursor: 'pointer',
+    textAlign: 'left'
+  });
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: '10px',
+        left: '10px',
+        background: 'rgba(0,0,0,0.6)',
+        color: 'white',
+        padding: '10px',
+        borderRadius: '4px',
+        fontSize: '12px',
+        fontFamily: 'monospace',
+        zIndex: 1000,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '5px',
+        minWidth: '180px'
+      }}
+    >
+      <div style={{ fontWeight: 'bold' }}>
+        Spectating{queuePosition > 0 ? ` · #${queuePosition} in line` : ''}
+      </div>
+      <button style={buttonStyle(following === null)} onClick={() => onFollow(null)}>
+        Free camera
+      </button>
+      {Object.values(players).map(player => (
+        <button key={player.id} style={buttonStyle(following === player.id)} onClick={() => onFollow(player.id)}>
+          {player.id}{player.playerType ? ` (${player.playerType})` : ''}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import { useThree } from '@react-three/fiber';
 import { useRef, useEffect, useState } from 'react';
 import * as THREE from 'three';
 import { Sounds } from '../assets';
+import { WEAPONS, getWeapon } from '../game/weapons';
 
 // Add a global volume control for weapon sounds
 // This can be adjusted from anywhere in the app
@@ -33,7 +34,8 @@ export const WeaponSoundEffects = () => {
   
   // Web Audio API context and buffer
   const audioContextRef = useRef<AudioContext | null>(null);
-  const shotBufferRef = useRef<AudioBuffer | null>(null);
+  // Decoded sounds by Sounds.Weapons key
+  const buffersRef = useRef<Record<string, AudioBuffer>>({});
   const isAudioInitializedRef = useRef(false);
   
   // Listen for audio settings changes from AudioController
@@ -65,40 +67,36 @@ export const WeaponSoundEffects = () => {
         audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
         console.log('Audio context created:', audioContextRef.current.state);
         
-        // Load weapon sound
-        fetch(Sounds.Weapons.MercShot.path)
-          .then(response => {
-            console.log('Shot sound file fetch response:', response.status, response.statusText);
-            if (!response.ok) {
-              throw new Error(`Failed to fetch sound: ${response.status} ${response.statusText}`);
-            }
-            return response.arrayBuffer();
-          })
-          .then(arrayBuffer => {
-            console.log('Decoding audio data, size:', arrayBuffer.byteLength);
-            if (!audioContextRef.current) {
-              throw new Error('Audio context not available');
-            }
-            return audioContextRef.current.decodeAudioData(arrayBuffer);
-          })
-          .then(audioBuffer => {
-            if (!audioBuffer) {
-              throw new Error('Failed to decode audio buffer');
-            }
-            console.log('Audio data decoded successfully, duration:', audioBuffer.duration);
-            shotBufferRef.current = audioBuffer;
-            setShotAudioLoaded(true);
-            isAudioInitializedRef.current = true;
-            
-            // Test play once
-            setTimeout(() => {
-              console.log('Testing shot sound...');
-              playShotSound(WeaponSoundSettings.volume * 0.5); // Half of current volume for test
-            }, 1000);
-          })
-          .catch(error => {
-            console.error('Error loading shot sound:', error);
-          });
+        // Load every sound a weapon uses
+        const keys = Array.from(new Set(Object.values(WEAPONS).map(weapon => weapon.sound.key)));
+        keys.forEach(key => {
+          fetch(Sounds.Weapons[key].path)
+            .then(response => {
+              console.log(`${key} sound file fetch response:`, response.status, response.statusText);
+              if (!response.ok) {
+                throw new Error(`Failed to fetch sound: ${response.status} ${response.statusText}`);
+              }
+              return response.arrayBuffer();
+            })
+            .then(arrayBuffer => {
+              if (!audioContextRef.current) {
+                throw new Error('Audio context not available');
+              }
+              return audioContextRef.current.decodeAudioData(arrayBuffer);
+            })
+            .then(audioBuffer => {
+              if (!audioBuffer) {
+                throw new Error('Failed to decode audio buffer');
+              }
+              console.log(`${key} sound decoded successfully, duration:`, audioBuffer.duration);
+              buffersRef.current[key] = audioBuffer;
+              setShotAudioLoaded(true);
+              isAudioInitializedRef.current = true;
+            })
+            .catch(error => {
+              console.error(`Error loading ${key} sound:`, error);
+            });
+        });
           
         // Function to resume audio context on user interaction
         const resumeAudioContext = () => {
@@ -149,7 +147,11 @@ export const WeaponSoundEffects = () => {
   }, []);
   
   // Modify the playShotSound function
-  const playShotSound = (volume = 0.05) => {
+  // Play a weapon's shot at its own volume and pitch (fireball when not given)
+  const playShotSound = (weaponId?: string, volume?: number) => {
+    const { sound } = getWeapon(weaponId);
+    const buffer = buffersRef.current[sound.key];
+    
     // Skip if audio is muted
     if (WeaponSoundSettings.masterMuted) {
       console.log('Shot sound skipped - audio is muted');
@@ -157,7 +159,7 @@ export const WeaponSoundEffects = () => {
     }
     
     // Skip if audio is not initialized or context is not running
-    if (!isAudioInitializedRef.current || !audioContextRef.current || !shotBufferRef.current) {
+    if (!isAudioInitializedRef.current || !audioContextRef.current || !buffer) {
       console.log('Cannot play shot sound - audio not fully initialized');
       return;
     }
@@ -168,7 +170,7 @@ export const WeaponSoundEffects = () => {
       audioContextRef.current.resume().then(() => {
         console.log('Audio context resumed, retrying sound play');
         // Try again after resuming
-        setTimeout(() => playShotSound(volume), 100);
+        setTimeout(() => playShotSound(weaponId, volume), 100);
       });
       return;
     }
@@ -179,8 +181,9 @@ export const WeaponSoundEffects = () => {
       const gainNode = audioContextRef.current.createGain();
       
       // Set up nodes
-      source.buffer = shotBufferRef.current;
-      gainNode.gain.value = volume;
+      source.buffer = buffer;
+      source.playbackRate.value = sound.playbackRate;
+      gainNode.gain.value = volume ?? sound.volume;
       
       // Connect nodes
       source.connect(gainNode);
@@ -188,7 +191,7 @@ export const WeaponSoundEffects = () => {
       
       // Play sound
       source.start(0);
-      console.log(`Shot sound played with Web Audio API (volume: ${volume})`);
+      console.log(`Shot sound played with Web Audio API (volume: ${gainNode.gain.value})`);
     } catch (error) {
       console.error('Error playing shot sound:', error);
     }
@@ -197,19 +200,23 @@ export const WeaponSoundEffects = () => {
   // Expose the playShotSound function globally
   useEffect(() => {
     window.__playMercShot = () => {
-      playShotSound(0.1); // Slightly higher volume for merc shots
+      playShotSound();
+    };
+    window.__playWeaponSound = (weapon?: string) => {
+      playShotSound(weapon);
     };
     
     // Listen for shot events
-    const handleShotFired = () => {
+    const handleShotFired = (event: Event) => {
       console.log('shotFired event received');
-      playShotSound(0.1);
+      playShotSound((event as CustomEvent<{ weapon?: string } | undefined>).detail?.weapon);
     };
     window.addEventListener('shotFired', handleShotFired);
     
     // Clean up
     return () => {
       delete window.__playMercShot;
+      delete window.__playWeaponSound;
       window.removeEventListener('shotFired', handleShotFired);
     };
   }, []);
@@ -220,7 +227,7 @@ export const WeaponSoundEffects = () => {
     if (isAudioInitializedRef.current) {
       setTimeout(() => {
         console.log('Testing shot sound...');
-        playShotSound(0.05);
+        playShotSound(undefined, 0.05);
       }, 1000);
     }
   }, [isAudioInitializedRef.current]);
@@ -243,6 +250,7 @@ export const WeaponSoundEffects = () => {
 declare global {
   interface Window {
     __playMercShot?: () => void;
+    __playWeaponSound?: (weapon?: string) => void;
     __setWeaponVolume?: (volume: number) => void;
     __getWeaponVolume?: () => number;
   }
@@ -0,0 +1,75 @@
+import { useEffect, useRef, useState } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { ConnectionManager } from '../network/ConnectionManager'
+import { ABILITIES } from '../network/Abilities'
+import { AbilityUsedEvent } from '../types/game'
+import { JackalopeModel } from './JackalopeModel'
+
+type DecoyProps = {
+    event: AbilityUsedEvent
+}
+
+// Model sits a little below the collider centre, as in jackalope.tsx
+const MODEL_OFFSET_Y = -0.65
+
+// A fake jackalope running in a straight line from where it was dropped
+const Decoy = ({ event }: DecoyProps) => {
+    const groupRef = useRef<THREE.Group>(null)
+    const [start] = useState(() => new THREE.Vector3(...event.position))
+    const [direction] = useState(() => new THREE.Vector3(...(event.direction ?? [0, 0, 1])).setY(0).normalize())
+    const [startedAt] = useState(() => Date.now())
+    const speed = ABILITIES.decoy.distance / (ABILITIES.decoy.durationMs / 1000)
+
+    useFrame(() => {
+        if (!groupRef.current) return
+        const elapsed = (Date.now() - startedAt) / 1000
+        groupRef.current.position.copy(start).addScaledVector(direction, speed * elapsed)
+        groupRef.current.position.y += MODEL_OFFSET_Y
+    })
+
+    return (
+        <group
+            ref={groupRef}
+            position={[start.x, start.y + MODEL_OFFSET_Y, start.z]}
+            rotation={[0, Math.atan2(direction.x, direction.z), 0]}
+            scale={[2, 2, 2]}
+        >
+            <JackalopeModel animation="run" />
+        </group>
+    )
+}
+
+type DecoysProps = {
+    connectionManager: ConnectionManager
+}
+
+// Every decoy in the session, ours included, for as long as it runs
+export const Decoys = ({ connectionManager }: DecoysProps) => {
+    const [decoys, setDecoys] = useState<AbilityUsedEvent[]>([])
+
+    useEffect(() => {
+        const timers: ReturnType<typeof setTimeout>[] = []
+        const handleAbility = (event: AbilityUsedEvent) => {
+            if (event.ability !== 'decoy') return
+            setDecoys((current) => [...current, event])
+            timers.push(setTimeout(() => {
+                setDecoys((current) => current.filter((decoy) => decoy.abilityId !== event.abilityId))
+            }, ABILITIES.decoy.durationMs))
+        }
+
+        connectionManager.on('ability_used', handleAbility)
+        return () => {
+            connectionManager.off('ability_used', handleAbility)
+            timers.forEach((timer) => clearTimeout(timer))
+        }
+    }, [connectionManager])
+
+    return (
+        <>
+            {decoys.map((decoy) => (
+                <Decoy key={decoy.abilityId} event={decoy} />
+            ))}
+        </>
+    )
+}
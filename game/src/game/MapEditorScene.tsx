@@ -0,0 +1,133 @@
+import { useState } from 'react'
+import * as THREE from 'three'
+import { OrbitControls, PerspectiveCamera, TransformControls } from '@react-three/drei'
+import { ThreeEvent } from '@react-three/fiber'
+import { Vector3 } from '../types/game'
+import { MapEditorState } from '../hooks/useMapEditor'
+import { EditorSelection, allItems, itemMarker, itemPosition } from './maps/editing'
+
+type MapEditorSceneProps = {
+    editor: MapEditorState
+}
+
+// Pointer travel (px) past which a click was really a camera drag
+const CLICK_TOLERANCE = 4
+
+// Most of the snapping grid that's drawn, around the middle of the map
+const GRID_EXTENT = 200
+
+type MarkerProps = {
+    editor: MapEditorState
+    item: EditorSelection
+}
+
+// A see-through box over an item, so it can be picked even where the map has nothing solid
+const Marker = ({ editor, item }: MarkerProps) => {
+    const { size, lift, color } = itemMarker(editor.draft, item)
+    const [x, y, z] = itemPosition(editor.draft, item)
+
+    const handleClick = (event: ThreeEvent<MouseEvent>) => {
+        if (event.delta > CLICK_TOLERANCE) return
+        event.stopPropagation()
+        editor.select(item)
+    }
+
+    return (
+        <mesh position={[x, y + lift, z]} onClick={handleClick}>
+            <boxGeometry args={size} />
+            <meshBasicMaterial color={color} transparent opacity={0.2} depthWrite={false} />
+        </mesh>
+    )
+}
+
+type SelectedProps = {
+    editor: MapEditorState
+    selection: EditorSelection
+}
+
+// The selected item, with handles to move or stretch it. The map only
+// changes once a drag is let go, so each drag is one step to undo.
+const Selected = ({ editor, selection }: SelectedProps) => {
+    const [target, setTarget] = useState<THREE.Group | null>(null)
+    const { size, lift, color } = itemMarker(editor.draft, selection)
+    const position = itemPosition(editor.draft, selection)
+
+    const commit = () => {
+        if (!target) return
+        if (editor.mode === 'translate') {
+            editor.move(target.position.toArray() as Vector3)
+        } else {
+            editor.resize(target.scale.toArray() as Vector3)
+        }
+    }
+
+    return (
+        <>
+            <group ref={setTarget} position={position}>
+                <mesh position={[0, lift, 0]}>
+                    <boxGeometry args={size} />
+                    <meshBasicMaterial color={color} wireframe />
+                </mesh>
+            </group>
+            {target && (
+                <TransformControls
+                    object={target}
+                    mode={editor.mode}
+                    translationSnap={editor.snap}
+                    onMouseUp={commit}
+                />
+            )}
+        </>
+    )
+}
+
+/**
+ * The editor's side of the canvas: an orbiting camera, a marker on every
+ * item, handles on the selected one, and ground to place new things on.
+ * The map itself is drawn by Platforms as usual.
+ */
+export const MapEditorScene = ({ editor }: MapEditorSceneProps) => {
+    const { draft, selection, snap, tool } = editor
+
+    const handleGroundClick = (event: ThreeEvent<MouseEvent>) => {
+        if (event.delta > CLICK_TOLERANCE) return
+        event.stopPropagation()
+        if (tool) {
+            editor.add(tool, event.point.toArray() as Vector3)
+        } else {
+            editor.select(null)
+        }
+    }
+
+    const gridStep = snap ?? 1
+
+    return (
+        <>
+            <PerspectiveCamera makeDefault position={[60, 60, 60]} fov={60} far={2000} />
+            <OrbitControls makeDefault maxPolarAngle={Math.PI / 2 - 0.05} />
+            <ambientLight intensity={0.6} />
+
+            <gridHelper
+                args={[GRID_EXTENT, Math.round(GRID_EXTENT / Math.max(gridStep, 1)), '#888888', '#444444']}
+                position={[0, 0.05, 0]}
+            />
+            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.02, 0]} onClick={handleGroundClick}>
+                <planeGeometry args={[draft.terrain.size, draft.terrain.size]} />
+                <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+            </mesh>
+
+            {allItems(draft).map((item) => (
+                <Marker key={`${item.list}-${item.index}`} editor={editor} item={item} />
+            ))}
+
+            {/* Remounted on every change so the handles start from where the map now says */}
+            {selection && (
+                <Selected
+                    key={`${selection.list}-${selection.index}-${JSON.stringify(itemPosition(draft, selection))}-${JSON.stringify(itemMarker(draft, selection).size)}`}
+                    editor={editor}
+                    selection={selection}
+                />
+            )}
+        </>
+    )
+}
@@ -6,23 +6,24 @@ import { Points, BufferGeometry, NormalBufferAttributes, Material } from 'three'
 import { MercModelPath, JackalopeModelPath } from '../assets'; // Import model paths instead of components
 import { RemotePlayerAudio } from '../components/RemotePlayerAudio'; // Import RemotePlayerAudio component
 import { log, DEBUG_LEVELS, isDebugEnabled } from '../utils/debugUtils'; // Import new debug utilities
-import { RigidBody, CapsuleCollider, BallCollider, CuboidCollider } from '@react-three/rapier'; // Import Rapier physics components
+import { RigidBody, CapsuleCollider, BallCollider, CuboidCollider, RapierRigidBody } from '@react-three/rapier'; // Import Rapier physics components
 import { MercModel } from './MercModel';
 import { JackalopeModel } from './JackalopeModel';
 import entityStateObserver from '../network/EntityStateObserver'; // Import entityStateObserver
+import { AbilityUsedEvent, PlayerHitEvent } from '../types/game';
+import { ABILITIES } from '../network/Abilities';
+import { useRemoteInterpolation } from '../hooks/useRemoteInterpolation';
 
 // Add window type declaration at the top of the file with all custom properties
 declare global {
   interface Window {
     __fallbackModels?: Record<string, THREE.Object3D>;
     __jackalopeAttachmentHandlers?: Record<string, (projectileData: {id: string, position: THREE.Vector3}) => boolean>;
-    __jackalopeHitHandlers?: Record<string, (projectileId: string, shooterId: string) => boolean>;
     __createExplosionEffect?: (position: THREE.Vector3, color: string, particleCount: number, radius: number) => void;
     __createSpawnEffect?: (position: THREE.Vector3, color: string, particleCount: number, radius: number) => void;
     __networkManager?: {
-      sendRespawnRequest: (playerId: string, spawnPosition?: [number, number, number]) => void;
+      sendRespawnRequest: (playerId: string) => void;
     };
-    __lastHitJackalope?: string;
   }
 }
 
@@ -48,6 +49,7 @@ export interface RemotePlayerProps {
   isRunning?: boolean;
   isShooting?: boolean;
   flashlightOn?: boolean; // Add flashlight state
+  reconnecting?: boolean; // Connection dropped; the server is waiting for them to come back
   audioListener?: THREE.AudioListener;
   // Add any other props needed
 }
@@ -57,6 +59,9 @@ export interface RemotePlayerMethods {
   updateTransform: (position: [number, number, number], rotation: [number, number, number, number]) => void;
 }
 
+// Scratch quaternion for turning remote bodies each frame
+const bodyQuaternion = new THREE.Quaternion();
+
 // FlamethrowerFlame component for the particle effect
 const FlamethrowerFlame = () => {
   const particlesRef = useRef<Points<BufferGeometry<NormalBufferAttributes>, Material | Material[]>>(null);
@@ -154,17 +159,54 @@ const PilotLight = () => {
   );
 };
 
+// Whether a player is still inside the spawn protection the authority gave them
+const useSpawnProtection = (playerId: string): boolean => {
+  const [isProtected, setIsProtected] = useState(false);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const handleProtection = (event: Event) => {
+      const { playerId: protectedId, durationMs } = (event as CustomEvent<{ playerId: string; durationMs: number }>).detail;
+      if (protectedId !== playerId) return;
+      if (timer) clearTimeout(timer);
+      setIsProtected(true);
+      timer = setTimeout(() => {
+        timer = null;
+        setIsProtected(false);
+      }, durationMs);
+    };
+
+    window.addEventListener('spawn_protection', handleProtection);
+    return () => {
+      if (timer) clearTimeout(timer);
+      window.removeEventListener('spawn_protection', handleProtection);
+    };
+  }, [playerId]);
+
+  return isProtected;
+};
+
 // Remote Player Component
 export const RemotePlayer: React.FC<RemotePlayerProps> = ({ 
-  playerId, position, rotation, playerType = 'merc', isMoving, isRunning, isShooting, flashlightOn, audioListener
+  playerId, position, rotation, playerType = 'merc', isMoving, isRunning, isShooting, flashlightOn, reconnecting = false, audioListener
 }) => {
   // Add debug logging for player type
   if (isDebugEnabled(DEBUG_LEVELS.INFO)) {
     log.player(`RemotePlayer ${playerId} rendering with playerType: ${playerType || 'undefined'}`);
   }
   
+  // Interpolated transform for this frame; must be registered before the useFrames that read it
+  const interpolated = useRemoteInterpolation(playerId, position, rotation);
+  const spawnProtected = useSpawnProtection(playerId);
+  
   const groupRef = useRef<THREE.Group>(null);
   const meshRef = useRef<THREE.Mesh>(null);
+  const bodyRef = useRef<RapierRigidBody>(null);
+  const nametagRef = useRef<THREE.Group>(null);
+  
+  // Bodies and nametags are placed from props once, then moved every frame from `interpolated`
+  const [initialPosition] = useState(() => new THREE.Vector3(position?.x || 0, position?.y || 0, position?.z || 0));
+  const [initialRotation] = useState(() => rotation || 0);
   const spotlightRef = useRef<THREE.SpotLight>(null);
   const spotlightTargetRef = useRef<THREE.Object3D>(null);
   const flashlightGroupRef = useRef<THREE.Group>(null);
@@ -338,7 +380,7 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
   }, [localIsMoving, localIsRunning, playerId]);
   
   // Apply any pending animation changes
-  useFrame((_, delta) => {
+  useFrame(() => {
     // Check if there's a pending animation change and enough time has passed
     if (pendingAnimationChange.current !== null) {
       const now = Date.now();
@@ -372,33 +414,6 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
       // Create current position vector for comparison
       const currentPos = new THREE.Vector3(position.x, position.y, position.z);
       
-      // IMPROVED POSITION INTERPOLATION
-      // Get current mesh position
-      const meshPos = meshRef.current.position;
-      
-      // Calculate the distance to the target position
-      const distanceToTarget = meshPos.distanceTo(currentPos);
-      
-      // Determine interpolation speed based on distance
-      // Faster interpolation when further away to catch up quickly
-      let moveSpeed;
-      if (distanceToTarget > 5) {
-        // Very far behind - snap to position
-        moveSpeed = 1.0;
-      } else if (distanceToTarget > 2) {
-        // Far behind - catch up quickly
-        moveSpeed = Math.min(1, delta * 15);
-      } else if (distanceToTarget > 0.5) {
-        // Medium distance - moderate catch-up
-        moveSpeed = Math.min(1, delta * 8);
-      } else {
-        // Close - smooth movement
-        moveSpeed = Math.min(1, delta * 6);
-      }
-      
-      // Apply interpolation - faster than before to reduce lag
-      meshPos.lerp(currentPos, moveSpeed);
-      
       // Only check for movement when isMoving is undefined (fallback to local detection)
       if (lastPosition.current && isMoving === undefined) {
         const distance = lastPosition.current.distanceTo(currentPos);
@@ -460,23 +475,31 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
       lastPosition.current.copy(currentPos);
     }
     
-    // IMPROVED ROTATION HANDLING - much more stable now
-    // We're now getting normalized rotation values from EntityStateObserver
-    if (rotation !== undefined && rotation !== null) {
-      // Since rotation is now consistently a single value (yaw angle in radians),
-      // we can directly apply it to the Y axis rotation
-      const targetRotation = playerType === 'jackalope' ? rotation + Math.PI : rotation;
-      
-      // Smoothly interpolate to the target rotation
-      // Use a fast lerp for responsive rotation updates
-      const rotationSpeed = Math.min(delta * 15, 0.5); // Faster rotation, limited to 50% per frame
-      
-      // Set rotation directly on the mesh, now using a simpler approach
-      meshRef.current.rotation.y = THREE.MathUtils.lerp(
-        meshRef.current.rotation.y,
-        targetRotation,
-        rotationSpeed
-      );
+  });
+  
+  // Move the physics body (or fallback group) and nametag to the interpolated transform
+  useFrame(() => {
+    const { position: renderPosition, yaw } = interpolated.current;
+    
+    if (bodyRef.current) {
+      // Models are authored facing different ways, and mercs stand lower in their body
+      const bodyYaw = playerType === 'jackalope' ? yaw + Math.PI : yaw;
+      const bodyOffsetY = playerType === 'merc' ? -1.6 : 0.3;
+      bodyRef.current.setNextKinematicTranslation({
+        x: renderPosition.x,
+        y: renderPosition.y + bodyOffsetY,
+        z: renderPosition.z
+      });
+      bodyRef.current.setNextKinematicRotation(bodyQuaternion.setFromAxisAngle(THREE.Object3D.DEFAULT_UP, bodyYaw));
+    }
+    
+    if (groupRef.current) {
+      groupRef.current.position.copy(renderPosition);
+      groupRef.current.rotation.y = yaw;
+    }
+    
+    if (nametagRef.current) {
+      nametagRef.current.position.copy(renderPosition);
     }
   });
 
@@ -513,10 +536,11 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
     // Update spotlight target position if available
     if (playerType === 'merc' && flashlightOn && 
         spotlightRef.current && spotlightTargetRef.current) {
+      const { position: renderPosition, yaw } = interpolated.current;
       
       // Create a normalized direction vector from the rotation angle
       // Normalize angle to [0, 2π) range to avoid issues with negative angles
-      const normalizedRotation = ((rotation || 0) % (2 * Math.PI) + 2 * Math.PI) % (2 * Math.PI);
+      const normalizedRotation = (yaw % (2 * Math.PI) + 2 * Math.PI) % (2 * Math.PI);
       
       // Calculate forward vector from normalized rotation
       const dirX = Math.sin(normalizedRotation);
@@ -535,9 +559,9 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
       // Add a slight vertical offset for better illumination (pointing slightly downward)
       // Position the target relative to the player's position for more accurate targeting
       spotlightTargetRef.current.position.set(
-        position.x + targetX, 
-        position.y - 2, 
-        position.z + targetZ
+        renderPosition.x + targetX, 
+        renderPosition.y - 2, 
+        renderPosition.z + targetZ
       );
       spotlightTargetRef.current.updateMatrixWorld();
       
@@ -548,11 +572,11 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
       const now = Date.now();
       if (now - lastFlashlightLogTime.current > 2000) {
         console.log(`🔦 Flashlight for ${playerId} (${playerType}):
-  Original Rotation: ${rotation?.toFixed(2)}
+  Original Rotation: ${yaw.toFixed(2)}
   Normalized Rotation: ${normalizedRotation.toFixed(2)}
   Direction Vector: [${dirX.toFixed(2)}, 0, ${dirZ.toFixed(2)}]
-  Player Position: [${position?.x.toFixed(2)}, ${position?.y.toFixed(2)}, ${position?.z.toFixed(2)}]
-  Target Position: [${(position.x + targetX).toFixed(2)}, ${(position.y - 2).toFixed(2)}, ${(position.z + targetZ).toFixed(2)}]`);
+  Player Position: [${renderPosition.x.toFixed(2)}, ${renderPosition.y.toFixed(2)}, ${renderPosition.z.toFixed(2)}]
+  Target Position: [${(renderPosition.x + targetX).toFixed(2)}, ${(renderPosition.y - 2).toFixed(2)}, ${(renderPosition.z + targetZ).toFixed(2)}]`);
         
         lastFlashlightLogTime.current = now;
       }
@@ -597,9 +621,10 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
     return (
       <>
         <RigidBody 
-          type="fixed" 
-          position={position ? [position.x, position.y - 1.6, position.z] : [0, -1.6, 0]}
-          rotation={[0, rotation || 0, 0]}
+          ref={bodyRef}
+          type="kinematicPosition" 
+          position={[initialPosition.x, initialPosition.y - 1.6, initialPosition.z]}
+          rotation={[0, initialRotation, 0]}
           colliders={false}
           name={`remote-merc-${playerId}`}
           userData={{ isMerc: true, playerId }}
@@ -625,6 +650,21 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
             scale={[5, 5, 5]} // Increase the scale to make the merc appear much larger
           />
           
+          {/* Shield while the merc is spawn protected */}
+          {spawnProtected && (
+            <mesh position={[0, 7.5, 0]}>
+              <sphereGeometry args={[9, 32, 32]} />
+              <meshStandardMaterial 
+                color="#4682B4"
+                transparent={true}
+                opacity={0.3}
+                emissive="#4682B4"
+                emissiveIntensity={0.5}
+                side={THREE.DoubleSide}
+              />
+            </mesh>
+          )}
+          
           {/* Add remote player flashlight when enabled */}
           {flashlightOn && (
             <>
@@ -671,21 +711,26 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
           )}
         </RigidBody>
         {/* Player ID tag - positioned higher for the taller merc model */}
-        <Html position={[position?.x || 0, (position?.y || 0) + 12, position?.z || 0]} center>
-          {/* Only show nametag if this player is on the same team as the local player */}
-          {window.jackalopesGame?.playerType === 'merc' && (
-            <div style={{ 
-              background: 'rgba(0,0,0,0.5)', 
-              padding: '2px 6px', 
-              borderRadius: '4px', 
-              color: 'white',
-              fontSize: '14px', // Slightly smaller font to match 5x scale
-              fontFamily: 'Arial, sans-serif'
-            }}>
-              {playerId?.split('-')[0]}
-            </div>
-          )}
-        </Html>
+        <group ref={nametagRef} position={[initialPosition.x, initialPosition.y, initialPosition.z]}>
+          <Html position={[0, 12, 0]} center>
+            {/* Only show nametag if this player is on the same team as the local player,
+                but tell everyone why a dropped player has frozen */}
+            {(window.jackalopesGame?.playerType === 'merc' || reconnecting) && (
+              <div style={{ 
+                background: 'rgba(0,0,0,0.5)', 
+                padding: '2px 6px', 
+                borderRadius: '4px', 
+                color: 'white',
+                fontSize: '14px', // Slightly smaller font to match 5x scale
+                fontFamily: 'Arial, sans-serif'
+              }}>
+                {playerId?.split('-')[0]}
+                {spawnProtected && ' (protected)'}
+                {reconnecting && ' (reconnecting…)'}
+              </div>
+            )}
+          </Html>
+        </group>
         {/* Add spatial audio for remote merc player */}
         {audioComponent}
       </>
@@ -702,61 +747,22 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
     // Track attached projectiles with a ref
     const [attachedProjectiles, setAttachedProjectiles] = useState<{id: string, position: THREE.Vector3}[]>([]);
     const attachedProjectilesRef = useRef<{id: string, position: THREE.Vector3}[]>([]);
-    const rigidBodyRef = useRef<any>(null);
-    
     // Add state for managing hit and respawn
     const [isHit, setIsHit] = useState(false);
     const [isRespawning, setIsRespawning] = useState(false);
     const [isInvulnerable, setIsInvulnerable] = useState(false);
     const invulnerableTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const [isBurrowed, setIsBurrowed] = useState(false);
     
-    // Function to handle when a jackalope is hit by a projectile
-    const handleJackalopeHit = useCallback((projectileId: string, shooterId: string): boolean => {
-      // Only process if not already hit or invulnerable
-      if (isHit || isRespawning || isInvulnerable) {
-        console.log(`[RemotePlayer] Jackalope ${playerId} already hit or invulnerable - skipping hit`);
-        return false;
+    // Function to handle a hit on this jackalope once the authority has confirmed it
+    const handleJackalopeHit = useCallback((hit: PlayerHitEvent) => {
+      // The authority already enforces respawn protection; this just avoids replaying effects
+      if (isHit || isRespawning) {
+        console.log(`[RemotePlayer] Jackalope ${playerId} already hit - skipping effects`);
+        return;
       }
       
-      console.log(`[RemotePlayer] Jackalope ${playerId} hit by projectile ${projectileId} from ${shooterId}`);
-      
-      // Set a specific flag for this jackalope that was hit
-      window.__lastHitJackalope = playerId;
-      console.log(`[RemotePlayer] Setting last hit jackalope to ${playerId}`);
-      
-      // Check if this jackalope has already been scored for and clear it if needed
-      try {
-        const scoredJackalopesStr = localStorage.getItem('scored_jackalopes');
-        if (scoredJackalopesStr) {
-          const scoredJackalopes = JSON.parse(scoredJackalopesStr);
-          if (Array.isArray(scoredJackalopes) && scoredJackalopes.includes(playerId)) {
-            console.log(`[RemotePlayer] Jackalope ${playerId} already scored - removing from tracking to allow scoring on respawn`);
-            // Don't block the scoring, just log the data
-          }
-        }
-      } catch (err) {
-        console.error('[RemotePlayer] Error checking scored jackalopes:', err);
-      }
-      
-      // Set hit state to trigger vanishing effect
-      setIsHit(true);
-      
-      // Trigger a scoring event for the merc who hit the jackalope
-      try {
-        // Dispatch a custom event to update the merc's score
-        const scoringEvent = new CustomEvent('merc_scored', {
-          detail: { 
-            mercId: shooterId, 
-            jackalopeId: playerId,
-            shotId: projectileId,
-            timestamp: Date.now()
-          }
-        });
-        window.dispatchEvent(scoringEvent);
-        console.log(`🎯 Dispatched scoring event for merc ${shooterId} hitting jackalope ${playerId}`);
-      } catch (err) {
-        console.error('Error dispatching merc scoring event:', err);
-      }
+      console.log(`[RemotePlayer] Jackalope ${playerId} hit by ${hit.hit_by} for ${hit.damage} (shot ${hit.shotId})`);
       
       // Play hit sound
       try {
@@ -766,6 +772,12 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
         console.error('Error playing hit sound:', err);
       }
       
+      // Still standing; the jackalope asks for its own respawn once it's actually down
+      if (hit.killed === false) return;
+      
+      // Set hit state to trigger vanishing effect
+      setIsHit(true);
+      
       // Create particles at position before vanishing
       if (typeof window !== 'undefined' && window.__createExplosionEffect && position) {
         try {
@@ -785,46 +797,6 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
         setIsHit(false);
         setIsRespawning(true);
         
-        // Tell the server we need to respawn this jackalope
-        if (typeof window !== 'undefined') {
-          // Check if this jackalope was the last one hit to prevent multiple respawns
-          if (window.__lastHitJackalope === playerId) {
-            if (window.__networkManager) {
-              console.log(`[RemotePlayer] Sending respawn request for jackalope: ${playerId}`);
-              try {
-                // Add detailed info about target
-                console.log(`Hit detection: Jackalope ${playerId} was hit`);
-                
-                // Create a spawn position for respawn
-                const spawnPosition: [number, number, number] = [-100, 3, 10];
-                window.__networkManager.sendRespawnRequest(playerId, spawnPosition);
-              } catch (error: any) {
-                console.error(`[RemotePlayer] Error sending respawn request: ${error.message}`);
-              }
-            } else if (window.connectionManager) {
-              // Fallback to connectionManager global if __networkManager isn't available
-              console.log(`[RemotePlayer] Using connectionManager fallback for respawn request: ${playerId}`);
-              try {
-                // Add detailed info about target
-                console.log(`Hit detection: Jackalope ${playerId} was hit`);
-                
-                // Create a spawn position for respawn
-                const spawnPosition: [number, number, number] = [-100, 3, 10];
-                window.connectionManager.sendRespawnRequest(playerId, spawnPosition);
-              } catch (error: any) {
-                console.error(`[RemotePlayer] Error sending respawn via connectionManager: ${error.message}`);
-              }
-            } else {
-              console.error(`[RemotePlayer] Cannot send respawn request: no network manager available!`);
-            }
-            
-            // Clear the flag after we've handled this jackalope's respawn
-            window.__lastHitJackalope = undefined;
-          } else {
-            console.log(`[RemotePlayer] Skipping respawn request for ${playerId} as it was not the last hit jackalope (${window.__lastHitJackalope || 'none'})`);
-          }
-        }
-        
         // For demo/testing, we'll just simulate a respawn after a delay
         // In production, the server would tell us where to respawn
         setTimeout(() => {
@@ -856,25 +828,38 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
           }
         }, 1500); // 1.5 seconds "dead" before respawning
       }, 200); // Short delay to allow the hit effect to be seen
-      
-      return true;
-    }, [playerId, position, isHit, isRespawning, isInvulnerable]);
+    }, [playerId, position, isHit, isRespawning]);
     
-    // Expose the hit handler function to window so projectiles can trigger it
+    // Listen for confirmed hits on this jackalope (forwarded by MultiplayerSyncManager)
     useEffect(() => {
-      if (typeof window !== 'undefined') {
-        if (!window.__jackalopeHitHandlers) {
-          window.__jackalopeHitHandlers = {};
+      const onPlayerHit = (event: Event) => {
+        const hit = (event as CustomEvent<PlayerHitEvent>).detail;
+        if (hit?.player_id === playerId) {
+          handleJackalopeHit(hit);
         }
-        window.__jackalopeHitHandlers[playerId] = handleJackalopeHit;
-      }
+      };
+      
+      window.addEventListener('player_hit', onPlayerHit);
+      return () => window.removeEventListener('player_hit', onPlayerHit);
+    }, [playerId, handleJackalopeHit]);
+    
+    // Burrowing hides the jackalope (and its colliders) under a mound of dirt until it surfaces
+    useEffect(() => {
+      let surfaceTimeout: ReturnType<typeof setTimeout> | null = null;
+      const onAbilityUsed = (event: Event) => {
+        const used = (event as CustomEvent<AbilityUsedEvent>).detail;
+        if (used?.player_id !== playerId || used.ability !== 'burrow') return;
+        setIsBurrowed(true);
+        if (surfaceTimeout) clearTimeout(surfaceTimeout);
+        surfaceTimeout = setTimeout(() => setIsBurrowed(false), ABILITIES.burrow.durationMs);
+      };
       
+      window.addEventListener('ability_used', onAbilityUsed);
       return () => {
-        if (typeof window !== 'undefined' && window.__jackalopeHitHandlers) {
-          delete window.__jackalopeHitHandlers[playerId];
-        }
+        window.removeEventListener('ability_used', onAbilityUsed);
+        if (surfaceTimeout) clearTimeout(surfaceTimeout);
       };
-    }, [playerId, handleJackalopeHit]);
+    }, [playerId]);
     
     // Respawn position update listener
     useEffect(() => {
@@ -962,13 +947,13 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
     // Function to handle projectile attachments
     const handleAttachProjectile = useCallback((projectileData: {id: string, position: THREE.Vector3}): boolean => {
       // Skip if we're already hit, respawning, or invulnerable
-      if (isHit || isRespawning || isInvulnerable) return false;
+      if (isHit || isRespawning || isInvulnerable || spawnProtected) return false;
       
       // Implement the logic to attach a projectile to the jackalope
       // This is a placeholder and should be replaced with the actual implementation
       console.log(`Attaching projectile ${projectileData.id} to jackalope ${playerId}`);
       return true;
-    }, [isHit, isRespawning, isInvulnerable, playerId]);
+    }, [isHit, isRespawning, isInvulnerable, spawnProtected, playerId]);
     
     // Clean up timeout on unmount
     useEffect(() => {
@@ -1022,10 +1007,10 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
     return (
       <>
         <RigidBody 
-          ref={rigidBodyRef}
-          type="fixed" 
-          position={position ? [position.x, position.y + 0.3, position.z] : [0, 0.3, 0]}
-          rotation={[0, (rotation || 0) + Math.PI, 0]}
+          ref={bodyRef}
+          type="kinematicPosition" 
+          position={[initialPosition.x, initialPosition.y + 0.3, initialPosition.z]}
+          rotation={[0, initialRotation + Math.PI, 0]}
           colliders={false}
           name={`remote-jackalope-${playerId}`}
           userData={{ 
@@ -1043,8 +1028,15 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
           collisionGroups={0xFFFFFFFF} // Collide with everything
           restitution={0.1} // Make collisions less bouncy
         >
-          {/* Only render mesh contents when not hit/respawning */}
-          {!isHit && (
+          {isBurrowed && !isHit && (
+            <mesh position={[0, -0.8, 0]} scale={[1.6, 0.4, 1.6]}>
+              <sphereGeometry args={[1, 16, 8]} />
+              <meshStandardMaterial color="#5b4030" roughness={1} />
+            </mesh>
+          )}
+          
+          {/* Only render mesh contents when not hit/respawning/burrowed */}
+          {!isHit && !isBurrowed && (
             <>
               {/* Use multiple colliders to ensure good collision detection */}
               {/* Main body collider - enlarged for better hit detection */}
@@ -1066,8 +1058,8 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
                 scale={[2, 2, 2]} // Increase the scale to make the jackalope appear larger
               />
               
-              {/* Show invulnerability effect when necessary */}
-              {isInvulnerable && (
+              {/* Show invulnerability effect when necessary, spawn protection included */}
+              {(isInvulnerable || spawnProtected) && (
                 <mesh>
                   <sphereGeometry args={[3, 32, 32]} />
                   <meshStandardMaterial 
@@ -1088,24 +1080,29 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
         </RigidBody>
         
         {/* Player ID tag - only show when not hit/respawning */}
-        {!isHit && !isRespawning && (
-          <Html position={[position?.x || 0, (position?.y || 0) + 5, position?.z || 0]} center>
-            {/* Only show nametag if this player is on the same team as the local player */}
-            {window.jackalopesGame?.playerType === 'jackalope' && (
-              <div style={{ 
-                background: 'rgba(0,0,0,0.5)', 
-                padding: '2px 6px', 
-                borderRadius: '4px', 
-                color: 'white',
-                fontSize: '12px', // Larger font to match the increased size
-                fontFamily: 'Arial, sans-serif'
-              }}>
-                {playerId?.split('-')[0]}
-                {isInvulnerable && ' (Invulnerable)'}
-              </div>
-            )}
-          </Html>
-        )}
+        <group ref={nametagRef} position={[initialPosition.x, initialPosition.y, initialPosition.z]}>
+          {!isHit && !isRespawning && (
+            <Html position={[0, 5, 0]} center>
+              {/* Only show nametag if this player is on the same team as the local player,
+                  but tell everyone why a dropped player has frozen */}
+              {(window.jackalopesGame?.playerType === 'jackalope' || reconnecting) && (
+                <div style={{ 
+                  background: 'rgba(0,0,0,0.5)', 
+                  padding: '2px 6px', 
+                  borderRadius: '4px', 
+                  color: 'white',
+                  fontSize: '12px', // Larger font to match the increased size
+                  fontFamily: 'Arial, sans-serif'
+                }}>
+                  {playerId?.split('-')[0]}
+                  {(isInvulnerable || spawnProtected) && ' (Invulnerable)'}
+                  {isBurrowed && ' (burrowed)'}
+                  {reconnecting && ' (reconnecting…)'}
+                </div>
+              )}
+            </Html>
+          )}
+        </group>
         
         {/* Add spatial audio for remote jackalope player */}
         {!isHit && !isRespawning && audioComponent}
@@ -1152,8 +1149,8 @@ export const RemotePlayer: React.FC<RemotePlayerProps> = ({
   return (
     <group 
       ref={groupRef}
-      position={[position.x, position.y, position.z]}
-      rotation={[0, rotation, 0]}
+      position={[initialPosition.x, initialPosition.y, initialPosition.z]}
+      rotation={[0, initialRotation, 0]}
       name={`remote-player-${playerId}`}
     >
       {/* Debug visuals */}
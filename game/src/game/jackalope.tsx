@@ -9,6 +9,13 @@ import { Component, Entity, EntityType } from './ecs'
 
 // Import ConnectionManager for multiplayer support
 import { ConnectionManager } from '../network/ConnectionManager'
+import { DAMAGE_PROFILES } from '../network/Health'
+import { ABILITIES } from '../network/Abilities'
+import { DEFAULT_SPAWN_OPTIONS } from '../network/Spawns'
+import { findScoringZone, getMap, startingPosition } from './maps'
+import { GameMap } from '../types/map'
+import { JackalopeAbility } from '../types/game'
+import snapshotInterpolation from '../network/SnapshotInterpolation'
 import { JackalopeModel } from './JackalopeModel' // Import the JackalopeModel component
 
 // Add global type declaration at the top of the file
@@ -23,15 +30,6 @@ declare global {
             flashlightOn?: boolean;
             levaPanelState?: 'open' | 'closed';
             debugLevel?: number;
-            spawnManager?: {
-                baseSpawnX: number;
-                currentSpawnX: number;
-                stepSize: number;
-                minX: number;
-                getNextSpawnPoint: () => [number, number, number];
-                resetSpawnPoints: () => [number, number, number];
-                getSpawnPoint: () => [number, number, number];
-            };
         };
         playerPositionTracker?: {
             updatePosition: (newPos: THREE.Vector3) => void;
@@ -39,7 +37,7 @@ declare global {
         __createSpawnEffect?: (position: THREE.Vector3, color: string, particleCount: number, radius: number) => void;
         __createExplosionEffect?: (position: THREE.Vector3, color: string, particleCount: number, radius: number) => void;
         __networkManager?: {
-            sendRespawnRequest: (playerId: string, spawnPosition?: [number, number, number]) => void;
+            sendRespawnRequest: (playerId: string) => void;
         };
     }
 }
@@ -51,6 +49,15 @@ const ANIMATION_SMOOTHING = 0.08;
 const BASE_SPEED = 6.8; // Doubled from 3.4 to make jackalope 2x faster
 const RUN_MULTIPLIER = 1.8; // Keep this the same
 
+// Counter-attack reach (the authority's limit) and how often it can be used
+const COUNTER_RANGE = DAMAGE_PROFILES.counter.maxRange ?? 4;
+const COUNTER_COOLDOWN_MS = 800;
+
+// Ability keys (the HUD's AbilityBar lists these too) and how far a burrow sinks the model
+const ABILITY_KEYS: Record<string, JackalopeAbility> = { q: 'dash', e: 'burrow', r: 'decoy' };
+const BURROW_DEPTH = 1.6;
+const DASH_SPEED = ABILITIES.dash.distance / (ABILITIES.dash.durationMs / 1000);
+
 // Jump handling adjustments
 const JUMP_MULTIPLIER = 14.2; // Increased from 4 to make jumps higher
 const GRAVITY_REDUCTION = 1; // Increased from 0.5 to make jumps shorter
@@ -64,6 +71,8 @@ type JackalopeProps = RigidBodyProps & {
     connectionManager?: ConnectionManager
     visible?: boolean
     thirdPersonView?: boolean
+    // Where the rabbit holes are; the default map when left out
+    map?: GameMap
 }
 
 // Keyboard controls type
@@ -84,6 +93,7 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
     connectionManager, 
     visible = false, 
     thirdPersonView = false, 
+    map = getMap(),
     ...props 
 }, ref) => {
     // Core references
@@ -126,6 +136,11 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
     // Track last server sync
     const lastStateTime = useRef(0)
     
+    // Abilities in progress, as Date.now() deadlines
+    const dashUntil = useRef(0)
+    const dashDirection = useRef(new THREE.Vector3())
+    const burrowedUntil = useRef(0)
+    
     // Initialize position and physics controller
     useEffect(() => {
         // Create physics character controller
@@ -232,19 +247,9 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
             if (localPlayerId) {
                 console.log('🐰 Jackalope processing respawn event', event.detail);
                 
-                // Use provided position from event, or use the spawnManager
-                let spawnCoords: [number, number, number];
-                
-                if (event.detail?.position) {
-                    // Use position from the event if provided
-                    spawnCoords = event.detail.position;
-                } else if (window.jackalopesGame?.spawnManager) {
-                    // Get next spawn point with progressive movement 
-                    spawnCoords = (window.jackalopesGame as any).spawnManager.getNextSpawnPoint();
-                } else {
-                    // Fallback to default
-                    spawnCoords = [-100, 3, 10];
-                }
+                // The authority decides where we come back in
+                const spawnCoords: [number, number, number] = event.detail?.position ?? startingPosition('jackalope', map);
+                const protectionMs: number = event.detail?.protectionMs ?? DEFAULT_SPAWN_OPTIONS.protectionMs;
                 
                 console.log(`🐰 Spawn coordinates: [${spawnCoords.join(', ')}]`);
                 
@@ -289,21 +294,20 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
                     );
                 }
                 
-                // Set invulnerable state after a short delay
+                // Shielded for as long as the authority protects us
                 setTimeout(() => {
                     setIsRespawning(false);
                     setIsInvulnerable(true);
                     
-                    // Remove invulnerability after 3 seconds
                     setTimeout(() => {
                         setIsInvulnerable(false);
-                    }, 3000);
+                    }, Math.max(0, protectionMs - 300));
                 }, 300);
             }
         } catch (error) {
             console.error(`🐰 Error handling respawn after scoring:`, error);
         }
-    }, [connectionManager]);
+    }, [connectionManager, map]);
     
     useEffect(() => {
         // Add event listener
@@ -314,6 +318,89 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
         };
     }, [handleRespawn]);
     
+    // Counter-attack: clicking kicks the nearest merc in reach. The authority
+    // decides whether it landed, same as a merc's fireball.
+    useEffect(() => {
+        if (!connectionManager) return;
+        
+        let lastCounterAt = 0;
+        const handleCounter = () => {
+            if (!document.pointerLockElement || connectionManager.isSpectator()) return;
+            const now = Date.now();
+            if (now - lastCounterAt < COUNTER_COOLDOWN_MS || now < burrowedUntil.current) return;
+            lastCounterAt = now;
+            
+            // Aim at mercs where we see them, not where the server last had them
+            let hit: { id: string, position: THREE.Vector3, range: number } | null = null;
+            for (const [id, state] of Object.entries(connectionManager.getPlayers())) {
+                if (state.playerType !== 'merc') continue;
+                const seen = new THREE.Vector3(...(snapshotInterpolation.sample(id)?.position ?? state.position));
+                const range = seen.distanceTo(position.current);
+                if (range <= COUNTER_RANGE && (!hit || range < hit.range)) {
+                    hit = { id, position: seen, range };
+                }
+            }
+            
+            const origin = position.current.toArray() as [number, number, number];
+            const direction = hit
+                ? hit.position.clone().sub(position.current).normalize().toArray() as [number, number, number]
+                : [Math.sin(rotation.current), 0, Math.cos(rotation.current)] as [number, number, number];
+            const shotId = connectionManager.sendShootEvent(origin, direction, 'counter');
+            if (shotId && hit) {
+                connectionManager.sendHitReport(shotId, hit.id, hit.position.toArray() as [number, number, number]);
+            }
+        };
+        
+        window.addEventListener('pointerdown', handleCounter);
+        return () => window.removeEventListener('pointerdown', handleCounter);
+    }, [connectionManager]);
+    
+    // Abilities: the connection manager checks the cooldown and tells everyone,
+    // then the dash and burrow play out in useFrame (decoys are drawn by Decoys)
+    const triggerAbility = useCallback((ability: JackalopeAbility) => {
+        if (!connectionManager || connectionManager.getRoundRules().movement === false) return;
+        
+        // Dashes and decoys go where the camera is looking
+        const direction = new THREE.Vector3(0, 0, -1).applyQuaternion(camera.quaternion).setY(0).normalize();
+        const abilityId = connectionManager.sendAbility(
+            ability,
+            position.current.toArray() as [number, number, number],
+            direction.toArray() as [number, number, number]
+        );
+        if (!abilityId) return;
+        
+        const until = Date.now() + ABILITIES[ability].durationMs;
+        if (ability === 'dash') {
+            dashDirection.current.copy(direction);
+            dashUntil.current = until;
+        } else if (ability === 'burrow') {
+            burrowedUntil.current = until;
+        }
+    }, [connectionManager, camera]);
+    
+    useEffect(() => {
+        const handleAbilityKey = (e: KeyboardEvent) => {
+            const ability = ABILITY_KEYS[e.key.toLowerCase()];
+            if (!ability || e.repeat || !document.pointerLockElement) return;
+            triggerAbility(ability);
+        };
+        
+        window.addEventListener('keydown', handleAbilityKey);
+        return () => window.removeEventListener('keydown', handleAbilityKey);
+    }, [triggerAbility]);
+    
+    useEffect(() => {
+        if (gamepadState?.buttons?.dash) triggerAbility('dash');
+    }, [gamepadState?.buttons?.dash, triggerAbility]);
+    
+    useEffect(() => {
+        if (gamepadState?.buttons?.burrow) triggerAbility('burrow');
+    }, [gamepadState?.buttons?.burrow, triggerAbility]);
+    
+    useEffect(() => {
+        if (gamepadState?.buttons?.decoy) triggerAbility('decoy');
+    }, [gamepadState?.buttons?.decoy, triggerAbility]);
+    
     // Process respawn in useFrame
     useEffect(() => {
         if (isRespawning && respawnTargetPosition.current) {
@@ -357,14 +444,12 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
             }
         }
         
-        // Check for collision with circle in center (only for jackalope players) - for scoring only
+        // Check for reaching one of the map's rabbit holes (only for jackalope players) - for scoring only
         if (!isRespawning && !isInvulnerable && window.jackalopesGame?.playerType === 'jackalope') {
-            const circlePosition = new THREE.Vector3(0, 0.5, 0); // Center of circle
-            const distanceToCircle = position.current.distanceTo(circlePosition);
+            const hole = findScoringZone(map, position.current.toArray() as [number, number, number]);
             
-            // If jackalope is within 5 units of the circle center
-            if (distanceToCircle < 5) {
-                console.log('🐰 Jackalope touched center circle, scoring a point!');
+            if (hole) {
+                console.log(`🐰 Jackalope reached rabbit hole ${hole.id}, scoring a point!`);
                 
                 // Only trigger score event if we're a local player
                 if (connectionManager) {
@@ -380,63 +465,21 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
                         }
                         
                         // Dispatch scoring event
-                        const scoringEvent = new CustomEvent('jackalope_scored');
+                        const scoringEvent = new CustomEvent('jackalope_scored', {
+                            detail: { holeId: hole.id, position: position.current.toArray() }
+                        });
                         window.dispatchEvent(scoringEvent);
                         
-                        // Get local player ID for respawn
+                        // Back out to a spawn point; the authority picks it, and the
+                        // respawn event that comes back does the teleport
                         const localPlayerId = connectionManager.getPlayerId();
-                        
-                        // Get respawn position from the global spawn manager
-                        let spawnPosition: [number, number, number];
-                        if (window.jackalopesGame?.spawnManager) {
-                            spawnPosition = (window.jackalopesGame as any).spawnManager.getNextSpawnPoint();
-                        } else {
-                            // Fallback to default
-                            spawnPosition = [-100, 3, 10];
+                        if (localPlayerId) {
+                            connectionManager.sendRespawnRequest(localPlayerId);
+                            console.log(`🐰 Respawn request sent for jackalope ${localPlayerId}`);
                         }
-                        console.log(`🐰 Using spawn position: [${spawnPosition.join(', ')}]`);
                         
-                        try {
-                            // Trigger respawn through network manager
-                            if (window.__networkManager && localPlayerId) {
-                                window.__networkManager.sendRespawnRequest(localPlayerId, spawnPosition);
-                                console.log(`🐰 Respawn request sent for jackalope ${localPlayerId}`);
-                            } else if (connectionManager && localPlayerId) {
-                                // Fallback to connection manager if __networkManager isn't available
-                                connectionManager.sendRespawnRequest(localPlayerId, spawnPosition);
-                                console.log(`🐰 Respawn request sent via connectionManager for ${localPlayerId}`);
-                            } else {
-                                console.log('🐰 No player ID available for respawn request');
-                            }
-                            
-                            // Apply respawn immediately to avoid delay
-                            // Create a new THREE.Vector3 from spawn coordinates
-                            respawnTargetPosition.current = new THREE.Vector3(spawnPosition[0], spawnPosition[1], spawnPosition[2]);
-                            
-                            // Update tracked position
-                            position.current.set(spawnPosition[0], spawnPosition[1], spawnPosition[2]);
-                            
-                            // Direct teleport
-                            jackalopeRef.current.rigidBody.setNextKinematicTranslation(position.current);
-                            jackalopeRef.current.rigidBody.setLinvel({ x: 0, y: 0, z: 0 }, true); // Reset velocity
-                            
-                            // Set respawning state
-                            setIsRespawning(true);
-                            respawnEffectRef.current = true; // Trigger visual effect
-                            
-                            // Set invulnerable state after a short delay
-                            setTimeout(() => {
-                                setIsRespawning(false);
-                                setIsInvulnerable(true);
-                                
-                                // Remove invulnerability after 3 seconds
-                                setTimeout(() => {
-                                    setIsInvulnerable(false);
-                                }, 3000);
-                            }, 300);
-                        } catch (error) {
-                            console.error(`🐰 Error handling respawn after scoring:`, error);
-                        }
+                        // Don't score again while waiting to be moved
+                        setIsRespawning(true);
                         
                     } catch (error) {
                         console.error(`🐰 Error handling scoring:`, error);
@@ -450,14 +493,17 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
         // --- Normal Movement Logic ---
         // Get input state
         const { forward, backward, left, right, jump, sprint } = getKeyboardControls() as any
+        // No input while the round has everyone frozen (results screen) or while burrowed
+        const burrowed = Date.now() < burrowedUntil.current
+        const frozen = connectionManager?.getRoundRules().movement === false || burrowed
         
         // Combine keyboard and gamepad
-        const moveForward = forward || (gamepadState?.leftStick?.y < 0)
-        const moveBackward = backward || (gamepadState?.leftStick?.y > 0)
-        const moveLeft = left || (gamepadState?.leftStick?.x < 0)
-        const moveRight = right || (gamepadState?.leftStick?.x > 0)
-        const isJumping = jump || gamepadState?.buttons?.jump
-        const isSprinting = sprint || gamepadState?.buttons?.leftStickPress
+        const moveForward = !frozen && (forward || (gamepadState?.leftStick?.y < 0))
+        const moveBackward = !frozen && (backward || (gamepadState?.leftStick?.y > 0))
+        const moveLeft = !frozen && (left || (gamepadState?.leftStick?.x < 0))
+        const moveRight = !frozen && (right || (gamepadState?.leftStick?.x > 0))
+        const isJumping = !frozen && (jump || gamepadState?.buttons?.jump)
+        const isSprinting = !frozen && (sprint || gamepadState?.buttons?.leftStickPress)
         
         // Get movement direction from input
         const inputDir = new THREE.Vector3(
@@ -534,6 +580,13 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
             }
         }
         
+        // A dash takes over steering for its short burst
+        if (Date.now() < dashUntil.current) {
+            velocity.current.x = dashDirection.current.x * DASH_SPEED
+            velocity.current.z = dashDirection.current.z * DASH_SPEED
+            setAnimation('run')
+        }
+        
         // Jump handling
         if (isJumping && groundCheck) {
             velocity.current.y = jumpForce * JUMP_MULTIPLIER
@@ -612,7 +665,7 @@ export const Jackalope = forwardRef<EntityType, JackalopeProps>(({
             // Update model position directly
             jackalopeModelRef.current.position.set(
                 position.current.x,
-                position.current.y - 0.65, // Reduce height offset to lower the model
+                position.current.y - 0.65 - (burrowed ? BURROW_DEPTH : 0), // Reduce height offset to lower the model
                 position.current.z
             )
             
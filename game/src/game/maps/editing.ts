@@ -0,0 +1,238 @@
+import { PlayerType, Vector3 } from '../../types/game'
+import { GameMap, MapProp, ScatterKind } from '../../types/map'
+
+// Edits the map editor makes, as plain functions from one map to the next.
+// Nothing here changes a map in place, so every step can go on the undo stack.
+
+// The parts of a map the editor can pick and change
+export type EditableList = 'blocks' | 'walls' | 'props' | 'spawns' | 'scoringZones'
+
+export type EditorSelection = { list: EditableList; index: number }
+
+// What the editor can add
+export type EditorTool = 'block' | 'wall' | ScatterKind | 'jackalope-spawn' | 'merc-spawn' | 'scoring-zone'
+
+export const EDITOR_TOOLS: { tool: EditorTool; label: string }[] = [
+    { tool: 'block', label: 'Box' },
+    { tool: 'wall', label: 'Wall' },
+    { tool: 'tree', label: 'Tree' },
+    { tool: 'rock', label: 'Rock' },
+    { tool: 'plant', label: 'Plant' },
+    { tool: 'bush', label: 'Bush' },
+    { tool: 'jackalope-spawn', label: 'Jackalope spawn' },
+    { tool: 'merc-spawn', label: 'Merc spawn' },
+    { tool: 'scoring-zone', label: 'Rabbit hole' },
+]
+
+export const TEAM_COLORS: Record<PlayerType, string> = { jackalope: '#4682B4', merc: '#B22222' }
+
+// Smallest a box, wall or prop can be shrunk to
+const MIN_SIZE = 0.25
+
+export const snapTo = (value: number, step: number | null): number =>
+    step ? Math.round(value / step) * step : value
+
+const snapVector = ([x, y, z]: Vector3, step: number | null): Vector3 =>
+    [snapTo(x, step), snapTo(y, step), snapTo(z, step)]
+
+// Sizes snap too, but never down to nothing
+const snapSize = (value: number, step: number | null): number =>
+    Math.max(step ?? MIN_SIZE, MIN_SIZE, snapTo(value, step))
+
+const replaceAt = <T>(list: T[], index: number, entry: T): T[] =>
+    list.map((current, i) => i === index ? entry : current)
+
+// An id not yet used in `taken`, e.g. jackalope-3
+const freshId = (prefix: string, taken: { id: string }[]): string => {
+    let n = taken.length + 1
+    while (taken.some(({ id }) => id === `${prefix}-${n}`)) n++
+    return `${prefix}-${n}`
+}
+
+/**
+ * Put a new item of `tool` down at `at` and select it
+ */
+export const addItem = (map: GameMap, tool: EditorTool, at: Vector3, step: number | null): { map: GameMap; selection: EditorSelection } => {
+    const [x, , z] = snapVector(at, step)
+    switch (tool) {
+        case 'block':
+            return {
+                map: { ...map, blocks: [...map.blocks, { position: [x, 0, z], size: [4, 4, 4] }] },
+                selection: { list: 'blocks', index: map.blocks.length },
+            }
+        case 'wall':
+            return {
+                map: { ...map, walls: [...map.walls, { position: [x, 4, z], size: [10, 8, 2], color: '#555555' }] },
+                selection: { list: 'walls', index: map.walls.length },
+            }
+        case 'jackalope-spawn':
+        case 'merc-spawn': {
+            const team: PlayerType = tool === 'merc-spawn' ? 'merc' : 'jackalope'
+            return {
+                map: { ...map, spawns: [...map.spawns, { id: freshId(team, map.spawns), team, position: [x, 3, z] }] },
+                selection: { list: 'spawns', index: map.spawns.length },
+            }
+        }
+        case 'scoring-zone':
+            return {
+                map: { ...map, scoringZones: [...map.scoringZones, { id: freshId('hole', map.scoringZones), position: [x, 0.5, z], radius: 5 }] },
+                selection: { list: 'scoringZones', index: map.scoringZones.length },
+            }
+        default:
+            return {
+                map: { ...map, props: [...map.props, { kind: tool, position: [x, 0, z], scale: 8 }] },
+                selection: { list: 'props', index: map.props.length },
+            }
+    }
+}
+
+export const itemPosition = (map: GameMap, { list, index }: EditorSelection): Vector3 =>
+    map[list][index].position
+
+export const moveItem = (map: GameMap, selection: EditorSelection, position: Vector3, step: number | null): GameMap => {
+    const { list, index } = selection
+    const snapped = snapVector(position, step)
+    switch (list) {
+        case 'blocks': return { ...map, blocks: replaceAt(map.blocks, index, { ...map.blocks[index], position: snapped }) }
+        case 'walls': return { ...map, walls: replaceAt(map.walls, index, { ...map.walls[index], position: snapped }) }
+        case 'props': return { ...map, props: replaceAt(map.props, index, { ...map.props[index], position: snapped }) }
+        case 'spawns': return { ...map, spawns: replaceAt(map.spawns, index, { ...map.spawns[index], position: snapped }) }
+        case 'scoringZones': return { ...map, scoringZones: replaceAt(map.scoringZones, index, { ...map.scoringZones[index], position: snapped }) }
+    }
+}
+
+const scaleProp = (prop: MapProp, [x, y, z]: Vector3, step: number | null): MapProp => {
+    switch (prop.kind) {
+        case 'stone': return { ...prop, size: snapSize(prop.size * (x + y + z) / 3, step) }
+        case 'hill': return { ...prop, radius: snapSize(prop.radius * Math.max(x, z), step), height: snapSize(prop.height * y, step) }
+        case 'mountains': return { ...prop, spread: snapSize(prop.spread * Math.max(x, z), step) }
+        default: return { ...prop, scale: Math.max(MIN_SIZE, prop.scale * y) }
+    }
+}
+
+/**
+ * Stretch the selected item by `factor` along each axis. Spawn points have no size.
+ */
+export const resizeItem = (map: GameMap, selection: EditorSelection, factor: Vector3, step: number | null): GameMap => {
+    const { list, index } = selection
+    const stretch = (size: Vector3): Vector3 => [
+        snapSize(size[0] * factor[0], step),
+        snapSize(size[1] * factor[1], step),
+        snapSize(size[2] * factor[2], step),
+    ]
+    switch (list) {
+        case 'blocks': return { ...map, blocks: replaceAt(map.blocks, index, { ...map.blocks[index], size: stretch(map.blocks[index].size) }) }
+        case 'walls': return { ...map, walls: replaceAt(map.walls, index, { ...map.walls[index], size: stretch(map.walls[index].size) }) }
+        case 'props': return { ...map, props: replaceAt(map.props, index, scaleProp(map.props[index], factor, step)) }
+        case 'scoringZones': {
+            const zone = map.scoringZones[index]
+            return { ...map, scoringZones: replaceAt(map.scoringZones, index, { ...zone, radius: snapSize(zone.radius * Math.max(factor[0], factor[2]), step) }) }
+        }
+        case 'spawns': return map
+    }
+}
+
+export const removeItem = (map: GameMap, { list, index }: EditorSelection): GameMap =>
+    ({ ...map, [list]: map[list].filter((_entry: unknown, i: number) => i !== index) })
+
+/**
+ * A copy of the selected item `offset` along x, selected in its place
+ */
+export const duplicateItem = (map: GameMap, selection: EditorSelection, offset: number): { map: GameMap; selection: EditorSelection } => {
+    const { list, index } = selection
+    const [x, y, z] = itemPosition(map, selection)
+    const copy = { ...map[list][index], position: [x + offset, y, z] as Vector3 }
+    if (list === 'spawns') Object.assign(copy, { id: freshId(map.spawns[index].team, map.spawns) })
+    if (list === 'scoringZones') Object.assign(copy, { id: freshId('hole', map.scoringZones) })
+    return {
+        map: { ...map, [list]: [...map[list], copy] },
+        selection: { list, index: map[list].length },
+    }
+}
+
+/**
+ * The box the editor draws and picks for an item: its size, how far its
+ * middle sits above the item's position, and a colour to tell it apart
+ */
+export const itemMarker = (map: GameMap, { list, index }: EditorSelection): { size: Vector3; lift: number; color: string } => {
+    switch (list) {
+        case 'blocks': return { size: map.blocks[index].size, lift: 0, color: '#FFD700' }
+        case 'walls': return { size: map.walls[index].size, lift: 0, color: '#FFA500' }
+        case 'spawns': return { size: [1.5, 3, 1.5], lift: 0, color: TEAM_COLORS[map.spawns[index].team] }
+        case 'scoringZones': {
+            const { radius } = map.scoringZones[index]
+            return { size: [radius * 2, 0.4, radius * 2], lift: 0, color: '#9370DB' }
+        }
+        case 'props': {
+            const prop = map.props[index]
+            switch (prop.kind) {
+                case 'stone': return { size: [prop.size, prop.size, prop.size], lift: 0, color: '#8B5A2B' }
+                case 'hill': return { size: [prop.radius * 2, prop.height, prop.radius * 2], lift: 0, color: '#3A5F3A' }
+                // The range itself is huge; pick it by a marker in the middle
+                case 'mountains': return { size: [10, 10, 10], lift: 5, color: '#4E342E' }
+                default: {
+                    const s = prop.scale / 4
+                    return { size: [s, s * 2, s], lift: s, color: '#32CD32' }
+                }
+            }
+        }
+    }
+}
+
+export const EDITABLE_LISTS: EditableList[] = ['blocks', 'walls', 'props', 'spawns', 'scoringZones']
+
+// Every item on the map, for drawing markers
+export const allItems = (map: GameMap): EditorSelection[] =>
+    EDITABLE_LISTS.flatMap((list) => map[list].map((_entry: unknown, index: number) => ({ list, index })))
+
+export const describeItem = (map: GameMap, { list, index }: EditorSelection): string => {
+    switch (list) {
+        case 'blocks': return `Box ${index + 1}`
+        case 'walls': return `Wall ${index + 1}`
+        case 'props': return `${map.props[index].kind} ${index + 1}`
+        case 'spawns': return `Spawn ${map.spawns[index].id} (${map.spawns[index].team})`
+        case 'scoringZones': return `Rabbit hole ${map.scoringZones[index].id}`
+    }
+}
+
+/**
+ * Undo and redo, as a list of maps either side of the one being edited
+ */
+export type EditHistory = {
+    past: GameMap[]
+    present: GameMap
+    future: GameMap[]
+}
+
+// Steps kept for undo; older ones drop off
+export const HISTORY_LIMIT = 100
+
+export const startHistory = (map: GameMap): EditHistory => ({ past: [], present: map, future: [] })
+
+export const commitEdit = (history: EditHistory, map: GameMap): EditHistory =>
+    map === history.present
+        ? history
+        : { past: [...history.past, history.present].slice(-HISTORY_LIMIT), present: map, future: [] }
+
+export const undoEdit = (history: EditHistory): EditHistory =>
+    history.past.length === 0
+        ? history
+        : {
+            past: history.past.slice(0, -1),
+            present: history.past[history.past.length - 1],
+            future: [history.present, ...history.future],
+        }
+
+export const redoEdit = (history: EditHistory): EditHistory =>
+    history.future.length === 0
+        ? history
+        : {
+            past: [...history.past, history.present],
+            present: history.future[0],
+            future: history.future.slice(1),
+        }
+
+/**
+ * A map as a JSON file, in the format loadMap reads back
+ */
+export const exportMap = (map: GameMap): string => `${JSON.stringify(map, null, 2)}\n`
@@ -0,0 +1,385 @@
+import { PlayerType, Vector3 } from '../../types/game'
+import { GameMap, MAP_SCHEMA_VERSION, MapBlock, MapProp, MapSpawnPoint, MapWall, ScatterKind, ScoringZone } from '../../types/map'
+import { Occluder, lineOfSight } from '../../network/Spawns'
+
+// Arenas built from a seed. Every client that knows the seed builds the same
+// arena, so a session only has to share its map id, which carries the seed.
+//
+// Layouts are point-symmetric about the middle: whatever one side gets, the
+// opposite side gets too, turned half a circle. Nothing here may depend on
+// Math.random, Math.sin or anything else that can differ between engines,
+// so positions come only from the seeded generator and plain arithmetic.
+
+export const GENERATED_MAP_PREFIX = 'generated-'
+
+export const generatedMapId = (seed: number): string => `${GENERATED_MAP_PREFIX}${seed >>> 0}`
+
+// The seed a generated map id carries, or null for any other id
+export const seedOf = (id: string): number | null => {
+    const match = /^generated-(\d{1,10})$/.exec(id)
+    if (!match) return null
+    const seed = Number(match[1])
+    return seed <= 0xffffffff && generatedMapId(seed) === id ? seed : null
+}
+
+/**
+ * mulberry32: a small 32-bit generator that gives the same numbers everywhere
+ */
+export const seededRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+type Random = () => number
+
+// Positions and sizes are kept to half units so every engine rounds them alike
+const half = (value: number): number => Math.round(value * 2) / 2
+
+const between = (random: Random, min: number, max: number): number => half(min + random() * (max - min))
+
+const pick = <T>(random: Random, options: readonly T[]): T => options[Math.floor(random() * options.length)]
+
+// Half a turn about the middle of the arena
+const opposite = ([x, y, z]: Vector3): Vector3 => [-x || 0, y, -z || 0]
+
+// Everything players fight over sits within this distance of the middle,
+// inside the terrain's flat area
+const PLAY_RADIUS = 54
+const FLAT_RADIUS = 62
+
+// Room kept clear around spawns, rabbit holes and doorways
+const CLEARANCE = 3
+
+// Player width, for walking between things
+const PLAYER_RADIUS = 1
+
+const WALL_COLOR = '#555555'
+const WALL_THICKNESS = 2
+
+// How often a layout is redrawn before its constraints are given up on
+const MAX_ATTEMPTS = 48
+
+type Footprint = { position: Vector3; size: Vector3 }
+
+// Whether two boxes come within `margin` of each other on the ground
+const overlaps = (a: Footprint, b: Footprint, margin: number): boolean =>
+    Math.abs(a.position[0] - b.position[0]) < (a.size[0] + b.size[0]) / 2 + margin &&
+    Math.abs(a.position[2] - b.position[2]) < (a.size[2] + b.size[2]) / 2 + margin
+
+const distance = (a: Vector3, b: Vector3): number => Math.sqrt((a[0] - b[0]) ** 2 + (a[2] - b[2]) ** 2)
+
+type Layout = {
+    blocks: MapBlock[]
+    walls: MapWall[]
+    scoringZones: ScoringZone[]
+    spawns: MapSpawnPoint[]
+    // Trees and rocks in the arena itself; scenery further out comes later
+    props: MapProp[]
+}
+
+// Trees and rocks are solid too, about as wide as a quarter of their scale
+const scatterFootprint = (prop: MapProp): Footprint =>
+    ({ position: prop.position, size: 'scale' in prop ? [prop.scale / 4, 1, prop.scale / 4] : [1, 1, 1] })
+
+const solids = (layout: Layout): Footprint[] => [...layout.blocks, ...layout.walls, ...layout.props.map(scatterFootprint)]
+
+// Places that have to stay clear, as boxes on the ground
+const keepClear = (layout: Layout, doorways: Footprint[]): Footprint[] => [
+    ...doorways,
+    ...layout.scoringZones.map(({ position, radius }) => ({ position, size: [radius * 2, 1, radius * 2] as Vector3 })),
+    ...layout.spawns.map(({ position }) => ({ position, size: [2, 1, 2] as Vector3 })),
+]
+
+/**
+ * A walled yard around the middle, one doorway in every side. The rabbit
+ * holes are inside it and the jackalopes start outside it.
+ */
+const buildYard = (random: Random): { walls: MapWall[]; doorways: Footprint[]; halfX: number; halfZ: number } => {
+    const halfX = between(random, 18, 28)
+    const halfZ = between(random, 18, 28)
+    const height = between(random, 5, 8)
+    const walls: MapWall[] = []
+    const doorways: Footprint[] = []
+
+    // The north side and the east side, each mirrored onto the side across from it
+    const sides: { along: 'x' | 'z'; length: number; offset: number }[] = [
+        { along: 'x', length: halfX * 2, offset: -halfZ },
+        { along: 'z', length: halfZ * 2, offset: halfX },
+    ]
+    for (const { along, length, offset } of sides) {
+        const width = between(random, 5, 8)
+        const start = -length / 2
+        const doorAt = between(random, start + CLEARANCE + width / 2, -start - CLEARANCE - width / 2)
+        const pieces = [
+            [start, doorAt - width / 2],
+            [doorAt + width / 2, -start],
+        ].filter(([from, to]) => to - from >= 1)
+
+        const place = (middle: number, size: number, depth: number): { position: Vector3; size: Vector3 } =>
+            along === 'x'
+                ? { position: [middle, height / 2, offset], size: [size, height, depth] }
+                : { position: [offset, height / 2, middle], size: [depth, height, size] }
+
+        for (const [from, to] of pieces) {
+            const wall = { ...place((from + to) / 2, to - from, WALL_THICKNESS), color: WALL_COLOR }
+            walls.push(wall, { ...wall, position: opposite(wall.position) })
+        }
+        const doorway = place(doorAt, width, CLEARANCE * 2)
+        doorways.push(doorway, { ...doorway, position: opposite(doorway.position) })
+    }
+
+    return { walls, doorways, halfX, halfZ }
+}
+
+/**
+ * One rabbit hole in the middle, or a pair either side of it
+ */
+const buildHoles = (random: Random, halfX: number, halfZ: number): ScoringZone[] => {
+    const radius = between(random, 3.5, 5)
+    if (random() < 0.4) return [{ id: 'center', position: [0, 0.5, 0], radius }]
+
+    const reachX = halfX - radius - CLEARANCE - WALL_THICKNESS
+    const reachZ = halfZ - radius - CLEARANCE - WALL_THICKNESS
+    const position: Vector3 = [between(random, -reachX, reachX), 0.5, between(random, -reachZ, -radius - CLEARANCE)]
+    return [
+        { id: 'north', position, radius },
+        { id: 'south', position: opposite(position), radius },
+    ]
+}
+
+/**
+ * Jackalopes start out past the yard and mercs inside it, near the holes they guard
+ */
+const buildSpawns = (random: Random, halfX: number, halfZ: number): MapSpawnPoint[] => {
+    const spawns: MapSpawnPoint[] = []
+    const add = (team: PlayerType, name: string, position: Vector3) => {
+        spawns.push({ id: `${team}-${name}`, team, position })
+        spawns.push({ id: `${team}-${name}-opposite`, team, position: opposite(position) })
+    }
+
+    // One pair off the ends of the yard and one off its sides
+    const outer = between(random, PLAY_RADIUS - 8, PLAY_RADIUS)
+    add('jackalope', 'far', [between(random, -halfX, halfX), 3, -outer])
+    add('jackalope', 'flank', [outer, 3, between(random, -halfZ, halfZ)])
+
+    const innerX = halfX - CLEARANCE - WALL_THICKNESS
+    const innerZ = halfZ - CLEARANCE - WALL_THICKNESS
+    add('merc', 'yard', [between(random, -innerX, innerX), 3, between(random, -innerZ, -CLEARANCE)])
+    add('merc', 'gate', [between(random, CLEARANCE, innerX), 3, between(random, -innerZ, innerZ)])
+    return spawns
+}
+
+/**
+ * Crates to hide behind, and raised platforms with a step up onto them
+ */
+const buildCover = (random: Random, layout: Layout, doorways: Footprint[]): MapBlock[] => {
+    const blocks: MapBlock[] = []
+    const taken = (candidate: Footprint, margin: number) =>
+        [...layout.walls, ...blocks].some((other) => overlaps(candidate, other, margin)) ||
+        keepClear(layout, doorways).some((other) => overlaps(candidate, other, CLEARANCE))
+
+    const tryPlace = (pieces: MapBlock[]): boolean => {
+        const mirrored = pieces.flatMap((piece) => [piece, { ...piece, position: opposite(piece.position) }])
+        const fits = mirrored.every((piece) =>
+            distance(piece.position, [0, 0, 0]) + Math.max(piece.size[0], piece.size[2]) / 2 < PLAY_RADIUS &&
+            !taken(piece, PLAYER_RADIUS * 2))
+        // A piece can't run into its own mirror image either
+        if (!fits || pieces.some((piece) => overlaps(piece, { ...piece, position: opposite(piece.position) }, PLAYER_RADIUS * 2))) return false
+        blocks.push(...mirrored)
+        return true
+    }
+
+    const spot = (): [number, number] => [between(random, -PLAY_RADIUS, PLAY_RADIUS), between(random, -PLAY_RADIUS, 0)]
+
+    const crates = 3 + Math.floor(random() * 4)
+    for (let placed = 0, tries = 0; placed < crates && tries < 40; tries++) {
+        const [x, z] = spot()
+        const height = between(random, 2, 4)
+        const crate: MapBlock = {
+            position: [x, height / 2, z],
+            size: [between(random, 2, 5), height, between(random, 2, 5)],
+            ...(random() < 0.3 ? { prop: pick<ScatterKind>(random, ['bush', 'plant']) } : {}),
+        }
+        if (tryPlace([crate])) placed++
+    }
+
+    const platforms = 1 + Math.floor(random() * 2)
+    for (let placed = 0, tries = 0; placed < platforms && tries < 40; tries++) {
+        const [x, z] = spot()
+        const height = between(random, 2.5, 4)
+        const width = between(random, 6, 10)
+        const depth = between(random, 6, 10)
+        // The step sits against whichever side faces the middle
+        const stepHeight = half(height / 2)
+        const stepX = Math.abs(x) > Math.abs(z) ? x - Math.sign(x) * (width / 2 + 1.5) : x
+        const stepZ = Math.abs(x) > Math.abs(z) ? z : z - Math.sign(z) * (depth / 2 + 1.5)
+        const platform: MapBlock = { position: [x, height / 2, z], size: [width, height, depth], color: '#6B5B45' }
+        const step: MapBlock = { position: [stepX, stepHeight / 2, stepZ], size: [3, stepHeight, 3], color: '#6B5B45' }
+        if (tryPlace([platform, step])) placed++
+    }
+
+    return blocks
+}
+
+/**
+ * Trees and rocks between the yard and the edge of the arena
+ */
+const buildScatter = (random: Random, layout: Layout, doorways: Footprint[], halfX: number, halfZ: number): MapProp[] => {
+    const props: MapProp[] = []
+    const count = 3 + Math.floor(random() * 4)
+    for (let placed = 0, tries = 0; placed < count && tries < 40; tries++) {
+        const prop: MapProp = {
+            kind: pick<ScatterKind>(random, ['tree', 'tree', 'rock']),
+            position: [between(random, -PLAY_RADIUS, PLAY_RADIUS), 0, between(random, -PLAY_RADIUS, 0)],
+            scale: between(random, 5, 9),
+        }
+        const footprint = scatterFootprint(prop)
+        const mirrored = [footprint, { ...footprint, position: opposite(footprint.position) }]
+        const inYard = Math.abs(prop.position[0]) < halfX + CLEARANCE && Math.abs(prop.position[2]) < halfZ + CLEARANCE
+        const fits = !inYard &&
+            distance(prop.position, [0, 0, 0]) < PLAY_RADIUS &&
+            mirrored.every((candidate) =>
+                ![...layout.blocks, ...props.map(scatterFootprint)].some((other) => overlaps(candidate, other, PLAYER_RADIUS * 2)) &&
+                !keepClear(layout, doorways).some((other) => overlaps(candidate, other, CLEARANCE)))
+        if (!fits) continue
+        props.push(prop, { ...prop, position: opposite(prop.position) })
+        placed++
+    }
+    return props
+}
+
+/**
+ * Whether a player can walk from every spawn to every rabbit hole, checked on
+ * a one-unit grid with everything solid grown by a player's width
+ */
+const everyoneCanReachHoles = (layout: Layout): boolean => {
+    const extent = PLAY_RADIUS + 8
+    const cells = extent * 2 + 1
+    const solid = solids(layout)
+    const cellOf = (x: number, z: number) => (Math.round(z) + extent) * cells + Math.round(x) + extent
+    const blocked = (x: number, z: number) =>
+        solid.some(({ position, size }) =>
+            Math.abs(x - position[0]) < size[0] / 2 + PLAYER_RADIUS &&
+            Math.abs(z - position[2]) < size[2] / 2 + PLAYER_RADIUS)
+
+    const seen = new Uint8Array(cells * cells)
+    const queue: [number, number][] = layout.scoringZones.map(({ position }) => [Math.round(position[0]), Math.round(position[2])])
+    for (const [x, z] of queue) {
+        if (blocked(x, z)) return false
+        seen[cellOf(x, z)] = 1
+    }
+    while (queue.length > 0) {
+        const [x, z] = queue.pop()!
+        for (const [nx, nz] of [[x + 1, z], [x - 1, z], [x, z + 1], [x, z - 1]]) {
+            if (Math.abs(nx) > extent || Math.abs(nz) > extent || seen[cellOf(nx, nz)] || blocked(nx, nz)) continue
+            seen[cellOf(nx, nz)] = 1
+            queue.push([nx, nz])
+        }
+    }
+    return layout.spawns.every(({ position }) => seen[cellOf(position[0], position[2])] === 1)
+}
+
+/**
+ * Whether a merc standing on any of their spawns could see a jackalope on
+ * any of theirs, at the eye and body heights the spawn picker uses
+ */
+const spawnsInSight = (layout: Layout): boolean => {
+    const occluders: Occluder[] = [...layout.blocks, ...layout.walls].map(({ position, size }) => ({ center: position, size }))
+    const ground = ([x, , z]: Vector3, height: number): Vector3 => [x, height, z]
+    const mercs = layout.spawns.filter(({ team }) => team === 'merc')
+    const jackalopes = layout.spawns.filter(({ team }) => team === 'jackalope')
+    return mercs.some((merc) => jackalopes.some((jackalope) =>
+        lineOfSight(ground(merc.position, 1.5), ground(jackalope.position, 1), occluders)))
+}
+
+// A layout's problems, empty when it's fit to play on
+export const checkLayout = (layout: Layout): string[] => [
+    ...(everyoneCanReachHoles(layout) ? [] : ['a spawn point can\'t reach every rabbit hole']),
+    ...(spawnsInSight(layout) ? ['a merc spawn can see a jackalope spawn'] : []),
+]
+
+const buildLayout = (random: Random): Layout => {
+    const { walls, doorways, halfX, halfZ } = buildYard(random)
+    const layout: Layout = {
+        blocks: [],
+        walls,
+        scoringZones: buildHoles(random, halfX, halfZ),
+        spawns: buildSpawns(random, halfX, halfZ),
+        props: [],
+    }
+    layout.blocks = buildCover(random, layout, doorways)
+    layout.props = buildScatter(random, layout, doorways, halfX, halfZ)
+    return layout
+}
+
+/**
+ * Scenery outside the arena: trees, rocks and plants, a few hills and a ring of mountains
+ */
+const buildScenery = (random: Random): MapProp[] => {
+    const props: MapProp[] = []
+    const scatter = 60 + Math.floor(random() * 40)
+    for (let i = 0; i < scatter; i++) {
+        const kind = pick<ScatterKind>(random, ['tree', 'tree', 'rock', 'rock', 'plant', 'bush'])
+        const out = FLAT_RADIUS + 4 + random() * 120
+        const side = random() < 0.5 ? -1 : 1
+        const along = random() * 2 - 1
+        // A point on a square ring rather than a circle, so no trig is needed
+        const position: Vector3 = random() < 0.5
+            ? [half(out * side), 0, half(out * along)]
+            : [half(out * along), 0, half(out * side)]
+        props.push({ kind, position, scale: between(random, 5, 10) })
+    }
+
+    const hillColors = ['#3A5F3A', '#34543A', '#2D4A33']
+    for (let i = 0; i < 6; i++) {
+        const side = pick(random, [-1, 1])
+        const position: Vector3 = [half(side * between(random, 90, 200)), -0.5, between(random, -200, 200)]
+        const hill: MapProp = { kind: 'hill', position, radius: between(random, 20, 45), height: between(random, 6, 18), color: pick(random, hillColors) }
+        props.push(hill, { ...hill, position: opposite(position) })
+    }
+
+    const range = (position: Vector3): MapProp => ({
+        kind: 'mountains', position, count: 6, spread: 180, baseScale: 1.4, scaleVariation: 0.35, heightVariation: 0.45,
+    })
+    props.push(range([0, 0, -160]), range([160, 0, 0]), range([0, 0, 160]), range([-160, 0, 0]))
+    return props
+}
+
+/**
+ * The arena for `seed`: the same seed gives the same map on every client.
+ * Layouts that break a constraint are redrawn from the same generator, so
+ * which one is kept depends on nothing but the seed.
+ */
+export const generateArena = (seed: number): GameMap => {
+    const random = seededRandom(seed)
+
+    let layout = buildLayout(random)
+    for (let attempt = 1; attempt < MAX_ATTEMPTS && checkLayout(layout).length > 0; attempt++) {
+        layout = buildLayout(random)
+    }
+    const problems = checkLayout(layout)
+    if (problems.length > 0) {
+        throw new Error(`No fair arena found for seed ${seed}: ${problems.join('; ')}`)
+    }
+
+    return {
+        schemaVersion: MAP_SCHEMA_VERSION,
+        id: generatedMapId(seed),
+        name: `Generated #${seed >>> 0}`,
+        description: 'A walled yard with rabbit holes inside, built from a seed.',
+        terrain: { size: 800, segments: 70, maxHeight: 10, noiseScale: 0.015, flatRadius: FLAT_RADIUS, colors: ['#324D32', '#3E5F3E'] },
+        blocks: layout.blocks,
+        walls: layout.walls,
+        scoringZones: layout.scoringZones,
+        spawns: layout.spawns,
+        props: [...layout.props, ...buildScenery(random)],
+        lighting: pick(random, ['moonlit', 'dusk', 'overcast'] as const),
+        fog: pick(random, ['night', 'mist', 'clear'] as const),
+    }
+}
@@ -0,0 +1,231 @@
+import { PlayerType, Vector3 } from '../../types/game'
+import {
+    FogPreset,
+    FogPresetName,
+    GameMap,
+    LightingPreset,
+    LightingPresetName,
+    MAP_SCHEMA_VERSION,
+    ScatterKind,
+    ScoringZone,
+} from '../../types/map'
+import { isPlayerType, isVector3 } from '../../network/protocol'
+import { SpawnMap } from '../../network/Spawns'
+import { generateArena, seedOf } from './generator'
+
+export { generatedMapId } from './generator'
+import arenaFile from './arena.json'
+import crossroadsFile from './crossroads.json'
+
+// Map files, and the lighting and fog they can ask for. Every map is checked
+// by loadMap before anything uses it, bundled ones included.
+
+export const LIGHTING_PRESETS: Record<LightingPresetName, LightingPreset> = {
+    moonlit: { ambientIntensity: 0.05, directionalIntensity: 2.0, directionalHeight: 100, directionalDistance: 100 },
+    dusk: { ambientIntensity: 0.2, directionalIntensity: 1.2, directionalHeight: 40, directionalDistance: 120 },
+    overcast: { ambientIntensity: 0.6, directionalIntensity: 0.6, directionalHeight: 120, directionalDistance: 60 },
+}
+
+export const FOG_PRESETS: Record<FogPresetName, FogPreset> = {
+    night: { color: '#030812', near: 0, far: 140 },
+    mist: { color: '#1B2330', near: 0, far: 80 },
+    clear: { color: '#030812', near: 60, far: 400 },
+}
+
+export type MapLoadResult =
+    | { ok: true; map: GameMap }
+    | { ok: false; errors: string[] }
+
+type RawObject = Record<string, unknown>
+
+const isObject = (value: unknown): value is RawObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isNumber = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value)
+
+const isPositive = (value: unknown): value is number => isNumber(value) && value > 0
+
+const isName = (value: unknown): value is string => typeof value === 'string' && value.length > 0
+
+// Own keys only, so ids like "constructor" or "__proto__" aren't found on Object.prototype
+const hasKey = (record: object, key: string): boolean => Object.prototype.hasOwnProperty.call(record, key)
+
+const isColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value)
+
+const isSize = (value: unknown): value is Vector3 => isVector3(value) && value.every(isPositive)
+
+const SCATTER_KINDS: ScatterKind[] = ['tree', 'rock', 'plant', 'bush']
+
+const isScatterKind = (value: unknown): value is ScatterKind => SCATTER_KINDS.includes(value as ScatterKind)
+
+// Each check returns what's wrong with one entry, prefixed with where it is
+type Check = (raw: RawObject, at: string) => string[]
+
+const checkTerrain: Check = (raw, at) => [
+    ...(['size', 'segments', 'maxHeight', 'noiseScale', 'flatRadius'] as const)
+        .filter((key) => !isNumber(raw[key]) || (raw[key] as number) < 0)
+        .map((key) => `${at}.${key} must be a number of at least 0`),
+    ...(Array.isArray(raw.colors) && raw.colors.length === 2 && raw.colors.every(isColor)
+        ? [] : [`${at}.colors must be two #rrggbb colours`]),
+]
+
+const checkBlock: Check = (raw, at) => [
+    ...(isVector3(raw.position) ? [] : [`${at}.position must be [x, y, z]`]),
+    ...(isSize(raw.size) ? [] : [`${at}.size must be three positive numbers`]),
+    ...(raw.color === undefined || isColor(raw.color) ? [] : [`${at}.color must be #rrggbb`]),
+    ...(raw.prop === undefined || isScatterKind(raw.prop) ? [] : [`${at}.prop must be one of ${SCATTER_KINDS.join(', ')}`]),
+]
+
+const checkWall: Check = (raw, at) => [
+    ...(isVector3(raw.position) ? [] : [`${at}.position must be [x, y, z]`]),
+    ...(isSize(raw.size) ? [] : [`${at}.size must be three positive numbers`]),
+    ...(isColor(raw.color) ? [] : [`${at}.color must be #rrggbb`]),
+]
+
+const checkZone: Check = (raw, at) => [
+    ...(isName(raw.id) ? [] : [`${at}.id is missing`]),
+    ...(isVector3(raw.position) ? [] : [`${at}.position must be [x, y, z]`]),
+    ...(isPositive(raw.radius) ? [] : [`${at}.radius must be positive`]),
+]
+
+const checkSpawn: Check = (raw, at) => [
+    ...(isName(raw.id) ? [] : [`${at}.id is missing`]),
+    ...(isPlayerType(raw.team) ? [] : [`${at}.team must be merc or jackalope`]),
+    ...(isVector3(raw.position) ? [] : [`${at}.position must be [x, y, z]`]),
+]
+
+const checkProp: Check = (raw, at) => {
+    const errors = isVector3(raw.position) ? [] : [`${at}.position must be [x, y, z]`]
+    const positive = (...keys: string[]) =>
+        keys.filter((key) => !isPositive(raw[key])).map((key) => `${at}.${key} must be positive`)
+
+    if (isScatterKind(raw.kind)) return [...errors, ...positive('scale')]
+    switch (raw.kind) {
+        case 'stone':
+            return [...errors, ...positive('size'), ...(isColor(raw.color) ? [] : [`${at}.color must be #rrggbb`])]
+        case 'hill':
+            return [...errors, ...positive('radius', 'height'), ...(isColor(raw.color) ? [] : [`${at}.color must be #rrggbb`])]
+        case 'mountains':
+            return [
+                ...errors,
+                ...positive('count', 'spread', 'baseScale'),
+                ...(['scaleVariation', 'heightVariation'] as const)
+                    .filter((key) => !isNumber(raw[key]) || (raw[key] as number) < 0)
+                    .map((key) => `${at}.${key} must be a number of at least 0`),
+            ]
+        default:
+            return [`${at}.kind ${JSON.stringify(raw.kind)} is not a known prop`]
+    }
+}
+
+// Every entry of a list that has to be there, checked in turn
+const checkList = (raw: RawObject, key: string, check: Check): string[] => {
+    const list = raw[key]
+    if (!Array.isArray(list)) return [`${key} must be a list`]
+    return list.flatMap((entry, index) =>
+        isObject(entry) ? check(entry, `${key}[${index}]`) : [`${key}[${index}] must be an object`])
+}
+
+const duplicateIds = (key: string, entries: { id: string }[]): string[] => {
+    const seen = new Set<string>()
+    return entries
+        .filter(({ id }) => seen.has(id) || !seen.add(id))
+        .map(({ id }) => `${key} has more than one ${JSON.stringify(id)}`)
+}
+
+/**
+ * Check a map file and, if it holds up, hand it back typed. Everything wrong
+ * with it is reported at once so a map can be fixed in one pass.
+ */
+export const loadMap = (raw: unknown): MapLoadResult => {
+    if (!isObject(raw)) return { ok: false, errors: ['map must be a JSON object'] }
+    if (raw.schemaVersion !== MAP_SCHEMA_VERSION) {
+        return { ok: false, errors: [`schemaVersion must be ${MAP_SCHEMA_VERSION}, got ${JSON.stringify(raw.schemaVersion)}`] }
+    }
+
+    const errors = [
+        ...(isName(raw.id) && /^[a-z0-9-]+$/.test(raw.id) ? [] : ['id must be lowercase letters, digits and dashes']),
+        ...(isName(raw.name) ? [] : ['name is missing']),
+        ...(raw.description === undefined || typeof raw.description === 'string' ? [] : ['description must be text']),
+        ...(isObject(raw.terrain) ? checkTerrain(raw.terrain, 'terrain') : ['terrain is missing']),
+        ...checkList(raw, 'blocks', checkBlock),
+        ...checkList(raw, 'walls', checkWall),
+        ...checkList(raw, 'scoringZones', checkZone),
+        ...checkList(raw, 'spawns', checkSpawn),
+        ...checkList(raw, 'props', checkProp),
+        ...(typeof raw.lighting === 'string' && hasKey(LIGHTING_PRESETS, raw.lighting)
+            ? [] : [`lighting must be one of ${Object.keys(LIGHTING_PRESETS).join(', ')}`]),
+        ...(typeof raw.fog === 'string' && hasKey(FOG_PRESETS, raw.fog)
+            ? [] : [`fog must be one of ${Object.keys(FOG_PRESETS).join(', ')}`]),
+    ]
+    if (errors.length > 0) return { ok: false, errors }
+
+    const map = raw as unknown as GameMap
+    const rules = [
+        ...duplicateIds('scoringZones', map.scoringZones),
+        ...duplicateIds('spawns', map.spawns),
+        ...(map.scoringZones.length > 0 ? [] : ['scoringZones needs at least one rabbit hole']),
+        ...(['merc', 'jackalope'] as PlayerType[])
+            .filter((team) => !map.spawns.some((spawn) => spawn.team === team))
+            .map((team) => `spawns needs at least one point for ${team}`),
+    ]
+    return rules.length > 0 ? { ok: false, errors: rules } : { ok: true, map }
+}
+
+const BUNDLED_MAPS: unknown[] = [arenaFile, crossroadsFile]
+
+export const DEFAULT_MAP_ID = 'arena'
+
+/**
+ * Maps a session can be played on, by id. A bundled map that fails its
+ * checks is left out, loudly, rather than taking the game down with it.
+ */
+export const MAPS: Record<string, GameMap> = Object.fromEntries(
+    BUNDLED_MAPS.flatMap((file, index) => {
+        const result = loadMap(file)
+        if (result.ok) return [[result.map.id, result.map]]
+        console.error(`[maps] Bundled map #${index} is invalid:\n  ${result.errors.join('\n  ')}`)
+        return []
+    })
+)
+
+// Generated arenas, built the first time their id is asked for
+const generated = new Map<string, GameMap>()
+
+const generatedMap = (id: string): GameMap | undefined => {
+    const seed = seedOf(id)
+    if (seed === null) return undefined
+    if (!generated.has(id)) generated.set(id, generateArena(seed))
+    return generated.get(id)
+}
+
+// A bundled map's id, or generated-<seed> for a generated arena
+export const isMapId = (value: unknown): value is string =>
+    typeof value === 'string' && (hasKey(MAPS, value) || seedOf(value) !== null)
+
+// Unknown ids fall back to the default map
+export const getMap = (id?: string): GameMap =>
+    (id !== undefined && ((hasKey(MAPS, id) && MAPS[id]) || generatedMap(id))) || MAPS[DEFAULT_MAP_ID]
+
+/**
+ * What the spawn logic needs from a map: its points, and the solid boxes that block sight
+ */
+export const spawnMapOf = (map: GameMap): SpawnMap => ({
+    spawns: map.spawns,
+    occluders: [...map.blocks, ...map.walls].map(({ position, size }) => ({ center: position, size })),
+})
+
+// Where a team's players first appear, before the authority has placed anyone
+export const startingPosition = (team: PlayerType, map: GameMap = getMap()): Vector3 =>
+    map.spawns.find((spawn) => spawn.team === team)!.position
+
+/**
+ * The rabbit hole `position` is in, if any
+ */
+export const findScoringZone = (map: GameMap, position: Vector3): ScoringZone | undefined =>
+    map.scoringZones.find((zone) => Math.hypot(
+        position[0] - zone.position[0],
+        position[1] - zone.position[1],
+        position[2] - zone.position[2],
+    ) < zone.radius)
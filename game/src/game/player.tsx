@@ -10,6 +10,9 @@ import { Component, Entity, EntityType } from './ecs'
 
 // Update import to use MultiplayerManager
 import { ConnectionManager } from '../network/ConnectionManager'
+import { InputPredictor } from '../network/InputPrediction'
+import { InputAckMessage } from '../network/protocol'
+import { MovementInput, Vector3 } from '../types/game'
 import { useMultiplayer } from '../network/MultiplayerManager'
 import { MercModel } from './MercModel' // Import our new MercModel component
 import { JackalopeModel } from './JackalopeModel' // Import the JackalopeModel
@@ -43,6 +46,104 @@ const minJumpVelocity = Math.sqrt(2 * Math.abs(jumpGravity) * minJumpHeight)
 
 const up = new THREE.Vector3(0, 1, 0)
 
+type MovementState = {
+    horizontalVelocity: { x: number, z: number }
+    jumpVelocity: number
+    jumping: boolean
+    holdingJump: boolean
+}
+
+// What each recorded step needs to be replayed: the physics world's answers at the time
+type PredictedMovement = MovementState & {
+    grounded: boolean
+    // Vertical movement after collisions; replays reuse it since the terrain isn't re-queried
+    resolvedY: number
+}
+
+type MovementSpeeds = {
+    walkSpeed: number
+    runSpeed: number
+    jumpForce: number
+}
+
+const initialMovementState = (): MovementState => ({
+    horizontalVelocity: { x: 0, z: 0 },
+    jumpVelocity: 0,
+    jumping: false,
+    holdingJump: false,
+})
+
+// Keyboard and gamepad stick folded into digital directions
+const movementDirections = (input: MovementInput) => ({
+    forward: input.forward || input.moveY < 0,
+    backward: input.backward || input.moveY > 0,
+    left: input.left || input.moveX < 0,
+    right: input.right || input.moveX > 0,
+})
+
+/**
+ * One physics step of player movement. Pure, so reconciliation can replay
+ * recorded inputs through exactly the same maths as the live simulation.
+ * The desired translation for the step is (horizontalVelocity.x, jumpVelocity, horizontalVelocity.z).
+ */
+const stepMovement = (state: MovementState, input: MovementInput, grounded: boolean, { walkSpeed, runSpeed, jumpForce }: MovementSpeeds): MovementState => {
+    const { forward, backward, left, right } = movementDirections(input)
+    const speed = walkSpeed * (input.sprint ? runSpeed / walkSpeed : 1)
+
+    // x and z movement - align calculation with Jackalope
+    _frontVector.set(0, 0, Number(forward) - Number(backward))
+    _sideVector.set(Number(right) - Number(left), 0, 0)
+
+    // Modified to match Jackalope implementation
+    _direction.subVectors(_frontVector, _sideVector).normalize().multiplyScalar(speed)
+    _direction.applyAxisAngle(up, input.yaw)
+
+    const horizontalVelocitySmoothing = velocityXZSmoothing * (grounded ? accelerationTimeGrounded : accelerationTimeAirborne)
+    const horizontalVelocityLerpFactor = 1 - Math.pow(horizontalVelocitySmoothing, 0.116)
+    const horizontalVelocity = {
+        x: THREE.MathUtils.lerp(state.horizontalVelocity.x, _direction.x, horizontalVelocityLerpFactor),
+        z: THREE.MathUtils.lerp(state.horizontalVelocity.z, _direction.z, horizontalVelocityLerpFactor),
+    }
+
+    if (Math.abs(horizontalVelocity.x) < velocityXZMin) {
+        horizontalVelocity.x = 0
+    }
+    if (Math.abs(horizontalVelocity.z) < velocityXZMin) {
+        horizontalVelocity.z = 0
+    }
+
+    // jumping and gravity
+    let { jumpVelocity, jumping } = state
+
+    if (input.jump && grounded) {
+        jumping = true
+        jumpVelocity = maxJumpVelocity * (jumpForce / 0.5) // Scale jump velocity based on jumpForce
+    }
+
+    if (!input.jump && grounded) {
+        jumping = false
+    }
+
+    if (jumping && state.holdingJump && !input.jump) {
+        if (jumpVelocity > minJumpVelocity) {
+            jumpVelocity = minJumpVelocity
+        }
+    }
+
+    if (!input.jump && grounded) {
+        jumpVelocity = 0
+    } else {
+        jumpVelocity += jumpGravity * 0.116
+    }
+
+    return {
+        horizontalVelocity,
+        jumpVelocity,
+        jumping,
+        holdingJump: input.jump,
+    }
+}
+
 // Add these outside the component for rotation calculation
 const _playerDirection = new THREE.Vector3();
 const _lastModelPosition = new THREE.Vector3();
@@ -104,10 +205,8 @@ export const Player = forwardRef<EntityType, PlayerProps>(({ onMove, walkSpeed =
     
     // For client-side prediction
     const lastStateTime = useRef(0)
-    const pendingReconciliation = useRef(false)
-    const reconciliationStrength = useRef(0.3) // Default reconciliation strength
-    const serverPosition = useRef(new THREE.Vector3())
-    const movementIntent = useRef({ forward: false, backward: false, left: false, right: false, jump: false, sprint: false })
+    // Set by an input_ack that disagreed with us; applied at the start of the next physics step
+    const pendingCorrection = useRef<{ position: Vector3, state: PredictedMovement } | null>(null)
     
     // Add a ref for the player's rotation (for the third-person camera)
     const playerRotation = useRef(new THREE.Quaternion())
@@ -379,11 +478,22 @@ export const Player = forwardRef<EntityType, PlayerProps>(({ onMove, walkSpeed =
     const [, getKeyboardControls] = useKeyboardControls()
     const gamepadState = useGamepad()
 
-    const horizontalVelocity = useRef({ x: 0, z: 0 })
-    const jumpVelocity = useRef(0)
-    const holdingJump = useRef(false)
+    const movement = useRef<MovementState>(initialMovementState())
     const jumpTime = useRef(0)
-    const jumping = useRef(false)
+
+    // Every physics step is recorded so server corrections can be replayed on top of
+    const predictor = useMemo(() => new InputPredictor<PredictedMovement>((from, step) => {
+        const next = stepMovement(from.state, step.input, step.state.grounded, { walkSpeed, runSpeed, jumpForce })
+        // Replays skip collision detection; walls are caught by the next live step
+        return {
+            position: [
+                from.position[0] + next.horizontalVelocity.x,
+                from.position[1] + step.state.resolvedY,
+                from.position[2] + next.horizontalVelocity.z,
+            ],
+            state: { ...next, grounded: step.state.grounded, resolvedY: step.state.resolvedY },
+        }
+    }), [walkSpeed, runSpeed, jumpForce])
 
     // Animation states
     const [isWalking, setIsWalking] = useState(false)
@@ -448,49 +558,51 @@ export const Player = forwardRef<EntityType, PlayerProps>(({ onMove, walkSpeed =
         return () => window.removeEventListener('pointerdown', handleShoot)
     }, [actions])
 
-    useBeforePhysicsStep(() => {
+    useBeforePhysicsStep((world) => {
         const characterRigidBody = playerRef.current.rigidBody
 
         if (!characterRigidBody) return
 
         const characterCollider = characterRigidBody.collider(0)
 
-        const { forward, backward, left, right, jump, sprint } = getKeyboardControls() as KeyControls
-        
+        // Frozen (e.g. on the round's results screen): keep stepping so gravity and acks carry on, but with no input
+        const frozen = connectionManager?.getRoundRules().movement === false
+        const { forward, backward, left, right, jump, sprint } = frozen ? NO_KEYS : getKeyboardControls() as KeyControls
+        const gamepad = frozen ? IDLE_GAMEPAD : gamepadState
+
+        const cameraWorldDirection = camera.getWorldDirection(_cameraWorldDirection)
+        const cameraYaw = Math.atan2(cameraWorldDirection.x, cameraWorldDirection.z)
+
         // Combine keyboard and gamepad input
-        const moveForward = forward || (gamepadState.leftStick.y < 0)
-        const moveBackward = backward || (gamepadState.leftStick.y > 0)
-        const moveLeft = left || (gamepadState.leftStick.x < 0)
-        const moveRight = right || (gamepadState.leftStick.x > 0)
-        const isJumping = jump || gamepadState.buttons.jump
-        const isSprinting = sprint || gamepadState.buttons.leftStickPress
-
-        // Store movement intent for prediction/reconciliation
-        movementIntent.current = {
-            forward: moveForward,
-            backward: moveBackward,
-            left: moveLeft, 
-            right: moveRight,
-            jump: isJumping,
-            sprint: isSprinting
+        const input: MovementInput = {
+            sequence: predictor.nextSequence(),
+            forward,
+            backward,
+            left,
+            right,
+            jump: jump || gamepad.buttons.jump,
+            sprint: sprint || gamepad.buttons.leftStickPress,
+            moveX: gamepad.leftStick.x,
+            moveY: gamepad.leftStick.y,
+            yaw: cameraYaw,
+            delta: world.timestep,
         }
+        const directions = movementDirections(input)
 
-        const speed = walkSpeed * (isSprinting ? runSpeed / walkSpeed : 1)
-        
         // Update movement state for animations with velocity threshold
-        const isMoving = moveForward || moveBackward || moveLeft || moveRight
+        const isMoving = directions.forward || directions.backward || directions.left || directions.right
         
         // Add a velocity-based check to make sure we're actually moving
         // This prevents animation flicker when keys are released
         const velocity = Math.sqrt(
-            Math.pow(horizontalVelocity.current.x, 2) + 
-            Math.pow(horizontalVelocity.current.z, 2)
+            Math.pow(movement.current.horizontalVelocity.x, 2) + 
+            Math.pow(movement.current.horizontalVelocity.z, 2)
         )
         
         // FIX: Immediately update walking state based on input intent
         // This ensures the walking sound starts as soon as movement keys are pressed
         if (isMoving) {
-            if (isSprinting) {
+            if (input.sprint) {
                 setIsRunning(true);
                 setIsWalking(false);
             } else {
@@ -503,89 +615,42 @@ export const Player = forwardRef<EntityType, PlayerProps>(({ onMove, walkSpeed =
             setIsRunning(false);
         }
 
-        const grounded = characterController.current.computedGrounded()
-
-        // x and z movement - align calculation with Jackalope
-        _frontVector.set(0, 0, Number(moveForward) - Number(moveBackward))
-        _sideVector.set(Number(moveRight) - Number(moveLeft), 0, 0)
-
-        const cameraWorldDirection = camera.getWorldDirection(_cameraWorldDirection)
-        const cameraYaw = Math.atan2(cameraWorldDirection.x, cameraWorldDirection.z)
-
-        // Modified to match Jackalope implementation
-        _direction.subVectors(_frontVector, _sideVector).normalize().multiplyScalar(speed)
-        _direction.applyAxisAngle(up, cameraYaw)
-
-        const horizontalVelocitySmoothing = velocityXZSmoothing * (grounded ? accelerationTimeGrounded : accelerationTimeAirborne)
-        const horizontalVelocityLerpFactor = 1 - Math.pow(horizontalVelocitySmoothing, 0.116)
-        horizontalVelocity.current = {
-            x: THREE.MathUtils.lerp(horizontalVelocity.current.x, _direction.x, horizontalVelocityLerpFactor),
-            z: THREE.MathUtils.lerp(horizontalVelocity.current.z, _direction.z, horizontalVelocityLerpFactor),
+        // Carry on from the replayed state if the server corrected us
+        const correction = pendingCorrection.current
+        pendingCorrection.current = null
+        if (correction) {
+            movement.current = correction.state
         }
 
-        if (Math.abs(horizontalVelocity.current.x) < velocityXZMin) {
-            horizontalVelocity.current.x = 0
-        }
-        if (Math.abs(horizontalVelocity.current.z) < velocityXZMin) {
-            horizontalVelocity.current.z = 0
-        }
+        const grounded = characterController.current.computedGrounded()
 
-        // jumping and gravity
-        if (isJumping && grounded) {
-            jumping.current = true
-            holdingJump.current = true
+        if (input.jump && grounded) {
             jumpTime.current = clock.elapsedTime
-            jumpVelocity.current = maxJumpVelocity * (jumpForce / 0.5) // Scale jump velocity based on jumpForce
-        }
-
-        if (!isJumping && grounded) {
-            jumping.current = false
-        }
-
-        if (jumping.current && holdingJump.current && !isJumping) {
-            if (jumpVelocity.current > minJumpVelocity) {
-                jumpVelocity.current = minJumpVelocity
-            }
         }
 
-        if (!isJumping && grounded) {
-            jumpVelocity.current = 0
-        } else {
-            jumpVelocity.current += jumpGravity * 0.116
-        }
-
-        holdingJump.current = isJumping
+        movement.current = stepMovement(movement.current, input, grounded, { walkSpeed, runSpeed, jumpForce })
 
         // compute movement direction
         const movementDirection = {
-            x: horizontalVelocity.current.x,
-            y: jumpVelocity.current,
-            z: horizontalVelocity.current.z,
+            x: movement.current.horizontalVelocity.x,
+            y: movement.current.jumpVelocity,
+            z: movement.current.horizontalVelocity.z,
         }
 
         // compute collider movement and update rigid body
         characterController.current.computeColliderMovement(characterCollider, movementDirection)
 
-        const translation = characterRigidBody.translation()
-        const newPosition = _characterTranslation.copy(translation as THREE.Vector3)
-        const movement = characterController.current.computedMovement()
-        newPosition.add(movement)
-
-        // If we need to reconcile with server position
-        if (pendingReconciliation.current) {
-            // Blend between our predicted position and server position with appropriate strength
-            newPosition.lerp(serverPosition.current, reconciliationStrength.current)
-            
-            // Debug output
-            if (reconciliationStrength.current > 0.1) {
-                console.log(`Applied reconciliation with strength ${reconciliationStrength.current.toFixed(2)}`);
-                console.log(`New position: (${newPosition.x.toFixed(2)}, ${newPosition.y.toFixed(2)}, ${newPosition.z.toFixed(2)})`);
-            }
-            
-            // Reset flags - reconciliation applied
-            pendingReconciliation.current = false;
-            reconciliationStrength.current = 0.3; // Reset to default
-        }
+        const newPosition = correction
+            ? _characterTranslation.fromArray(correction.position)
+            : _characterTranslation.copy(characterRigidBody.translation() as THREE.Vector3)
+        const computedMovement = characterController.current.computedMovement()
+        newPosition.add(computedMovement)
+
+        predictor.record(input, [newPosition.x, newPosition.y, newPosition.z], {
+            ...movement.current,
+            grounded,
+            resolvedY: computedMovement.y,
+        })
 
         characterRigidBody.setNextKinematicTranslation(newPosition)
     })
@@ -606,8 +671,8 @@ export const Player = forwardRef<EntityType, PlayerProps>(({ onMove, walkSpeed =
 
         // Calculate velocity magnitude for better animation state detection
         const velocityMagnitude = Math.sqrt(
-            Math.pow(horizontalVelocity.current.x, 2) + 
-            Math.pow(horizontalVelocity.current.z, 2)
+            Math.pow(movement.current.horizontalVelocity.x, 2) + 
+            Math.pow(movement.current.horizontalVelocity.z, 2)
         );
         
         // Log velocity occasionally for debugging
@@ -707,7 +772,8 @@ export const Player = forwardRef<EntityType, PlayerProps>(({ onMove, walkSpeed =
                 position: [position.x, position.y, position.z],
                 rotation: [rotationQuat.x, rotationQuat.y, rotationQuat.z, rotationQuat.w],
                 velocity: [velocity.x, velocity.y, velocity.z],
-                sequence: Date.now(),
+                sequence: predictor.lastSequence(),
+                inputs: predictor.takeUnsent(),
                 playerType: playerType, // Use the playerType prop when sending updates
                 flashlightOn: flashlightOn // Include flashlight state
             });
@@ -795,64 +861,42 @@ export const Player = forwardRef<EntityType, PlayerProps>(({ onMove, walkSpeed =
         }
     }, [isWalking, isRunning, actions])
 
-    // Set up reconciliation handler if connection manager is provided
+    // Reconcile our predicted movement against the server's acknowledgements
     useEffect(() => {
-        if (connectionManager) {
-            // Listen for server state updates to reconcile
-            const handleServerState = (state: any) => {
-                // Check if we need to apply corrections
-                if (state.serverCorrection || (state.positionError && state.positionError > 0.25)) {
-                    console.log(`Applying server correction - Error: ${state.positionError?.toFixed(3) || 'unknown'}`);
-                
-                    // We got an authoritative update from server
-                    serverPosition.current.set(
-                        state.position[0],
-                        state.position[1],
-                        state.position[2]
-                    );
-                    
-                    // Calculate correction strength based on error magnitude
-                    const correctionStrength = Math.min(0.8, Math.max(0.1, 
-                        state.positionError ? state.positionError * 0.2 : 0.3
-                    ));
-                    
-                    console.log(`Correction strength: ${correctionStrength.toFixed(2)}`);
-                    
-                    // Apply with appropriate strength
-                    if (pendingReconciliation.current) {
-                        // Already waiting for a correction, make this one stronger
-                        pendingReconciliation.current = true;
-                        reconciliationStrength.current = Math.max(reconciliationStrength.current, correctionStrength);
-                    } else {
-                        // First correction for this update
-                        pendingReconciliation.current = true;
-                        reconciliationStrength.current = correctionStrength;
-                    }
-                } else if (state.position) {
-                    // No major correction needed, but store server position anyway
-                    // for smaller corrections
-                    serverPosition.current.set(
-                        state.position[0],
-                        state.position[1],
-                        state.position[2]
-                    );
-                    
-                    // Small correction (less than threshold)
-                    if (state.positionError && state.positionError > 0.05) {
-                        // Use a gentler correction for small errors
-                        pendingReconciliation.current = true;
-                        reconciliationStrength.current = 0.05;
-                    }
-                }
-            };
-            
-            connectionManager.on('server_state_update', handleServerState);
-            
-            return () => {
-                connectionManager.off('server_state_update', handleServerState);
-            };
+        if (!connectionManager) return
+
+        const handleInputAck = (ack: InputAckMessage) => {
+            const result = predictor.acknowledge(ack.sequence, ack.position, ack.corrected)
+            if (!result) return
+
+            if (result.corrected) {
+                console.log(`Server corrected input ${ack.sequence} by ${result.error.toFixed(3)}, replayed ${result.replayed} inputs`)
+                pendingCorrection.current = { position: result.position, state: result.state }
+            }
+            connectionManager.reportReconciliation(predictor.getMetrics())
+        }
+
+        connectionManager.on('input_ack', handleInputAck)
+
+        return () => {
+            connectionManager.off('input_ack', handleInputAck)
         }
-    }, [connectionManager]);
+    }, [connectionManager, predictor])
+
+    // Back at a spawn point after being killed: start the next step from there, standing still
+    useEffect(() => {
+        const handleRespawn = (event: Event) => {
+            const position = (event as CustomEvent<{ position?: Vector3 }>).detail?.position
+            if (!position) return
+            pendingCorrection.current = {
+                position,
+                state: { ...initialMovementState(), grounded: false, resolvedY: 0 },
+            }
+        }
+
+        window.addEventListener('player_respawned', handleRespawn)
+        return () => window.removeEventListener('player_respawned', handleRespawn)
+    }, [])
 
     // Add getRotationQuaternion method to the player's ref
     useImperativeHandle(ref, () => ({
@@ -1180,6 +1224,9 @@ type KeyControls = {
     jump: boolean
 }
 
+const NO_KEYS: KeyControls = { forward: false, backward: false, left: false, right: false, sprint: false, jump: false }
+const IDLE_GAMEPAD = { buttons: { jump: false, leftStickPress: false }, leftStick: { x: 0, y: 0 } }
+
 const controls = [
     { name: 'forward', keys: ['ArrowUp', 'w', 'W'] },
     { name: 'backward', keys: ['ArrowDown', 's', 'S'] },
@@ -5,30 +5,16 @@ import { useGamepad } from '../common/hooks/use-gamepad'
 import * as THREE from 'three'
 import { useFrame } from '@react-three/fiber'
 import { Points, BufferGeometry, NormalBufferAttributes, Material } from 'three'
+import entityStateObserver from '../network/EntityStateObserver'
+import snapshotInterpolation from '../network/SnapshotInterpolation'
+import { ConeProjectile, MERC_LOADOUT, SphereProjectile, WeaponDefinition, getWeapon } from './weapons'
 
-// Fire color palette
-const FIRE_COLORS = [
-    '#FF4500', // Red-Orange
-    '#FF7F00', // Orange
-    '#FF5722', // Deep Orange
-    '#FFAB00', // Amber
-    '#FF9800', // Orange
-]
-
-const SHOOT_FORCE = 120 // Increased from 90 for more reliable collisions
-const SPHERE_OFFSET = {
-    x: 0.12,  // Slightly to the right
-    y: -0.27, // Lower below crosshair
-    z: -1.7  // Offset even further back
-}
-
-// Maximum number of spheres per player to prevent performance issues
-const MAX_SPHERES_PER_PLAYER = 5 // Further reduced from 3
 // Total maximum spheres allowed in the scene at once
 const MAX_TOTAL_SPHERES = 20 // Further reduced from 10
 
-// Add performance configuration options
-// Add this after MAX_TOTAL_SPHERES
+// How long a flame burst stays on screen
+const FLAME_BURST_MS = 250
+
 // Performance optimization settings
 const PERFORMANCE_CONFIG = {
     enableLights: false,           // Disabled all point lights for performance
@@ -64,18 +50,36 @@ type SphereProps = {
     position: [number, number, number]
     direction: [number, number, number]
     color: string
-    radius: number
+    projectile: SphereProjectile // Speed, gravity and size from the weapon that fired it
+    particles: number        // Fire particles trailing it
     playerId?: string        // The ID of the player who shot this sphere
     timestamp: number        // When the sphere was created
     isStuck?: boolean        // Added to track if the sphere is stuck to a surface
     physicsDisabled?: boolean // Flag to indicate if physics is disabled for optimization
+    shotId?: string          // Network shot ID, only set for the local player's own shots
+    onHit?: HitReporter      // Called when one of our own shots hits a player
 }
 
+// Reports a hit to the authority; nothing is scored until it is confirmed
+export type HitReporter = (shotId: string, targetId: string, hitPosition: [number, number, number]) => void
+
 // Type for remote player shots
 export type RemoteShot = {
     id: string
     origin: [number, number, number]
     direction: [number, number, number]
+    weapon?: string          // Fireball when missing
+}
+
+// A cone weapon's spray, drawn for a moment from where it was fired
+type FlameBurstProps = {
+    id: string
+    origin: [number, number, number]
+    direction: [number, number, number]
+    cone: ConeProjectile
+    colors: string[]
+    particles: number
+    timestamp: number
 }
 
 // Extended type for network shots that includes additional fields
@@ -88,12 +92,13 @@ export interface NetworkRemoteShot extends RemoteShot {
 interface FireballParticlesProps {
     position: [number, number, number]
     color: string
+    particles: number
 }
 
 // Particle effect for fireballs - simplified version
-const FireballParticles = ({ position, color }: FireballParticlesProps) => {
+const FireballParticles = ({ position, color, particles }: FireballParticlesProps) => {
     const particlesRef = useRef<Points<BufferGeometry<NormalBufferAttributes>, Material | Material[]>>(null)
-    const count = PERFORMANCE_CONFIG.useSimplifiedParticles ? PERFORMANCE_CONFIG.particleCount : 10
+    const count = PERFORMANCE_CONFIG.useSimplifiedParticles ? Math.min(particles, PERFORMANCE_CONFIG.particleCount) : particles
     const frameCounter = useRef(0)
     
     // Generate initial random positions for particles around the fireball
@@ -385,7 +390,8 @@ const PooledLights = () => {
   );
 };
 
-const Sphere = ({ id, position, direction, color, radius, isStuck: initialIsStuck }: SphereProps) => {
+const Sphere = ({ id, position, direction, color, projectile, particles, isStuck: initialIsStuck, shotId, onHit }: SphereProps) => {
+    const { radius, speed } = projectile
     const [stuck, setStuck] = useState(initialIsStuck || false)
     const [finalPosition, setFinalPosition] = useState<[number, number, number]>(position)
     const rigidBodyRef = useRef<RapierRigidBody>(null)
@@ -678,84 +684,47 @@ const Sphere = ({ id, position, direction, color, radius, isStuck: initialIsStuc
             });
             
             // SPECIAL HANDLING FOR JACKALOPE COLLISIONS
-            if (isJackalopeCollision && window.__jackalopeHitHandlers) {
+            if (isJackalopeCollision) {
                 // Extract the jackalope ID from the target object
                 const jackalopeId = targetUserData?.jackalopeId || 
                                     targetUserData?.playerId || 
                                     parentUserData?.jackalopeId || 
                                     parentUserData?.playerId;
                 
-                // Log that we found a Jackalope to hit
-                console.log(`Found Jackalope ${jackalopeId} to hit!`);
-                
-                // Set the last hit jackalope to prevent multiple respawns
-                window.__lastHitJackalope = jackalopeId;
-                
-                // Use the special hit handler provided by the jackalope
-                if (jackalopeId && window.__jackalopeHitHandlers[jackalopeId]) {
-                    console.log(`Using hit handler for jackalope ${jackalopeId}`);
-                    
+                // Only the shooter reports the hit; score, respawn and effects wait for the authority
+                if (jackalopeId && shotId && onHit) {
+                    const hitPoint = rigidBodyRef.current.translation();
+                    console.log(`Reporting hit on jackalope ${jackalopeId} with shot ${shotId}`);
                     try {
-                        // Get shooter ID from the sphere ID if possible
-                        const sphereIdParts = id.split('-');
-                        const shooterId = sphereIdParts.length > 1 ? sphereIdParts[0] : 'unknown';
-                        
-                        // Call the handler with the projectile ID and shooter ID
-                        const hitResult = window.__jackalopeHitHandlers[jackalopeId](id, shooterId);
-                        
-                        if (hitResult) {
-                            console.log(`Successfully hit jackalope ${jackalopeId} with projectile ${id}`);
-                            
-                            // Dispatch additional scoring event with explicit projectile ID
-                            // This gives multiple chances for the scoring to be handled properly
-                            try {
-                                const scoringEvent = new CustomEvent('merc_scored', {
-                                    detail: { 
-                                        mercId: shooterId || 'unknown', 
-                                        jackalopeId: jackalopeId,
-                                        shotId: id
-                                    }
-                                });
-                                window.dispatchEvent(scoringEvent);
-                                console.log(`🎯 Dispatched scoring event for merc ${shooterId || 'unknown'} hitting jackalope ${jackalopeId} with projectile ${id}`);
-                            } catch (err) {
-                                console.error('Error dispatching detailed merc scoring event:', err);
-                            }
-                            
-                            // Disable the projectile
-                            try {
-                                // First hide visuals immediately to provide instant feedback
-                                if (groupRef.current) {
-                                    groupRef.current.visible = false;
-                                }
-                                
-                                // Disable rigid body and move it away
-                                if (rigidBodyRef.current) {
-                                    rigidBodyRef.current.setEnabled(false);
-                                    rigidBodyRef.current.setBodyType(1, false); // Set fixed type without waking
-                                    rigidBodyRef.current.setTranslation({ x: 0, y: -9999, z: 0 }, false); // Don't wake up
-                                }
-                                
-                                // Move the sphere away and mark it as stuck
-                                setFinalPosition([-9999, -9999, -9999]);
-                                stuckRef.current = true;
-                                setStuck(true);
-                                
-                                // Mark collision time to properly clean up later
-                                collisionTimeRef.current = Date.now();
-                            } catch (error) {
-                                console.error("Error disabling projectile after jackalope hit:", error);
-                            }
-                            
-                            // Since we handled the hit, we can return early
-                            return;
-                        }
+                        onHit(shotId, jackalopeId, [hitPoint.x, hitPoint.y, hitPoint.z]);
                     } catch (error) {
-                        console.error("ERROR PROCESSING JACKALOPE HIT:", error);
+                        console.error("ERROR REPORTING JACKALOPE HIT:", error);
                     }
-                } else {
-                    // No handler found for this jackalope
-                    console.log(`No hit handler found for jackalope ${jackalopeId}`);
+                }
+                
+                // The jackalope absorbs the projectile either way
+                try {
+                    // First hide visuals immediately to provide instant feedback
+                    if (groupRef.current) {
+                        groupRef.current.visible = false;
+                    }
+                    
+                    // Disable rigid body and move it away
+                    if (rigidBodyRef.current) {
+                        rigidBodyRef.current.setEnabled(false);
+                        rigidBodyRef.current.setBodyType(1, false); // Set fixed type without waking
+                        rigidBodyRef.current.setTranslation({ x: 0, y: -9999, z: 0 }, false); // Don't wake up
+                    }
+                    
+                    // Move the sphere away and mark it as stuck
+                    setFinalPosition([-9999, -9999, -9999]);
+                    stuckRef.current = true;
+                    setStuck(true);
+                    
+                    // Mark collision time to properly clean up later
+                    collisionTimeRef.current = Date.now();
+                } catch (error) {
+                    console.error("Error disabling projectile after jackalope hit:", error);
                 }
             } else {
                 // STANDARD COLLISION HANDLING FOR NON-JACKALOPE OBJECTS
@@ -987,15 +956,15 @@ const Sphere = ({ id, position, direction, color, radius, isStuck: initialIsStuc
                 position={position} 
                 friction={1}
                 angularDamping={0.8}
-                linearDamping={0.05} // Lower damping for longer travel
+                linearDamping={projectile.linearDamping}
                 restitution={0.1}
                 colliders={false} // Changed from "ball" to false so we can add our own collider
                 mass={0.3} // Even lower mass
                 ccd={true}
                 onCollisionEnter={handleCollision}
-                linearVelocity={stuck ? [0, 0, 0] : [direction[0] * SHOOT_FORCE, direction[1] * SHOOT_FORCE, direction[2] * SHOOT_FORCE]}
+                linearVelocity={stuck ? [0, 0, 0] : [direction[0] * speed, direction[1] * speed, direction[2] * speed]}
                 type={stuck ? "fixed" : "dynamic"}
-                gravityScale={0.3} // Reduce gravity effect
+                gravityScale={projectile.gravityScale}
                 scale={stuck ? scale : scale} // Apply the scale for growth animation
                 collisionGroups={0xFFFFFFFF} // Collide with everything
                 name={id}
@@ -1022,7 +991,7 @@ const Sphere = ({ id, position, direction, color, radius, isStuck: initialIsStuc
             {/* Add fire particles - scale with the fireball */}
             {!stuck ? (
                 <group position={finalPosition} scale={scale}>
-                    <FireballParticles position={[0, 0, 0]} color={color} />
+                    <FireballParticles position={[0, 0, 0]} color={color} particles={particles} />
                 </group>
             ) : (
                 <group position={finalPosition} scale={scale * 1.2}>
@@ -1035,35 +1004,152 @@ const Sphere = ({ id, position, direction, color, radius, isStuck: initialIsStuc
                             blending={THREE.AdditiveBlending}
                         />
                     </mesh>
-                    <FireballParticles position={[0, 0, 0]} color={color} />
+                    <FireballParticles position={[0, 0, 0]} color={color} particles={particles} />
                 </group>
             )}
         </>
     )
 }
 
+// Flames pouring out of a cone weapon: particles race out to the end of the
+// cone and fade. Purely visual; what it hit is up to the authority.
+const FlameBurst = ({ origin, direction, cone, colors, particles, timestamp }: FlameBurstProps) => {
+    const particlesRef = useRef<Points<BufferGeometry<NormalBufferAttributes>, Material | Material[]>>(null)
+    const materialRef = useRef<THREE.PointsMaterial>(null)
+
+    // Each particle gets a heading inside the cone and a speed
+    const { headings, speeds, positions } = useMemo(() => {
+        const forward = new THREE.Vector3(...direction).normalize()
+        const side = new THREE.Vector3(0, 1, 0).cross(forward)
+        if (side.lengthSq() < 1e-6) side.set(1, 0, 0)
+        side.normalize()
+        const up = forward.clone().cross(side)
+
+        const headings: THREE.Vector3[] = []
+        const speeds: number[] = []
+        for (let i = 0; i < particles; i++) {
+            const tilt = Math.tan(cone.angle) * Math.sqrt(Math.random())
+            const turn = Math.random() * Math.PI * 2
+            headings.push(forward.clone()
+                .addScaledVector(side, Math.cos(turn) * tilt)
+                .addScaledVector(up, Math.sin(turn) * tilt)
+                .normalize())
+            speeds.push(0.6 + Math.random() * 0.4)
+        }
+        return { headings, speeds, positions: new Float32Array(particles * 3) }
+    }, [direction, cone.angle, particles])
+
+    const color = useMemo(() => colors[Math.floor(Math.random() * colors.length)], [colors])
+
+    useFrame(() => {
+        if (!particlesRef.current) return
+        const progress = Math.min(1, (Date.now() - timestamp) / FLAME_BURST_MS)
+
+        for (let i = 0; i < particles; i++) {
+            const reach = cone.range * speeds[i] * progress
+            positions[i * 3] = headings[i].x * reach
+            positions[i * 3 + 1] = headings[i].y * reach
+            positions[i * 3 + 2] = headings[i].z * reach
+        }
+        particlesRef.current.geometry.attributes.position.needsUpdate = true
+
+        if (materialRef.current) {
+            materialRef.current.opacity = 0.9 * (1 - progress)
+            materialRef.current.size = 0.15 + progress * 0.35
+        }
+    })
+
+    return (
+        <points ref={particlesRef} position={origin}>
+            <bufferGeometry>
+                <bufferAttribute
+                    attach="attributes-position"
+                    count={particles}
+                    array={positions}
+                    itemSize={3}
+                />
+            </bufferGeometry>
+            <pointsMaterial
+                ref={materialRef}
+                size={0.15}
+                color={color}
+                transparent
+                opacity={0.9}
+                depthWrite={false}
+                blending={THREE.AdditiveBlending}
+            />
+        </points>
+    )
+}
+
+const pickColor = (weapon: WeaponDefinition): string =>
+    weapon.vfx.colors[Math.floor(Math.random() * weapon.vfx.colors.length)]
+
+const flameBurst = (
+    id: string,
+    origin: [number, number, number],
+    direction: [number, number, number],
+    weapon: WeaponDefinition,
+    cone: ConeProjectile
+): FlameBurstProps => ({
+    id,
+    origin,
+    direction,
+    cone,
+    colors: weapon.vfx.colors,
+    particles: weapon.vfx.particles,
+    timestamp: Date.now()
+})
+
+// Nearest jackalope inside a cone, where we're seeing it right now
+const findConeTarget = (
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    cone: ConeProjectile
+): { id: string, position: [number, number, number] } | null => {
+    const localId = entityStateObserver.getLocalEntity()?.id
+    let best: { id: string, position: [number, number, number], range: number } | null = null
+
+    for (const entity of Object.values(entityStateObserver.getAllEntities())) {
+        if (entity.type !== 'jackalope' || entity.id === localId) continue
+        const position = snapshotInterpolation.sample(entity.id)?.position ?? entity.position
+        const toTarget = new THREE.Vector3(...position).sub(origin)
+        const range = toTarget.length()
+        if (range > cone.range || toTarget.angleTo(direction) > cone.angle) continue
+        if (!best || range < best.range) {
+            best = { id: entity.id, position, range }
+        }
+    }
+    return best && { id: best.id, position: best.position }
+}
+
 export const SphereTool = ({ 
     onShoot,
+    onHit,
     remoteShots = [],
     thirdPersonView = false,
     playerPosition = null // Add optional player position for third-person shooting
 }: { 
-    onShoot?: (origin: [number, number, number], direction: [number, number, number]) => void,
+    onShoot?: (origin: [number, number, number], direction: [number, number, number], weapon: string) => string | null | void,
+    onHit?: HitReporter,
     remoteShots?: RemoteShot[],
     thirdPersonView?: boolean,
     playerPosition?: THREE.Vector3 | null
 }) => {
-    const sphereRadius = 0.15 // Slightly larger size for fireballs
-    const MAX_AMMO = 50
-
     const camera = useThree((s) => s.camera)
     const [spheres, setSpheres] = useState<SphereProps[]>([])
-    const [ammoCount, setAmmoCount] = useState(MAX_AMMO)
-    const [isReloading, setIsReloading] = useState(false)
+    const [bursts, setBursts] = useState<FlameBurstProps[]>([])
     const shootingInterval = useRef<number>()
     const isPointerDown = useRef(false)
     const gamepadState = useGamepad()
     
+    // The weapon in hand, kept in a ref so the firing interval always sees the current one
+    const weaponRef = useRef(getWeapon(MERC_LOADOUT[0]))
+    // Rounds left and reload end per ammo weapon, heat per heat weapon (as of `at`, cooling since)
+    const ammo = useRef<Record<string, number>>({})
+    const reloadingUntil = useRef<Record<string, number>>({})
+    const heat = useRef<Record<string, { level: number, at: number, lockedUntil: number }>>({})
+    
     // Keep track of processed remote shots to avoid duplicates
     const processedRemoteShots = useRef<Set<string>>(new Set());
     
@@ -1085,7 +1171,6 @@ export const SphereTool = ({
             
             // Check if this shot has already been processed
             const isProcessed = processedRemoteShots.current.has(shotId);
-            console.log(`Shot ${shotId} already processed: ${isProcessed}`);
             
             // Only add unprocessed shots to our map (and avoid duplicates within the current batch)
             if (!isProcessed && !shotMap.has(shotId)) {
@@ -1096,52 +1181,51 @@ export const SphereTool = ({
         });
         
         // No new shots to process
-        if (shotMap.size === 0) {
-            console.log('No new shots to process');
-            return;
-        }
-        
-        console.log(`Processing ${shotMap.size} new remote shots`);
+        if (shotMap.size === 0) return;
         
-        // Second pass: create spheres from the unique shots
-        setSpheres(prev => {
-            let newSpheres = [...prev];
+        // Cone weapons leave a burst of flame rather than a projectile
+        const newBursts: FlameBurstProps[] = [];
+        const newSpheres: SphereProps[] = [];
+        for (const shot of shotMap.values()) {
+            const weapon = getWeapon(shot.weapon);
             
-            // Process each unique shot
-            for (const [shotId, shot] of shotMap.entries()) {
-                console.log('Processing shot from player:', shot.id);
-                
-                // Add remote player's shot with fire color
-                const fireColor = FIRE_COLORS[Math.floor(Math.random() * FIRE_COLORS.length)];
-                
-                // Use the exact direction from the shot data
-                const exactDirection = [...shot.direction] as [number, number, number];
-                
-                // Create the new sphere with unique ID
-                const uniqueId = `sphere_${shot.id}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-                const newSphere = {
+            // Use the exact direction from the shot data
+            const exactDirection = [...shot.direction] as [number, number, number];
+            const uniqueId = `sphere_${shot.id}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+            
+            if (weapon.projectile.kind === 'cone') {
+                newBursts.push(flameBurst(uniqueId, shot.origin, exactDirection, weapon, weapon.projectile));
+            } else {
+                newSpheres.push({
                     id: uniqueId,
                     position: shot.origin,
-                    direction: exactDirection, // Use exact direction
-                    color: fireColor,
-                    radius: sphereRadius,
+                    direction: exactDirection,
+                    color: pickColor(weapon),
+                    projectile: weapon.projectile,
+                    particles: weapon.vfx.particles,
                     playerId: shot.id,
                     timestamp: Date.now(),
                     isStuck: false
-                };
-                
-                // Add the new sphere
-                newSpheres.push(newSphere);
-                
-                // Remove old spheres if we exceed the limit
-                if (shot.id) {
-                    newSpheres = removeOldSpheresIfNeeded(shot.id, newSpheres);
-                }
+                });
             }
-            
-            console.log(`Updated spheres array, new length: ${newSpheres.length}`);
-            return newSpheres;
-        });
+        }
+        
+        if (newBursts.length > 0) {
+            setBursts(prev => [...prev, ...newBursts]);
+        }
+        if (newSpheres.length > 0) {
+            setSpheres(prev => {
+                let updated = [...prev];
+                for (const sphere of newSpheres) {
+                    updated.push(sphere);
+                    // Remove old spheres if we exceed the limit
+                    if (sphere.playerId) {
+                        updated = removeOldSpheresIfNeeded(sphere.playerId, updated);
+                    }
+                }
+                return updated;
+            });
+        }
         
         // Limit the size of our processed shots set to avoid memory leaks - more aggressive cleanup
         if (processedRemoteShots.current.size > 100) { // Increased from 50 for better tracking
@@ -1151,7 +1235,7 @@ export const SphereTool = ({
             );
             console.log(`Trimmed processed shots set from ${oldSize} to ${processedRemoteShots.current.size}`);
         }
-    }, [remoteShots, sphereRadius]);
+    }, [remoteShots]);
 
     // Helper function to remove old spheres if we exceed the limit for a player
     const removeOldSpheresIfNeeded = (playerID: string, spheresArray: SphereProps[]) => {
@@ -1160,14 +1244,16 @@ export const SphereTool = ({
         
         // Find the spheres belonging to this player
         const playerSpheres = newSpheres.filter(sphere => sphere.playerId === playerID);
+        // The weapon that just fired decides how many can be in the air
+        const maxPerPlayer = playerSpheres[playerSpheres.length - 1]?.projectile.maxPerPlayer ?? 0;
         
         // Check if we need to remove player-specific old spheres
-        if (playerSpheres.length > MAX_SPHERES_PER_PLAYER) {
+        if (playerSpheres.length > maxPerPlayer) {
             // Sort player's spheres by timestamp (oldest first)
             const sortedPlayerSpheres = [...playerSpheres].sort((a, b) => a.timestamp - b.timestamp);
             
             // Get the IDs of the oldest spheres to remove - only remove one at a time to avoid visual glitches
-            const numToRemove = Math.min(1, playerSpheres.length - MAX_SPHERES_PER_PLAYER);
+            const numToRemove = Math.min(1, playerSpheres.length - maxPerPlayer);
             console.log(`Removing ${numToRemove} old spheres for player ${playerID}`);
             
             // Create a set of timestamps to remove (the oldest ones)
@@ -1202,56 +1288,66 @@ export const SphereTool = ({
         return newSpheres;
     };
 
-    const reload = () => {
-        if (isReloading) return
+    // Takes a round or some heat for one shot; false if the weapon can't fire right now
+    const takeSupply = (weapon: WeaponDefinition, now: number): boolean => {
+        const supply = weapon.supply
+        if (supply.kind === 'ammo') {
+            if (now < (reloadingUntil.current[weapon.id] ?? 0)) return false
+            const left = (ammo.current[weapon.id] ?? supply.magazine) - 1
+            ammo.current[weapon.id] = left
+            if (left <= 0) {
+                // Reload straight away, and come back with a full magazine
+                reloadingUntil.current[weapon.id] = now + supply.reloadMs
+                ammo.current[weapon.id] = supply.magazine
+            }
+            return true
+        }
         
-        setIsReloading(true)
-        // Simulate reload time
-        setTimeout(() => {
-            setAmmoCount(MAX_AMMO)
-            setIsReloading(false)
-        }, 1000)
+        const state = heat.current[weapon.id]
+        if (state && now < state.lockedUntil) return false
+        const level = currentHeat(weapon, now) + supply.perShot
+        heat.current[weapon.id] = level >= 1
+            // Overheated: locked out, then cooled right down
+            ? { level: 0, at: now + supply.overheatLockMs, lockedUntil: now + supply.overheatLockMs }
+            : { level, at: now, lockedUntil: 0 }
+        return true
+    }
+    
+    const currentHeat = (weapon: WeaponDefinition, now: number): number => {
+        const state = heat.current[weapon.id]
+        if (!state || weapon.supply.kind !== 'heat') return 0
+        return Math.max(0, state.level - weapon.supply.coolPerSecond * Math.max(0, now - state.at) / 1000)
     }
 
     // Generate a local player ID if needed
     const localPlayerIdRef = useRef<string>(`local_player_${Math.random().toString(36).substring(2, 11)}`);
 
-    const shootSphere = () => {
+    const shoot = () => {
+        const weapon = weaponRef.current
+        const now = Date.now()
+        
         // Modified check for pointer lock to work in both first-person and third-person modes
         const firstPersonMode = !thirdPersonView && document.pointerLockElement !== null;
         const thirdPersonMode = thirdPersonView; // Always allow shooting in third-person mode
         const usingGamepad = gamepadState.connected;
         
-        const canShoot = (firstPersonMode || thirdPersonMode || usingGamepad) && !isReloading && ammoCount > 0;
-        
-        if (!canShoot) {
-            // More specific error message based on condition
-            if (isReloading) {
-                console.log('Cannot shoot: Reloading');
-            } else if (ammoCount <= 0) {
-                console.log('Cannot shoot: No ammo');
-            } else {
-                console.log('Cannot shoot: Input controls not ready');
-            }
+        if (!(firstPersonMode || thirdPersonMode || usingGamepad)) {
+            console.log('Cannot shoot: Input controls not ready');
+            return;
+        }
+        if (!takeSupply(weapon, now)) {
+            console.log(`Cannot shoot: ${weapon.name} ${weapon.supply.kind === 'ammo' ? 'is reloading' : 'has overheated'}`);
             return;
         }
 
         // Trigger weapon sound effect
         // Try the global function first, if available
-        if (window.__playMercShot) {
-            window.__playMercShot();
+        if (window.__playWeaponSound) {
+            window.__playWeaponSound(weapon.id);
         } else {
             // Fallback to dispatching the custom event
-            window.dispatchEvent(new CustomEvent('shotFired'));
+            window.dispatchEvent(new CustomEvent('shotFired', { detail: { weapon: weapon.id } }));
         }
-
-        setAmmoCount(prev => {
-            const newCount = prev - 1
-            if (newCount <= 0) {
-                reload()
-            }
-            return newCount
-        })
         
         try {
             let direction: THREE.Vector3;
@@ -1280,7 +1376,7 @@ export const SphereTool = ({
             }
             
             // Create offset vector in camera's local space
-            const offset = new THREE.Vector3(SPHERE_OFFSET.x, SPHERE_OFFSET.y, SPHERE_OFFSET.z);
+            const offset = new THREE.Vector3(...weapon.muzzleOffset);
             
             let position: THREE.Vector3;
             
@@ -1328,10 +1424,12 @@ export const SphereTool = ({
                 return;
             }
             
-            // Keep direction normalized
+            // Scatter the shot by up to the weapon's spread, then keep direction normalized
+            if (weapon.spread > 0) {
+                direction.add(new THREE.Vector3().randomDirection().multiplyScalar(Math.tan(weapon.spread) * Math.random()));
+            }
             direction.normalize();
 
-            const fireColor = FIRE_COLORS[Math.floor(Math.random() * FIRE_COLORS.length)];
             const originArray = position.toArray() as [number, number, number];
             const directionArray = direction.toArray() as [number, number, number];
             const localPlayerId = localPlayerIdRef.current;
@@ -1346,19 +1444,43 @@ export const SphereTool = ({
                 updatePlayerPositionForCulling(camera.position);
             }
             
+            // Notify multiplayer system of the shot first so the sphere knows its network shot ID
+            let shotId: string | undefined;
+            if (onShoot) {
+                try {
+                    shotId = onShoot(originArray, directionArray, weapon.id) || undefined;
+                } catch (error) {
+                    console.error('Error sending shot to multiplayer:', error);
+                }
+            }
+            
+            if (weapon.projectile.kind === 'cone') {
+                // Flames land the moment they're fired, on whoever is in the cone
+                const cone = weapon.projectile;
+                setBursts(prev => [...prev, flameBurst(uniqueId, originArray, directionArray, weapon, cone)]);
+                const target = findConeTarget(position, direction, cone);
+                if (target && shotId && onHit) {
+                    onHit(shotId, target.id, target.position);
+                }
+                return;
+            }
+            
             // Always add the local sphere immediately
+            const projectile = weapon.projectile;
             setSpheres(prev => {
                 // Create the new sphere
                 const newSphere = {
                     id: uniqueId,
                     position: originArray,
                     direction: directionArray,
-                    color: fireColor,
-                    radius: sphereRadius,
+                    color: pickColor(weapon),
+                    projectile,
+                    particles: weapon.vfx.particles,
                     playerId: localPlayerId,
                     timestamp: Date.now(),
                     isStuck: false,
-                    physicsDisabled: false // Start with physics enabled
+                    physicsDisabled: false, // Start with physics enabled
+                    shotId
                 };
                 
                 // Add the new sphere
@@ -1369,42 +1491,26 @@ export const SphereTool = ({
                 
                 return newSpheres;
             });
-            
-            // Notify multiplayer system of the shot
-            if (onShoot) {
-                console.log('Sending shot to multiplayer with onShoot handler:', {
-                    position: originArray,
-                    direction: directionArray
-                });
-                
-                try {
-                    onShoot(originArray, directionArray);
-                    console.log('Shot successfully sent to multiplayer');
-                } catch (error) {
-                    console.error('Error sending shot to multiplayer:', error);
-                }
-            } else {
-                console.log('No onShoot handler available, shot will only be local');
-            }
         } catch (error) {
-            console.error("Error in shootSphere:", error);
+            console.error("Error in shoot:", error);
         }
     }
 
     const startShooting = () => {
         if (shootCooldownRef.current) return;
+        const { fireIntervalMs } = weaponRef.current;
         
         isPointerDown.current = true
-        shootSphere()
+        shoot()
         
         // Set a cooldown to prevent rapid-firing
         shootCooldownRef.current = true;
         setTimeout(() => {
             shootCooldownRef.current = false;
-        }, 300);
+        }, fireIntervalMs);
         
-        // Increase interval between shots significantly
-        shootingInterval.current = window.setInterval(shootSphere, 300) // Increased from 150 to 300ms
+        // Keep firing at the weapon's rate while the trigger is held
+        shootingInterval.current = window.setInterval(shoot, fireIntervalMs)
     }
 
     const stopShooting = () => {
@@ -1436,13 +1542,57 @@ export const SphereTool = ({
         }
     }, [camera, gamepadState.buttons.shoot])
 
-    // Show ammo counter
+    // Switching weapons lets go of the trigger, so the new one starts at its own rate
+    const selectWeapon = (id: string) => {
+        if (id === weaponRef.current.id) return
+        stopShooting()
+        weaponRef.current = getWeapon(id)
+        console.log(`Switched to ${weaponRef.current.name}`)
+    }
+
+    // Number keys pick a weapon by slot
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const slot = Number(event.key)
+            const id = MERC_LOADOUT.find(weapon => getWeapon(weapon).slot === slot)
+            if (id) selectWeapon(id)
+        }
+        
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [])
+
+    // The gamepad's Y button cycles through them
     useEffect(() => {
+        if (!gamepadState.buttons.switchWeapon) return
+        const next = MERC_LOADOUT[(MERC_LOADOUT.indexOf(weaponRef.current.id) + 1) % MERC_LOADOUT.length]
+        selectWeapon(next)
+    }, [gamepadState.buttons.switchWeapon])
+
+    // Show the weapon in hand and what it has left
+    const hudText = useRef('')
+    const updateHud = () => {
+        const weapon = weaponRef.current
+        const now = Date.now()
+        let status: string
+        if (weapon.supply.kind === 'ammo') {
+            status = now < (reloadingUntil.current[weapon.id] ?? 0)
+                ? 'RELOADING...'
+                : `AMMO: ${ammo.current[weapon.id] ?? weapon.supply.magazine}/${weapon.supply.magazine}`
+        } else {
+            status = now < (heat.current[weapon.id]?.lockedUntil ?? 0)
+                ? 'OVERHEATED'
+                : `HEAT: ${Math.round(currentHeat(weapon, now) * 100)}%`
+        }
+        const text = `[${weapon.slot}] ${weapon.name.toUpperCase()} ${status}`
+        if (text === hudText.current) return
+        
         const ammoDisplay = document.getElementById('ammo-display')
         if (ammoDisplay) {
-            ammoDisplay.textContent = isReloading ? 'RELOADING...' : `AMMO: ${ammoCount}/${MAX_AMMO}`
+            ammoDisplay.textContent = text
+            hudText.current = text
         }
-    }, [ammoCount, isReloading])
+    }
 
     // Performance optimization: regularly clean up old spheres - more aggressive cleanup
     useEffect(() => {
@@ -1484,6 +1634,11 @@ export const SphereTool = ({
                 return filteredSpheres;
             });
             
+            // Flame bursts have long since faded
+            setBursts(prev => prev.some(burst => now - burst.timestamp > FLAME_BURST_MS)
+                ? prev.filter(burst => now - burst.timestamp <= FLAME_BURST_MS)
+                : prev);
+            
             // Also clean up processed shots to keep memory usage low
             if (processedRemoteShots.current.size > 150) {
                 console.log(`Cleaning up processed shots. Before: ${processedRemoteShots.current.size}`);
@@ -1505,6 +1660,7 @@ export const SphereTool = ({
         } else {
             updatePlayerPositionForCulling(camera.position);
         }
+        updateHud()
     });
 
     // useEffect for cleanup
@@ -1525,7 +1681,11 @@ export const SphereTool = ({
             
             {/* Render all spheres */}
             {spheres.map((props) => (
-                <Sphere key={props.id} {...props} />
+                <Sphere key={props.id} {...props} onHit={onHit} />
+            ))}
+            
+            {bursts.map((props) => (
+                <FlameBurst key={props.id} {...props} />
             ))}
         </group>
     )
@@ -1593,12 +1753,10 @@ declare global {
         __playMercHitSound?: () => void;
         __jackalopeAttachmentHandlers?: Record<string, (projectileData: {id: string, position: THREE.Vector3}) => boolean>;
         __disableStabilizationFor?: Record<string, boolean>;
-        __jackalopeHitHandlers?: Record<string, (projectileId: string, shooterId: string) => boolean>;
         __createExplosionEffect?: (position: THREE.Vector3, color: string, particleCount: number, radius: number) => void;
         __createSpawnEffect?: (position: THREE.Vector3, color: string, particleCount: number, radius: number) => void;
-        __lastHitJackalope?: string; // Track which jackalope was last hit
         __networkManager?: {
-            sendRespawnRequest: (playerId: string, spawnPosition?: [number, number, number]) => void;
+            sendRespawnRequest: (playerId: string) => void;
         };
     }
 }
@@ -0,0 +1,106 @@
+import { DAMAGE_PROFILES, DEFAULT_WEAPON, DamageProfile } from '../network/Health'
+
+// A physical projectile flying from the muzzle
+export type SphereProjectile = {
+    kind: 'sphere'
+    speed: number
+    // Fraction of world gravity that pulls it down
+    gravityScale: number
+    linearDamping: number
+    radius: number
+    // Oldest of a player's projectiles goes once they have more than this in the air
+    maxPerPlayer: number
+}
+
+// A spray that hits whatever is in front of the muzzle, out to `range`.
+// Both limits are the authority's, taken from the damage profile.
+export type ConeProjectile = {
+    kind: 'cone'
+    range: number
+    // Half-angle in radians
+    angle: number
+}
+
+// Fires from a magazine, and reloads when it runs dry
+export type AmmoSupply = {
+    kind: 'ammo'
+    magazine: number
+    reloadMs: number
+}
+
+// Heats up with each shot and cools while idle; running hot locks it out until it has cooled down
+export type HeatSupply = {
+    kind: 'heat'
+    perShot: number
+    coolPerSecond: number
+    overheatLockMs: number
+}
+
+export type WeaponDefinition = {
+    id: string
+    name: string
+    // Number key that selects it
+    slot: number
+    projectile: SphereProjectile | ConeProjectile
+    // Time between shots while the trigger is held
+    fireIntervalMs: number
+    supply: AmmoSupply | HeatSupply
+    // Random deviation from the aim, in radians
+    spread: number
+    // Where it leaves the camera, in camera space
+    muzzleOffset: [number, number, number]
+    // What the authority takes off a target it hits
+    damage: DamageProfile
+    sound: {
+        // Key into Sounds.Weapons
+        key: 'MercShot'
+        volume: number
+        playbackRate: number
+    }
+    vfx: {
+        colors: string[]
+        // Particles drawn per projectile or flame burst
+        particles: number
+    }
+}
+
+// Fire color palette
+const FIRE_COLORS = ['#FF4500', '#FF7F00', '#FF5722', '#FFAB00', '#FF9800']
+
+export const WEAPONS: Record<string, WeaponDefinition> = {
+    fireball: {
+        id: 'fireball',
+        name: 'Fireball',
+        slot: 1,
+        projectile: { kind: 'sphere', speed: 120, gravityScale: 0.3, linearDamping: 0.05, radius: 0.15, maxPerPlayer: 5 },
+        fireIntervalMs: 300,
+        supply: { kind: 'ammo', magazine: 50, reloadMs: 1000 },
+        spread: 0,
+        muzzleOffset: [0.12, -0.27, -1.7],
+        damage: DAMAGE_PROFILES.fireball,
+        sound: { key: 'MercShot', volume: 0.1, playbackRate: 1 },
+        vfx: { colors: FIRE_COLORS, particles: 8 },
+    },
+    flamethrower: {
+        id: 'flamethrower',
+        name: 'Flamethrower',
+        slot: 2,
+        projectile: { kind: 'cone', range: DAMAGE_PROFILES.flamethrower.maxRange!, angle: DAMAGE_PROFILES.flamethrower.coneAngle! },
+        fireIntervalMs: 100,
+        supply: { kind: 'heat', perShot: 0.04, coolPerSecond: 0.35, overheatLockMs: 1500 },
+        spread: 0.12,
+        muzzleOffset: [0.12, -0.27, -0.6],
+        damage: DAMAGE_PROFILES.flamethrower,
+        sound: { key: 'MercShot', volume: 0.03, playbackRate: 1.8 },
+        vfx: { colors: ['#FF7700', '#FF9500', '#FFCC00'], particles: 24 },
+    },
+}
+
+// What a merc can switch between, in slot order
+export const MERC_LOADOUT: string[] = Object.values(WEAPONS)
+    .filter((weapon) => weapon.damage.usedBy === 'merc')
+    .sort((a, b) => a.slot - b.slot)
+    .map((weapon) => weapon.id)
+
+// Shots that don't say which weapon fired them are fireballs
+export const getWeapon = (id?: string): WeaponDefinition => WEAPONS[id ?? DEFAULT_WEAPON] ?? WEAPONS[DEFAULT_WEAPON]
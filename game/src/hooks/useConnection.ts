@@ -3,6 +3,8 @@
  */
 import { useEffect, useState, useRef } from 'react';
 import ConnectionManager, { ConnectionEventType } from '../utils/connectionManager';
+import { DEFAULT_SESSION_KEY } from '../network/protocol';
+import { PlayerState, PlayerType } from '../types/game';
 
 /**
  * Connection status types
@@ -29,7 +31,7 @@ export const useConnection = (
   isWordPress: boolean = false,
   autoConnect: boolean = false,
   playerName: string = 'Player',
-  sessionKey: string = 'JACKALOPES-DEFAULT'
+  sessionKey: string = DEFAULT_SESSION_KEY
 ) => {
   // Connection manager ref to prevent recreating on render
   const connectionRef = useRef<ConnectionManager | null>(null);
@@ -43,6 +45,9 @@ export const useConnection = (
   // Player ID assigned by server
   const [playerId, setPlayerId] = useState<string | null>(null);
   
+  // Team assigned by the session we joined
+  const [playerType, setPlayerType] = useState<PlayerType | null>(null);
+  
   // Error messages
   const [error, setError] = useState<string | null>(null);
   
@@ -57,6 +62,7 @@ export const useConnection = (
         console.log('Connected:', data);
         setStatus(ConnectionStatus.Connected);
         setPlayerId(data.playerId);
+        setPlayerType(data.playerType);
         
         // Add to events
         setEvents(prev => [...prev, { type: 'connected', timestamp: Date.now(), data }]);
@@ -133,7 +139,7 @@ export const useConnection = (
    * 
    * @param state - The player state to send
    */
-  const sendPlayerUpdate = (state: any) => {
+  const sendPlayerUpdate = (state: Pick<PlayerState, 'position' | 'rotation'> & Partial<PlayerState>) => {
     if (connectionRef.current && connectionRef.current.isConnected()) {
       connectionRef.current.sendPlayerUpdate(state);
     }
@@ -169,6 +175,7 @@ export const useConnection = (
     connection: connectionRef.current,
     status,
     playerId,
+    playerType,
     events,
     error,
     connect,
@@ -0,0 +1,175 @@
+/**
+ * React hook holding a map editor's state: the map being edited with its
+ * undo/redo history, what is selected, and how things snap
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { GameMap } from '../types/map';
+import { Vector3 } from '../types/game';
+import {
+  EditHistory,
+  EditorSelection,
+  EditorTool,
+  addItem,
+  commitEdit,
+  duplicateItem,
+  moveItem,
+  redoEdit,
+  removeItem,
+  resizeItem,
+  startHistory,
+  undoEdit
+} from '../game/maps/editing';
+
+export type TransformMode = 'translate' | 'scale';
+
+export interface MapEditorState {
+  draft: GameMap;
+  selection: EditorSelection | null;
+  // Grid step everything snaps to, or null to place freely
+  snap: number | null;
+  mode: TransformMode;
+  // What a click on the ground puts down, if anything
+  tool: EditorTool | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  select: (selection: EditorSelection | null) => void;
+  setSnap: (snap: number | null) => void;
+  setMode: (mode: TransformMode) => void;
+  setTool: (tool: EditorTool | null) => void;
+  add: (tool: EditorTool, at: Vector3) => void;
+  move: (position: Vector3) => void;
+  resize: (factor: Vector3) => void;
+  remove: () => void;
+  duplicate: () => void;
+  // Any other change to the map, e.g. its name or lighting
+  update: (change: (map: GameMap) => GameMap) => void;
+  undo: () => void;
+  redo: () => void;
+  // Start over from another map, e.g. an imported file; history is cleared
+  load: (map: GameMap) => void;
+}
+
+export const DEFAULT_SNAP = 1;
+
+/**
+ * Edit a copy of `initial`.
+ *
+ * While `active`, the keyboard drives it too: Ctrl+Z / Ctrl+Shift+Z (or
+ * Ctrl+Y) undo and redo, Delete removes the selection, Ctrl+D duplicates it,
+ * G and S switch between moving and scaling, and Escape puts down whatever
+ * is selected or about to be placed.
+ *
+ * @param initial - Map to start from
+ * @param active - Whether the editor is open and should listen to the keyboard
+ */
+export const useMapEditor = (initial: GameMap, active: boolean): MapEditorState => {
+  const [history, setHistory] = useState<EditHistory>(() => startHistory(initial));
+  const [selection, setSelection] = useState<EditorSelection | null>(null);
+  const [snap, setSnap] = useState<number | null>(DEFAULT_SNAP);
+  const [mode, setMode] = useState<TransformMode>('translate');
+  const [tool, setTool] = useState<EditorTool | null>(null);
+
+  const update = useCallback((change: (map: GameMap) => GameMap) => {
+    setHistory(current => commitEdit(current, change(current.present)));
+  }, []);
+
+  const add = useCallback((tool: EditorTool, at: Vector3) => {
+    const added = addItem(history.present, tool, at, snap);
+    setHistory(current => commitEdit(current, added.map));
+    setSelection(added.selection);
+  }, [history.present, snap]);
+
+  const move = useCallback((position: Vector3) => {
+    if (selection) update(map => moveItem(map, selection, position, snap));
+  }, [selection, snap, update]);
+
+  const resize = useCallback((factor: Vector3) => {
+    if (selection) update(map => resizeItem(map, selection, factor, snap));
+  }, [selection, snap, update]);
+
+  const remove = useCallback(() => {
+    if (!selection) return;
+    update(map => removeItem(map, selection));
+    setSelection(null);
+  }, [selection, update]);
+
+  const duplicate = useCallback(() => {
+    if (!selection) return;
+    const copied = duplicateItem(history.present, selection, snap ?? 1);
+    setHistory(current => commitEdit(current, copied.map));
+    setSelection(copied.selection);
+  }, [history.present, selection, snap]);
+
+  // Selections point into lists that undo and redo can shorten
+  const undo = useCallback(() => {
+    setHistory(undoEdit);
+    setSelection(null);
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(redoEdit);
+    setSelection(null);
+  }, []);
+
+  const load = useCallback((map: GameMap) => {
+    setHistory(startHistory(map));
+    setSelection(null);
+  }, []);
+
+  useEffect(() => {
+    if (!active) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Leave typing in the panel's fields alone
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return;
+      const key = event.key.toLowerCase();
+      const command = event.ctrlKey || event.metaKey;
+
+      if (command && key === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) redo(); else undo();
+      } else if (command && key === 'y') {
+        event.preventDefault();
+        redo();
+      } else if (command && key === 'd') {
+        event.preventDefault();
+        duplicate();
+      } else if (key === 'delete' || key === 'backspace') {
+        remove();
+      } else if (key === 'g') {
+        setMode('translate');
+      } else if (key === 's' && !command) {
+        setMode('scale');
+      } else if (key === 'escape') {
+        setSelection(null);
+        setTool(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [active, undo, redo, duplicate, remove]);
+
+  return {
+    draft: history.present,
+    selection,
+    snap,
+    mode,
+    tool,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    select: setSelection,
+    setSnap,
+    setMode,
+    setTool,
+    add,
+    move,
+    resize,
+    remove,
+    duplicate,
+    update,
+    undo,
+    redo,
+    load
+  };
+};
@@ -0,0 +1,65 @@
+/**
+ * React hook for rendering a remote player from the snapshot interpolation buffer
+ */
+import { useRef, MutableRefObject } from 'react';
+import * as THREE from 'three';
+import { useFrame } from '@react-three/fiber';
+import snapshotInterpolation from '../network/SnapshotInterpolation';
+
+/**
+ * A remote player's transform for the current frame
+ */
+export interface RemoteTransform {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  // Heading only, for bodies and lights that should stay upright
+  yaw: number;
+  extrapolated: boolean;
+}
+
+const euler = new THREE.Euler();
+
+/**
+ * Sample the interpolation buffer for a remote player once per frame.
+ *
+ * The returned ref is updated in place, so read it from your own useFrame
+ * (registered after this hook) rather than during render. Until the first
+ * buffered update arrives it tracks the fallback position and yaw from props.
+ *
+ * @param playerId - The remote player's ID
+ * @param fallbackPosition - Position to use before any updates are buffered
+ * @param fallbackYaw - Heading to use before any updates are buffered
+ * @returns Ref to the interpolated transform
+ */
+export const useRemoteInterpolation = (
+  playerId: string,
+  fallbackPosition: THREE.Vector3 | undefined,
+  fallbackYaw: number | undefined
+): MutableRefObject<RemoteTransform> => {
+  const transform = useRef<RemoteTransform>({
+    position: new THREE.Vector3(fallbackPosition?.x || 0, fallbackPosition?.y || 0, fallbackPosition?.z || 0),
+    quaternion: new THREE.Quaternion().setFromAxisAngle(THREE.Object3D.DEFAULT_UP, fallbackYaw || 0),
+    yaw: fallbackYaw || 0,
+    extrapolated: false
+  });
+
+  useFrame(() => {
+    const current = transform.current;
+    const sampled = snapshotInterpolation.sample(playerId);
+
+    if (!sampled) {
+      if (fallbackPosition) current.position.copy(fallbackPosition);
+      current.yaw = fallbackYaw || 0;
+      current.quaternion.setFromAxisAngle(THREE.Object3D.DEFAULT_UP, current.yaw);
+      current.extrapolated = false;
+      return;
+    }
+
+    current.position.fromArray(sampled.position);
+    current.quaternion.fromArray(sampled.rotation);
+    current.yaw = euler.setFromQuaternion(current.quaternion, 'YXZ').y;
+    current.extrapolated = sampled.extrapolated;
+  });
+
+  return transform;
+};
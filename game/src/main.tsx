@@ -4,6 +4,7 @@ import App from './App';
 import './index.css';
 import { setupWPGameIntegration } from './utils/wpIntegration';
 import uiContainer from './utils/ui-container';
+import { DEFAULT_SESSION_KEY } from './network/protocol';
 
 // Import types from shared file
 import { JackalopesGameSettings, JackalopesGameOptions } from './types/wordpress';
@@ -272,7 +273,8 @@ export function initJackalopesGame(containerId: string, options: any = {}) {
     pluginUrl: options.pluginUrl || '',
     debug: options.debugMode || false,
     nonce: options.nonce || '',
-    sessionKey: options.sessionKey || localStorage.getItem('jackalopes_session_key') || 'WP-DEFAULT'
+    sessionKey: options.sessionKey || localStorage.getItem('jackalopes_session_key') || DEFAULT_SESSION_KEY,
+    sessionLocked: !!options.sessionKey
   };
   
   // Store container ID in a data attribute for reference
@@ -307,9 +309,8 @@ if (!window.jackalopesGameSettings && process.env.NODE_ENV === 'development') {
   const devContainer = document.getElementById('root');
   
   if (devContainer) {
-    // Generate a session key if not exists
-    const sessionKey = localStorage.getItem('jackalopes_session_key') || 'JACKALOPES-DEV';
-    localStorage.setItem('jackalopes_session_key', sessionKey);
+    // The last room joined from the lobby browser, if any
+    const sessionKey = localStorage.getItem('jackalopes_session_key') || DEFAULT_SESSION_KEY;
     
     // Simulated standalone initialization for development - use the full game App
     const root = ReactDOM.createRoot(devContainer);
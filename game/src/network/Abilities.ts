@@ -0,0 +1,71 @@
+import { JackalopeAbility } from '../types/game';
+
+/**
+ * How an ability behaves once used
+ */
+export interface AbilityDefinition {
+  name: string;
+  cooldownMs: number;
+  // How long it lasts (the dash's burst, the burrow, the decoy's run)
+  durationMs: number;
+  // Ground covered over the duration: the dash's length, the decoy's run
+  distance: number;
+}
+
+export const ABILITIES: Record<JackalopeAbility, AbilityDefinition> = {
+  dash: { name: 'Dash', cooldownMs: 4000, durationMs: 200, distance: 8 },
+  // Underground: nothing can hit it, but it can't move or attack either
+  burrow: { name: 'Burrow', cooldownMs: 10000, durationMs: 2500, distance: 0 },
+  decoy: { name: 'Decoy', cooldownMs: 12000, durationMs: 4000, distance: 28 }
+};
+
+export const JACKALOPE_ABILITIES = Object.keys(ABILITIES) as JackalopeAbility[];
+
+export const isJackalopeAbility = (value: unknown): value is JackalopeAbility =>
+  typeof value === 'string' && (JACKALOPE_ABILITIES as string[]).includes(value);
+
+export type AbilityUse =
+  | { ok: true; activeUntil: number }
+  | { ok: false; reason: string };
+
+/**
+ * When each player last used each ability.
+ *
+ * The authority keeps one to enforce cooldowns and to know who is burrowed;
+ * clients keep their own for the HUD, started when they press the key.
+ */
+export class AbilityTracker {
+  private usedAt: Map<string, Partial<Record<JackalopeAbility, number>>> = new Map();
+
+  use(playerId: string, ability: JackalopeAbility, now: number = Date.now()): AbilityUse {
+    const remaining = this.cooldownRemaining(playerId, ability, now);
+    if (remaining > 0) return { ok: false, reason: `${ability} is cooling down for ${remaining}ms` };
+    // Nothing else can be started from underground
+    if (this.isActive(playerId, 'burrow', now)) return { ok: false, reason: 'burrowed' };
+
+    this.usedAt.set(playerId, { ...this.usedAt.get(playerId), [ability]: now });
+    return { ok: true, activeUntil: now + ABILITIES[ability].durationMs };
+  }
+
+  isActive(playerId: string, ability: JackalopeAbility, now: number = Date.now()): boolean {
+    const usedAt = this.usedAt.get(playerId)?.[ability];
+    return usedAt !== undefined && now < usedAt + ABILITIES[ability].durationMs;
+  }
+
+  cooldownRemaining(playerId: string, ability: JackalopeAbility, now: number = Date.now()): number {
+    const usedAt = this.usedAt.get(playerId)?.[ability];
+    if (usedAt === undefined) return 0;
+    return Math.max(0, usedAt + ABILITIES[ability].cooldownMs - now);
+  }
+
+  /**
+   * Everything ready again, e.g. when a round goes live
+   */
+  reset(playerId: string): void {
+    this.usedAt.delete(playerId);
+  }
+
+  remove(playerId: string): void {
+    this.usedAt.delete(playerId);
+  }
+}
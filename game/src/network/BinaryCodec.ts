@@ -0,0 +1,543 @@
+/**
+ * Binary wire format for the messages that go out many times a second
+ *
+ * Once auth has settled on the `binary` codec, player_update (both ways) and
+ * game_snapshot deltas travel as ArrayBuffers; everything else stays JSON,
+ * as does everything on a connection that settled on `json`. Each frame
+ * starts with a tag byte naming the message. Numbers are quantized:
+ * - positions to 1/256 m in 24 bits (±32 km), velocities to 1/128 m/s in 16
+ * - rotations as "smallest three": the largest quaternion component is
+ *   dropped and rebuilt from the other three, sent in 10 bits each
+ * - sequences and timestamps as unsigned varints (7 bits per byte)
+ * - input yaw to 1/65536 of a turn, stick axes to 1/127, step lengths to 0.1 ms
+ */
+import type { ClientMessage, DecodeResult, PlayerUpdateBroadcast, ServerMessage } from './protocol';
+import type {
+  MovementInput,
+  PlayerSnapshotDelta,
+  PlayerState,
+  PlayerType,
+  Quaternion,
+  SequencedEvent,
+  SnapshotDelta,
+  Vector3
+} from '../types/game';
+
+/**
+ * A frame as it comes off a socket: an ArrayBuffer in browsers, a Buffer in Node
+ */
+export type BinaryFrame = ArrayBuffer | Uint8Array;
+
+const enum Tag {
+  ClientPlayerUpdate = 1,
+  ServerPlayerUpdate = 2,
+  GameSnapshot = 3
+}
+
+const POSITION_SCALE = 256;
+const VELOCITY_SCALE = 128;
+const HEALTH_SCALE = 10;
+const AXIS_SCALE = 127;
+const DELTA_SCALE = 10000;
+const ROTATION_BITS = 10;
+const ROTATION_STEPS = (1 << ROTATION_BITS) - 1;
+const TURN = Math.PI * 2;
+
+const INT24_MAX = 0x7fffff;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Little-endian writer that grows as needed
+ */
+class Writer {
+  private bytes = new Uint8Array(64);
+  private view = new DataView(this.bytes.buffer);
+  private length = 0;
+
+  uint8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  int8(value: number): void {
+    this.reserve(1);
+    this.view.setInt8(this.length, clamp(Math.round(value), -128, 127));
+    this.length += 1;
+  }
+
+  uint16(value: number): void {
+    this.reserve(2);
+    this.view.setUint16(this.length, clamp(Math.round(value), 0, 0xffff), true);
+    this.length += 2;
+  }
+
+  int16(value: number): void {
+    this.reserve(2);
+    this.view.setInt16(this.length, clamp(Math.round(value), -0x8000, 0x7fff), true);
+    this.length += 2;
+  }
+
+  int24(value: number): void {
+    const wrapped = clamp(Math.round(value), -INT24_MAX - 1, INT24_MAX) & 0xffffff;
+    this.uint8(wrapped & 0xff);
+    this.uint8((wrapped >> 8) & 0xff);
+    this.uint8((wrapped >> 16) & 0xff);
+  }
+
+  uint32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.length, value, true);
+    this.length += 4;
+  }
+
+  float32(value: number): void {
+    this.reserve(4);
+    this.view.setFloat32(this.length, value, true);
+    this.length += 4;
+  }
+
+  // Arithmetic rather than bit shifts, so values past 32 bits (Date.now()) survive
+  varint(value: number): void {
+    let rest = Math.max(0, Math.round(value));
+    while (rest >= 0x80) {
+      this.uint8((rest % 0x80) | 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    this.uint8(rest);
+  }
+
+  // Signed varint: 0, -1, 1, -2, ... map to 0, 1, 2, 3, ...
+  zigzag(value: number): void {
+    const rounded = Math.round(value);
+    this.varint(rounded >= 0 ? rounded * 2 : -rounded * 2 - 1);
+  }
+
+  string(value: string): void {
+    const encoded = textEncoder.encode(value);
+    this.varint(encoded.length);
+    this.reserve(encoded.length);
+    this.bytes.set(encoded, this.length);
+    this.length += encoded.length;
+  }
+
+  finish(): ArrayBuffer {
+    return this.bytes.slice(0, this.length).buffer;
+  }
+
+  private reserve(count: number): void {
+    if (this.length + count <= this.bytes.length) return;
+    const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + count));
+    grown.set(this.bytes);
+    this.bytes = grown;
+    this.view = new DataView(grown.buffer);
+  }
+}
+
+/**
+ * Reader over a frame; running off the end throws a RangeError
+ */
+class Reader {
+  private readonly view: DataView;
+  private readonly bytes: Uint8Array;
+  private offset = 0;
+
+  constructor(frame: BinaryFrame) {
+    this.bytes = frame instanceof Uint8Array ? frame : new Uint8Array(frame);
+    this.view = new DataView(this.bytes.buffer, this.bytes.byteOffset, this.bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.byteLength;
+  }
+
+  uint8(): number {
+    return this.view.getUint8(this.offset++);
+  }
+
+  int8(): number {
+    return this.view.getInt8(this.offset++);
+  }
+
+  uint16(): number {
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  int16(): number {
+    const value = this.view.getInt16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  int24(): number {
+    const value = this.uint8() | (this.uint8() << 8) | (this.uint8() << 16);
+    return value > INT24_MAX ? value - 0x1000000 : value;
+  }
+
+  uint32(): number {
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  float32(): number {
+    const value = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (let i = 0; i < 8; i++) {
+      const byte = this.uint8();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+    }
+    throw new RangeError('varint longer than 8 bytes');
+  }
+
+  zigzag(): number {
+    const value = this.varint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  string(): string {
+    const length = this.varint();
+    if (this.offset + length > this.bytes.byteLength) throw new RangeError('string runs past the end of the frame');
+    const value = textDecoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return value;
+  }
+}
+
+const writePosition = (writer: Writer, [x, y, z]: Vector3): void => {
+  writer.int24(x * POSITION_SCALE);
+  writer.int24(y * POSITION_SCALE);
+  writer.int24(z * POSITION_SCALE);
+};
+
+const readPosition = (reader: Reader): Vector3 =>
+  [reader.int24() / POSITION_SCALE, reader.int24() / POSITION_SCALE, reader.int24() / POSITION_SCALE];
+
+const writeVelocity = (writer: Writer, [x, y, z]: Vector3): void => {
+  writer.int16(x * VELOCITY_SCALE);
+  writer.int16(y * VELOCITY_SCALE);
+  writer.int16(z * VELOCITY_SCALE);
+};
+
+const readVelocity = (reader: Reader): Vector3 =>
+  [reader.int16() / VELOCITY_SCALE, reader.int16() / VELOCITY_SCALE, reader.int16() / VELOCITY_SCALE];
+
+/**
+ * Pack a rotation into 32 bits: which component is largest (2 bits), then
+ * the other three in 10 bits each. q and -q are the same rotation, so the
+ * largest is made positive and its square root rebuilt on the other side.
+ */
+const writeQuaternion = (writer: Writer, rotation: Quaternion): void => {
+  const length = Math.hypot(...rotation) || 1;
+  const unit = rotation.map(component => component / length);
+  let largest = 0;
+  for (let i = 1; i < 4; i++) {
+    if (Math.abs(unit[i]) > Math.abs(unit[largest])) largest = i;
+  }
+  const sign = unit[largest] < 0 ? -1 : 1;
+
+  let packed = largest;
+  for (let i = 0; i < 4; i++) {
+    if (i === largest) continue;
+    const scaled = (unit[i] * sign + Math.SQRT1_2) / (2 * Math.SQRT1_2);
+    packed = packed * (ROTATION_STEPS + 1) + clamp(Math.round(scaled * ROTATION_STEPS), 0, ROTATION_STEPS);
+  }
+  writer.uint32(packed);
+};
+
+const readQuaternion = (reader: Reader): Quaternion => {
+  let packed = reader.uint32();
+  const smallest: number[] = [];
+  for (let i = 0; i < 3; i++) {
+    const step = packed % (ROTATION_STEPS + 1);
+    smallest.unshift(step / ROTATION_STEPS * 2 * Math.SQRT1_2 - Math.SQRT1_2);
+    packed = Math.floor(packed / (ROTATION_STEPS + 1));
+  }
+  const largest = packed;
+  const rebuilt = Math.sqrt(Math.max(0, 1 - smallest.reduce((sum, component) => sum + component * component, 0)));
+  const rotation = [...smallest];
+  rotation.splice(largest, 0, rebuilt);
+  return rotation as Quaternion;
+};
+
+// Yaw as a fraction of a turn, read back into (-π, π]
+const writeYaw = (writer: Writer, yaw: number): void => {
+  const turned = ((yaw % TURN) + TURN) % TURN;
+  writer.uint16(Math.round(turned / TURN * 0x10000) % 0x10000);
+};
+
+const readYaw = (reader: Reader): number => {
+  const yaw = reader.uint16() / 0x10000 * TURN;
+  return yaw > Math.PI ? yaw - TURN : yaw;
+};
+
+const INPUT_BUTTONS = ['forward', 'backward', 'left', 'right', 'jump', 'sprint'] as const;
+
+// Sequences are sent as steps from the one before, which is usually 1
+const writeInputs = (writer: Writer, inputs: MovementInput[], after: number): void => {
+  writer.varint(inputs.length);
+  let previous = after;
+  for (const input of inputs) {
+    writer.zigzag(input.sequence - previous);
+    previous = input.sequence;
+    writer.uint8(INPUT_BUTTONS.reduce((bits, button, bit) => bits | (input[button] ? 1 << bit : 0), 0));
+    writer.int8(input.moveX * AXIS_SCALE);
+    writer.int8(input.moveY * AXIS_SCALE);
+    writeYaw(writer, input.yaw);
+    writer.uint16(input.delta * DELTA_SCALE);
+  }
+};
+
+const readInputs = (reader: Reader, after: number): MovementInput[] => {
+  const count = reader.varint();
+  const inputs: MovementInput[] = [];
+  let previous = after;
+  for (let i = 0; i < count; i++) {
+    const sequence = previous + reader.zigzag();
+    previous = sequence;
+    const buttons = reader.uint8();
+    const [forward, backward, left, right, jump, sprint] = INPUT_BUTTONS.map((_, bit) => (buttons & (1 << bit)) !== 0);
+    inputs.push({
+      sequence,
+      forward,
+      backward,
+      left,
+      right,
+      jump,
+      sprint,
+      moveX: reader.int8() / AXIS_SCALE,
+      moveY: reader.int8() / AXIS_SCALE,
+      yaw: readYaw(reader),
+      delta: reader.uint16() / DELTA_SCALE
+    });
+  }
+  return inputs;
+};
+
+const enum StateFlag {
+  Velocity = 1,
+  Inputs = 2,
+  Jumping = 4,
+  Running = 8,
+  Shooting = 16,
+  Flashlight = 32,
+  Health = 64,
+  Jackalope = 128
+}
+
+const writePlayerState = (writer: Writer, state: PlayerState): void => {
+  let flags = 0;
+  if (state.velocity) flags |= StateFlag.Velocity;
+  if (state.inputs) flags |= StateFlag.Inputs;
+  if (state.jumping) flags |= StateFlag.Jumping;
+  if (state.running) flags |= StateFlag.Running;
+  if (state.shooting) flags |= StateFlag.Shooting;
+  if (state.flashlightOn) flags |= StateFlag.Flashlight;
+  if (state.health !== undefined) flags |= StateFlag.Health;
+  if (state.playerType === 'jackalope') flags |= StateFlag.Jackalope;
+  writer.uint8(flags);
+
+  writer.varint(state.sequence);
+  writer.varint(state.timestamp);
+  writePosition(writer, state.position);
+  writeQuaternion(writer, state.rotation);
+  if (state.velocity) writeVelocity(writer, state.velocity);
+  if (state.inputs) writeInputs(writer, state.inputs, state.sequence);
+  if (state.health !== undefined) writer.uint16(Math.max(0, state.health) * HEALTH_SCALE);
+};
+
+const readPlayerState = (reader: Reader): PlayerState => {
+  const flags = reader.uint8();
+  const sequence = reader.varint();
+  const state: PlayerState = {
+    sequence,
+    timestamp: reader.varint(),
+    position: readPosition(reader),
+    rotation: readQuaternion(reader),
+    playerType: flags & StateFlag.Jackalope ? 'jackalope' : 'merc',
+    jumping: (flags & StateFlag.Jumping) !== 0,
+    running: (flags & StateFlag.Running) !== 0,
+    shooting: (flags & StateFlag.Shooting) !== 0,
+    flashlightOn: (flags & StateFlag.Flashlight) !== 0
+  };
+  if (flags & StateFlag.Velocity) state.velocity = readVelocity(reader);
+  if (flags & StateFlag.Inputs) state.inputs = readInputs(reader, sequence);
+  if (flags & StateFlag.Health) state.health = reader.uint16() / HEALTH_SCALE;
+  return state;
+};
+
+const enum BroadcastFlag {
+  PositionError = 1,
+  HasCorrection = 2,
+  Corrected = 4
+}
+
+const writeBroadcast = (writer: Writer, message: PlayerUpdateBroadcast): void => {
+  writer.string(message.id);
+  let flags = 0;
+  if (message.positionError !== undefined) flags |= BroadcastFlag.PositionError;
+  if (message.serverCorrection !== undefined) flags |= BroadcastFlag.HasCorrection;
+  if (message.serverCorrection) flags |= BroadcastFlag.Corrected;
+  writer.uint8(flags);
+  if (message.positionError !== undefined) writer.float32(message.positionError);
+  writePlayerState(writer, message.state);
+};
+
+const readBroadcast = (reader: Reader): PlayerUpdateBroadcast => {
+  const id = reader.string();
+  const flags = reader.uint8();
+  const positionError = flags & BroadcastFlag.PositionError ? reader.float32() : undefined;
+  return {
+    type: 'player_update',
+    id,
+    state: readPlayerState(reader),
+    positionError,
+    serverCorrection: flags & BroadcastFlag.HasCorrection ? (flags & BroadcastFlag.Corrected) !== 0 : undefined
+  };
+};
+
+const enum SnapshotFlag {
+  Position = 1,
+  Rotation = 2,
+  Velocity = 4,
+  Health = 8,
+  HasType = 16,
+  Jackalope = 32,
+  HasFlashlight = 64,
+  Flashlight = 128
+}
+
+// Each player says which fields follow. Events are rare and free-form, so
+// they ride along as JSON (or not at all); protocol.ts checks them as it would JSON.
+const writeSnapshotDelta = (writer: Writer, delta: SnapshotDelta): void => {
+  writer.varint(delta.sequence);
+  writer.varint(delta.timestamp);
+  // 0 marks a keyframe
+  writer.varint(delta.baseline === undefined ? 0 : delta.baseline + 1);
+  const players = Object.values(delta.players);
+  writer.varint(players.length);
+  for (const player of players) {
+    writer.string(player.id);
+    let flags = 0;
+    if (player.position) flags |= SnapshotFlag.Position;
+    if (player.rotation) flags |= SnapshotFlag.Rotation;
+    if (player.velocity) flags |= SnapshotFlag.Velocity;
+    if (player.health !== undefined) flags |= SnapshotFlag.Health;
+    if (player.playerType) flags |= SnapshotFlag.HasType;
+    if (player.playerType === 'jackalope') flags |= SnapshotFlag.Jackalope;
+    if (player.flashlightOn !== undefined) flags |= SnapshotFlag.HasFlashlight;
+    if (player.flashlightOn) flags |= SnapshotFlag.Flashlight;
+    writer.uint8(flags);
+    if (player.position) writePosition(writer, player.position);
+    if (player.rotation) writeQuaternion(writer, player.rotation);
+    if (player.velocity) writeVelocity(writer, player.velocity);
+    if (player.health !== undefined) writer.uint16(Math.max(0, player.health) * HEALTH_SCALE);
+  }
+  writer.varint(delta.removed.length);
+  delta.removed.forEach(id => writer.string(id));
+  writer.string(delta.events.length > 0 ? JSON.stringify(delta.events) : '');
+};
+
+const readSnapshotDelta = (reader: Reader): SnapshotDelta => {
+  const sequence = reader.varint();
+  const timestamp = reader.varint();
+  const baseline = reader.varint();
+  const count = reader.varint();
+  const players: Record<string, PlayerSnapshotDelta> = {};
+  for (let i = 0; i < count; i++) {
+    const player: PlayerSnapshotDelta = { id: reader.string() };
+    const flags = reader.uint8();
+    if (flags & SnapshotFlag.Position) player.position = readPosition(reader);
+    if (flags & SnapshotFlag.Rotation) player.rotation = readQuaternion(reader);
+    if (flags & SnapshotFlag.Velocity) player.velocity = readVelocity(reader);
+    if (flags & SnapshotFlag.Health) player.health = reader.uint16() / HEALTH_SCALE;
+    if (flags & SnapshotFlag.HasType) player.playerType = (flags & SnapshotFlag.Jackalope ? 'jackalope' : 'merc') as PlayerType;
+    if (flags & SnapshotFlag.HasFlashlight) player.flashlightOn = (flags & SnapshotFlag.Flashlight) !== 0;
+    players[player.id] = player;
+  }
+  const removed: string[] = [];
+  for (let i = reader.varint(); i > 0; i--) removed.push(reader.string());
+  const events = reader.string();
+
+  const delta: SnapshotDelta = {
+    sequence,
+    timestamp,
+    players,
+    removed,
+    events: events ? JSON.parse(events) as SequencedEvent[] : []
+  };
+  if (baseline > 0) delta.baseline = baseline - 1;
+  return delta;
+};
+
+/**
+ * Read a whole frame with `read`, turning truncated or overlong frames into failures
+ */
+const decodeFrame = <T>(frame: BinaryFrame, read: (tag: number, reader: Reader) => T | null): DecodeResult<T> => {
+  try {
+    const reader = new Reader(frame);
+    const tag = reader.uint8();
+    const value = read(tag, reader);
+    if (value === null) return { ok: false, error: `binary: unknown frame tag ${tag}` };
+    if (!reader.done) return { ok: false, error: 'binary: trailing bytes after message' };
+    return { ok: true, value, warnings: [] };
+  } catch (error) {
+    return { ok: false, error: `binary: ${(error as Error).message}` };
+  }
+};
+
+/**
+ * Encode a client message as a binary frame, or null if it has no binary form
+ */
+export const encodeBinaryClientMessage = (message: ClientMessage): ArrayBuffer | null => {
+  const writer = new Writer();
+  switch (message.type) {
+    case 'player_update':
+      writer.uint8(Tag.ClientPlayerUpdate);
+      writePlayerState(writer, message.state);
+      return writer.finish();
+    case 'game_snapshot':
+      writer.uint8(Tag.GameSnapshot);
+      writeSnapshotDelta(writer, message.delta);
+      return writer.finish();
+    default:
+      return null;
+  }
+};
+
+export const decodeBinaryClientMessage = (frame: BinaryFrame): DecodeResult<ClientMessage> =>
+  decodeFrame<ClientMessage>(frame, (tag, reader) => {
+    switch (tag) {
+      case Tag.ClientPlayerUpdate: return { type: 'player_update', state: readPlayerState(reader) };
+      case Tag.GameSnapshot: return { type: 'game_snapshot', delta: readSnapshotDelta(reader) };
+      default: return null;
+    }
+  });
+
+/**
+ * Encode a server message as a binary frame, or null if it has no binary form
+ */
+export const encodeBinaryServerMessage = (message: ServerMessage): ArrayBuffer | null => {
+  if (message.type !== 'player_update') return null;
+  const writer = new Writer();
+  writer.uint8(Tag.ServerPlayerUpdate);
+  writeBroadcast(writer, message);
+  return writer.finish();
+};
+
+export const decodeBinaryServerMessage = (frame: BinaryFrame): DecodeResult<ServerMessage> =>
+  decodeFrame<ServerMessage>(frame, (tag, reader) => tag === Tag.ServerPlayerUpdate ? readBroadcast(reader) : null);
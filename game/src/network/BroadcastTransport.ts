@@ -0,0 +1,224 @@
+import { EventEmitter } from 'events';
+import type { PlayerSocket } from '../../server/Session';
+import { Transport } from './Transport';
+
+/**
+ * Playing across browser tabs without a server: one tab runs the local
+ * GameServer and the others (itself included) connect to it over a
+ * BroadcastChannel, each through a BroadcastTransport standing in for the
+ * WebSocket. Whichever tab first holds the host lock hosts; when it closes,
+ * the next tab waiting for the lock starts a fresh server and everyone
+ * reconnects to it.
+ */
+
+// Channel tabs meet on unless a server URL names another, as in tabs://jackalopes-friday
+export const TAB_CHANNEL = 'jackalopes';
+
+const TAB_URL_SCHEME = 'tabs://';
+
+export const tabServerUrl = (channel: string = TAB_CHANNEL): string => `${TAB_URL_SCHEME}${channel}`;
+
+// The channel a tabs:// server URL names, or null for a real server
+export const tabChannelOf = (serverUrl: string): string | null =>
+  serverUrl.startsWith(TAB_URL_SCHEME) ? serverUrl.slice(TAB_URL_SCHEME.length) || TAB_CHANNEL : null;
+
+// Everything on the channel, addressed by the id each connecting tab picks for itself
+export type TabMessage =
+  // From a tab to the host
+  | { kind: 'connect' | 'disconnect'; tab: string }
+  | { kind: 'send'; tab: string; data: string | ArrayBuffer }
+  // From the host to one tab
+  | { kind: 'accept' | 'close'; tab: string }
+  | { kind: 'deliver'; tab: string; data: string | ArrayBuffer }
+  // From the host to every tab
+  | { kind: 'host_ready' | 'host_gone' };
+
+// The WebSocket readyState values
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+
+/**
+ * A tab's connection to the host tab, behaving as a WebSocket to it would.
+ * Until a host answers it stays CONNECTING, asking again whenever a new host
+ * announces itself.
+ */
+export class BroadcastTransport implements Transport {
+  readyState = CONNECTING;
+  // Frames arrive as they were posted, so this is only kept for the interface
+  binaryType: BinaryType = 'arraybuffer';
+  onopen: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  private channel: BroadcastChannel;
+  private tab = crypto.randomUUID();
+
+  constructor(channelName: string = TAB_CHANNEL) {
+    hostTabs(channelName);
+    this.channel = new BroadcastChannel(channelName);
+    this.channel.onmessage = ({ data }: MessageEvent<TabMessage>) => this.receive(data);
+    window.addEventListener('pagehide', this.handlePageHide);
+    this.post({ kind: 'connect', tab: this.tab });
+  }
+
+  send(data: string | ArrayBuffer): void {
+    if (this.readyState === OPEN) this.post({ kind: 'send', tab: this.tab, data });
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === CLOSED) return;
+    this.post({ kind: 'disconnect', tab: this.tab });
+    this.finish(code, reason);
+  }
+
+  private receive(message: TabMessage): void {
+    switch (message.kind) {
+      case 'host_ready':
+        if (this.readyState === CONNECTING) this.post({ kind: 'connect', tab: this.tab });
+        break;
+      case 'host_gone':
+        this.finish(1001, 'Host tab closed');
+        break;
+      case 'accept':
+        if (message.tab !== this.tab || this.readyState !== CONNECTING) break;
+        this.readyState = OPEN;
+        this.onopen?.(new Event('open'));
+        break;
+      case 'deliver':
+        if (message.tab === this.tab && this.readyState === OPEN) {
+          this.onmessage?.(new MessageEvent('message', { data: message.data }));
+        }
+        break;
+      case 'close':
+        if (message.tab === this.tab) this.finish(1000, 'Closed by host');
+        break;
+    }
+  }
+
+  private finish(code: number, reason: string): void {
+    if (this.readyState === CLOSED) return;
+    this.readyState = CLOSED;
+    this.channel.close();
+    window.removeEventListener('pagehide', this.handlePageHide);
+    this.onclose?.(new CloseEvent('close', { code, reason, wasClean: true }));
+  }
+
+  private post(message: TabMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  // Tell the host now rather than leave it to notice the silence
+  private handlePageHide = (): void => {
+    this.close(1001, 'Tab closed');
+  };
+}
+
+/**
+ * The host tab's end of one tab's connection, handed to the GameServer as if
+ * ws had accepted it
+ */
+class TabSocket extends EventEmitter implements PlayerSocket {
+  readyState = OPEN;
+
+  constructor(private post: (message: TabMessage) => void, readonly tab: string) {
+    super();
+  }
+
+  send(frame: string | ArrayBuffer): void {
+    if (this.readyState === OPEN) this.post({ kind: 'deliver', tab: this.tab, data: frame });
+  }
+
+  // Frames from the tab; text stays a string, which the server reads as it is
+  receive(data: string | ArrayBuffer): void {
+    if (this.readyState === OPEN) this.emit('message', data, typeof data !== 'string');
+  }
+
+  close(): void {
+    if (this.readyState === CLOSED) return;
+    this.post({ kind: 'close', tab: this.tab });
+    this.closed();
+  }
+
+  terminate(): void {
+    this.close();
+  }
+
+  // The tab went away; like ws, the server hears about it after the current call
+  closed(): void {
+    if (this.readyState === CLOSED) return;
+    this.readyState = CLOSED;
+    queueMicrotask(() => this.emit('close'));
+  }
+}
+
+// Channels this tab has offered to host, and those it's hosting
+const offeredChannels = new Set<string>();
+const hostedChannels = new Set<string>();
+const hostWatchers = new EventEmitter();
+
+// Whether this tab is running the local server for `channel`
+export const isHostingTabs = (channel: string = TAB_CHANNEL): boolean => hostedChannels.has(channel);
+
+/**
+ * Hear when this tab starts hosting; returns a function that stops listening
+ */
+export const watchTabHost = (listener: (channel: string) => void): (() => void) => {
+  hostWatchers.on('hosting', listener);
+  return () => {
+    hostWatchers.off('hosting', listener);
+  };
+};
+
+/**
+ * Offer this tab as host for `channelName`. The first tab to ask gets the
+ * lock and runs the server for as long as it's open; the rest wait in line.
+ */
+const hostTabs = (channelName: string): void => {
+  if (offeredChannels.has(channelName)) return;
+  offeredChannels.add(channelName);
+  if (!navigator.locks) {
+    console.warn('Web Locks are not available, so this tab cannot host a match across tabs');
+    return;
+  }
+  // Never settles, so the lock is held until the tab closes
+  navigator.locks.request(`${channelName}:host`, () => runHost(channelName).then(() => new Promise<void>(() => {})));
+};
+
+const runHost = async (channelName: string): Promise<void> => {
+  // Only the host tab loads the server
+  const { GameServer } = await import('../../server/GameServer');
+  const server = new GameServer({ quiet: true });
+  server.run();
+
+  const channel = new BroadcastChannel(channelName);
+  const post = (message: TabMessage) => channel.postMessage(message);
+  const sockets = new Map<string, TabSocket>();
+  channel.onmessage = ({ data: message }: MessageEvent<TabMessage>) => {
+    switch (message.kind) {
+      case 'connect': {
+        sockets.get(message.tab)?.closed();
+        const socket = new TabSocket(post, message.tab);
+        sockets.set(message.tab, socket);
+        socket.once('close', () => {
+          if (sockets.get(message.tab) === socket) sockets.delete(message.tab);
+        });
+        post({ kind: 'accept', tab: message.tab });
+        server.accept(socket);
+        break;
+      }
+      case 'send':
+        sockets.get(message.tab)?.receive(message.data);
+        break;
+      case 'disconnect':
+        sockets.get(message.tab)?.closed();
+        break;
+    }
+  };
+  window.addEventListener('pagehide', () => post({ kind: 'host_gone' }));
+
+  hostedChannels.add(channelName);
+  hostWatchers.emit('hosting', channelName);
+  // Tabs that asked before there was a host ask again
+  post({ kind: 'host_ready' });
+};
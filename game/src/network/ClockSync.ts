@@ -0,0 +1,167 @@
+export interface ClockSyncOptions {
+  // How many ping samples to keep
+  maxSamples?: number;
+  // Samples with a longer round trip than this are discarded outright
+  maxRoundTripMs?: number;
+  // Drift is only estimated once the samples span at least this long
+  minDriftWindowMs?: number;
+  // Clocks never drift faster than this (ms per ms); anything larger is noise
+  maxDrift?: number;
+}
+
+interface ClockSample {
+  // Local time the pong arrived
+  localTime: number;
+  roundTrip: number;
+  // Estimated server time minus local time
+  offset: number;
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * NTP-style estimate of the server's clock.
+ *
+ * Each ping/pong gives one sample: assuming the pong left the server halfway
+ * through the round trip, offset = serverTime - (sentAt + receivedAt) / 2.
+ * Round trips vary, and a slow one skews its sample, so only the faster half
+ * of recent samples is trusted and their median offset is used. A slope fitted
+ * over the window corrects for the two clocks running at slightly different
+ * rates between pings.
+ */
+export class ClockSync {
+  private samples: ClockSample[] = [];
+  private options: Required<ClockSyncOptions>;
+
+  // Current estimate: offset at `baseTime`, changing by `drift` per ms
+  private baseOffset = 0;
+  private baseTime = 0;
+  private drift = 0;
+  private roundTrip: number | null = null;
+
+  // getServerTime never runs backwards when the estimate is revised
+  private lastServerTime = 0;
+
+  constructor(options: ClockSyncOptions = {}) {
+    this.options = {
+      maxSamples: options.maxSamples ?? 16,
+      maxRoundTripMs: options.maxRoundTripMs ?? 5000,
+      minDriftWindowMs: options.minDriftWindowMs ?? 10000,
+      maxDrift: options.maxDrift ?? 0.001
+    };
+  }
+
+  /**
+   * Record a ping that was sent at `sentAt` (local time) and answered with
+   * `serverTime`. Returns false if the sample was discarded.
+   */
+  addSample(sentAt: number, serverTime: number, receivedAt: number = Date.now()): boolean {
+    const roundTrip = receivedAt - sentAt;
+    if (roundTrip < 0 || roundTrip > this.options.maxRoundTripMs || !Number.isFinite(serverTime)) {
+      return false;
+    }
+
+    this.samples.push({
+      localTime: receivedAt,
+      roundTrip,
+      offset: serverTime - (sentAt + receivedAt) / 2
+    });
+    if (this.samples.length > this.options.maxSamples) {
+      this.samples.shift();
+    }
+
+    this.update();
+    return true;
+  }
+
+  isSynced(): boolean {
+    return this.samples.length > 0;
+  }
+
+  /**
+   * Median round trip of recent pings, or null before the first one
+   */
+  getRoundTripTime(): number | null {
+    return this.roundTrip;
+  }
+
+  /**
+   * Server time minus local time at `localTime`; 0 until synced
+   */
+  getOffset(localTime: number = Date.now()): number {
+    return this.baseOffset + this.drift * (localTime - this.baseTime);
+  }
+
+  /**
+   * Estimated drift of the server clock relative to ours, in ms per ms
+   */
+  getDrift(): number {
+    return this.drift;
+  }
+
+  /**
+   * The server's clock right now. Falls back to the local clock until the
+   * first pong arrives.
+   */
+  getServerTime(): number {
+    const now = Date.now();
+    const serverTime = Math.round(now + this.getOffset(now));
+    this.lastServerTime = Math.max(this.lastServerTime, serverTime);
+    return this.lastServerTime;
+  }
+
+  /**
+   * Forget everything learned about the server's clock, for when we connect
+   * to a server afresh
+   */
+  reset(): void {
+    this.samples = [];
+    this.baseOffset = 0;
+    this.baseTime = 0;
+    this.drift = 0;
+    this.roundTrip = null;
+    this.lastServerTime = 0;
+  }
+
+  private update(): void {
+    const roundTrips = this.samples.map(sample => sample.roundTrip);
+    const medianRoundTrip = median(roundTrips);
+    this.roundTrip = medianRoundTrip;
+
+    // Samples at or below the median round trip were delayed least by queuing
+    const trusted = this.samples.filter(sample => sample.roundTrip <= medianRoundTrip);
+    this.baseOffset = median(trusted.map(sample => sample.offset));
+    this.baseTime = trusted.reduce((sum, sample) => sum + sample.localTime, 0) / trusted.length;
+    this.drift = this.estimateDrift(trusted);
+  }
+
+  // Least-squares slope of offset against local time
+  private estimateDrift(samples: ClockSample[]): number {
+    if (samples.length < 4) return 0;
+
+    const span = samples[samples.length - 1].localTime - samples[0].localTime;
+    if (span < this.options.minDriftWindowMs) return 0;
+
+    const meanTime = this.baseTime;
+    const meanOffset = samples.reduce((sum, sample) => sum + sample.offset, 0) / samples.length;
+    let covariance = 0;
+    let variance = 0;
+    samples.forEach(sample => {
+      covariance += (sample.localTime - meanTime) * (sample.offset - meanOffset);
+      variance += (sample.localTime - meanTime) ** 2;
+    });
+    if (variance === 0) return 0;
+
+    const slope = covariance / variance;
+    return Math.max(-this.options.maxDrift, Math.min(this.options.maxDrift, slope));
+  }
+}
+
+// Shared by everything in the client that needs to agree with the server on "now"
+export const clockSync = new ClockSync();
+
+export default clockSync;
@@ -1,5 +1,55 @@
 import { EventEmitter } from 'events';
 import entityStateObserver from './EntityStateObserver';
+import clockSync from './ClockSync';
+import networkSimulator from './NetworkSimulator';
+import snapshotInterpolation from './SnapshotInterpolation';
+import { HitAuthority } from './HitAuthority';
+import { DAMAGE_PROFILES, DEFAULT_HEALTH_OPTIONS, DEFAULT_WEAPON } from './Health';
+import { PlayerHistory } from './PlayerHistory';
+import { ReconciliationMetrics } from './InputPrediction';
+import { ROUND_RULES, RoundRules } from './RoundState';
+import { ScoreLedger } from './ScoreLedger';
+import { SnapshotEncoder } from './SnapshotDelta';
+import { SpawnChoice, SpawnSelector } from './Spawns';
+import { TrafficReport, TrafficStats, frameBytes } from './TrafficStats';
+import { Transport } from './Transport';
+import { BroadcastTransport, TAB_CHANNEL, tabChannelOf } from './BroadcastTransport';
+import { getMap, spawnMapOf } from '../game/maps';
+import { GameMap } from '../types/map';
+import {
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  CODEC_NEGOTIATION_VERSION,
+  DEFAULT_SESSION_KEY,
+  MAX_PLAYERS_PER_SESSION,
+  ClientMessage,
+  ServerMessage,
+  SessionSummary,
+  PlayerUpdateBroadcast,
+  InputAckMessage,
+  RemotePlayerState,
+  WIRE_CODECS,
+  WireCodec,
+  encodeClientMessage,
+  isProtocolCompatible,
+  parseServerMessage
+} from './protocol';
+import {
+  AbilityUsedEvent,
+  CaptureClaimEvent,
+  GameSnapshot,
+  HitReportEvent,
+  JackalopeAbility,
+  PlayerHitEvent,
+  PlayerShootEvent,
+  PlayerRespawnEvent,
+  MovementInput,
+  PlayerType,
+  ScoreEntry,
+  Vector3,
+  Quaternion,
+  RoundState
+} from '../types/game';
 
 // Debug level enum
 enum LogLevel {
@@ -12,35 +62,11 @@ enum LogLevel {
 }
 
 type GameState = {
-  players: Record<string, {
-    position: [number, number, number];
-    rotation: [number, number, number, number];
-    health: number;
-    playerType: 'merc' | 'jackalope';
-    flashlightOn: boolean;
-  }>;
+  players: Record<string, RemotePlayerState>;
 };
 
-// Game snapshot interface for state synchronization
-interface GameSnapshot {
-  timestamp: number;
-  sequence: number;
-  players: Record<string, PlayerSnapshot>;
-  events: any[];
-}
-
-interface PlayerSnapshot {
-  id: string;
-  position: [number, number, number];
-  rotation: [number, number, number, number];
-  velocity?: [number, number, number];
-  health: number;
-  playerType: 'merc' | 'jackalope';
-  flashlightOn: boolean;
-}
-
 export class ConnectionManager extends EventEmitter {
-  private socket: WebSocket | null = null;
+  private socket: Transport | null = null;
   private playerId: string | null = null;
   private isConnected = false;
   private reconnectInterval: number = 1000;
@@ -50,29 +76,23 @@ export class ConnectionManager extends EventEmitter {
   private reconnectTimeout: number | null = null;
   private keepAliveInterval: number | null = null;
   
-  // Add latency tracking properties
+  // Latency and server clock tracking (see ClockSync)
   private pingInterval: number | null = null;
-  private pingStartTime: number = 0;
+  private pingBurstTimeouts: number[] = [];
+  private pendingPings: Set<number> = new Set();
   private latency: number = 100; // Start with a reasonable default
-  private useServerPong: boolean = false; // Start with client-side estimation for compatibility
-  private pongReceived: boolean = false;
+  private missedPongs: number = 0;
   private offlineMode: boolean = false; // Track if we're in offline mode
   private connectionFailed: boolean = false; // Track if connection failed after attempts
+  private overTabs: boolean = false; // The dev server wasn't there, so a tab hosts instead (see BroadcastTransport)
   
-  // Reconciliation metrics for debugging
-  private _reconciliationMetrics = {
-    totalCorrections: 0,
-    averageError: 0,
-    lastError: 0,
-    lastCorrection: 0,
-    active: true
-  };
+  // Latest prediction metrics reported by the local player, for the debug overlay
+  private reconciliationMetrics: ReconciliationMetrics | null = null;
 
   // Logging level control
   private logLevel: LogLevel = LogLevel.INFO; // Default to INFO level
   
-  // Add playerCount to track connection order - initialize to -1 to make first player index 0
-  private static playerCount = -1;
+  // Our slot in the session, from join_success; orders players but no longer decides teams
   private playerIndex = -1;
   
   // For shot event tracking
@@ -80,6 +100,10 @@ export class ConnectionManager extends EventEmitter {
   
   // Store player character type
   private playerType: 'merc' | 'jackalope' = 'merc';
+  // Team the session put us on (null until it says); getPlayerCharacterType reads this
+  private assignedType: 'merc' | 'jackalope' | null = null;
+  // Team asked for in join_session; the server grants it if the teams stay even
+  private preferredType: 'merc' | 'jackalope' | null = null;
   
   // Add player name property for identification
   private playerName: string | null = null;
@@ -87,15 +111,53 @@ export class ConnectionManager extends EventEmitter {
   // Add this property near the other properties at the top of the class
   private lastErrorTime: number = 0; // Track the last time we emitted an error event
   
+  // Protocol version agreed with the server during the welcome/auth handshake
+  private serverProtocolVersion: number | null = null;
+  
+  // Issued at auth_success; presented when reconnecting to get the same player back
+  private resumeToken: string | null = null;
+  
+  // Frame encoding the server picked at auth_success; JSON until then, and with servers that don't pick
+  private codec: WireCodec = 'json';
+  private traffic = new TrafficStats();
+  // Game snapshots go out as deltas against the last one the server acknowledged,
+  // and only to servers that offered snapshot_deltas at auth
+  private snapshotEncoder = new SnapshotEncoder();
+  private snapshotDeltas: boolean = false;
+  // Players the server has stopped sending updates about, being out of sight and range (see Relevancy)
+  private dormantPlayers: string[] = [];
+  
+  // Room to join after auth: the page's pinned session, the last room picked in the lobby, or the shared default
+  private sessionKey: string = window.jackalopesGameSettings?.sessionKey
+    || localStorage.getItem('jackalopes_session_key')
+    || DEFAULT_SESSION_KEY;
+  private sessionInfo: { key: string; name: string; private: boolean } | null = null;
+  // Set while we're watching a full session; queuePosition is our place in line for a slot (1 = next)
+  private spectator: boolean = false;
+  private queuePosition: number = 0;
+  // The session's round as last announced; null until the server sends one
+  private roundState: RoundState | null = null;
+  // The session's scores, entry by entry, as the authority accepted them
+  private scoreLedger = new ScoreLedger();
+  // When we're the hit authority: players who scored or went down and haven't respawned since
+  private awaitingRespawn = new Set<string>();
+  // Our own health, as the authority last reported it
+  private health: number = DEFAULT_HEALTH_OPTIONS.maxHealth;
+  
+  // Whether the server validates hits itself; otherwise the first client does
+  private serverAuthoritative: boolean = false;
+  // Recent positions of every player, for lag-compensated hit checks and getSnapshotAtTime
+  private playerHistory = new PlayerHistory();
+  private hitAuthority = new HitAuthority({}, this.playerHistory);
+  private confirmedHits: Set<string> = new Set();
+  // The session's map; the default until the server names one
+  private map: GameMap = getMap();
+  // Picks respawn points when the server leaves it to us
+  private spawns = new SpawnSelector(spawnMapOf(this.map));
+  
   constructor(private serverUrl: string = 'ws://localhost:8082') {
     super();
     
-    // Don't reset the static player count here - we'll use localStorage instead
-    // for cross-browser coordination
-    
-    // Set up a storage event listener to track player count across tabs
-    window.addEventListener('storage', this.handleStorageEvent.bind(this));
-
     // Create a player ID for this session
     this.createPlayerId();
     
@@ -188,21 +250,25 @@ export class ConnectionManager extends EventEmitter {
     try {
       this.log(LogLevel.INFO, 'Connecting to WebSocket server at', this.serverUrl);
       
-      // Cleanup any existing socket first
+      // Cleanup any existing socket first. This is not disconnect(): that gives
+      // up our player, and a reconnect should resume it
       if (this.socket) {
-        this.disconnect();
+        this.stopPingInterval();
+        this.stopKeepAliveInterval();
+        this.closeSocket();
       }
       
       // Reset offline mode flag for new connection attempt
       this.offlineMode = false;
       this.connectionFailed = false;
+      this.overTabs = false;
       
       // Check for dev server reachability
       if (this.serverUrl.includes('localhost')) {
         this.log(LogLevel.INFO, 'Trying to connect to development server - checking availability first...');
         this.checkServerAvailability();
       } else {
-        this.createWebSocketConnection();
+        this.createConnection();
       }
     } catch (error) {
       this.log(LogLevel.ERROR, 'Error connecting to WebSocket server:', error);
@@ -238,36 +304,47 @@ export class ConnectionManager extends EventEmitter {
       clearTimeout(timeoutId);
       // If we can reach the domain, try the WebSocket connection
       this.log(LogLevel.INFO, `Domain ${domain} is reachable, attempting WebSocket connection...`);
-      this.createWebSocketConnection();
+      this.createConnection();
     })
     .catch((error) => {
       clearTimeout(timeoutId);
       
       // Don't log detailed fetch errors - they're noisy and not helpful
-      this.log(LogLevel.INFO, `Server ${domain} not available - using offline mode`);
+      this.log(LogLevel.INFO, `Server ${domain} not available - playing across tabs instead`);
       
       // Throttle server_unreachable events to avoid spamming
       if (!this.lastErrorTime || (Date.now() - this.lastErrorTime) > 10000) {
         this.lastErrorTime = Date.now();
-        this.connectionFailed = true;
-        this.offlineMode = true;
         this.emit('server_unreachable', { server: this.serverUrl });
-        setTimeout(() => this.forceReady(), 500);
       }
+      
+      // One of the open tabs runs the server for the rest
+      this.overTabs = true;
+      this.createConnection();
     });
     
     // Also set a short timeout in case fetch hangs
     setTimeout(() => {
-      if (!this.isConnected && !this.offlineMode) {
+      if (!this.isConnected && !this.offlineMode && !this.overTabs) {
         this.log(LogLevel.INFO, 'Server availability check timed out, creating WebSocket connection anyway...');
-        this.createWebSocketConnection();
+        this.createConnection();
       }
     }, 3000);
   }
   
-  private createWebSocketConnection(): void {
-    // Try to create the WebSocket with a timeout to handle hanging connections
-    this.socket = new WebSocket(this.serverUrl);
+  private createConnection(): void {
+    // Try to create the connection with a timeout to handle hanging connections.
+    // It goes through the network simulator, which passes frames straight on unless it's been told otherwise
+    const channel = this.overTabs ? TAB_CHANNEL : tabChannelOf(this.serverUrl);
+    this.socket = networkSimulator.wrap(channel ? new BroadcastTransport(channel) : new WebSocket(this.serverUrl));
+    // Binary frames (see BinaryCodec) arrive as ArrayBuffers rather than Blobs
+    this.socket.binaryType = 'arraybuffer';
+    // A new connection negotiates its codec and snapshots afresh, numbering them from the start
+    this.codec = 'json';
+    this.snapshotDeltas = false;
+    this.snapshotEncoder = new SnapshotEncoder();
+    // It may be another server altogether (a tab host, say), whose clock owes nothing to the last one's
+    clockSync.reset();
     
     // Set a timeout to handle cases where the connection hangs
     const connectionTimeout = setTimeout(() => {
@@ -313,11 +390,23 @@ export class ConnectionManager extends EventEmitter {
     };
     
     this.socket.onmessage = (event) => {
+      const result = parseServerMessage(event.data);
+      if (!result.ok) {
+        // Reject malformed messages rather than guessing at their contents
+        this.log(LogLevel.WARN, `Rejected malformed message from server: ${result.error}`);
+        this.emit('protocol_error', { error: result.error, data: event.data });
+        return;
+      }
+      
+      const bytes = frameBytes(event.data);
+      this.traffic.record('received', bytes, typeof event.data === 'string' ? bytes : JSON.stringify(result.value).length);
+      
+      result.warnings.forEach(warning => this.log(LogLevel.WARN, `Protocol warning: ${warning}`));
+      
       try {
-        const message = JSON.parse(event.data);
-        this.handleMessage(message);
+        this.handleMessage(result.value);
       } catch (error) {
-        this.log(LogLevel.ERROR, 'Error parsing message:', error);
+        this.log(LogLevel.ERROR, 'Error handling message:', error);
       }
     };
   }
@@ -332,28 +421,34 @@ export class ConnectionManager extends EventEmitter {
     // Stop keep-alive interval
     this.stopKeepAliveInterval();
     
-    if (this.socket) {
-      // Remove event listeners to prevent any callbacks after disconnect
-      this.socket.onopen = null;
-      this.socket.onclose = null;
-      this.socket.onerror = null;
-      this.socket.onmessage = null;
-      
-      // Only close if socket is not already closing or closed
-      if (this.socket.readyState === WebSocket.OPEN || this.socket.readyState === WebSocket.CONNECTING) {
-        this.socket.close();
-      }
-      this.socket = null;
-    }
+    this.closeSocket();
     
-    // Reset player index when disconnected - this ensures new character assignment on reconnect
+    // Leaving on purpose: the next connection is a new player with a new team
     this.playerIndex = -1;
+    this.assignedType = null;
+    this.resumeToken = null;
     
     this.isConnected = false;
     this.emit('disconnected');
     this.log(LogLevel.INFO, 'Disconnected from server');
   }
   
+  private closeSocket(): void {
+    if (!this.socket) return;
+    
+    // Remove event listeners to prevent any callbacks after disconnect
+    this.socket.onopen = null;
+    this.socket.onclose = null;
+    this.socket.onerror = null;
+    this.socket.onmessage = null;
+    
+    // Only close if socket is not already closing or closed
+    if (this.socket.readyState === WebSocket.OPEN || this.socket.readyState === WebSocket.CONNECTING) {
+      this.socket.close();
+    }
+    this.socket = null;
+  }
+  
   // Starts a keep-alive interval to maintain the connection
   private startKeepAliveInterval(): void {
     this.stopKeepAliveInterval();
@@ -378,23 +473,30 @@ export class ConnectionManager extends EventEmitter {
     }
   }
   
-  // Start measuring ping every 2 seconds
+  // Sync quickly with a burst of pings on connect, then ping every 2 seconds
   private startPingInterval(): void {
     this.stopPingInterval();
+    this.pendingPings.clear();
+    this.missedPongs = 0;
+    
+    for (let i = 0; i < 5; i++) {
+      this.pingBurstTimeouts.push(window.setTimeout(() => this.sendPing(), i * 100));
+    }
     
     this.pingInterval = window.setInterval(() => {
       if (this.isConnected) {
-        this.sendPing();
-        
-        // Check if we've received a pong since the last ping
-        if (!this.pongReceived && this.useServerPong) {
-          this.log(LogLevel.INFO, 'No pong received from server, switching to client-side latency estimation');
-          this.useServerPong = false;
+        // Anything still pending after 2 seconds isn't coming back
+        if (this.pendingPings.size > 0) {
+          this.missedPongs++;
+          this.pendingPings.clear();
+          if (this.missedPongs === 3) {
+            this.log(LogLevel.WARN, `No pong from server for ${this.missedPongs} pings, latency estimate is stale`);
+          }
         }
         
-        this.pongReceived = false;
+        this.sendPing();
       }
-    }, 2000); // Ping every 2 seconds
+    }, 2000);
   }
   
   // Stop the ping interval
@@ -403,57 +505,59 @@ export class ConnectionManager extends EventEmitter {
       clearInterval(this.pingInterval);
       this.pingInterval = null;
     }
+    this.pingBurstTimeouts.forEach(timeout => clearTimeout(timeout));
+    this.pingBurstTimeouts = [];
   }
   
-  // Send a ping message to measure latency
+  // Send a ping message; the server echoes the timestamp back with its own clock
   private sendPing(): void {
-    this.pingStartTime = Date.now();
+    if (!this.isConnected || this.offlineMode) return;
     
-    if (this.useServerPong) {
-      // Use a message that won't cause errors or side effects
-      // and that the server definitely can handle
-      this.send({
-        type: 'game_event',
-        event: 'ping',
-        timestamp: this.pingStartTime,
-        data: { type: 'ping' } // Include in a data field to avoid affecting game state
-      });
-    } else {
-      // For client-side estimation, just measure time to next server message
-      if (this.logLevel >= LogLevel.VERBOSE) {
-        this.log(LogLevel.INFO, 'Using client-side latency estimation');
-      }
-      
-      // Simulate a pong response after a brief delay
-      setTimeout(() => {
-        if (this.isConnected) {
-          // We don't have a real measurement but we can estimate
-          // based on connection stability
-          this.latency = 100; // Assume 100ms if we're connected
-          this.emit('latency_update', this.latency);
-          this.pongReceived = true;
-        }
-      }, 50);
-    }
+    const timestamp = Date.now();
+    this.pendingPings.add(timestamp);
+    this.send({ type: 'ping', timestamp });
   }
   
   // Handle a pong message from server
-  private handlePong(message: any): void {
-    const now = Date.now();
-    const roundTripTime = now - message.timestamp;
-    
-    // Calculate latency (half of round trip)
-    this.latency = Math.round(roundTripTime / 2);
-    this.pongReceived = true;
+  private handlePong(message: { timestamp: number; serverTime?: number }): void {
+    // Only pongs for pings we actually sent count
+    if (!this.pendingPings.delete(message.timestamp)) return;
+    this.missedPongs = 0;
     
-    // Only emit an update if we have a reasonable value
-    if (this.latency > 0 && this.latency < 10000) { // Ignore unreasonable values
-      this.emit('latency_update', this.latency);
+    const now = Date.now();
+    if (typeof message.serverTime === 'number') {
+      if (!clockSync.addSample(message.timestamp, message.serverTime, now)) {
+        this.log(LogLevel.DEBUG, `Discarded clock sample with round trip ${now - message.timestamp}ms`);
+        return;
+      }
+      this.latency = Math.round((clockSync.getRoundTripTime() ?? 0) / 2);
     } else {
-      // If we got an unreasonable value, use a fallback
-      this.latency = 100; // Default reasonable value
-      this.emit('latency_update', this.latency);
+      // Older servers don't report their clock, so only latency can be measured
+      this.latency = Math.round((now - message.timestamp) / 2);
     }
+    
+    this.emit('latency_update', this.latency);
+  }
+  
+  // The server's clock, as estimated from ping/pong; the local clock until the first pong.
+  // Use this rather than Date.now() for anything compared across clients.
+  getServerTime(): number {
+    return clockSync.getServerTime();
+  }
+  
+  // Whether getServerTime() is based on at least one pong
+  isClockSynced(): boolean {
+    return clockSync.isSynced();
+  }
+  
+  // Called by the local player after applying an input_ack
+  reportReconciliation(metrics: ReconciliationMetrics): void {
+    this.reconciliationMetrics = metrics;
+    this.emit('reconciliation_metrics', metrics);
+  }
+  
+  getReconciliationMetrics(): ReconciliationMetrics | null {
+    return this.reconciliationMetrics;
   }
   
   // Get the current latency estimate
@@ -474,40 +578,10 @@ export class ConnectionManager extends EventEmitter {
     this.log(LogLevel.INFO, '⚠️ Forcing offline mode for cross-browser communication');
     this.offlineMode = true;
     
-    // Generate a player index if not already assigned
+    // Without a server nobody hands out teams or slots; play what we asked for
     if (this.playerIndex === -1) {
-      try {
-        // Check if we need to reset the player count
-        const shouldReset = this.shouldResetPlayerCount();
-        
-        if (shouldReset) {
-          localStorage.setItem('jackalopes_player_count', '-1');
-          console.error('⭐ Reset player count due to inactivity');
-        }
-        
-        // Get the current highest player index from localStorage
-        let globalPlayerCount = parseInt(localStorage.getItem('jackalopes_player_count') || '-1');
-        
-        // Increment the count for this player
-        globalPlayerCount++;
-        
-        // Store the updated count back in localStorage
-        localStorage.setItem('jackalopes_player_count', globalPlayerCount.toString());
-        localStorage.setItem('jackalopes_last_activity', Date.now().toString());
-        
-        // Assign this player's index
-        this.playerIndex = globalPlayerCount;
-        
-        // Also update the static count to match (for in-tab consistency)
-        ConnectionManager.playerCount = globalPlayerCount;
-        
-        console.error(`⭐ FORCE READY: Assigned player index ${this.playerIndex} using localStorage coordination (assigned as ${this.playerIndex % 2 === 0 ? 'JACKALOPE' : 'MERC'})`);
-      } catch (e) {
-        // Fallback to static count if localStorage fails
-        ConnectionManager.playerCount++;
-        this.playerIndex = ConnectionManager.playerCount - 1;
-        console.error(`⭐ FORCE READY: Assigned player index ${this.playerIndex} using static count (localStorage failed)`);
-      }
+      this.playerIndex = 0;
+      this.applyTeamAssignment(this.preferredType ?? this.playerType, 'offline');
     }
     
     if (!this.playerId) {
@@ -537,10 +611,11 @@ export class ConnectionManager extends EventEmitter {
   
   // Update the sendPlayerUpdate method to include flashlight state
   sendPlayerUpdate(updateData: {
-    position: [number, number, number],
-    rotation: [number, number, number, number],
-    velocity?: [number, number, number],
+    position: Vector3,
+    rotation: Quaternion,
+    velocity?: Vector3,
     sequence?: number,
+    inputs?: MovementInput[], // Inputs applied since the last update, for server-side checks
     playerType?: 'merc' | 'jackalope', // Add optional playerType parameter
     flashlightOn?: boolean // Add optional flashlight state
   }): void {
@@ -548,10 +623,16 @@ export class ConnectionManager extends EventEmitter {
       this.log(LogLevel.WARN, 'Cannot send player update, WebSocket not ready');
       return;
     }
+    // Spectators have no body in the world
+    if (this.spectator) return;
     
     // Determine which playerType to send
     const typeToSend = updateData.playerType || this.playerType || 'merc';
     
+    if (this.playerId) {
+      this.hitAuthority.updatePlayer(this.playerId, { ...updateData, playerType: typeToSend }, this.getServerTime());
+    }
+    
     // Get flashlight state from global state if not provided
     const flashlightState = updateData.flashlightOn !== undefined ? 
       updateData.flashlightOn : 
@@ -570,9 +651,11 @@ export class ConnectionManager extends EventEmitter {
           position: updateData.position,
           rotation: updateData.rotation,
           velocity: updateData.velocity || [0, 0, 0],
-          sequence: updateData.sequence || Date.now(),
+          sequence: updateData.sequence ?? Date.now(),
+          inputs: updateData.inputs,
           playerType: typeToSend, // Use explicit or default playerType
-          flashlightOn: flashlightState // Include flashlight state
+          flashlightOn: flashlightState, // Include flashlight state
+          timestamp: this.getServerTime()
         }
       });
     } else {
@@ -597,32 +680,36 @@ export class ConnectionManager extends EventEmitter {
     }
   }
   
-  // Update sendShootEvent to use a compatible message format with the staging server
-  sendShootEvent(origin: [number, number, number], direction: [number, number, number]): void {
-    if (!this.isReadyToSend()) {
+  // Update sendShootEvent to use a compatible message format with the staging server.
+  // Returns the shot ID so the shooter can refer to it in a hit report.
+  // `weapon` picks the damage profile; the authority assumes a fireball without one.
+  sendShootEvent(origin: Vector3, direction: Vector3, weapon?: string): string | null {
+    if (!this.isReadyToSend() || !this.playerId) {
       this.log(LogLevel.WARN, 'Cannot send shoot event, WebSocket not ready');
-      return;
+      return null;
     }
+    if (this.spectator) return null;
     
     // Generate a unique ID for this shot based on timestamp and random number
     const shotId = `shot-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
     // Create shot data
-    const shotData = {
-      type: 'game_event',
-      event: {
-        event_type: 'player_shoot',
-        shotId,
-        origin,
-        direction,
-        player_id: this.playerId,
-        timestamp: Date.now(),
-        playerType: this.playerType // Include player type with shot
-      }
+    const event: PlayerShootEvent = {
+      event_type: 'player_shoot',
+      shotId,
+      origin,
+      direction,
+      player_id: this.playerId,
+      timestamp: this.getServerTime(),
+      playerType: this.playerType, // Include player type with shot
+      weapon,
+      latency: this.getLatency() // Lets the authority rewind targets to what we saw
     };
+    const shotData: ClientMessage = { type: 'game_event', event };
     
     // Save this shot ID to our tracking
     this.lastShotEvents[shotId] = Date.now();
+    this.hitAuthority.recordShot(event, this.getServerTime());
     
     // Log the shot for debugging
     this.log(LogLevel.DEBUG, 'Sending shot event:', shotId);
@@ -630,16 +717,195 @@ export class ConnectionManager extends EventEmitter {
     // Broadcast the shot data to server
     this.send(shotData);
     
-    // Also broadcast via localStorage for cross-browser testing
-    // Only if we're in a testing/demo environment (localhost)
-    if (window.location.hostname === 'localhost') {
-      this.broadcastViaLocalStorage(shotData);
+    return shotId;
+  }
+  
+  // Report that one of our shots hit another player. Nothing happens locally
+  // until the authority confirms it with a player_hit event.
+  sendHitReport(shotId: string, targetId: string, hitPosition: Vector3): void {
+    if (!this.isReadyToSend() || !this.playerId) {
+      this.log(LogLevel.WARN, 'Cannot send hit report, WebSocket not ready');
+      return;
+    }
+    if (this.spectator) return;
+    
+    const event: HitReportEvent = {
+      event_type: 'hit_report',
+      shotId,
+      player_id: this.playerId,
+      target_id: targetId,
+      hitPosition,
+      timestamp: this.getServerTime()
+    };
+    
+    this.log(LogLevel.INFO, `🎯 Reporting hit on ${targetId} with shot ${shotId}`);
+    
+    if (this.isHitAuthority()) {
+      this.resolveHitReport(event);
+    } else {
+      this.send({ type: 'game_event', event });
+    }
+  }
+  
+  // Tell the server we reached a rabbit hole. It decides whether that's a point,
+  // and everyone (us included) hears about it as a score_entry.
+  sendCaptureClaim(holeId: string, position?: Vector3): void {
+    if (!this.isReadyToSend() || !this.playerId || this.spectator) return;
+    
+    const event: CaptureClaimEvent = {
+      event_type: 'capture_claim',
+      player_id: this.playerId,
+      holeId,
+      claimId: `capture_${this.playerId}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      position,
+      timestamp: this.getServerTime()
+    };
+    
+    this.log(LogLevel.INFO, `🐰 Claiming a capture at ${holeId}`);
+    if (this.isHitAuthority()) {
+      this.resolveCaptureClaim(event);
+    } else {
+      this.send({ type: 'game_event', event });
     }
   }
+  
+  // Use a jackalope ability. Our own tracker keeps the cooldowns for the HUD (and
+  // burrows for hit checks when we are the authority); returns null when it isn't ready.
+  sendAbility(ability: JackalopeAbility, position: Vector3, direction?: Vector3): string | null {
+    if (!this.playerId || this.spectator || this.playerType !== 'jackalope') return null;
+    
+    const used = this.hitAuthority.abilities.use(this.playerId, ability, this.getServerTime());
+    if (!used.ok) {
+      this.log(LogLevel.DEBUG, `Can't use ${ability}: ${used.reason}`);
+      return null;
+    }
+    
+    const event: AbilityUsedEvent = {
+      event_type: 'ability_used',
+      player_id: this.playerId,
+      ability,
+      abilityId: `${ability}_${this.playerId}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      position,
+      direction,
+      timestamp: this.getServerTime()
+    };
+    
+    this.log(LogLevel.INFO, `✨ Using ${ability}`);
+    if (this.isReadyToSend() && !this.offlineMode) {
+      this.send({ type: 'game_event', event });
+    }
+    this.emit('ability_used', event);
+    return event.abilityId;
+  }
+  
+  // Milliseconds until one of our abilities can be used again
+  getAbilityCooldown(ability: JackalopeAbility): number {
+    if (!this.playerId) return 0;
+    return this.hitAuthority.abilities.cooldownRemaining(this.playerId, ability, this.getServerTime());
+  }
+  
+  // Whether this client validates hit reports: only when the server doesn't,
+  // and then only the first client so there is a single source of truth
+  isHitAuthority(): boolean {
+    if (this.offlineMode) return true;
+    return !this.serverAuthoritative && this.isFirstClient();
+  }
+  
+  // Authority side: validate a claim and broadcast the outcome
+  private resolveHitReport(report: HitReportEvent): void {
+    const result = this.hitAuthority.validate(report, this.getServerTime());
+    if (!result.ok) {
+      this.log(LogLevel.INFO, `🎯 Rejected hit on ${report.target_id} by ${report.player_id}: ${result.reason}`);
+      this.emit('hit_rejected', { report, reason: result.reason });
+      return;
+    }
+    
+    this.applyConfirmedHit(result.hit);
+    if (!this.offlineMode) {
+      this.send({ type: 'game_event', event: result.hit });
+    }
+    // Finishing someone off is a point for the killer's team
+    const team = this.teamOf(report.player_id);
+    if (result.hit.killed && team) {
+      this.score({
+        id: `kill:${report.shotId}`,
+        kind: 'kill',
+        team,
+        playerId: report.player_id,
+        targetId: report.target_id,
+        shotId: report.shotId
+      });
+    }
+  }
+  
+  // Authority side: a jackalope reaching a rabbit hole on this map is a point
+  private resolveCaptureClaim(claim: CaptureClaimEvent): void {
+    if (this.teamOf(claim.player_id) !== 'jackalope') {
+      this.log(LogLevel.INFO, `🐰 Rejected capture by ${claim.player_id}: not a jackalope`);
+      return;
+    }
+    if (!this.map.scoringZones.some(zone => zone.id === claim.holeId)) {
+      this.log(LogLevel.INFO, `🐰 Rejected capture by ${claim.player_id}: ${this.map.id} has no ${claim.holeId}`);
+      return;
+    }
+    this.score({
+      id: `capture:${claim.claimId}`,
+      kind: 'capture',
+      team: 'jackalope',
+      playerId: claim.player_id,
+      holeId: claim.holeId
+    });
+  }
+  
+  // Authority side, when the server leaves scoring to us: put a point in the
+  // ledger by the server's rules and pass it on to everyone else
+  private score(scored: Omit<ScoreEntry, 'round' | 'timestamp'>): void {
+    const ended = scored.kind === 'kill' ? scored.targetId! : scored.playerId;
+    if (!this.getRoundRules().scoring || this.awaitingRespawn.has(ended)) return;
+    
+    const entry: ScoreEntry = { ...scored, round: this.roundState?.round ?? 0, timestamp: this.getServerTime() };
+    if (!this.recordScoreEntry(entry)) return;
+    this.awaitingRespawn.add(ended);
+    if (!this.offlineMode) {
+      this.send({ type: 'game_event', event: { event_type: 'score_entry', entry, timestamp: entry.timestamp } });
+    }
+  }
+  
+  private recordScoreEntry(entry: ScoreEntry): boolean {
+    if (!this.scoreLedger.record(entry)) return false;
+    this.emit('score_entry', entry);
+    this.emit('score_ledger', this.scoreLedger);
+    return true;
+  }
+  
+  private teamOf(playerId: string): PlayerType | null {
+    if (playerId === this.playerId) return this.playerType;
+    return this.gameState.players[playerId]?.playerType ?? null;
+  }
+  
+  // A hit has been confirmed by the authority - let the game react exactly once
+  private applyConfirmedHit(hit: PlayerHitEvent): void {
+    const hitKey = hit.shotId ?? `${hit.player_id}-${hit.hit_by}-${hit.timestamp}`;
+    if (this.confirmedHits.has(hitKey)) return;
+    this.confirmedHits.add(hitKey);
+    
+    // Keep the set from growing without bound over a long session
+    if (this.confirmedHits.size > 200) {
+      this.confirmedHits = new Set(Array.from(this.confirmedHits).slice(-100));
+    }
+    
+    this.log(LogLevel.INFO, `🎯 Hit confirmed: ${hit.hit_by} hit ${hit.player_id} for ${hit.damage}${hit.killed ? ' (killed)' : ''}`);
+    if (hit.player_id === this.playerId && hit.health !== undefined) {
+      this.setHealth(hit.health);
+    }
+    this.emit('game_event', hit);
+  }
 
   // Send a respawn request for a player (usually a jackalope hit by a projectile)
-  sendRespawnRequest(playerId: string, spawnPosition?: [number, number, number]): void {
-    if (!this.isReadyToSend()) {
+  // Ask for a player (usually us) to come back into play. Where is up to the
+  // server in its sessions; when it only relays, we pick the spot by the same rules.
+  sendRespawnRequest(playerId: string): void {
+    if (!this.isReadyToSend() || !this.playerId) {
       this.log(LogLevel.WARN, 'Cannot send respawn request, WebSocket not ready');
       return;
     }
@@ -647,38 +913,53 @@ export class ConnectionManager extends EventEmitter {
     // Generate a unique ID for this respawn based on timestamp and random number
     const respawnId = `respawn-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
-    // Set default position if not provided
-    const defaultPosition: [number, number, number] = [-100, 3, 10];
+    const spawn = this.serverAuthoritative ? null : this.chooseSpawn(playerId);
     
     // Create respawn event data
-    const respawnData = {
-      type: 'game_event',
-      event: {
-        event_type: 'player_respawn',
-        respawnId,
-        player_id: playerId, // The player who needs to respawn
-        requestedBy: this.playerId, // Who requested the respawn
-        timestamp: Date.now(),
-        // Include spawn position if provided, otherwise use default
-        spawnPosition: spawnPosition || defaultPosition
-      }
+    const event: PlayerRespawnEvent = {
+      event_type: 'player_respawn',
+      respawnId,
+      player_id: playerId, // The player who needs to respawn
+      requestedBy: this.playerId, // Who requested the respawn
+      timestamp: this.getServerTime(),
+      ...(spawn && { spawnPosition: spawn.position, protectedUntil: spawn.protectedUntil })
     };
+    const respawnData: ClientMessage = { type: 'game_event', event };
+    
+    this.log(LogLevel.INFO, `Sending respawn request for player ${playerId}, ID: ${respawnId}${spawn ? `, at ${spawn.pointId}` : ''}`);
     
-    this.log(LogLevel.INFO, `Sending respawn request for player ${playerId}, ID: ${respawnId}, position: ${respawnData.event.spawnPosition.join(',')}`);
+    // Our own request may never come back to us (offline, or a relay that skips the sender)
+    if (this.isHitAuthority()) {
+      this.awaitingRespawn.delete(playerId);
+    }
     
     // Send to server
     this.send(respawnData);
-    
-    // Also broadcast via localStorage for cross-browser testing
-    if (window.location.hostname === 'localhost') {
-      this.broadcastViaLocalStorage(respawnData);
-    }
   }
 
-  private send(data: any): void {
+  // Relay-only sessions: pick a spawn point away from the enemies we know about
+  private chooseSpawn(playerId: string): SpawnChoice | null {
+    const players = this.getPlayers();
+    const team = playerId === this.playerId ? this.playerType : players[playerId]?.playerType;
+    if (!team) return null;
+    
+    const enemies: Vector3[] = [];
+    Object.entries(players).forEach(([id, state]) => {
+      if (id !== playerId && state.playerType !== team && !this.hitAuthority.health.isDead(id)) {
+        enemies.push(state.position);
+      }
+    });
+    const self = this.playerId ? this.hitAuthority.history.latest(this.playerId) : null;
+    if (self && playerId !== this.playerId && this.playerType !== team) {
+      enemies.push(self.position);
+    }
+    return this.spawns.choose(playerId, team, enemies, this.getServerTime());
+  }
+  
+  private send(data: ClientMessage): void {
     // Check if we're in offline mode
     if (this.offlineMode) {
-      this.log(LogLevel.INFO, 'In offline mode, using localStorage broadcast for', data.type);
+      this.log(LogLevel.INFO, 'In offline mode, only showing locally:', data.type);
       
       if (data.type === 'game_event' && data.event.event_type === 'player_shoot') {
         // Handle shot events through the global handler if available
@@ -702,44 +983,26 @@ export class ConnectionManager extends EventEmitter {
       return;
     }
     
+    // Snapshots repeat our events until the server has one; the number lets it take each once
+    if (data.type === 'game_event' && this.snapshotDeltas) {
+      data = { ...data, sequence: this.snapshotEncoder.queue(data.event) };
+    }
+    
     try {
       if (data.type !== 'player_update' || this.logLevel >= LogLevel.VERBOSE) {
         this.log(LogLevel.DEBUG, `Sending data to server (${data.type})`);
       }
-      this.socket.send(JSON.stringify(data));
+      const frame = encodeClientMessage(data, this.codec);
+      this.socket.send(frame);
+      const bytes = frameBytes(frame);
+      this.traffic.record('sent', bytes, typeof frame === 'string' ? bytes : frameBytes(encodeClientMessage(data)));
+      this.emit('message_sent', data);
     } catch (e) {
       this.log(LogLevel.ERROR, 'Failed to send data:', e);
     }
   }
   
-  // Utility to broadcast messages via localStorage for cross-browser testing
-  private broadcastViaLocalStorage(data: any): void {
-    try {
-      // Create a storage-friendly version of the data
-      const storageData = {
-        ...data,
-        timestamp: Date.now(),
-        sender: this.playerId
-      };
-      
-      // Use a unique key each time to ensure the storage event triggers
-      const key = `jackalopes_broadcast_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      // Stringify and store
-      localStorage.setItem(key, JSON.stringify(storageData));
-      
-      // Clean up after a delay (to ensure other tabs have time to process)
-      setTimeout(() => {
-        localStorage.removeItem(key);
-      }, 1000);
-      
-      this.log(LogLevel.DEBUG, `Broadcasted via localStorage: ${data.type}`, key);
-    } catch (error) {
-      this.log(LogLevel.ERROR, 'Failed to broadcast via localStorage:', error);
-    }
-  }
-
-  private handleMessage(message: any): void {
+  private handleMessage(message: ServerMessage): void {
     this.log(LogLevel.INFO, `Received message from server (${message.type}):`, message);
     this.emit('message_received', message);
     
@@ -751,13 +1014,6 @@ export class ConnectionManager extends EventEmitter {
       this.emit('connected');
     }
     
-    // Use any server response for latency calculation if we're waiting for one
-    // and we haven't already processed a pong recently
-    if (this.pingStartTime > 0 && !this.pongReceived) {
-      this.handlePong({ timestamp: this.pingStartTime });
-      this.pingStartTime = 0;
-    }
-    
     switch (message.type) {
       case 'connection':
         this.playerId = message.id;
@@ -767,7 +1023,11 @@ export class ConnectionManager extends EventEmitter {
         break;
         
       case 'welcome':
-        this.log(LogLevel.INFO, 'Received welcome message from server');
+        this.log(LogLevel.INFO, `Received welcome message from server (protocol v${message.protocolVersion})`);
+        if (message.protocolVersion < MIN_PROTOCOL_VERSION) {
+          this.handleProtocolMismatch(message.protocolVersion);
+          break;
+        }
         // Server is up, but we still need to authenticate
         if (!this.playerId) {
           this.initializeSession();
@@ -778,126 +1038,476 @@ export class ConnectionManager extends EventEmitter {
         // Critical handler for game events from server
         this.log(LogLevel.INFO, '🎮 Game event received:', message);
         
-        // Forward the event to listeners
-        if (message.event) {
-          // Add extra debugging for respawn events
-          if (message.event.event_type === 'player_respawn') {
-            this.log(LogLevel.INFO, '🔄 RESPAWN EVENT RECEIVED:', {
-              respawnPlayerId: message.event.player_id,
-              requestedBy: message.event.requestedBy,
-              spawnPosition: message.event.spawnPosition,
-              localPlayerId: this.playerId
+        // Add extra debugging for respawn events
+        if (message.event.event_type === 'player_respawn') {
+          this.log(LogLevel.INFO, '🔄 RESPAWN EVENT RECEIVED:', {
+            respawnPlayerId: message.event.player_id,
+            requestedBy: message.event.requestedBy,
+            spawnPosition: message.event.spawnPosition,
+            localPlayerId: this.playerId
+          });
+        }
+        
+        if (message.event.event_type === 'player_respawn') {
+          this.hitAuthority.respawnPlayer(message.event.player_id, message.event.protectedUntil);
+          this.awaitingRespawn.delete(message.event.player_id);
+          if (message.event.player_id === this.playerId) {
+            this.setHealth(DEFAULT_HEALTH_OPTIONS.maxHealth);
+          }
+        }
+        
+        // Our own abilities were already tracked and announced when we used them
+        if (message.event.event_type === 'ability_used' && message.event.player_id !== this.playerId) {
+          this.hitAuthority.abilities.use(message.event.player_id, message.event.ability, this.getServerTime());
+          this.emit('ability_used', message.event);
+        }
+        
+        if (message.event.event_type === 'hit_report') {
+          // Claims are only meaningful to the authority
+          if (this.isHitAuthority()) {
+            this.resolveHitReport(message.event);
+          }
+          break;
+        }
+        
+        if (message.event.event_type === 'player_hit') {
+          this.applyConfirmedHit(message.event);
+          break;
+        }
+        
+        // Without a scoring server, captures are the hit authority's to judge
+        if (message.event.event_type === 'capture_claim') {
+          if (this.isHitAuthority()) {
+            this.resolveCaptureClaim(message.event);
+          }
+          break;
+        }
+        
+        // Only a server that leaves scoring to the clients passes these on
+        if (message.event.event_type === 'score_entry') {
+          if (!this.serverAuthoritative) {
+            this.recordScoreEntry(message.event.entry);
+          }
+          break;
+        }
+        
+        // Remote shots also go to the 'shot' listeners that draw them (melee has nothing to draw)
+        if (message.event.event_type === 'player_shoot' && message.event.player_id !== this.playerId) {
+          this.hitAuthority.recordShot(message.event, this.getServerTime());
+          if (DAMAGE_PROFILES[message.event.weapon ?? DEFAULT_WEAPON]?.visible !== false) {
+            this.emit('shot', {
+              id: message.event.player_id,
+              shotId: message.event.shotId,
+              origin: message.event.origin,
+              direction: message.event.direction,
+              weapon: message.event.weapon,
+              timestamp: message.event.timestamp
             });
           }
-          
-          // Forward the event to game_event listeners
-          this.emit('game_event', message.event);
         }
+        
+        // Forward the event to game_event listeners
+        this.emit('game_event', message.event);
         break;
         
       case 'auth_success':
-      case 'join_success':
-        this.log(LogLevel.INFO, 'Authentication/join successful');
-        if (message.player && message.player.id) {
-          this.playerId = message.player.id;
-          this.log(LogLevel.INFO, '📣 AUTH_SUCCESS: Set player ID to', this.playerId);
-          if (message.session) {
-            this.log(LogLevel.INFO, 'Joined session:', message.session.id);
-            // Add more detailed session diagnostics
-            this.log(LogLevel.INFO, '📊 Session diagnostics:', {
-              requestedSession: 'JACKALOPES-TEST-SESSION',
-              assignedSession: message.session.id,
-              sessionKey: message.session.key,
-              playerCount: message.playerCount || 'unknown'
-            });
+        if (!isProtocolCompatible(message.protocolVersion)) {
+          this.handleProtocolMismatch(message.protocolVersion);
+          break;
+        }
+        this.serverProtocolVersion = message.protocolVersion;
+        this.serverAuthoritative = message.authoritative === true;
+        this.codec = message.protocolVersion >= CODEC_NEGOTIATION_VERSION ? message.codec ?? 'json' : 'json';
+        this.snapshotDeltas = message.capabilities?.includes('snapshot_deltas') ?? false;
+        this.log(LogLevel.INFO, `Authentication successful (protocol v${message.protocolVersion}, ${this.codec}${this.serverAuthoritative ? ', authoritative' : ''})`);
+        if (message.resumed) {
+          // Same player as before the drop: keep our team rather than re-deriving it
+          if (message.playerIndex !== undefined) {
+            this.playerIndex = message.playerIndex;
           }
-          // Explicitly set connected state to true on successful auth
-          this.isConnected = true;
-          this.emit('initialized', { id: this.playerId, gameState: this.gameState });
-          
-          // After initialization, immediately log connection state for debugging
-          this.log(LogLevel.INFO, '📣 Connection state after auth success:', this.isReadyToSend(), {
-            isConnected: this.isConnected,
-            playerId: this.playerId,
-            socketReady: this.socket?.readyState === WebSocket.OPEN
+          if (message.playerType) {
+            this.applyTeamAssignment(message.playerType, 'resume');
+          }
+          this.log(LogLevel.INFO, `🔁 Resumed as ${message.player.id} (#${this.playerIndex})`);
+        } else if (this.resumeToken) {
+          this.log(LogLevel.WARN, `Could not resume ${this.playerId}, continuing as ${message.player.id}`);
+        }
+        this.resumeToken = message.resumeToken ?? null;
+        this.handleSessionJoined(message.player.id);
+        if (message.resumed) {
+          this.emit('session_resumed', { id: message.player.id, playerIndex: this.playerIndex });
+        }
+        
+        // We received auth_success but not join_success yet, so join the session
+        this.log(LogLevel.INFO, 'Auth successful, joining session...');
+        this.send({
+          type: 'join_session',
+          playerName: message.player.id, // Use player ID as name
+          sessionKey: this.sessionKey,
+          playerType: this.preferredType ?? undefined
+        });
+        break;
+        
+      case 'join_success':
+        this.log(LogLevel.INFO, 'Join successful');
+        if (message.player) {
+          this.handleSessionJoined(message.player.id);
+        }
+        if (message.playerIndex !== undefined) {
+          this.playerIndex = message.playerIndex;
+        }
+        // Sent again without asking when a spectator is given a free slot
+        this.setSpectator(message.spectator === true, message.queuePosition ?? 0);
+        if (message.playerType) {
+          this.applyTeamAssignment(message.playerType, 'join');
+        } else if (message.spectator !== true) {
+          // Relay servers don't hand out teams, so we play the one we asked for
+          const fallback = this.preferredType ?? this.playerType;
+          this.log(LogLevel.WARN, `Server assigned no team, playing ${fallback}`);
+          this.applyTeamAssignment(fallback, 'unassigned');
+        }
+        if (message.session) {
+          this.log(LogLevel.INFO, 'Joined session:', message.session.id);
+          // Add more detailed session diagnostics
+          this.log(LogLevel.INFO, '📊 Session diagnostics:', {
+            requestedSession: this.sessionKey,
+            assignedSession: message.session.id,
+            sessionKey: message.session.key,
+            playerCount: message.playerCount ?? 'unknown'
           });
           
-          // If we received auth_success but not join_success, send join_session
-          if (message.type === 'auth_success') {
-            this.log(LogLevel.INFO, 'Auth successful, joining session...');
-            this.send({
-              type: 'join_session',
-              playerName: message.player.id, // Use player ID as name
-              sessionKey: 'JACKALOPES-TEST-SESSION' // Fixed session key for all players
-            });
+          // create_session picks the key on the server, so take whatever we were given
+          const key = message.session.key ?? this.sessionKey;
+          if (this.sessionInfo && this.sessionInfo.key !== key) {
+            this.leaveCurrentSession();
+          }
+          this.sessionKey = key;
+          this.sessionInfo = { key, name: message.session.name ?? key, private: message.session.private === true };
+          this.setMap(message.session.mapId);
+          if (!window.jackalopesGameSettings?.sessionLocked) {
+            try {
+              localStorage.setItem('jackalopes_session_key', key);
+            } catch (e) {
+              // Not being able to remember the room is harmless
+            }
           }
+          this.emit('session_joined', { ...this.sessionInfo, playerCount: message.playerCount ?? 1 });
         }
+        break;
         
-        // Use any message response for latency measurement
-        if (this.pingStartTime > 0) {
-          this.handlePong({ timestamp: this.pingStartTime });
-        }
+      case 'session_list':
+        this.emit('session_list', message.sessions);
+        break;
+        
+      case 'spectator_queue':
+        this.setSpectator(true, message.position);
         break;
         
       case 'player_joined':
         this.log(LogLevel.INFO, '👤 Player joined event received:', message);
-        // Handle both formats the server might send
-        const playerId = message.id || message.player_id;
-        const playerType = (message.playerType || message.state?.playerType || 'merc') as 'merc' | 'jackalope';
-        const playerState = message.initialState || {
-          position: message.position || [0, 1, 0],
-          rotation: message.rotation || [0, 0, 0, 1],
-          health: 100,
-          playerType
-        };
         
         // Skip if this is our own player ID
-        if (playerId === this.playerId) {
+        if (message.id === this.playerId) {
           this.log(LogLevel.INFO, 'Ignoring player_joined for our own player ID');
           break;
         }
         
         // Add to the game state
-        this.gameState.players[playerId] = playerState;
+        this.gameState.players[message.id] = message.state;
+        this.hitAuthority.updatePlayer(message.id, message.state, this.getServerTime());
+        snapshotInterpolation.push(message.id, message.state);
         
         // Emit the event so the UI can update
-        this.emit('player_joined', { id: playerId, state: playerState });
+        this.emit('player_joined', { id: message.id, state: message.state });
         this.log(LogLevel.INFO, '🎮 Updated player list - current players:', Object.keys(this.gameState.players));
         break;
         
       case 'player_list':
         // Some servers might send a complete player list instead of individual join/leave events
         this.log(LogLevel.INFO, 'Received player list from server:', message.players);
-        if (message.players && typeof message.players === 'object') {
-          // Update our game state with all players
-          Object.entries(message.players).forEach(([id, playerData]: [string, any]) => {
-            // Skip if this is our own player
-            if (id === this.playerId) return;
-            
-            // Add or update this player in our game state
-            this.gameState.players[id] = playerData;
-            
-            // Emit player_joined for any new players we didn't know about
-            this.emit('player_joined', { id, state: playerData });
-          });
+        Object.entries(message.players).forEach(([id, playerData]) => {
+          // Skip if this is our own player
+          if (id === this.playerId) return;
           
-          this.log(LogLevel.INFO, '🎮 Updated player list from server - current players:', Object.keys(this.gameState.players));
-        }
+          // Add or update this player in our game state
+          this.gameState.players[id] = playerData;
+          this.hitAuthority.updatePlayer(id, playerData, this.getServerTime());
+          snapshotInterpolation.push(id, playerData);
+          
+          // Emit player_joined for any new players we didn't know about
+          this.emit('player_joined', { id, state: playerData });
+        });
+        
+        this.log(LogLevel.INFO, '🎮 Updated player list from server - current players:', Object.keys(this.gameState.players));
         break;
         
       case 'player_left':
+        if (this.playerIndex === -1 && message.id === this.relayAuthority()) {
+          this.log(LogLevel.INFO, `Hit authority ${message.id} left, handing over to the next player`);
+        }
         delete this.gameState.players[message.id];
+        this.hitAuthority.removePlayer(message.id);
+        snapshotInterpolation.remove(message.id);
         this.emit('player_left', { id: message.id });
         break;
         
+      case 'player_reconnecting':
+        // Keep them in the game state; they'll either resume or leave
+        this.log(LogLevel.INFO, `📴 ${message.id} is reconnecting (${message.graceMs}ms grace)`);
+        this.emit('player_reconnecting', { id: message.id, graceMs: message.graceMs });
+        break;
+        
+      case 'player_resumed':
+        this.gameState.players[message.id] = message.state;
+        this.hitAuthority.updatePlayer(message.id, message.state, this.getServerTime());
+        snapshotInterpolation.push(message.id, message.state);
+        this.emit('player_resumed', { id: message.id, state: message.state });
+        break;
+        
+      case 'round_state':
+        // A fresh round starts everyone from their team's nearest spawns again
+        if (message.state.phase === 'live' && this.roundState?.phase !== 'live') {
+          this.spawns.reset();
+          this.awaitingRespawn.clear();
+        }
+        this.roundState = message.state;
+        this.emit('round_state', message.state);
+        break;
+        
+      case 'score_ledger':
+        this.scoreLedger.load(message.entries);
+        this.emit('score_ledger', this.scoreLedger);
+        break;
+        
+      case 'score_entry':
+        this.recordScoreEntry(message.entry);
+        break;
+        
+      case 'team_assignment':
+        if (message.id === this.playerId) {
+          this.applyTeamAssignment(message.playerType, message.reason);
+          break;
+        }
+        if (this.gameState.players[message.id]) {
+          this.gameState.players[message.id] = { ...this.gameState.players[message.id], playerType: message.playerType };
+        }
+        this.emit('player_team_changed', { id: message.id, playerType: message.playerType, reason: message.reason });
+        break;
+        
       case 'player_update':
         this.handlePlayerUpdate(message);
         break;
         
-      default:
-        this.log(LogLevel.WARN, 'Unknown message type:', message.type);
+      case 'relevancy':
+        this.dormantPlayers = message.dormant;
+        this.emit('dormant_changed', message.dormant);
+        break;
+        
+      case 'snapshot_ack':
+        if (message.baselineLost) {
+          this.log(LogLevel.DEBUG, `Server lost the baseline for snapshot ${message.sequence}, sending a keyframe`);
+          this.snapshotEncoder.resync();
+        } else {
+          this.snapshotEncoder.acknowledge(message.sequence);
+        }
         break;
+        
+      case 'input_ack':
+        if (message.health !== undefined) {
+          this.setHealth(message.health);
+        }
+        this.emit('input_ack', message);
+        break;
+        
+      case 'pong':
+        this.handlePong(message);
+        break;
+        
+      case 'chat':
+        this.emit('chat', message);
+        break;
+        
+      case 'error':
+        this.log(LogLevel.ERROR, `Server error${message.code ? ` (${message.code})` : ''}:`, message.message);
+        this.emit('server_error', message);
+        break;
+    }
+  }
+  
+  // Shared bookkeeping once the server has told us our player ID
+  private handleSessionJoined(playerId: string): void {
+    this.playerId = playerId;
+    this.log(LogLevel.INFO, '📣 SESSION: Set player ID to', this.playerId);
+    
+    // Explicitly set connected state to true on successful auth
+    this.isConnected = true;
+    this.emit('initialized', { id: this.playerId, gameState: this.gameState });
+    
+    // After initialization, immediately log connection state for debugging
+    this.log(LogLevel.INFO, '📣 Connection state after auth success:', this.isReadyToSend(), {
+      isConnected: this.isConnected,
+      playerId: this.playerId,
+      socketReady: this.socket?.readyState === WebSocket.OPEN
+    });
+  }
+  
+  // The server speaks a protocol version we can't handle - stop instead of misreading it
+  private handleProtocolMismatch(serverVersion: number): void {
+    this.log(LogLevel.ERROR, `Protocol mismatch: server v${serverVersion}, client v${PROTOCOL_VERSION} (min v${MIN_PROTOCOL_VERSION})`);
+    this.connectionFailed = true;
+    this.emit('protocol_mismatch', {
+      serverVersion,
+      clientVersion: PROTOCOL_VERSION,
+      minVersion: MIN_PROTOCOL_VERSION
+    });
+    // Prevent handleDisconnect from reconnecting into the same mismatch
+    this.reconnectAttempts = this.maxReconnectAttempts;
+    this.disconnect();
+  }
+  
+  // Ask the server for its public sessions; the answer arrives as a 'session_list' event
+  listSessions(): void {
+    this.send({ type: 'list_sessions' });
+  }
+  
+  // Move to another room. Before auth this just changes where we'll go once connected;
+  // after, we stay where we are until the server confirms. A full room, or `spectate`,
+  // gets us in as a spectator.
+  joinSession(sessionKey: string, spectate: boolean = false): void {
+    if (sessionKey === this.sessionInfo?.key) return;
+    if (!this.isReadyToSend()) {
+      this.sessionKey = sessionKey;
+      return;
+    }
+    this.send({
+      type: 'join_session',
+      playerName: this.playerId ?? this.playerName ?? 'Player',
+      sessionKey,
+      playerType: this.preferredType ?? undefined,
+      spectate: spectate || undefined
+    });
+  }
+  
+  // Open a new room and move into it; private rooms come back with a join code as their key
+  createSession(name?: string, isPrivate: boolean = false, mapId?: string): void {
+    if (!this.isReadyToSend()) {
+      this.log(LogLevel.WARN, 'Cannot create a session before connecting');
+      return;
+    }
+    this.send({
+      type: 'create_session',
+      playerName: this.playerId ?? this.playerName ?? 'Player',
+      name,
+      private: isPrivate,
+      playerType: this.preferredType ?? undefined,
+      mapId
+    });
+  }
+  
+  getSessionKey(): string {
+    return this.sessionKey;
+  }
+  
+  // The room we're in, or null until the server confirms a join
+  getSessionInfo(): { key: string; name: string; private: boolean } | null {
+    return this.sessionInfo;
+  }
+  
+  // What the session is played on
+  getMap(): GameMap {
+    return this.map;
+  }
+  
+  // Switch to the map the server named for our session (or the default, if it didn't)
+  private setMap(mapId?: string): void {
+    const map = getMap(mapId);
+    if (mapId && map.id !== mapId) {
+      this.log(LogLevel.WARN, `🗺️ Don't have map ${mapId}, playing on ${map.id}`);
     }
+    if (map.id === this.map.id) return;
+    this.map = map;
+    this.spawns = new SpawnSelector(spawnMapOf(map));
+    this.log(LogLevel.INFO, `🗺️ Map is now ${map.name}`);
+    this.emit('map_changed', map);
+  }
+  
+  // Everyone else in the session, as last heard from the server
+  getPlayers(): Record<string, RemotePlayerState> {
+    const { [this.playerId ?? '']: _self, ...others } = this.gameState.players;
+    return others;
+  }
+  
+  getRoundState(): RoundState | null {
+    return this.roundState;
+  }
+  
+  getScoreLedger(): ScoreLedger {
+    return this.scoreLedger;
+  }
+  
+  getHealth(): number {
+    return this.health;
+  }
+  
+  private setHealth(health: number): void {
+    if (health === this.health) return;
+    this.health = health;
+    this.emit('health_changed', { health, maxHealth: DEFAULT_HEALTH_OPTIONS.maxHealth });
+  }
+  
+  // What the current phase allows; without a round (offline, older servers) everything goes
+  getRoundRules(): RoundRules {
+    return this.roundState ? ROUND_RULES[this.roundState.phase] : ROUND_RULES.live;
+  }
+  
+  isSpectator(): boolean {
+    return this.spectator;
+  }
+  
+  // Our place in line for a slot while spectating (1 = next), 0 when playing
+  getQueuePosition(): number {
+    return this.queuePosition;
+  }
+  
+  private setSpectator(spectator: boolean, queuePosition: number): void {
+    if (spectator === this.spectator && queuePosition === this.queuePosition) return;
+    this.spectator = spectator;
+    this.queuePosition = spectator ? queuePosition : 0;
+    if (spectator) {
+      this.assignedType = null;
+    }
+    this.log(LogLevel.INFO, spectator ? `👀 Spectating, #${queuePosition} in the queue` : '🎮 Playing');
+    this.emit('spectator_changed', { spectator, queuePosition: this.queuePosition });
+  }
+  
+  // The server moves us over without a player_left for everyone in the old room
+  private leaveCurrentSession(): void {
+    Object.keys(this.gameState.players).forEach(id => {
+      this.hitAuthority.removePlayer(id);
+      snapshotInterpolation.remove(id);
+      this.emit('player_left', { id });
+    });
+    this.gameState.players = {};
+    this.sessionInfo = null;
+    this.roundState = null;
+    this.scoreLedger.clear();
+    this.awaitingRespawn.clear();
+    this.dormantPlayers = [];
+  }
+  
+  // Get the protocol version negotiated with the server (null until auth succeeds)
+  getProtocolVersion(): number | null {
+    return this.serverProtocolVersion;
+  }
+  
+  // Remote players whose updates the server is holding back until they're in range again
+  getDormantPlayers(): string[] {
+    return this.dormantPlayers;
+  }
+  
+  // Bandwidth each way over the last second, next to what JSON would have cost
+  getTraffic(): TrafficReport {
+    return this.traffic.report(this.codec);
   }
   
   // Initialize session with the server
@@ -910,50 +1520,14 @@ export class ConnectionManager extends EventEmitter {
     // Set player name for this session
     this.playerName = playerName;
     
-    // Get or assign a player index for character type determination
     try {
-      // Try to use localStorage for consistent player index across tabs
-      let playerCount = 0;
-      try {
-        const storedCount = localStorage.getItem('jackalopes_player_count');
-        if (storedCount) {
-          playerCount = parseInt(storedCount);
-        }
-        
-        // Check if we already have a player index from localStorage
-        const storedIndex = localStorage.getItem('jackalopes_player_index');
-        if (storedIndex) {
-          this.playerIndex = parseInt(storedIndex);
-          console.error(`⭐ Found stored player index ${this.playerIndex}`);
-        } else {
-          // Increment and store player count
-          playerCount++;
-          localStorage.setItem('jackalopes_player_count', playerCount.toString());
-          
-          // Assign a new player index
-          this.playerIndex = playerCount - 1;
-          localStorage.setItem('jackalopes_player_index', this.playerIndex.toString());
-          console.error(`⭐ Assigned player index ${this.playerIndex} based on player count ${playerCount}`);
-        }
-      } catch (e) {
-        // Fallback to static count if localStorage fails
-        if (this.playerIndex === -1) {
-          ConnectionManager.playerCount++;
-          this.playerIndex = ConnectionManager.playerCount - 1;
-          console.error(`⭐ Assigned player index ${this.playerIndex} using static count (localStorage failed)`);
-        }
-      }
-      
-      // Set the player type based on character assignment
+      // Until the session assigns a team, assume the one we're asking for
       const characterInfo = this.getPlayerCharacterType();
-      this.playerType = characterInfo.type;
       
-      // Initialize the player in the EntityStateObserver
-      // This is important to do here so other components can check the player type
-      const generatedId = `player-${this.playerIndex}-${Date.now().toString(36)}`;
-      this.playerId = this.playerId || generatedId;
+      this.playerId = this.playerId || `player-${Date.now().toString(36)}`;
       
       // Register the player with EntityStateObserver
+      // This is important to do here so other components can check the player type
       entityStateObserver.setLocalPlayerId(this.playerId);
       entityStateObserver.updateEntity({
         id: this.playerId,
@@ -966,12 +1540,13 @@ export class ConnectionManager extends EventEmitter {
         health: 100
       });
       
-      this.log(LogLevel.INFO, `Player joining as index #${this.playerIndex} (${this.getPlayerCharacterType().type})`);
-      
       // Try auth first (most common WebSocket server pattern)
       this.send({
         type: 'auth',
-        playerName: playerName
+        protocolVersion: PROTOCOL_VERSION,
+        playerName: playerName,
+        resumeToken: this.resumeToken ?? undefined,
+        codecs: WIRE_CODECS
       });
       
       // ... continue with existing implementation ...
@@ -981,138 +1556,42 @@ export class ConnectionManager extends EventEmitter {
     }
   }
 
-  // Add a public method to get player character type based on connection order
+  // Our character: the team the session assigned, or the one we asked for until it does.
+  // Jackalopes play in third person, mercs in first.
   getPlayerCharacterType(): { type: 'merc' | 'jackalope', thirdPerson: boolean } {
-    // Log with high visibility
-    console.error(`⭐ Getting character type for player index ${this.playerIndex}`);
-    
-    // Fallback to a valid index if somehow playerIndex is still -1
-    const index = this.playerIndex >= 0 ? this.playerIndex : 0;
-    
-    // First force the local storage to be set for cross-tab coordination
-    // This will ensure player assignments are consistent across tabs/browsers
-    try {
-      const storedCount = localStorage.getItem('jackalopes_player_count');
-      if (!storedCount || parseInt(storedCount) < index) {
-        localStorage.setItem('jackalopes_player_count', index.toString());
-      }
-      
-      // Check if we've reached the player limit (4 players)
-      if (index >= 4) {
-        console.error(`⭐ Maximum player count reached (${index + 1}/4). New connections will not be assigned unique roles.`);
-        // Store a flag indicating the lobby is full
-        localStorage.setItem('jackalopes_lobby_full', 'true');
-      }
-    } catch (e) {
-      // Ignore localStorage errors
-    }
-    
-    // IMPROVEMENT: Check for any override in localStorage
-    try {
-      const forcedType = localStorage.getItem('jackalopes_force_character');
-      if (forcedType && (forcedType === 'merc' || forcedType === 'jackalope')) {
-        console.error(`⭐ Using forced character type from localStorage: ${forcedType}`);
-        const isJackalope = forcedType === 'jackalope';
-        return { 
-          type: forcedType, 
-          thirdPerson: isJackalope 
-        };
-      }
-    } catch (e) {
-      // Ignore localStorage errors
-    }
-    
-    // Check if we've reached the player limit (4 players)
-    if (index >= 4) {
-      console.error(`⭐ Player #${index} (player ${index + 1}) exceeds the 4 player limit. Assigning as spectator.`);
-      // For players beyond the 4-player limit, we could implement a spectator mode
-      // For now, just assign them as a jackalope (could be changed later)
-      return { type: 'jackalope', thirdPerson: true };
-    }
-    
-    // Implement 2v2 assignment strategy:
-    // Players 1 & 3 (index 0 & 2) = Jackalope in third-person
-    // Players 2 & 4 (index 1 & 3) = Merc in first-person
-    if (index % 2 === 0) {
-      console.error(`⭐ Player #${index} (player ${index + 1}/4) assigned as JACKALOPE in 3rd-person view`);
-      
-      // IMPROVEMENT: Persist this type to the instance
-      this.playerType = 'jackalope';
-      
-      return { type: 'jackalope' as const, thirdPerson: true };
-    } else {
-      console.error(`⭐ Player #${index} (player ${index + 1}/4) assigned as MERC in 1st-person view`);
-      
-      // IMPROVEMENT: Persist this type to the instance
-      this.playerType = 'merc';
-      
-      return { type: 'merc' as const, thirdPerson: false };
-    }
+    const type = this.assignedType ?? this.preferredType ?? this.playerType;
+    return { type, thirdPerson: type === 'jackalope' };
   }
 
-  // Add a method to force character type assignment for testing/debugging
+  // Ask to play `type`. In a session this is a switch request the server may refuse
+  // (a server_error with code team_switch_denied); otherwise it's the team we'll ask for at join.
+  // Returns the current assignment, which only changes once the server agrees.
   forceCharacterType(type: 'merc' | 'jackalope'): { type: 'merc' | 'jackalope', thirdPerson: boolean } {
-    // Force the player index to match the desired type
-    if (type === 'merc') {
-      // Force an odd player index for merc
-      this.playerIndex = this.playerIndex % 2 === 0 ? this.playerIndex + 1 : this.playerIndex;
-      console.error(`⭐ Forced player index to ${this.playerIndex} for MERC character type`);
-      return { type: 'merc', thirdPerson: false };
-    } else {
-      // Force an even player index for jackalope
-      this.playerIndex = this.playerIndex % 2 === 0 ? this.playerIndex : this.playerIndex + 1;
-      console.error(`⭐ Forced player index to ${this.playerIndex} for JACKALOPE character type`);
-      return { type: 'jackalope', thirdPerson: true };
+    this.preferredType = type;
+    if (this.offlineMode) {
+      this.applyTeamAssignment(type, 'offline');
+    } else if (this.isReadyToSend() && this.assignedType && this.assignedType !== type) {
+      this.send({ type: 'team_switch_request', playerType: type });
     }
+    return this.getPlayerCharacterType();
   }
 
   // Add a method to get just the player type (for MultiplayerManager)
   getAssignedPlayerType(): 'merc' | 'jackalope' {
-    const index = this.playerIndex >= 0 ? this.playerIndex : 0;
-    return index % 2 === 0 ? 'jackalope' : 'merc';
+    return this.getPlayerCharacterType().type;
   }
 
-  // Add a method to reset the localStorage player count (for testing)
-  resetPlayerCount(): void {
-    try {
-      // Save the old value for logging
-      const oldValue = localStorage.getItem('jackalopes_player_count');
-      
-      // Clear all localStorage keys related to player counts
-      localStorage.removeItem('jackalopes_player_count');
-      localStorage.removeItem('jackalopes_last_activity');
-      
-      // Force active sessions to use index 0 next time
-      localStorage.setItem('jackalopes_player_count', '-1');
-      
-      // Reset internal counters
-      ConnectionManager.playerCount = -1;
-      this.playerIndex = -1;
-      
-      console.error('⭐ Reset player count in localStorage and static variable');
-      console.error('⭐ Next player to join will be index 0 (JACKALOPE)');
-      
-      // Dispatch a custom event to trigger listeners in this tab
-      // The 'storage' event only fires in other tabs, not the current one
-      try {
-        window.dispatchEvent(new CustomEvent('jackalopes_playercount_reset', {
-          detail: { oldValue, newValue: '-1' }
-        }));
-      } catch (e) {
-        console.error('Failed to dispatch custom event:', e);
-      }
-    } catch (e) {
-      console.error('⭐ Failed to reset player count in localStorage:', e);
+  private applyTeamAssignment(type: 'merc' | 'jackalope', reason: string): void {
+    const changed = type !== this.assignedType;
+    this.assignedType = type;
+    this.playerType = type;
+    if (this.playerId) {
+      entityStateObserver.updateEntity({ id: this.playerId, type });
+    }
+    if (changed) {
+      this.log(LogLevel.INFO, `🔀 Team assigned: ${type} (${reason})`);
+      this.emit('team_assigned', { type, thirdPerson: type === 'jackalope', reason });
     }
-  }
-
-  // Add a method to check if we need to reset the player count
-  private shouldResetPlayerCount(): boolean {
-    const now = Date.now();
-    const lastActivity = parseInt(localStorage.getItem('jackalopes_last_activity') || '0');
-    const inactivityDuration = now - lastActivity;
-    const resetDuration = 5 * 60 * 1000; // 5 minutes in milliseconds
-    return inactivityDuration > resetDuration;
   }
 
   // Add after the getLatency method
@@ -1183,26 +1662,29 @@ export class ConnectionManager extends EventEmitter {
   }
 
   // Public wrapper for send method
-  sendMessage(data: any): void {
+  sendMessage(data: ClientMessage): void {
     this.send(data);
   }
 
-  // Send a game snapshot
+  // Send a game snapshot; only what changed since the last one the server acknowledged goes out
   sendGameSnapshot(snapshot: GameSnapshot): void {
     if (!this.isReadyToSend()) {
       this.log(LogLevel.INFO, 'Cannot send game snapshot: not connected to server');
       return;
     }
+    // Servers that don't acknowledge snapshots would leave every one a keyframe
+    if (!this.snapshotDeltas) return;
     
     this.send({
       type: 'game_snapshot',
-      snapshot
+      delta: this.snapshotEncoder.encode(snapshot)
     });
   }
 
-  // Get snapshot at time (stub for compatibility)
+  // Get every known player's state at a past moment (server clock), interpolated
+  // from the last second of updates
   getSnapshotAtTime(timestamp: number): GameSnapshot | null {
-    return null;
+    return this.playerHistory.getSnapshotAtTime(timestamp);
   }
 
   // Get player index for client-side logic
@@ -1210,83 +1692,61 @@ export class ConnectionManager extends EventEmitter {
     return this.playerIndex;
   }
 
-  // Add a method to forcibly reset and correct the character type assignment
+  // Drop any local character override and go back to what the session assigned
   resetAndCorrectCharacterType(): { type: 'merc' | 'jackalope', thirdPerson: boolean } {
-    console.error('🔄 Forcing character type correction based on player index');
-    
-    // Get the player index (should be assigned already)
-    const index = this.playerIndex >= 0 ? this.playerIndex : 0;
-    
-    // Determine the correct character type based on the index
-    const isEven = index % 2 === 0;
-    const type = isEven ? 'jackalope' : 'merc';
-    const thirdPerson = isEven;
-    
-    // Set the player type
-    this.playerType = type;
-    
-    // Log the correction
-    console.error(`🔄 Reset character to ${type.toUpperCase()} (index: ${index}, third-person: ${thirdPerson})`);
-    
-    // Return the corrected character info
-    return { type, thirdPerson };
+    const characterInfo = this.getPlayerCharacterType();
+    this.playerType = characterInfo.type;
+    return characterInfo;
   }
 
   // When a message has type 'player_update' and is for another player
-  private handlePlayerUpdate(data: any): void {
-    // Handle both our own updates and updates from other players
-    const updatePlayerId = data.id || data.player_id || data.player;
+  private handlePlayerUpdate(message: PlayerUpdateBroadcast): void {
+    const { id: updatePlayerId, state } = message;
     
     // Skip processing updates from ourselves
     if (updatePlayerId !== this.playerId) {
-      // Extract position and rotation, handling different server formats
-      const position = data.position || (data.state && data.state.position);
-      const rotation = data.rotation || (data.state && data.state.rotation);
+      const velocity = state.velocity;
+      this.hitAuthority.updatePlayer(updatePlayerId, state, this.getServerTime());
+      snapshotInterpolation.push(updatePlayerId, state);
       
-      // Extract player type for consistent character rendering
-      const playerType = data.playerType || (data.state && data.state.playerType);
+      // Update entity state in EntityStateObserver
+      entityStateObserver.updateEntity({
+        id: updatePlayerId,
+        type: state.playerType,
+        position: state.position,
+        rotation: state.rotation,
+        // Calculate movement state from velocity if available
+        isMoving: velocity ? (
+          Math.abs(velocity[0]) > 0.01 || 
+          Math.abs(velocity[2]) > 0.01
+        ) : undefined,
+        isRunning: velocity ? (
+          Math.sqrt(
+            velocity[0] * velocity[0] + 
+            velocity[2] * velocity[2]
+          ) > 0.3 // Higher threshold to properly detect running
+        ) : undefined,
+        ...(state.health !== undefined && { health: state.health })
+      });
       
-      // Only proceed if we have valid position data
-      if (position) {
-        // Update entity state in EntityStateObserver
-        entityStateObserver.updateEntity({
-          id: updatePlayerId,
-          type: playerType || 'merc',
-          position,
-          rotation,
-          // Calculate movement state from velocity if available
-          isMoving: data.state?.velocity ? (
-            Math.abs(data.state.velocity[0]) > 0.01 || 
-            Math.abs(data.state.velocity[2]) > 0.01
-          ) : undefined,
-          isRunning: data.state?.velocity ? (
-            Math.sqrt(
-              data.state.velocity[0] * data.state.velocity[0] + 
-              data.state.velocity[2] * data.state.velocity[2]
-            ) > 0.3 // Higher threshold to properly detect running
-          ) : undefined
-        });
-        
-        // Emit player_update event for legacy compatibility
-        this.emit('player_update', { 
-          id: updatePlayerId, 
-          position, 
-          rotation,
-          playerType,
-          // Include full state for advanced features
-          state: data.state || {}
-        });
-      }
-    } else {
-      // If message is for local player, emit server_state_update for reconciliation
-      this.emit('server_state_update', {
-        position: data.position || (data.state && data.state.position),
-        rotation: data.rotation || (data.state && data.state.rotation),
-        timestamp: data.timestamp || Date.now(),
-        sequence: data.sequence || (data.state && data.state.sequence),
-        positionError: data.positionError,
-        serverCorrection: data.serverCorrection
+      // Emit player_update event for legacy compatibility
+      this.emit('player_update', { 
+        id: updatePlayerId, 
+        position: state.position, 
+        rotation: state.rotation,
+        playerType: state.playerType,
+        // Include full state for advanced features
+        state
       });
+    } else if (state.inputs) {
+      // Relay servers echo our own predicted updates back; treat the echo as an acknowledgement
+      const ack: InputAckMessage = {
+        type: 'input_ack',
+        sequence: state.sequence,
+        position: state.position,
+        corrected: message.serverCorrection === true
+      };
+      this.emit('input_ack', ack);
     }
   }
 
@@ -1295,9 +1755,18 @@ export class ConnectionManager extends EventEmitter {
     return this.playerId || 'unknown';
   }
   
-  // Check if this is the first client to connect
+  // Check if this is the first client to connect. Relay servers hand out no
+  // slots, so there every client settles on the lowest player id it knows of
   isFirstClient(): boolean {
-    return this.playerIndex === 0;
+    if (this.playerIndex !== -1) return this.playerIndex === 0;
+    return this.playerId !== null && this.relayAuthority() === this.playerId;
+  }
+  
+  // The player every client of a relay server agrees validates hits; picked again when they leave
+  private relayAuthority(): string | null {
+    const ids = Object.keys(this.gameState.players);
+    if (this.playerId) ids.push(this.playerId);
+    return ids.length > 0 ? ids.sort()[0] : null;
   }
   
   // Public accessor for connection status
@@ -1305,40 +1774,10 @@ export class ConnectionManager extends EventEmitter {
     return this.isConnected;
   }
   
-  // Add a method to check if the lobby is full (4 players maximum)
+  // Whether our session has no room left (counting us)
   isLobbyFull(): boolean {
-    // Check localStorage first as it's more reliable across multiple tabs/browsers
-    try {
-      const lobbyFullFlag = localStorage.getItem('jackalopes_lobby_full');
-      if (lobbyFullFlag === 'true') {
-        return true;
-      }
-      
-      const storedCount = localStorage.getItem('jackalopes_player_count');
-      if (storedCount && parseInt(storedCount) >= 3) { // Index is 0-based, so 3 = 4 players
-        return true;
-      }
-    } catch (e) {
-      // Ignore localStorage errors
-    }
-    
-    // Also check the static player count as fallback
-    return ConnectionManager.playerCount >= 3; // 0-based, so 3 = 4 players
-  }
-
-  /**
-   * Handle storage events for cross-tab communication
-   */
-  private handleStorageEvent(event: StorageEvent): void {
-    if (event.key === 'jackalopes_player_count') {
-        console.error(`⭐ Detected player count change in another tab: ${event.oldValue} -> ${event.newValue}`);
-        
-        // Reset our playerIndex so we get a new assignment on next connection
-        if (this.playerIndex !== -1) {
-            this.playerIndex = -1;
-            console.error(`⭐ Reset local player index due to change in another tab`);
-        }
-    }
+    return this.sessionInfo !== null &&
+      Object.keys(this.gameState.players).length + 1 >= MAX_PLAYERS_PER_SESSION;
   }
 
   /**
@@ -122,7 +122,7 @@ class EntityStateObserver extends EventEmitter {
         isMoving: state.isMoving || false,
         isRunning: state.isRunning || false,
         isShooting: state.isShooting || false,
-        health: state.health || 100,
+        health: state.health ?? 100,
         lastUpdate: Date.now()
       };
       
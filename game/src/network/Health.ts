@@ -0,0 +1,103 @@
+import { PlayerType } from '../types/game';
+
+/**
+ * How much an attack hurts, and who can use it
+ */
+export interface DamageProfile {
+  usedBy: PlayerType;
+  // Full damage out to falloffStart, easing down to minDamage at falloffEnd and beyond
+  damage: number;
+  minDamage: number;
+  falloffStart: number;
+  falloffEnd: number;
+  // Hits landing further than this from the attacker don't count (melee, flames)
+  maxRange?: number;
+  // Half-angle in radians around the aim direction a hit must land within (cone weapons)
+  coneAngle?: number;
+  // Whether other clients draw anything for it; the jackalope's kick has nothing to show
+  visible: boolean;
+}
+
+export const DEFAULT_WEAPON = 'fireball';
+
+export const DAMAGE_PROFILES: Record<string, DamageProfile> = {
+  fireball: { usedBy: 'merc', damage: 100, minDamage: 40, falloffStart: 15, falloffEnd: 60, visible: true },
+  // Lands many times a second, so each tick is small
+  flamethrower: { usedBy: 'merc', damage: 9, minDamage: 4, falloffStart: 3, falloffEnd: 8, maxRange: 8, coneAngle: 0.35, visible: true },
+  // The jackalope's kick: weak, but it's all they've got
+  counter: { usedBy: 'jackalope', damage: 25, minDamage: 25, falloffStart: 0, falloffEnd: 0, maxRange: 4, visible: false }
+};
+
+export const damageAt = (profile: DamageProfile, distance: number): number => {
+  if (distance <= profile.falloffStart || profile.falloffEnd <= profile.falloffStart) return profile.damage;
+  const t = Math.min(1, (distance - profile.falloffStart) / (profile.falloffEnd - profile.falloffStart));
+  return Math.round(profile.damage + (profile.minDamage - profile.damage) * t);
+};
+
+export interface HealthOptions {
+  maxHealth: number;
+  // Regeneration starts this long after the last damage...
+  regenDelayMs: number;
+  // ...and then heals this much per second
+  regenPerSecond: number;
+}
+
+export const DEFAULT_HEALTH_OPTIONS: HealthOptions = {
+  maxHealth: 100,
+  regenDelayMs: 5000,
+  regenPerSecond: 10
+};
+
+interface HealthRecord {
+  // Health right after the last damage, and when that was
+  health: number;
+  damagedAt: number;
+}
+
+/**
+ * Health of every player in a session, kept by the hit authority.
+ *
+ * Regeneration is worked out when health is read rather than ticked, so a
+ * player's health at any moment only depends on their last damage.
+ * Players nobody has hurt yet are simply at full health.
+ */
+export class HealthTracker {
+  private records: Map<string, HealthRecord> = new Map();
+  readonly options: HealthOptions;
+
+  constructor(options: Partial<HealthOptions> = {}) {
+    this.options = { ...DEFAULT_HEALTH_OPTIONS, ...options };
+  }
+
+  get(id: string, now: number = Date.now()): number {
+    const record = this.records.get(id);
+    if (!record) return this.options.maxHealth;
+    // The dead stay dead until they respawn
+    if (record.health <= 0) return 0;
+
+    const { maxHealth, regenDelayMs, regenPerSecond } = this.options;
+    const regenerating = Math.max(0, now - record.damagedAt - regenDelayMs) / 1000;
+    return Math.min(maxHealth, Math.floor(record.health + regenerating * regenPerSecond));
+  }
+
+  isDead(id: string): boolean {
+    return this.records.get(id)?.health === 0;
+  }
+
+  damage(id: string, amount: number, now: number = Date.now()): { health: number; killed: boolean } {
+    const health = Math.max(0, this.get(id, now) - amount);
+    this.records.set(id, { health, damagedAt: now });
+    return { health, killed: health === 0 };
+  }
+
+  /**
+   * Back to full health, e.g. on respawn
+   */
+  reset(id: string): void {
+    this.records.delete(id);
+  }
+
+  remove(id: string): void {
+    this.records.delete(id);
+  }
+}
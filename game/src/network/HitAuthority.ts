@@ -0,0 +1,241 @@
+import { HitReportEvent, PlayerHitEvent, PlayerShootEvent, PlayerType, Quaternion, Vector3 } from '../types/game';
+import { PlayerHistory } from './PlayerHistory';
+import { DAMAGE_PROFILES, DEFAULT_WEAPON, HealthTracker, damageAt } from './Health';
+import { AbilityTracker } from './Abilities';
+
+/**
+ * Tuning for hit validation
+ */
+export interface HitAuthorityOptions {
+  // How far from the target's known position a hit may land (jackalope colliders are ~2.4 wide, ~4.4 tall)
+  hitRadius: number;
+  // Typical projectile speed (the fireball's in game/weapons.ts), used to estimate when a hit happened
+  projectileSpeed: number;
+  // Upper bound on projectile speed
+  maxProjectileSpeed: number;
+  // Never rewind players further back than this, however laggy the shooter
+  maxRewindMs: number;
+  // How far a shot may originate from the shooter's known position
+  maxOriginOffset: number;
+  // Extra distance allowed per second of staleness in a player's last known position
+  maxPlayerSpeed: number;
+  // Ignore further hits on a target for this long after killing it
+  respawnProtectionMs: number;
+  // Shots older than this can no longer score
+  shotTtlMs: number;
+}
+
+export const DEFAULT_HIT_AUTHORITY_OPTIONS: HitAuthorityOptions = {
+  hitRadius: 5,
+  projectileSpeed: 120,
+  maxProjectileSpeed: 150,
+  maxRewindMs: 500,
+  maxOriginOffset: 6,
+  maxPlayerSpeed: 20,
+  respawnProtectionMs: 3000,
+  shotTtlMs: 5000
+};
+
+interface TrackedShot {
+  event: PlayerShootEvent;
+  receivedAt: number;
+}
+
+export type HitValidation =
+  | { ok: true; hit: PlayerHitEvent }
+  | { ok: false; reason: string };
+
+const distance = (a: Vector3, b: Vector3): number =>
+  Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+const offset = (to: Vector3, from: Vector3): Vector3 => [to[0] - from[0], to[1] - from[1], to[2] - from[2]];
+
+const angleBetween = (a: Vector3, b: Vector3): number => {
+  const lengths = Math.hypot(...a) * Math.hypot(...b);
+  if (lengths === 0) return 0;
+  return Math.acos(Math.min(1, Math.max(-1, (a[0] * b[0] + a[1] * b[1] + a[2] * b[2]) / lengths)));
+};
+
+/**
+ * Decides whether a reported hit really happened.
+ *
+ * Runs wherever the authority lives: inside the local dev server, or in the
+ * host client when the server only relays events. It is fed the same
+ * player_update and player_shoot traffic as everyone else and turns
+ * hit_report claims into confirmed player_hit events.
+ *
+ * Hits are checked with lag compensation: the target is rewound to where
+ * the shooter saw it, using the shot's timestamp and the latency the shooter
+ * measured when firing. Confirmed hits take the weapon's damage (less with
+ * distance) off the target's health.
+ */
+export class HitAuthority {
+  private shots: Map<string, TrackedShot> = new Map();
+  private consumedShots: Set<string> = new Set();
+  private lastHitAt: Map<string, number> = new Map();
+  private protectedUntil: Map<string, number> = new Map();
+  private options: HitAuthorityOptions;
+
+  constructor(
+    options: Partial<HitAuthorityOptions> = {},
+    readonly history: PlayerHistory = new PlayerHistory(),
+    readonly health: HealthTracker = new HealthTracker(),
+    readonly abilities: AbilityTracker = new AbilityTracker()
+  ) {
+    this.options = { ...DEFAULT_HIT_AUTHORITY_OPTIONS, ...options };
+  }
+
+  updatePlayer(
+    id: string,
+    state: { position: Vector3; rotation?: Quaternion; playerType: PlayerType; health?: number },
+    now: number = Date.now()
+  ): void {
+    // Health the authority reported wins over what this tracker has seen
+    const health = state.health ?? this.health.get(id, now);
+    this.history.record(id, state.position, state.rotation ?? [0, 0, 0, 1], state.playerType, health, now);
+  }
+
+  removePlayer(id: string): void {
+    this.history.remove(id);
+    this.health.remove(id);
+    this.abilities.remove(id);
+    this.lastHitAt.delete(id);
+    this.protectedUntil.delete(id);
+  }
+
+  /**
+   * Back in play at full health, and out of harm's way until `protectedUntil`
+   */
+  respawnPlayer(id: string, protectedUntil?: number): void {
+    this.health.reset(id);
+    if (protectedUntil !== undefined) this.protectedUntil.set(id, protectedUntil);
+    else this.protectedUntil.delete(id);
+  }
+
+  recordShot(event: PlayerShootEvent, now: number = Date.now()): void {
+    this.shots.set(event.shotId, { event, receivedAt: now });
+    this.pruneShots(now);
+  }
+
+  /**
+   * Validate a hit claim; on success the returned player_hit should be broadcast to everyone
+   */
+  validate(report: HitReportEvent, now: number = Date.now()): HitValidation {
+    const { hitRadius, projectileSpeed, maxProjectileSpeed, maxOriginOffset, maxPlayerSpeed, respawnProtectionMs, shotTtlMs } = this.options;
+
+    if (this.consumedShots.has(report.shotId)) return { ok: false, reason: 'shot already scored' };
+
+    const shot = this.shots.get(report.shotId);
+    if (!shot) return { ok: false, reason: 'unknown shot' };
+    if (shot.event.player_id !== report.player_id) return { ok: false, reason: 'shot belongs to another player' };
+    if (now - shot.receivedAt > shotTtlMs) return { ok: false, reason: 'shot expired' };
+
+    const shooter = this.history.latest(report.player_id);
+    const target = this.history.latest(report.target_id);
+    if (!shooter) return { ok: false, reason: 'unknown shooter' };
+    if (!target) return { ok: false, reason: 'unknown target' };
+    if (this.health.isDead(report.player_id)) return { ok: false, reason: 'shooter is down' };
+    const weapon = shot.event.weapon ?? DEFAULT_WEAPON;
+    const profile = DAMAGE_PROFILES[weapon];
+    if (!profile) return { ok: false, reason: `unknown weapon ${weapon}` };
+    if (shooter.playerType !== profile.usedBy || target.playerType === shooter.playerType) {
+      return { ok: false, reason: `${shooter.playerType} cannot hit ${target.playerType} with ${weapon}` };
+    }
+
+    const lastHit = this.lastHitAt.get(report.target_id);
+    if (this.abilities.isActive(report.player_id, 'burrow', now)) return { ok: false, reason: 'shooter is burrowed' };
+    if (this.abilities.isActive(report.target_id, 'burrow', now)) return { ok: false, reason: 'target is burrowed' };
+    if (this.health.isDead(report.target_id) || (lastHit !== undefined && now - lastHit < respawnProtectionMs)) {
+      return { ok: false, reason: 'target is respawning' };
+    }
+    if (now < (this.protectedUntil.get(report.target_id) ?? 0)) return { ok: false, reason: 'target is spawn protected' };
+
+    const { fireTime, seenAt } = this.rewindTimes(shot, report);
+
+    // The shooter's own update for the moment of firing reaches us one latency later
+    const shooterAtFire = this.history.sample(report.player_id, Math.min(now, fireTime + this.shooterLatency(shot)))!;
+    const shooterSlack = maxPlayerSpeed * shooterAtFire.gap / 1000;
+    if (distance(shot.event.origin, shooterAtFire.position) > maxOriginOffset + shooterSlack) {
+      return { ok: false, reason: 'shot origin too far from shooter' };
+    }
+
+    // Compare against where the target was on the shooter's screen
+    const targetAsSeen = this.history.sample(report.target_id, seenAt)!;
+    const targetSlack = maxPlayerSpeed * targetAsSeen.gap / 1000;
+    if (distance(report.hitPosition, targetAsSeen.position) > hitRadius + targetSlack) {
+      return { ok: false, reason: 'hit position too far from target' };
+    }
+
+    // The projectile can't have travelled further than its speed allows (plus a frame of slack)
+    const flightTime = Math.max(0, now - fireTime) / 1000;
+    if (distance(report.hitPosition, shot.event.origin) > maxProjectileSpeed * (flightTime + 0.1)) {
+      return { ok: false, reason: 'projectile could not have reached target' };
+    }
+
+    const range = distance(report.hitPosition, shot.event.origin);
+    if (profile.maxRange !== undefined && range > profile.maxRange + shooterSlack) {
+      return { ok: false, reason: `${weapon} can't reach that far` };
+    }
+    if (profile.coneAngle !== undefined && angleBetween(shot.event.direction, offset(report.hitPosition, shot.event.origin)) > profile.coneAngle) {
+      return { ok: false, reason: `hit is outside the ${weapon}'s cone` };
+    }
+
+    this.consumedShots.add(report.shotId);
+    const damage = damageAt(profile, range);
+    const { health, killed } = this.health.damage(report.target_id, damage, now);
+    if (killed) this.lastHitAt.set(report.target_id, now);
+
+    return {
+      ok: true,
+      hit: {
+        event_type: 'player_hit',
+        player_id: report.target_id,
+        hit_by: report.player_id,
+        damage,
+        health,
+        killed,
+        shotId: report.shotId,
+        position: report.hitPosition,
+        timestamp: now
+      }
+    };
+  }
+
+  /**
+   * The shooter's one-way latency at the moment of firing, clamped so a
+   * client can't claim an arbitrarily long rewind
+   */
+  private shooterLatency(shot: TrackedShot): number {
+    return Math.min(Math.max(shot.event.latency ?? 0, 0), this.options.maxRewindMs / 2);
+  }
+
+  /**
+   * When was the shot fired, and at what moment of the authority's history
+   * was the shooter looking when the projectile connected?
+   */
+  private rewindTimes(shot: TrackedShot, report: HitReportEvent): { fireTime: number; seenAt: number } {
+    const latency = this.shooterLatency(shot);
+
+    // Trust the shot's own timestamp if it is plausible, otherwise infer it from arrival time
+    const earliest = shot.receivedAt - this.options.maxRewindMs;
+    const fireTime = shot.event.timestamp >= earliest && shot.event.timestamp <= shot.receivedAt
+      ? shot.event.timestamp
+      : shot.receivedAt - latency;
+
+    // The projectile needs a moment to reach the target, and remote players
+    // were drawn one latency behind the authority when it got there
+    const travelMs = distance(report.hitPosition, shot.event.origin) / this.options.projectileSpeed * 1000;
+    const seenAt = Math.max(fireTime + travelMs - latency, shot.receivedAt - this.options.maxRewindMs);
+
+    return { fireTime, seenAt };
+  }
+
+  private pruneShots(now: number): void {
+    this.shots.forEach((shot, shotId) => {
+      if (now - shot.receivedAt > this.options.shotTtlMs) {
+        this.shots.delete(shotId);
+        this.consumedShots.delete(shotId);
+      }
+    });
+  }
+}
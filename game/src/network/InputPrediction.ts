@@ -0,0 +1,178 @@
+import { MovementInput, Vector3 } from '../types/game';
+
+export interface InputPredictionOptions {
+  // Inputs older than this many steps are dropped even if never acknowledged
+  maxPending?: number;
+  // Acknowledged positions closer than this to our prediction are left alone
+  correctionThreshold?: number;
+}
+
+/**
+ * One simulated step: the input, and the position and simulation state it produced
+ */
+export interface PredictedStep<S> {
+  input: MovementInput;
+  position: Vector3;
+  state: S;
+}
+
+/**
+ * Re-run one recorded step from a different starting point
+ */
+export type ReplayStep<S> = (
+  from: { position: Vector3; state: S },
+  step: PredictedStep<S>
+) => { position: Vector3; state: S };
+
+/**
+ * What happened when an acknowledgement was applied
+ */
+export interface ReconciliationResult<S> {
+  // Distance between the acknowledged position and what we predicted for that step
+  error: number;
+  // True when the prediction was thrown away and replayed
+  corrected: boolean;
+  replayed: number;
+  // Where the player should be now, and the simulation state to carry on from
+  position: Vector3;
+  state: S;
+}
+
+export interface ReconciliationMetrics {
+  totalCorrections: number;
+  averageError: number;
+  lastError: number;
+  lastCorrection: number;
+  replayedInputs: number;
+  pendingInputs: number;
+  lastAckedSequence: number;
+}
+
+const distance = (a: Vector3, b: Vector3): number =>
+  Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+/**
+ * Client-side prediction by input sequence.
+ *
+ * Every simulation step is recorded with the input that drove it. Inputs go
+ * to the server with their sequence numbers; when the server acknowledges a
+ * sequence with a position, everything up to it is dropped, and if the
+ * server disagrees with what we predicted for that step, the remaining
+ * inputs are replayed on top of the server's position. The player ends up
+ * where the server says plus everything pressed since, instead of being
+ * dragged back towards a stale position.
+ */
+export class InputPredictor<S> {
+  private pending: PredictedStep<S>[] = [];
+  private sequence = 0;
+  private unsentFrom = 0;
+  private options: Required<InputPredictionOptions>;
+  private metrics: ReconciliationMetrics = {
+    totalCorrections: 0,
+    averageError: 0,
+    lastError: 0,
+    lastCorrection: 0,
+    replayedInputs: 0,
+    pendingInputs: 0,
+    lastAckedSequence: 0
+  };
+  private acknowledgements = 0;
+
+  constructor(private replay: ReplayStep<S>, options: InputPredictionOptions = {}) {
+    this.options = {
+      maxPending: options.maxPending ?? 480,
+      correctionThreshold: options.correctionThreshold ?? 0.25
+    };
+  }
+
+  /**
+   * Sequence number for the next input
+   */
+  nextSequence(): number {
+    return ++this.sequence;
+  }
+
+  /**
+   * Sequence of the newest recorded input, i.e. the one the current position reflects
+   */
+  lastSequence(): number {
+    return this.pending.length > 0 ? this.pending[this.pending.length - 1].input.sequence : this.metrics.lastAckedSequence;
+  }
+
+  record(input: MovementInput, position: Vector3, state: S): void {
+    this.pending.push({ input, position, state });
+    const overflow = this.pending.length - this.options.maxPending;
+    if (overflow > 0) {
+      this.pending.splice(0, overflow);
+      this.unsentFrom = Math.max(0, this.unsentFrom - overflow);
+    }
+    this.metrics.pendingInputs = this.pending.length;
+  }
+
+  /**
+   * Inputs recorded since the last call, for the next player_update
+   */
+  takeUnsent(): MovementInput[] {
+    const inputs = this.pending.slice(this.unsentFrom).map(step => step.input);
+    this.unsentFrom = this.pending.length;
+    return inputs;
+  }
+
+  /**
+   * Apply the server's position for `sequence`. Returns null for
+   * acknowledgements of inputs we've already moved past.
+   */
+  acknowledge(sequence: number, position: Vector3, forced: boolean = false): ReconciliationResult<S> | null {
+    const index = this.pending.findIndex(step => step.input.sequence === sequence);
+    if (index === -1) return null;
+
+    const acked = this.pending[index];
+    const error = distance(acked.position, position);
+    this.pending.splice(0, index + 1);
+    this.unsentFrom = Math.max(0, this.unsentFrom - (index + 1));
+
+    this.acknowledgements++;
+    this.metrics.averageError += (error - this.metrics.averageError) / this.acknowledgements;
+    this.metrics.lastError = error;
+    this.metrics.lastAckedSequence = sequence;
+    this.metrics.pendingInputs = this.pending.length;
+
+    if (!forced && error <= this.options.correctionThreshold) {
+      return { error, corrected: false, replayed: 0, position: this.currentPosition(acked), state: this.currentState(acked) };
+    }
+
+    let current = { position, state: acked.state };
+    this.pending.forEach(step => {
+      current = this.replay(current, step);
+      step.position = current.position;
+      step.state = current.state;
+    });
+
+    this.metrics.totalCorrections++;
+    this.metrics.lastCorrection = Date.now();
+    this.metrics.replayedInputs += this.pending.length;
+
+    return { error, corrected: true, replayed: this.pending.length, position: current.position, state: current.state };
+  }
+
+  getMetrics(): ReconciliationMetrics {
+    return { ...this.metrics };
+  }
+
+  /**
+   * Forget everything pending, e.g. after a respawn teleports the player
+   */
+  reset(): void {
+    this.pending = [];
+    this.unsentFrom = 0;
+    this.metrics.pendingInputs = 0;
+  }
+
+  private currentPosition(fallback: PredictedStep<S>): Vector3 {
+    return this.pending.length > 0 ? this.pending[this.pending.length - 1].position : fallback.position;
+  }
+
+  private currentState(fallback: PredictedStep<S>): S {
+    return this.pending.length > 0 ? this.pending[this.pending.length - 1].state : fallback.state;
+  }
+}
@@ -0,0 +1,268 @@
+import React, { useState, useEffect } from 'react';
+import { ConnectionManager } from './ConnectionManager';
+import { SessionSummary } from './protocol';
+import { DEFAULT_MAP_ID, MAPS, generatedMapId, getMap, isMapId } from '../game/maps';
+
+type LobbyBrowserProps = {
+  connectionManager: ConnectionManager;
+};
+
+type CurrentSession = { key: string; name: string; private: boolean; playerCount: number };
+
+// Map picker entry for an arena built from a seed
+const GENERATED = 'generated';
+
+const buttonStyle: React.CSSProperties = {
+  background: 'rgba(255,255,255,0.15)',
+  color: 'white',
+  border: '1px solid rgba(255,255,255,0.3)',
+  borderRadius: '3px',
+  padding: '2px 6px',
+  fontSize: '12px',
+  cursor: 'pointer'
+};
+
+const inputStyle: React.CSSProperties = {
+  background: 'rgba(0,0,0,0.5)',
+  color: 'white',
+  border: '1px solid rgba(255,255,255,0.3)',
+  borderRadius: '3px',
+  padding: '2px 4px',
+  fontSize: '12px',
+  fontFamily: 'monospace',
+  flex: 1,
+  minWidth: 0
+};
+
+/**
+ * Lists open sessions and lets the player move between them (or watch one),
+ * open a new room, join a private one by its code, or ask to change team
+ */
+export const LobbyBrowser: React.FC<LobbyBrowserProps> = ({ connectionManager }) => {
+  const [open, setOpen] = useState(false);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [current, setCurrent] = useState<CurrentSession | null>(null);
+  const [roomName, setRoomName] = useState('');
+  const [joinCode, setJoinCode] = useState('');
+  const [mapId, setMapId] = useState(DEFAULT_MAP_ID);
+  const [seed, setSeed] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [team, setTeam] = useState(() => connectionManager.getPlayerCharacterType().type);
+  const [spectating, setSpectating] = useState(() => connectionManager.isSpectator());
+
+  useEffect(() => {
+    const handleSessionList = (list: SessionSummary[]) => {
+      setSessions(list);
+    };
+
+    const handleSessionJoined = (session: CurrentSession) => {
+      setCurrent(session);
+      setError(null);
+      // Our own count just changed, so the list is stale
+      connectionManager.listSessions();
+    };
+
+    const handleServerError = (message: { message: string; code?: string }) => {
+      if (message.code === 'team_switch_denied' || message.code === 'unknown_map') {
+        setError(message.message);
+      }
+    };
+
+    const handleTeamAssigned = (info: { type: 'merc' | 'jackalope' }) => {
+      setTeam(info.type);
+      setError(null);
+    };
+
+    const handleSpectatorChanged = (info: { spectator: boolean }) => {
+      setSpectating(info.spectator);
+    };
+
+    connectionManager.on('session_list', handleSessionList);
+    connectionManager.on('session_joined', handleSessionJoined);
+    connectionManager.on('server_error', handleServerError);
+    connectionManager.on('team_assigned', handleTeamAssigned);
+    connectionManager.on('spectator_changed', handleSpectatorChanged);
+
+    const info = connectionManager.getSessionInfo();
+    if (info) setCurrent({ ...info, playerCount: 1 });
+
+    return () => {
+      connectionManager.off('session_list', handleSessionList);
+      connectionManager.off('session_joined', handleSessionJoined);
+      connectionManager.off('server_error', handleServerError);
+      connectionManager.off('team_assigned', handleTeamAssigned);
+      connectionManager.off('spectator_changed', handleSpectatorChanged);
+    };
+  }, [connectionManager]);
+
+  // Poll while open so player counts stay roughly current
+  useEffect(() => {
+    if (!open) return;
+    connectionManager.listSessions();
+    const interval = setInterval(() => connectionManager.listSessions(), 3000);
+    return () => clearInterval(interval);
+  }, [open, connectionManager]);
+
+  const joinByCode = () => {
+    const code = joinCode.trim().toUpperCase();
+    if (!code) return;
+    connectionManager.joinSession(code);
+    setJoinCode('');
+  };
+
+  const create = (isPrivate: boolean) => {
+    // No seed typed in means a fresh arena every time
+    const chosen = mapId !== GENERATED
+      ? mapId
+      : generatedMapId(seed.trim() ? Number(seed) : Math.floor(Math.random() * 0x100000000));
+    connectionManager.createSession(roomName.trim() || undefined, isPrivate, chosen);
+    setRoomName('');
+  };
+
+  return (
+    <>
+      <div
+        style={{
+          position: 'absolute',
+          top: '10px',
+          left: '10px',
+          background: 'rgba(0,0,0,0.5)',
+          color: 'white',
+          padding: '5px',
+          cursor: 'pointer',
+          borderRadius: '4px',
+          zIndex: 1000
+        }}
+        onClick={() => setOpen(prev => !prev)}
+      >
+        {open ? 'Hide Rooms' : `Room: ${current?.name ?? '…'}`}
+      </div>
+
+      {open && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '40px',
+            left: '10px',
+            background: 'rgba(0,0,0,0.7)',
+            color: 'white',
+            padding: '10px',
+            borderRadius: '4px',
+            fontSize: '12px',
+            fontFamily: 'monospace',
+            zIndex: 1000,
+            width: '260px'
+          }}
+        >
+          {current?.private && (
+            <div style={{ marginBottom: '8px' }}>
+              Join code: <strong style={{ letterSpacing: '2px' }}>{current.key}</strong>
+            </div>
+          )}
+
+          {spectating ? (
+            <div style={{ marginBottom: '8px' }}>Spectating, you'll be seated when a slot opens</div>
+          ) : (
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+            <span>Team: {team}</span>
+            <span style={{ display: 'flex', gap: '5px' }}>
+              {(['jackalope', 'merc'] as const).map(type => (
+                <button
+                  key={type}
+                  style={{ ...buttonStyle, opacity: team === type ? 0.4 : 1 }}
+                  disabled={team === type}
+                  onClick={() => connectionManager.forceCharacterType(type)}
+                >
+                  {type === 'jackalope' ? 'Jackalope' : 'Merc'}
+                </button>
+              ))}
+            </span>
+          </div>
+          )}
+
+          <div style={{ marginBottom: '5px', fontWeight: 'bold' }}>Open rooms</div>
+          {sessions.length === 0 && <div style={{ opacity: 0.7, marginBottom: '5px' }}>No open rooms</div>}
+          {sessions.map(session => {
+            const here = session.key === current?.key;
+            const full = session.playerCount >= session.maxPlayers;
+            return (
+              <div key={session.key} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '5px' }}>
+                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', marginRight: '5px' }}>
+                  {session.name}
+                  {session.mapId && <span style={{ opacity: 0.6 }}> · {isMapId(session.mapId) ? getMap(session.mapId).name : session.mapId}</span>}
+                </span>
+                <span style={{ display: 'flex', gap: '5px', alignItems: 'center' }}>
+                  <span style={{ color: full ? '#f88' : '#8f8' }}>
+                    {session.playerCount}/{session.maxPlayers}
+                    {session.spectatorCount > 0 && ` +${session.spectatorCount}👀`}
+                  </span>
+                  {!here && !full && (
+                    <button style={buttonStyle} onClick={() => connectionManager.joinSession(session.key, true)}>
+                      Watch
+                    </button>
+                  )}
+                  <button
+                    style={{ ...buttonStyle, opacity: here ? 0.4 : 1 }}
+                    disabled={here}
+                    onClick={() => connectionManager.joinSession(session.key)}
+                  >
+                    {here ? 'Here' : full ? 'Watch' : 'Join'}
+                  </button>
+                </span>
+              </div>
+            );
+          })}
+
+          <div style={{ display: 'flex', gap: '5px', marginTop: '10px' }}>
+            <input
+              style={inputStyle}
+              placeholder="Join code"
+              value={joinCode}
+              onChange={event => setJoinCode(event.target.value)}
+              onKeyDown={event => {
+                // Keep WASD and friends from moving the player while typing
+                event.stopPropagation();
+                if (event.key === 'Enter') joinByCode();
+              }}
+            />
+            <button style={buttonStyle} onClick={joinByCode}>Join</button>
+          </div>
+
+          <div style={{ display: 'flex', gap: '5px', marginTop: '5px' }}>
+            <input
+              style={inputStyle}
+              placeholder="New room name"
+              value={roomName}
+              onChange={event => setRoomName(event.target.value)}
+              onKeyDown={event => event.stopPropagation()}
+            />
+            <button style={buttonStyle} onClick={() => create(false)}>Open</button>
+            <button style={buttonStyle} onClick={() => create(true)}>Private</button>
+          </div>
+
+          <div style={{ display: 'flex', gap: '5px', marginTop: '5px', alignItems: 'center' }}>
+            <span>Map</span>
+            <select style={inputStyle} value={mapId} onChange={event => setMapId(event.target.value)}>
+              {Object.values(MAPS).map(map => (
+                <option key={map.id} value={map.id} title={map.description}>{map.name}</option>
+              ))}
+              <option value={GENERATED}>Generated arena</option>
+            </select>
+            {mapId === GENERATED && (
+              <input
+                style={{ ...inputStyle, flex: 'none', width: '70px' }}
+                placeholder="Seed"
+                inputMode="numeric"
+                value={seed}
+                onChange={event => setSeed(event.target.value.replace(/\D/g, '').slice(0, 9))}
+                onKeyDown={event => event.stopPropagation()}
+              />
+            )}
+          </div>
+
+          {error && <div style={{ color: '#f88', marginTop: '5px' }}>{error}</div>}
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,128 @@
+import { MovementInput, Vector3 } from '../types/game';
+
+/**
+ * Tuning for movement validation
+ */
+export interface MovementAuthorityOptions {
+  // Fastest a player can cover ground (units/s); a sprinting merc moves runSpeed per
+  // physics step, ~36 u/s at App.tsx's 240Hz step
+  maxSpeed: number;
+  // Extra distance allowed per update for rounding and collision push-out
+  slack: number;
+  // Longest step an input may claim, so a client can't stretch its delta to cover a teleport
+  maxInputDelta: number;
+}
+
+export const DEFAULT_MOVEMENT_AUTHORITY_OPTIONS: MovementAuthorityOptions = {
+  maxSpeed: 40,
+  slack: 0.5,
+  maxInputDelta: 0.1
+};
+
+/**
+ * Outcome of applying a player_update. `position` is where the player really
+ * is; `corrected` is set when it differs from what the client claimed.
+ */
+export interface MovementResult {
+  sequence: number;
+  position: Vector3;
+  corrected: boolean;
+}
+
+/**
+ * Keeps clients honest about where they are.
+ *
+ * Clients simulate their own movement and report the result along with the
+ * inputs that produced it. The authority doesn't have the terrain, so it
+ * can't re-run the physics; instead it checks the horizontal distance moved
+ * is reachable with the inputs sent and clamps it when it isn't. Height is
+ * trusted, since jumping and falling depend on the ground below.
+ */
+export class MovementAuthority {
+  private positions: Map<string, Vector3> = new Map();
+  // Players who have sent inputs, and so must keep sending them
+  private predicting: Set<string> = new Set();
+  // Extra ground a player may cover before `until`, e.g. a jackalope's dash
+  private boosts: Map<string, { distance: number; until: number }> = new Map();
+  private options: MovementAuthorityOptions;
+
+  constructor(options: Partial<MovementAuthorityOptions> = {}) {
+    this.options = { ...DEFAULT_MOVEMENT_AUTHORITY_OPTIONS, ...options };
+  }
+
+  /**
+   * Check a claimed position against the inputs that produced it.
+   * Updates without inputs come from clients that don't predict and are accepted as-is,
+   * unless the player is `frozen` in place, when only falling and the slack are allowed.
+   * Once a player has sent inputs, an update without them is held to the slack too.
+   */
+  apply(id: string, claimed: Vector3, sequence: number, inputs: MovementInput[] = [], frozen: boolean = false): MovementResult {
+    if (inputs.length > 0) this.predicting.add(id);
+    const last = this.positions.get(id);
+    if (!last || (inputs.length === 0 && !frozen && !this.predicting.has(id))) {
+      this.positions.set(id, claimed);
+      return { sequence, position: claimed, corrected: false };
+    }
+
+    const { maxSpeed, slack, maxInputDelta } = this.options;
+    const elapsed = frozen ? 0 : inputs.reduce((sum, input) => sum + Math.min(Math.max(input.delta, 0), maxInputDelta), 0);
+    const walkable = maxSpeed * elapsed + slack;
+    const boost = frozen ? 0 : this.takeBoost(id);
+    const allowed = walkable + boost;
+
+    const dx = claimed[0] - last[0];
+    const dz = claimed[2] - last[2];
+    const moved = Math.hypot(dx, dz);
+
+    // Whatever part of the boost wasn't needed is left for the next update
+    if (boost > 0) this.keepBoost(id, boost - Math.max(0, Math.min(moved, allowed) - walkable));
+
+    if (moved <= allowed) {
+      this.positions.set(id, claimed);
+      return { sequence, position: claimed, corrected: false };
+    }
+
+    // Keep the direction, cut the distance down to what was possible
+    const scale = allowed / moved;
+    const position: Vector3 = [last[0] + dx * scale, claimed[1], last[2] + dz * scale];
+    this.positions.set(id, position);
+    return { sequence, position, corrected: true };
+  }
+
+  /**
+   * Let a player cover `distance` more than their inputs allow, spread over updates until `until`
+   */
+  boost(id: string, distance: number, until: number): void {
+    this.boosts.set(id, { distance, until });
+  }
+
+  private takeBoost(id: string, now: number = Date.now()): number {
+    const boost = this.boosts.get(id);
+    if (!boost) return 0;
+    if (now > boost.until) {
+      this.boosts.delete(id);
+      return 0;
+    }
+    return boost.distance;
+  }
+
+  private keepBoost(id: string, distance: number): void {
+    const boost = this.boosts.get(id);
+    if (!boost) return;
+    if (distance <= 0) this.boosts.delete(id);
+    else boost.distance = distance;
+  }
+
+  /**
+   * Forget the last position so the next update is accepted wherever it is (respawns)
+   */
+  reset(id: string): void {
+    this.positions.delete(id);
+  }
+
+  remove(id: string): void {
+    this.positions.delete(id);
+    this.boosts.delete(id);
+    this.predicting.delete(id);
+  }
+}
@@ -14,10 +14,12 @@ declare global {
 import React, { useState, useEffect, useRef, useImperativeHandle, useMemo } from 'react';
 import { useThree, useFrame } from '@react-three/fiber';
 import { ConnectionManager } from './ConnectionManager';
+import { ReconciliationMetrics } from './InputPrediction';
 import { RemotePlayer, RemotePlayerMethods } from '../game/RemotePlayer';
 import { RemoteShot } from '../game/sphere-tool';
 import * as THREE from 'three';
 import { Html } from '@react-three/drei';
+import { GameSnapshot, PlayerSnapshot } from '../types/game';
 
 // Add a global debug level constant
 // 0 = no logs, 1 = error only, 2 = important info, 3 = verbose 
@@ -43,6 +45,7 @@ type RemotePlayerData = {
   isRunning?: boolean; // Added flag to indicate if player is running
   isShooting?: boolean; // Added flag to indicate if player is shooting
   flashlightOn?: boolean; // Added flag to indicate if flashlight is on
+  reconnecting?: boolean; // Dropped, and the server is holding their slot
 };
 
 // Interface for RemotePlayer props
@@ -67,43 +70,6 @@ interface InitializedData {
   };
 }
 
-// Types for prediction and reconciliation
-interface PredictedState {
-  timestamp: number;
-  position: THREE.Vector3;
-  velocity: THREE.Vector3;
-  sequence: number;
-  processed: boolean;
-}
-
-// Snapshot system interfaces
-interface GameSnapshot {
-  timestamp: number;
-  sequence: number;
-  players: Record<string, PlayerSnapshot>;
-  events: GameEvent[];
-}
-
-interface PlayerSnapshot {
-  id: string;
-  position: [number, number, number];
-  rotation: [number, number, number, number];
-  velocity?: [number, number, number];
-  health: number;
-}
-
-interface GameEvent {
-  type: string;
-  timestamp: number;
-  data: any;
-}
-
-interface ServerState {
-  position: [number, number, number];
-  timestamp: number;
-  sequence: number;
-}
-
 type PlayerData = {
   position: [number, number, number];
   rotation: [number, number, number, number];
@@ -118,14 +84,19 @@ interface PlayerUpdateData {
   sequence?: number;
 }
 
-// ReconciliationDebugOverlay component to show reconciliation metrics
-const ReconciliationDebugOverlay = ({ metrics }: { metrics: {
-  totalCorrections: number,
-  averageError: number,
-  lastError: number,
-  lastCorrection: number,
-  active: boolean
-} }) => {
+// Reconciliation metrics reported by the local player's input prediction
+export const ReconciliationDebugOverlay = ({ connectionManager }: { connectionManager: ConnectionManager }) => {
+  const [metrics, setMetrics] = useState<ReconciliationMetrics | null>(connectionManager.getReconciliationMetrics());
+
+  useEffect(() => {
+    connectionManager.on('reconciliation_metrics', setMetrics);
+    return () => {
+      connectionManager.off('reconciliation_metrics', setMetrics);
+    };
+  }, [connectionManager]);
+
+  if (!metrics) return null;
+
   return (
     <div style={{
       position: 'absolute',
@@ -145,6 +116,9 @@ const ReconciliationDebugOverlay = ({ metrics }: { metrics: {
       <div>Avg Error: {metrics.averageError.toFixed(3)}</div>
       <div>Last Error: {metrics.lastError.toFixed(3)}</div>
       <div>Last Correction: {metrics.lastCorrection > 0 ? `${((Date.now() - metrics.lastCorrection) / 1000).toFixed(1)}s ago` : 'None'}</div>
+      <div>Replayed Inputs: {metrics.replayedInputs}</div>
+      <div>Pending Inputs: {metrics.pendingInputs}</div>
+      <div>Last Acked: #{metrics.lastAckedSequence}</div>
     </div>
   );
 };
@@ -159,22 +133,7 @@ export const useMultiplayer = (
   const [playerId, setPlayerId] = useState<string | null>(null);
   const [debugMode, setDebugMode] = useState(false);
   
-  // Add state prediction buffer
-  const stateBuffer = useRef<PredictedState[]>([]);
-  const lastServerUpdateTime = useRef<number>(0);
-  const serverTimeOffset = useRef<number>(0);
   const sequenceNumber = useRef<number>(0);
-  
-  // Add reconciliation tracking variables
-  const accumulatedError = useRef<number>(0);
-  const errorCount = useRef<number>(0);
-  const lastCorrectionTime = useRef<number>(0);
-  const pendingCorrection = useRef<boolean>(false);
-  const correctionData = useRef<{
-    position: THREE.Vector3;
-    smoothingFactor: number;
-    timestamp: number;
-  } | null>(null);
 
   // New snapshot system state
   const snapshots = useRef<GameSnapshot[]>([]);
@@ -190,10 +149,8 @@ export const useMultiplayer = (
   const lastSentPosition = useRef<[number, number, number] | null>(null);
   const nextSequence = useRef<number>(0);
   
-  // Get server time with offset
-  const getServerTime = () => {
-    return Date.now() + serverTimeOffset.current;
-  };
+  // Snapshots are stamped with the server's clock so they line up across clients
+  const getServerTime = () => connectionManager.getServerTime();
   
   // Create a new game snapshot
   const createGameSnapshot = () => {
@@ -212,18 +169,19 @@ export const useMultiplayer = (
         id: playerId,
         position: positionArray,
         rotation: rotationArray,
-        health: 100, // Assuming default health
+        health: connectionManager.getHealth(),
       };
     }
     
     // Add remote players
+    const known = connectionManager.getPlayers();
     Object.entries(remotePlayerRefs.current).forEach(([id, data]) => {
       if (data && data.position) {
         players[id] = {
           id,
           position: objectToArrayPosition(data.position),
           rotation: [0, data.rotation, 0, 1], // Convert simple rotation to quaternion
-          health: 100, // Assuming default health
+          health: known[id]?.health ?? 100,
         };
       }
     });
@@ -231,9 +189,10 @@ export const useMultiplayer = (
     // Create the snapshot
     const snapshot: GameSnapshot = {
       timestamp: getServerTime(),
-      sequence: sequenceNumber.current,
+      sequence: ++sequenceNumber.current,
       players,
-      events: [] // No events in this basic snapshot
+      // The connection manager adds the game events we've sent that the server hasn't had yet
+      events: []
     };
     
     // Add to snapshot buffer
@@ -249,199 +208,6 @@ export const useMultiplayer = (
     return snapshot;
   };
   
-  // Add function to send player position with prediction
-  const sendPlayerPosition = (position: THREE.Vector3, rotation: THREE.Quaternion) => {
-    if (!isConnected || !localPlayerRef.current) return;
-    
-    // Convert to arrays for network transmission
-    const positionArray: [number, number, number] = [position.x, position.y, position.z];
-    const rotationArray: [number, number, number, number] = [
-      rotation.x, rotation.y, rotation.z, rotation.w
-    ];
-
-    // Store predicted state in buffer with sequence number
-    const currentState: PredictedState = {
-      position: new THREE.Vector3(position.x, position.y, position.z),
-      velocity: new THREE.Vector3(0, 0, 0), // We'll track velocity later
-      sequence: sequenceNumber.current,
-      timestamp: getServerTime(),
-      processed: false
-    };
-    
-    // Add to prediction buffer
-    stateBuffer.current.push(currentState);
-    
-    // Limit buffer size to prevent memory issues
-    if (stateBuffer.current.length > 100) {
-      stateBuffer.current = stateBuffer.current.slice(-100);
-    }
-
-    // Send to server with sequence number for reconciliation
-    connectionManager.sendPlayerUpdate(
-      positionArray, 
-      rotationArray,
-      sequenceNumber.current
-    );
-    
-    // Increment sequence number for next update
-    sequenceNumber.current++;
-  };
-
-  // Handle server reconciliation when we receive updates
-  const handleServerReconciliation = (serverState: ServerState) => {
-    // Find the matching prediction in our buffer
-    const matchingPrediction = stateBuffer.current.find(
-      state => state.sequence === serverState.sequence
-    );
-    
-    if (matchingPrediction) {
-      // Mark as processed
-      matchingPrediction.processed = true;
-      
-      // Calculate position error between our prediction and server state
-      const serverPosition = new THREE.Vector3(
-        serverState.position[0],
-        serverState.position[1],
-        serverState.position[2]
-      );
-      
-      const positionError = serverPosition.distanceTo(matchingPrediction.position);
-      
-      // Calculate error ratios for logging and adaptive correction
-      const errorRatio = positionError / 0.1; // Based on threshold
-      const shouldCorrect = positionError > 0.1;
-      
-      // Update error tracking for metrics
-      accumulatedError.current += positionError;
-      errorCount.current++;
-      updateReconciliationMetrics(positionError);
-      
-      if (shouldCorrect && localPlayerRef.current?.rigidBody) {
-        console.log(`Correcting position error: ${positionError.toFixed(3)} (${errorRatio.toFixed(1)}x threshold)`);
-        
-        // Choose a smoothing factor based on error size
-        // Larger errors use stronger correction
-        let smoothingFactor = 0.3; // Default
-        
-        if (errorRatio > 5) {
-          // Very large error - snap immediately
-          smoothingFactor = 1.0;
-        } else if (errorRatio > 2) {
-          // Large error - correct more strongly
-          smoothingFactor = 0.7;
-        } else if (errorRatio < 0.5) {
-          // Minor error - gentle correction
-          smoothingFactor = 0.1;
-        }
-        
-        // Don't apply corrections too frequently (prevent jitter)
-        const correctionTimeDiff = Date.now() - lastCorrectionTime.current;
-        if (correctionTimeDiff > 50) { // At least 50ms between corrections
-          // For Y-axis, we want to be careful not to interfere with jumps
-          // Only correct Y if we're significantly off
-          const yError = Math.abs(serverPosition.y - matchingPrediction.position.y);
-          if (yError > 0.5) {
-            // Major Y difference - include in correction
-            correctPlayerPosition(serverPosition, smoothingFactor);
-          } else {
-            // Minor Y difference - only correct XZ
-            const currentPosition = localPlayerRef.current.rigidBody.translation();
-            const correctedPosition = new THREE.Vector3(
-              serverPosition.x,
-              currentPosition.y, // Keep current Y
-              serverPosition.z
-            );
-            correctPlayerPosition(correctedPosition, smoothingFactor);
-          }
-          
-          lastCorrectionTime.current = Date.now();
-        }
-      } else if (shouldCorrect) {
-        console.warn("Cannot correct position: no rigidBody reference");
-      } else {
-        console.log(`Position accurate within threshold: ${positionError.toFixed(3)}`);
-      }
-    } else {
-      console.log(`No matching prediction found for sequence ${serverState.sequence}`);
-      
-      // Handle orphaned server updates (no matching prediction)
-      // This can happen due to packet loss or out-of-order delivery
-      if (localPlayerRef.current?.rigidBody && serverState.position) {
-        const serverPosition = new THREE.Vector3(
-          serverState.position[0],
-          serverState.position[1],
-          serverState.position[2]
-        );
-        
-        // Use a higher smoothing factor for orphaned updates
-        correctPlayerPosition(serverPosition, 0.5);
-      }
-    }
-    
-    // Clean up old entries that have been processed
-    stateBuffer.current = stateBuffer.current.filter(
-      state => !state.processed || state.sequence > serverState.sequence - 30
-    );
-  };
-  
-  // Function to correct player position with proper error handling
-  const correctPlayerPosition = (serverPosition: THREE.Vector3, smoothingFactor: number) => {
-    try {
-      // Store the correction for application in the physics step
-      correctionData.current = {
-        position: serverPosition.clone(),
-        smoothingFactor,
-        timestamp: Date.now()
-      };
-      
-      // Schedule correction to be applied in next physics step
-      pendingCorrection.current = true;
-      
-      // Update timestamp for synchronization
-      lastServerUpdateTime.current = Date.now();
-    } catch (error) {
-      console.error("Error during position correction:", error);
-    }
-  };
-  
-  // Apply correction with proper physics integration
-  const applyCorrection = () => {
-    if (!correctionData.current || !localPlayerRef.current?.rigidBody) {
-      pendingCorrection.current = false;
-      return false;
-    }
-    
-    try {
-      const { position, smoothingFactor } = correctionData.current;
-      const currentPosition = localPlayerRef.current.rigidBody.translation();
-      
-      // Calculate interpolated position
-      const newX = currentPosition.x + (position.x - currentPosition.x) * smoothingFactor;
-      const newY = currentPosition.y + (position.y - currentPosition.y) * smoothingFactor;
-      const newZ = currentPosition.z + (position.z - currentPosition.z) * smoothingFactor;
-      
-      // Apply the correction to the physics body
-      localPlayerRef.current.rigidBody.setTranslation(
-        { x: newX, y: newY, z: newZ },
-        true
-      );
-      
-      // Log the correction
-      console.log(`Applied position correction with factor ${smoothingFactor}`);
-      
-      // Clear the correction data
-      correctionData.current = null;
-      pendingCorrection.current = false;
-      
-      return true;
-    } catch (error) {
-      console.error("Error applying correction:", error);
-      pendingCorrection.current = false;
-    }
-    
-    return false;
-  };
-  
   // Track remote players
   useEffect(() => {
     if (!connectionManager) return;
@@ -968,48 +734,17 @@ export const useMultiplayer = (
     updateMethodsRef.current[id] = methods;
   };
   
-  // Apply correction during each frame and handle snapshot interpolation
+  // Prune stale snapshots each frame
   useFrame(() => {
-    // Apply any pending corrections
-    if (pendingCorrection.current) {
-      applyCorrection();
-    }
-    
     // Snapshot management - check for stale data
     if (snapshots.current.length > 0) {
-      const now = Date.now();
+      const now = getServerTime();
       // Clean up snapshots older than 10 seconds
       const oldestValidTime = now - 10000;
       snapshots.current = snapshots.current.filter(s => s.timestamp > oldestValidTime);
     }
   });
   
-  // For reconciliation metrics
-  const [reconciliationMetrics, setReconciliationMetrics] = useState({
-    totalCorrections: 0,
-    averageError: 0,
-    lastError: 0,
-    lastCorrection: 0,
-    active: debugMode
-  });
-  
-  // Update metrics when corrections happen
-  const updateReconciliationMetrics = (error: number) => {
-    setReconciliationMetrics(prev => {
-      const totalCorrections = prev.totalCorrections + 1;
-      const totalError = prev.averageError * prev.totalCorrections + error;
-      const averageError = totalError / totalCorrections;
-      
-      return {
-        totalCorrections,
-        averageError,
-        lastError: error,
-        lastCorrection: Date.now(),
-        active: debugMode
-      };
-    });
-  };
-  
   // Function to get a snapshot at a specific time
   const getSnapshotAtTime = (timestamp: number) => {
     if (snapshots.current.length === 0) {
@@ -1241,19 +976,6 @@ export const useMultiplayer = (
       
       console.log('Dispatching remoteShotFired event:', event.detail);
       
-      // Also store the shot data in localStorage for cross-browser testing
-      try {
-        // This allows shots to be heard across browsers during testing
-        localStorage.setItem('lastRemoteShot', JSON.stringify({
-          playerId: shotData.id,
-          shotId,
-          timestamp: Date.now(),
-          position
-        }));
-      } catch (e) {
-        // Ignore localStorage errors
-      }
-      
       // Dispatch the event to trigger audio
       window.dispatchEvent(event);
       
@@ -1318,56 +1040,7 @@ export const useMultiplayer = (
   // Listen for shots from the connection manager
   connectionManager.on('shot', handleRemoteShot);
   
-  // Also listen for shots from localStorage (cross-browser testing)
   useEffect(() => {
-    const handleStorageEvent = (e: StorageEvent) => {
-      if (e.key === 'lastRemoteShot' && e.newValue) {
-        try {
-          const shotData = JSON.parse(e.newValue);
-          console.log('Shot detected from localStorage:', shotData);
-          
-          // Dispatch sound event
-          window.dispatchEvent(new CustomEvent('remoteShotFired', {
-            detail: shotData
-          }));
-          
-          // Also update the remote player state
-          if (shotData.playerId) {
-            setRemotePlayers(prev => {
-              if (!prev[shotData.playerId]) return prev;
-              
-              return {
-                ...prev,
-                [shotData.playerId]: {
-                  ...prev[shotData.playerId],
-                  isShooting: true
-                }
-              };
-            });
-            
-            // Reset shooting after delay
-            setTimeout(() => {
-              setRemotePlayers(prev => {
-                if (!prev[shotData.playerId]) return prev;
-                
-                return {
-                  ...prev,
-                  [shotData.playerId]: {
-                    ...prev[shotData.playerId],
-                    isShooting: false
-                  }
-                };
-              });
-            }, 300);
-          }
-        } catch (error) {
-          console.error('Error processing localStorage shot:', error);
-        }
-      }
-    };
-    
-    window.addEventListener('storage', handleStorageEvent);
-    
     // Setup debug helper functions
     window.__shotBroadcast = (shot: any) => {
       window.dispatchEvent(new CustomEvent('remoteShotFired', {
@@ -1420,7 +1093,6 @@ export const useMultiplayer = (
     return () => {
       console.log('Cleaning up remote shots listener');
       connectionManager.off('shot', handleRemoteShot);
-      window.removeEventListener('storage', handleStorageEvent);
     };
   }, [remotePlayers, connectionManager]);
   
@@ -1441,13 +1113,7 @@ export const useMultiplayer = (
     updatePlayerRef,
     isConnected,
     playerId,
-    sendPlayerPosition,
-    // Add reconciliation controls
     setDebugMode,
-    applyCorrection,
-    pendingReconciliation: pendingCorrection,
-    reconciliationMetrics,
-    ReconciliationDebugOverlay,
     // Add snapshot system exports
     getSnapshotAtTime,
     createGameSnapshot,
@@ -1485,6 +1151,7 @@ export const RemotePlayers = React.memo(({
           isRunning={playerData.isRunning}
           isShooting={playerData.isShooting}
           flashlightOn={playerData.flashlightOn}
+          reconnecting={playerData.reconnecting}
         />
       ))}
     </>
@@ -1617,15 +1284,6 @@ export const MultiplayerManager: React.FC<{
       
       console.log(`Assigning player type ${playerType} to ${data.id}`);
       
-      // Check if this aligns with expected alternating pattern and log any discrepancies
-      const remotePlayerCount = Object.keys(remotePlayers).length;
-      const expectedType = remotePlayerCount % 2 === 0 ? 'jackalope' : 'merc';
-      if (playerType !== expectedType) {
-        console.log(`⚠️ Player ${data.id} has type ${playerType} but expected ${expectedType} based on remote player count ${remotePlayerCount}`);
-      }
-      
-      console.log(`Final player type assignment for ${data.id}: ${playerType}`);
-      
       setRemotePlayers(prev => {
         // Skip if player already exists
         if (prev[data.id]) {
@@ -1660,6 +1318,25 @@ export const MultiplayerManager: React.FC<{
       });
     };
     
+    // A dropped player stays in the list, flagged, until they resume or leave
+    const setReconnecting = (id: string, reconnecting: boolean) => {
+      setRemotePlayers(prev => prev[id] ? { ...prev, [id]: { ...prev[id], reconnecting } } : prev);
+    };
+    const handlePlayerReconnecting = (data: { id: string }) => {
+      console.log("📴 Player reconnecting:", data.id);
+      setReconnecting(data.id, true);
+    };
+    const handlePlayerResumed = (data: { id: string }) => {
+      console.log("🔁 Player resumed:", data.id);
+      setReconnecting(data.id, false);
+    };
+    
+    // player_update never changes a known player's type; only the session's team assignments do
+    const handlePlayerTeamChanged = (data: { id: string, playerType: 'merc' | 'jackalope' }) => {
+      console.log(`🔀 Player ${data.id} is now a ${data.playerType}`);
+      setRemotePlayers(prev => prev[data.id] ? { ...prev, [data.id]: { ...prev[data.id], playerType: data.playerType } } : prev);
+    };
+    
     const handlePlayerLeft = (data: any) => {
       console.log("➖ Player left:", data);
       
@@ -1846,6 +1523,9 @@ export const MultiplayerManager: React.FC<{
     connectionManager.on('player_joined', handlePlayerJoined);
     connectionManager.on('player_left', handlePlayerLeft);
     connectionManager.on('player_update', handlePlayerUpdate);
+    connectionManager.on('player_reconnecting', handlePlayerReconnecting);
+    connectionManager.on('player_resumed', handlePlayerResumed);
+    connectionManager.on('player_team_changed', handlePlayerTeamChanged);
     
     // When connected, request the player list to make sure we have everyone
     const handleConnected = () => {
@@ -1907,6 +1587,9 @@ export const MultiplayerManager: React.FC<{
       connectionManager.off('player_joined', handlePlayerJoined);
       connectionManager.off('player_left', handlePlayerLeft);
       connectionManager.off('player_update', handlePlayerUpdate);
+      connectionManager.off('player_reconnecting', handlePlayerReconnecting);
+      connectionManager.off('player_resumed', handlePlayerResumed);
+      connectionManager.off('player_team_changed', handlePlayerTeamChanged);
       connectionManager.off('connected', handleConnected);
       connectionManager.off('initialized', handleInitialized);
     };
@@ -2116,6 +1799,7 @@ export const useRemoteShots = (connectionManager: ConnectionManager) => {
         id: shotData.id || 'unknown',
         origin: shotData.origin || shotData.position || [0, 0, 0],
         direction: shotData.direction || [0, 1, 0],
+        weapon: shotData.weapon,
         shotId: shotId // Add the shotId to help with deduplication
       };
       
@@ -2123,19 +1807,6 @@ export const useRemoteShots = (connectionManager: ConnectionManager) => {
       setShots(prev => [...prev, remoteShot]);
     };
     
-    // Setup cross-browser communication for shots
-    const handleStorageEvent = (e: StorageEvent) => {
-      if (e.key === 'jackalopes_shot_events' && e.newValue) {
-        try {
-          const shotData = JSON.parse(e.newValue);
-          console.log('Shot received from localStorage:', shotData);
-          handleShot(shotData);
-        } catch (error) {
-          console.error('Error processing shot from localStorage:', error);
-        }
-      }
-    };
-    
     // Initialize or reuse the global processed shots set
     if (!window.__processedShots) {
       window.__processedShots = new Set<string>();
@@ -2147,20 +1818,13 @@ export const useRemoteShots = (connectionManager: ConnectionManager) => {
     // Listen for shots from the connection manager
     connectionManager.on('shot', handleShot);
     
-    // Also listen for shots from localStorage (cross-browser testing)
-    window.addEventListener('storage', handleStorageEvent);
-    
-    // Make the localStorage broadcast function available globally
+    // Shots fired while offline are only shown in this tab
     window.__shotBroadcast = (shotData: any) => {
       // Ensure the shot has a consistent ID
       if (!shotData.shotId) {
         shotData.shotId = `${shotData.id}-${shotData.origin?.join(',') || '0,0,0'}-${Date.now()}`;
       }
       
-      console.log('Shot broadcasted to localStorage:', shotData);
-      localStorage.setItem('jackalopes_shot_events', JSON.stringify(shotData));
-      
-      // Also process it locally for the current window
       handleShot(shotData);
     };
     
@@ -2186,7 +1850,6 @@ export const useRemoteShots = (connectionManager: ConnectionManager) => {
     return () => {
       console.log('Cleaning up remote shots listener');
       connectionManager.off('shot', handleShot);
-      window.removeEventListener('storage', handleStorageEvent);
       
       // Clean up global functions but preserve processed shots
       delete window.__shotBroadcast;
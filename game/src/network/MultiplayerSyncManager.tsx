@@ -6,6 +6,8 @@ import { ConnectionManager } from './ConnectionManager';
 import entityStateObserver from './EntityStateObserver';
 import { RemotePlayer } from '../game/RemotePlayer';
 import { log, DEBUG_LEVELS, isDebugEnabled } from '../utils/debugUtils';
+import { GameEventData } from '../types/game';
+import { startingPosition } from '../game/maps';
 
 // Add global type declaration
 declare global {
@@ -15,15 +17,6 @@ declare global {
       levaPanelState?: 'open' | 'closed';
       flashlightOn?: boolean;
       debugLevel?: number;
-      spawnManager?: {
-        baseSpawnX: number;
-        currentSpawnX: number;
-        stepSize: number;
-        minX: number;
-        getNextSpawnPoint: () => [number, number, number];
-        resetSpawnPoints: () => [number, number, number];
-        getSpawnPoint: () => [number, number, number];
-      };
     };
   }
 }
@@ -168,12 +161,11 @@ export const MultiplayerSyncManager: React.FC<MultiplayerSyncManagerProps> = ({
     };
     
     // When a game event occurs, process it
-    const handleGameEvent = (event: any) => {
+    const handleGameEvent = (event: GameEventData) => {
       // Handle different event types
-      if (event.event_type === 'player_shoot' || 
-          event.type === 'player_shoot') {
+      if (event.event_type === 'player_shoot') {
         
-        const playerId = event.player_id || event.player;
+        const playerId = event.player_id;
         
         // Skip our own shots
         if (playerId === connectionManager.getPlayerId()) {
@@ -221,15 +213,7 @@ export const MultiplayerSyncManager: React.FC<MultiplayerSyncManagerProps> = ({
           console.log(`🔄 [SyncManager] Cannot process respawn for unknown entity: ${respawnPlayerId}`);
           // Try to create the entity if it doesn't exist yet
           try {
-            // Determine spawn position from spawnManager or fall back to event data
-            let fallbackPosition: [number, number, number];
-            if ((window.jackalopesGame as any)?.spawnManager) {
-              fallbackPosition = (window.jackalopesGame as any).spawnManager.getSpawnPoint();
-              console.log(`🔄 [SyncManager] Using spawn manager position: [${fallbackPosition.join(', ')}]`);
-            } else {
-              fallbackPosition = event.spawnPosition || [-100, 3, 10];
-              console.log(`🔄 [SyncManager] Using server-provided position: [${fallbackPosition.join(', ')}]`);
-            }
+            const fallbackPosition = event.spawnPosition ?? startingPosition('jackalope', connectionManager.getMap());
 
             console.log(`🔄 [SyncManager] Creating missing entity for respawn: ${respawnPlayerId}`);
             entityStateObserver.updateEntity({
@@ -248,30 +232,16 @@ export const MultiplayerSyncManager: React.FC<MultiplayerSyncManagerProps> = ({
           }
         }
         
-        // Determine the actual respawn position to use
-        let spawnPosition: [number, number, number];
+        // The authority picked the spot; older relays may not have, so fall back to the team's first spawn
+        const spawnTeam = entityStateObserver.getEntity(respawnPlayerId)?.type ?? 'jackalope';
+        const spawnPosition: [number, number, number] = event.spawnPosition ?? startingPosition(spawnTeam, connectionManager.getMap());
         
-        // Priority 1: Use spawn manager if available (client-side control for progressive spawning)
-        if ((window.jackalopesGame as any)?.spawnManager) {
-          // If this is a local player respawn, get the next position with progression
-          if (respawnPlayerId === connectionManager.getPlayerId()) {
-            spawnPosition = (window.jackalopesGame as any).spawnManager.getNextSpawnPoint();
-            console.log(`🔄 [SyncManager] Using next spawn point from manager: [${spawnPosition.join(', ')}]`);
-          } else {
-            // For remote players, just get the current position
-            spawnPosition = (window.jackalopesGame as any).spawnManager.getSpawnPoint();
-            console.log(`🔄 [SyncManager] Using current spawn point from manager: [${spawnPosition.join(', ')}]`);
-          }
-        }
-        // Priority 2: Use position from event if provided by server
-        else if (event.spawnPosition) {
-          spawnPosition = event.spawnPosition;
-          console.log(`🔄 [SyncManager] Using server-provided position: [${spawnPosition.join(', ')}]`);
-        }
-        // Priority 3: Fall back to default position
-        else {
-          spawnPosition = [-100, 3, 10];
-          console.log(`🔄 [SyncManager] Using default fallback position: [${spawnPosition.join(', ')}]`);
+        // Protection is in server time; everyone shows it for however long is left
+        const protectionMs = Math.max(0, (event.protectedUntil ?? 0) - connectionManager.getServerTime());
+        if (protectionMs > 0) {
+          window.dispatchEvent(new CustomEvent('spawn_protection', {
+            detail: { playerId: respawnPlayerId, durationMs: protectionMs }
+          }));
         }
         
         console.log(`🔄 [SyncManager] Setting respawn position to: [${spawnPosition.join(', ')}]`);
@@ -309,20 +279,15 @@ export const MultiplayerSyncManager: React.FC<MultiplayerSyncManagerProps> = ({
         console.log(`🔄 [SyncManager] Local player ID: ${localPlayerId}, Respawning player: ${respawnPlayerId}`);
         
         // IMPORTANT: Also broadcast the respawn via an additional immediate update message
-        // This helps ensure the respawn is seen by all clients
-        if (connectionManager && !event.noBroadcast) {
+        // This helps ensure the respawn is seen by all clients. Player updates are always
+        // attributed to the sender, so only the respawning player can send this one.
+        if (connectionManager && respawnPlayerId === connectionManager.getPlayerId()) {
           try {
             // Send an immediate position update to ensure everyone sees the new position
-            connectionManager.sendMessage({
-              type: 'player_update',
-              state: {
-                position: spawnPosition,
-                rotation: 0,
-                sequence: Date.now(),
-                isRespawning: false,
-                playerType: 'jackalope'
-              },
-              player_id: respawnPlayerId
+            connectionManager.sendPlayerUpdate({
+              position: spawnPosition,
+              rotation: [0, 0, 0, 1],
+              playerType: connectionManager.getPlayerCharacterType().type
             });
             console.log(`🔄 [SyncManager] Sent immediate position update for respawned player ${respawnPlayerId}`);
           } catch (e) {
@@ -336,7 +301,7 @@ export const MultiplayerSyncManager: React.FC<MultiplayerSyncManagerProps> = ({
           try {
             // Dispatch a local event to trigger respawn effects
             const respawnEvent = new CustomEvent('player_respawned', {
-              detail: { position: spawnPosition }
+              detail: { position: spawnPosition, protectionMs }
             });
             window.dispatchEvent(respawnEvent);
             console.log(`🔄 [SyncManager] Successfully dispatched respawn event for local player ${respawnPlayerId}`);
@@ -372,6 +337,15 @@ export const MultiplayerSyncManager: React.FC<MultiplayerSyncManagerProps> = ({
           console.error('🏆 [SyncManager] Error dispatching score update event:', err);
         }
       }
+      // Confirmed hits drive hit effects on the target and scoring for the shooter
+      else if (event.event_type === 'player_hit') {
+        console.log(`🎯 [SyncManager] Hit confirmed: ${event.hit_by} hit ${event.player_id}`);
+        window.dispatchEvent(new CustomEvent('player_hit', { detail: event }));
+      }
+      // Remote jackalopes disappear underground while burrowed
+      else if (event.event_type === 'ability_used') {
+        window.dispatchEvent(new CustomEvent('ability_used', { detail: event }));
+      }
     };
     
     // Register event handlers
@@ -0,0 +1,245 @@
+import { EventEmitter } from 'events';
+import { seededRandom } from '../game/maps/generator';
+import { TrafficDirection } from './TrafficStats';
+import { Transport } from './Transport';
+
+/**
+ * What the simulated link does to frames, applied to each direction on its own
+ */
+export interface NetworkConditions {
+  // One-way delay added to every frame
+  latencyMs: number;
+  // Each frame's delay is up to this much either side of latencyMs
+  jitterMs: number;
+  // Chances (0-1) that a frame is dropped, arrives twice, or is overtaken by later ones
+  loss: number;
+  duplicate: number;
+  reorder: number;
+}
+
+export type NetworkPresetName = 'ideal' | 'broadband' | 'wifi' | '4g' | '3g' | 'lossy';
+
+export const NETWORK_PRESETS: Record<NetworkPresetName, NetworkConditions> = {
+  ideal: { latencyMs: 0, jitterMs: 0, loss: 0, duplicate: 0, reorder: 0 },
+  broadband: { latencyMs: 15, jitterMs: 3, loss: 0.001, duplicate: 0, reorder: 0 },
+  wifi: { latencyMs: 30, jitterMs: 15, loss: 0.01, duplicate: 0.001, reorder: 0.005 },
+  '4g': { latencyMs: 60, jitterMs: 25, loss: 0.01, duplicate: 0.002, reorder: 0.01 },
+  '3g': { latencyMs: 150, jitterMs: 60, loss: 0.03, duplicate: 0.005, reorder: 0.02 },
+  lossy: { latencyMs: 50, jitterMs: 20, loss: 0.15, duplicate: 0.02, reorder: 0.05 }
+};
+
+export const NETWORK_PRESET_LABELS: Record<NetworkPresetName, string> = {
+  ideal: 'Ideal',
+  broadband: 'Good broadband',
+  wifi: 'Wi-Fi',
+  '4g': '4G',
+  '3g': '3G',
+  lossy: 'Lossy'
+};
+
+export const isNetworkPresetName = (value: unknown): value is NetworkPresetName =>
+  typeof value === 'string' && value in NETWORK_PRESETS;
+
+export interface SimulatedTraffic {
+  frames: number;
+  dropped: number;
+  duplicated: number;
+  reordered: number;
+}
+
+// Same numbers on every run unless reseeded
+const DEFAULT_SEED = 1;
+
+// How far past its own arrival time a reordered frame is held back
+const REORDER_HOLD_MS = 40;
+
+// WebSocket.OPEN, which Node doesn't always have
+const OPEN = 1;
+
+const emptyTraffic = (): SimulatedTraffic => ({ frames: 0, dropped: 0, duplicated: 0, reordered: 0 });
+
+const clamp = (value: number, min: number, max: number): number =>
+  Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : min;
+
+/**
+ * When one frame's copies arrive (none if it was lost), and the earliest the
+ * next frame that way may arrive without overtaking it
+ */
+interface Delivery {
+  arrivals: number[];
+  orderedUntil: number;
+}
+
+/**
+ * Bad network on demand, for tuning prediction, interpolation and
+ * reconciliation without waiting for the Wi-Fi to act up.
+ *
+ * Sockets wrapped with wrap() have each frame delayed, dropped, doubled or
+ * reordered according to the current conditions, which can be changed at any
+ * time. The dice are seeded, so the same seed, conditions and traffic give the
+ * same losses every run. Emits 'change' with the new conditions.
+ */
+export class NetworkSimulator extends EventEmitter {
+  private conditions: NetworkConditions = { ...NETWORK_PRESETS.ideal };
+  private random: () => number;
+  private traffic: Record<TrafficDirection, SimulatedTraffic> = { sent: emptyTraffic(), received: emptyTraffic() };
+
+  constructor(seed: number = DEFAULT_SEED) {
+    super();
+    this.random = seededRandom(seed);
+  }
+
+  getConditions(): NetworkConditions {
+    return { ...this.conditions };
+  }
+
+  // Change some conditions; values are clamped to what makes sense
+  configure(changes: Partial<NetworkConditions>): void {
+    const next = { ...this.conditions, ...changes };
+    const conditions: NetworkConditions = {
+      latencyMs: clamp(next.latencyMs, 0, 5000),
+      jitterMs: clamp(next.jitterMs, 0, 5000),
+      loss: clamp(next.loss, 0, 1),
+      duplicate: clamp(next.duplicate, 0, 1),
+      reorder: clamp(next.reorder, 0, 1)
+    };
+    if (JSON.stringify(conditions) === JSON.stringify(this.conditions)) return;
+    this.conditions = conditions;
+    this.emit('change', this.getConditions());
+  }
+
+  usePreset(name: NetworkPresetName): void {
+    this.configure(NETWORK_PRESETS[name]);
+  }
+
+  // The preset the current conditions match, if they match one
+  getPreset(): NetworkPresetName | null {
+    const current = JSON.stringify(this.conditions);
+    return (Object.keys(NETWORK_PRESETS) as NetworkPresetName[])
+      .find(name => JSON.stringify(NETWORK_PRESETS[name]) === current) ?? null;
+  }
+
+  isIdeal(): boolean {
+    return this.getPreset() === 'ideal';
+  }
+
+  // Start the dice over, and the counts with them, to replay a run
+  reseed(seed: number = DEFAULT_SEED): void {
+    this.random = seededRandom(seed);
+    this.traffic = { sent: emptyTraffic(), received: emptyTraffic() };
+  }
+
+  // What the simulator has done to frames each way since the last reseed
+  getTraffic(): Record<TrafficDirection, SimulatedTraffic> {
+    return { sent: { ...this.traffic.sent }, received: { ...this.traffic.received } };
+  }
+
+  /**
+   * A transport that behaves like `socket` seen through the simulated link
+   */
+  wrap(socket: Transport): Transport {
+    return new SimulatedTransport(socket, this);
+  }
+
+  /**
+   * Roll the dice for one frame going `direction` at `now`, when the last
+   * in-order frame that way is due at `orderedUntil`
+   */
+  deliver(direction: TrafficDirection, now: number, orderedUntil: number): Delivery {
+    const traffic = this.traffic[direction];
+    const { latencyMs, jitterMs, loss, duplicate, reorder } = this.conditions;
+    traffic.frames++;
+    // Nothing to simulate and nothing in flight: straight through
+    if (this.isIdeal() && orderedUntil <= now) return { arrivals: [now], orderedUntil: now };
+
+    if (this.random() < loss) {
+      traffic.dropped++;
+      return { arrivals: [], orderedUntil };
+    }
+    let arrival = now + Math.max(0, latencyMs + (this.random() * 2 - 1) * jitterMs);
+    if (this.random() < reorder) {
+      // Held back for later frames to overtake, without holding them up in turn
+      traffic.reordered++;
+      arrival += jitterMs + REORDER_HOLD_MS;
+    } else {
+      arrival = Math.max(arrival, orderedUntil);
+      orderedUntil = arrival;
+    }
+    if (this.random() < duplicate) {
+      traffic.duplicated++;
+      return { arrivals: [arrival, arrival + this.random() * (jitterMs + 1)], orderedUntil };
+    }
+    return { arrivals: [arrival], orderedUntil };
+  }
+}
+
+/**
+ * Passes everything through to the real socket, with frames both ways
+ * going through the simulator on the way. Opening, errors and closing aren't
+ * lost, but a close still waits for the frames ahead of it.
+ */
+class SimulatedTransport implements Transport {
+  onopen: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  private pending = new Set<ReturnType<typeof setTimeout>>();
+  private orderedUntil: Record<TrafficDirection, number> = { sent: 0, received: 0 };
+
+  constructor(private socket: Transport, private simulator: NetworkSimulator) {
+    socket.onopen = event => this.onopen?.(event);
+    socket.onerror = event => this.onerror?.(event);
+    socket.onmessage = event => this.pass('received', () => this.onmessage?.(event));
+    socket.onclose = event => this.at(Math.max(Date.now(), this.orderedUntil.received), () => this.onclose?.(event));
+  }
+
+  get readyState(): number {
+    return this.socket.readyState;
+  }
+
+  get binaryType(): BinaryType {
+    return this.socket.binaryType;
+  }
+
+  set binaryType(binaryType: BinaryType) {
+    this.socket.binaryType = binaryType;
+  }
+
+  send(data: string | ArrayBuffer): void {
+    this.pass('sent', () => {
+      // The socket may have gone while the frame was in flight
+      if (this.socket.readyState === OPEN) this.socket.send(data);
+    });
+  }
+
+  // Frames still in flight either way go with the connection
+  close(code?: number, reason?: string): void {
+    this.pending.forEach(timer => clearTimeout(timer));
+    this.pending.clear();
+    this.socket.close(code, reason);
+  }
+
+  private pass(direction: TrafficDirection, handOver: () => void): void {
+    const now = Date.now();
+    const delivery = this.simulator.deliver(direction, now, this.orderedUntil[direction]);
+    this.orderedUntil[direction] = delivery.orderedUntil;
+    delivery.arrivals.forEach(arrival => this.at(arrival, handOver));
+  }
+
+  private at(time: number, handOver: () => void): void {
+    const delay = time - Date.now();
+    if (delay <= 0) {
+      handOver();
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.pending.delete(timer);
+      handOver();
+    }, delay);
+    this.pending.add(timer);
+  }
+}
+
+export const networkSimulator = new NetworkSimulator();
+
+export default networkSimulator;
@@ -1,5 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { ConnectionManager } from './ConnectionManager';
+import clockSync from './ClockSync';
+import { TrafficRate, TrafficReport } from './TrafficStats';
+
+// How often the bandwidth rows are refreshed
+const TRAFFIC_POLL_MS = 1000;
+
+const formatRate = (rate: TrafficRate): string => `${(rate.bytesPerSecond / 1024).toFixed(1)} KB/s`;
+
+// Share of the JSON cost the codec saved, across both directions
+const formatSaving = ({ sent, received }: TrafficReport): string => {
+  const json = sent.jsonBytesPerSecond + received.jsonBytesPerSecond;
+  if (json === 0) return 'N/A';
+  return `${Math.round((1 - (sent.bytesPerSecond + received.bytesPerSecond) / json) * 100)}%`;
+};
 
 type NetworkStatsProps = {
   connectionManager: ConnectionManager;
@@ -16,7 +30,10 @@ export const NetworkStats: React.FC<NetworkStatsProps> = ({
   const [messagesSent, setMessagesSent] = useState(0);
   const [messagesReceived, setMessagesReceived] = useState(0);
   const [latency, setLatency] = useState(0);
+  const [clockOffset, setClockOffset] = useState<number | null>(null);
   const [showStats, setShowStats] = useState(visible);
+  const [traffic, setTraffic] = useState<TrafficReport | null>(null);
+  const [dormant, setDormant] = useState<string[]>([]);
 
   useEffect(() => {
     setShowStats(visible);
@@ -56,6 +73,12 @@ export const NetworkStats: React.FC<NetworkStatsProps> = ({
     
     const handleLatencyUpdate = (newLatency: number) => {
       setLatency(newLatency);
+      // Pongs are the only thing that moves the clock estimate
+      setClockOffset(clockSync.isSynced() ? Math.round(clockSync.getOffset()) : null);
+    };
+    
+    const handleDormantChanged = (ids: string[]) => {
+      setDormant(ids);
     };
     
     // Add event listeners
@@ -67,11 +90,13 @@ export const NetworkStats: React.FC<NetworkStatsProps> = ({
     connectionManager.on('message_sent', handleMessageSent);
     connectionManager.on('message_received', handleMessageReceived);
     connectionManager.on('latency_update', handleLatencyUpdate);
+    connectionManager.on('dormant_changed', handleDormantChanged);
     
     // Set initial state
     setIsConnected(connectionManager.isPlayerConnected());
     setPlayerId(connectionManager.getPlayerId());
     setLatency(connectionManager.getLatency());
+    setDormant(connectionManager.getDormantPlayers());
     
     // Clean up
     return () => {
@@ -83,9 +108,20 @@ export const NetworkStats: React.FC<NetworkStatsProps> = ({
       connectionManager.off('message_sent', handleMessageSent);
       connectionManager.off('message_received', handleMessageReceived);
       connectionManager.off('latency_update', handleLatencyUpdate);
+      connectionManager.off('dormant_changed', handleDormantChanged);
     };
   }, [connectionManager]);
   
+  // Bandwidth is a rate, so it's sampled rather than pushed
+  useEffect(() => {
+    if (!connectionManager || !showStats) return;
+    
+    const poll = () => setTraffic(connectionManager.getTraffic());
+    poll();
+    const interval = setInterval(poll, TRAFFIC_POLL_MS);
+    return () => clearInterval(interval);
+  }, [connectionManager, showStats]);
+  
   // Toggle stats display
   const toggleStats = () => {
     setShowStats(prev => !prev);
@@ -157,6 +193,46 @@ export const NetworkStats: React.FC<NetworkStatsProps> = ({
             <span>Latency:</span>
             <span>{latency}ms</span>
           </div>
+          
+          <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+            <span>Server Clock:</span>
+            <span>{clockOffset === null ? 'unsynced' : `${clockOffset > 0 ? '+' : ''}${clockOffset}ms`}</span>
+          </div>
+          
+          <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+            <span>Dormant:</span>
+            <span>{dormant.length}</span>
+          </div>
+          
+          {dormant.map(id => (
+            <div key={id} style={{ paddingLeft: '10px', color: '#aaa', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+              {id}
+            </div>
+          ))}
+          
+          {traffic && (
+            <>
+              <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '5px' }}>
+                <span>Codec:</span>
+                <span>{traffic.codec}</span>
+              </div>
+              
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span>Upload:</span>
+                <span>{formatRate(traffic.sent)}</span>
+              </div>
+              
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span>Download:</span>
+                <span>{formatRate(traffic.received)}</span>
+              </div>
+              
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span>Saved vs JSON:</span>
+                <span>{formatSaving(traffic)}</span>
+              </div>
+            </>
+          )}
         </div>
       )}
     </>
@@ -0,0 +1,162 @@
+import { GameSnapshot, PlayerSnapshot, PlayerType, Quaternion, Vector3 } from '../types/game';
+
+interface PlayerSample {
+  time: number;
+  position: Vector3;
+  rotation: Quaternion;
+  playerType: PlayerType;
+  health: number;
+}
+
+/**
+ * Result of sampling a player's history. `gap` is how far (ms) the requested
+ * time lies outside the recorded samples; 0 when it was interpolated.
+ */
+export interface PlayerSampleResult {
+  position: Vector3;
+  rotation: Quaternion;
+  playerType: PlayerType;
+  health: number;
+  gap: number;
+}
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
+
+// Normalized lerp is close enough to slerp for samples ~50ms apart
+const nlerp = (a: Quaternion, b: Quaternion, t: number): Quaternion => {
+  // Take the short way round
+  const sign = a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3] < 0 ? -1 : 1;
+  const q: Quaternion = [
+    lerp(a[0], b[0] * sign, t),
+    lerp(a[1], b[1] * sign, t),
+    lerp(a[2], b[2] * sign, t),
+    lerp(a[3], b[3] * sign, t)
+  ];
+  const length = Math.hypot(q[0], q[1], q[2], q[3]) || 1;
+  return [q[0] / length, q[1] / length, q[2] / length, q[3] / length];
+};
+
+/**
+ * Short per-player history of positions, keyed by the time they were
+ * received, so hits can be resolved against where players were when the
+ * shooter saw them rather than where they are now.
+ */
+export class PlayerHistory {
+  private samples: Map<string, PlayerSample[]> = new Map();
+  private sequence = 0;
+
+  // Keep a second of history; lag compensation never rewinds further than that
+  constructor(private maxAgeMs: number = 1000) {}
+
+  record(
+    id: string,
+    position: Vector3,
+    rotation: Quaternion,
+    playerType: PlayerType,
+    health: number,
+    time: number = Date.now()
+  ): void {
+    let samples = this.samples.get(id);
+    if (!samples) {
+      samples = [];
+      this.samples.set(id, samples);
+    }
+
+    // Out-of-order samples would break the binary search
+    if (samples.length > 0 && time < samples[samples.length - 1].time) return;
+
+    samples.push({ time, position, rotation, playerType, health });
+
+    // Always keep at least the latest sample, however old
+    const cutoff = time - this.maxAgeMs;
+    while (samples.length > 1 && samples[0].time < cutoff) {
+      samples.shift();
+    }
+  }
+
+  remove(id: string): void {
+    this.samples.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.samples.has(id);
+  }
+
+  latest(id: string): PlayerSample | null {
+    const samples = this.samples.get(id);
+    return samples && samples.length > 0 ? samples[samples.length - 1] : null;
+  }
+
+  /**
+   * Where was this player at `time`? Interpolates between the surrounding
+   * samples and clamps to the first/last sample outside the recorded range.
+   * Health changes in steps, so it's whatever the earlier sample had.
+   */
+  sample(id: string, time: number): PlayerSampleResult | null {
+    const samples = this.samples.get(id);
+    if (!samples || samples.length === 0) return null;
+
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    if (time <= first.time) {
+      const { position, rotation, playerType, health } = first;
+      return { position, rotation, playerType, health, gap: first.time - time };
+    }
+    if (time >= last.time) {
+      const { position, rotation, playerType, health } = last;
+      return { position, rotation, playerType, health, gap: time - last.time };
+    }
+
+    // Find the first sample after `time`
+    let low = 0;
+    let high = samples.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (samples[mid].time <= time) low = mid + 1;
+      else high = mid;
+    }
+    const after = samples[low];
+    const before = samples[low - 1];
+    const t = (time - before.time) / (after.time - before.time || 1);
+
+    return {
+      position: [
+        lerp(before.position[0], after.position[0], t),
+        lerp(before.position[1], after.position[1], t),
+        lerp(before.position[2], after.position[2], t)
+      ],
+      rotation: nlerp(before.rotation, after.rotation, t),
+      playerType: t < 0.5 ? before.playerType : after.playerType,
+      health: before.health,
+      gap: 0
+    };
+  }
+
+  /**
+   * Every known player's state at `time`, or null if there is no history
+   */
+  getSnapshotAtTime(time: number): GameSnapshot | null {
+    if (this.samples.size === 0) return null;
+
+    const players: Record<string, PlayerSnapshot> = {};
+    this.samples.forEach((_, id) => {
+      const sampled = this.sample(id, time);
+      if (sampled) {
+        players[id] = {
+          id,
+          position: sampled.position,
+          rotation: sampled.rotation,
+          health: sampled.health,
+          playerType: sampled.playerType
+        };
+      }
+    });
+
+    return {
+      timestamp: time,
+      sequence: this.sequence++,
+      players,
+      events: []
+    };
+  }
+}
@@ -0,0 +1,138 @@
+import { Quaternion, Vector3 } from '../types/game';
+import { Occluder, lineOfSight } from './Spawns';
+
+/**
+ * How much one player needs to hear about another:
+ * - `full`: every update
+ * - `reduced`: a few updates a second
+ * - `dormant`: nothing until they matter again
+ */
+export type RelevancyTier = 'full' | 'reduced' | 'dormant';
+
+export interface RelevancyOptions {
+  // Anyone this close is heard in full, whichever way the viewer faces
+  nearRadius: number;
+  // Cosine of the half-angle of the viewer's cone of view
+  viewConeCos: number;
+  // Least time between updates at the reduced rate
+  reducedIntervalMs: number;
+}
+
+export const DEFAULT_RELEVANCY_OPTIONS: RelevancyOptions = {
+  nearRadius: 30,
+  // 70° either side: a wide camera plus a little turning room
+  viewConeCos: Math.cos(70 * Math.PI / 180),
+  reducedIntervalMs: 250
+};
+
+/**
+ * Where a player is and which way they're facing
+ */
+export interface Viewpoint {
+  position: Vector3;
+  rotation: Quaternion;
+}
+
+// The direction a rotation turns -Z (the camera's forward) to
+export const forwardOf = ([x, y, z, w]: Quaternion): Vector3 => [
+  -2 * (x * z + w * y),
+  -2 * (y * z - w * x),
+  -(1 - 2 * (x * x + y * y))
+];
+
+/**
+ * How relevant a player at `subject` is to `viewer`. Past `visibleRange`
+ * (where the fog swallows everything) they're dormant; otherwise they're
+ * heard in full when close, or in view with nothing in the way, and at a
+ * reduced rate when not.
+ */
+export const relevancyTier = (
+  viewer: Viewpoint,
+  subject: Vector3,
+  visibleRange: number,
+  occluders: Occluder[] = [],
+  options: RelevancyOptions = DEFAULT_RELEVANCY_OPTIONS
+): RelevancyTier => {
+  const offset = subject.map((value, axis) => value - viewer.position[axis]);
+  const distance = Math.hypot(...offset);
+  if (distance <= options.nearRadius) return 'full';
+  if (distance > visibleRange) return 'dormant';
+
+  const forward = forwardOf(viewer.rotation);
+  const facing = offset.reduce((sum, value, axis) => sum + value * forward[axis], 0) / (distance * (Math.hypot(...forward) || 1));
+  const inView = facing >= options.viewConeCos && lineOfSight(viewer.position, subject, occluders);
+  return inView ? 'full' : 'reduced';
+};
+
+interface Interest {
+  tier: RelevancyTier;
+  sentAt: number;
+  // An update was held back by the reduced rate and the viewer is still owed the latest
+  owed: boolean;
+}
+
+/**
+ * Per-viewer relevancy for one session: which players' updates each viewer
+ * gets, how often, and whom it currently has dormant
+ */
+export class InterestManager {
+  private views = new Map<string, Map<string, Interest>>();
+
+  constructor(
+    private visibleRange: number,
+    private occluders: Occluder[] = [],
+    private options: RelevancyOptions = DEFAULT_RELEVANCY_OPTIONS
+  ) {}
+
+  /**
+   * Whether `viewerId` should be sent an update about `subjectId` now,
+   * re-judging the subject's tier from where both are
+   */
+  admit(viewerId: string, viewer: Viewpoint, subjectId: string, subject: Vector3, now: number = Date.now()): boolean {
+    let view = this.views.get(viewerId);
+    if (!view) {
+      view = new Map();
+      this.views.set(viewerId, view);
+    }
+    const interest = view.get(subjectId) ?? { tier: 'full', sentAt: -Infinity, owed: false };
+    view.set(subjectId, interest);
+
+    interest.tier = relevancyTier(viewer, subject, this.visibleRange, this.occluders, this.options);
+    interest.owed = interest.tier === 'reduced' && now - interest.sentAt < this.options.reducedIntervalMs;
+    if (interest.tier === 'dormant' || interest.owed) return false;
+    interest.sentAt = now;
+    return true;
+  }
+
+  /**
+   * Held-back updates whose wait is over, so a player who stops moving isn't
+   * left where their last-but-one update put them. Each is counted as sent.
+   */
+  takeOwed(now: number = Date.now()): Array<{ viewerId: string; subjectId: string }> {
+    const due: Array<{ viewerId: string; subjectId: string }> = [];
+    this.views.forEach((view, viewerId) => view.forEach((interest, subjectId) => {
+      if (!interest.owed || now - interest.sentAt < this.options.reducedIntervalMs) return;
+      interest.owed = false;
+      interest.sentAt = now;
+      due.push({ viewerId, subjectId });
+    }));
+    return due;
+  }
+
+  // Players nobody has judged yet count as full: everything goes out until it's known not to matter
+  tierOf(viewerId: string, subjectId: string): RelevancyTier {
+    return this.views.get(viewerId)?.get(subjectId)?.tier ?? 'full';
+  }
+
+  dormantFor(viewerId: string): string[] {
+    return Array.from(this.views.get(viewerId)?.entries() ?? [])
+      .filter(([, interest]) => interest.tier === 'dormant')
+      .map(([subjectId]) => subjectId);
+  }
+
+  // Drop a player both as a viewer and as someone viewed
+  forget(playerId: string): void {
+    this.views.delete(playerId);
+    this.views.forEach(view => view.delete(playerId));
+  }
+}
@@ -0,0 +1,153 @@
+import { RoundPhase, RoundState, TeamScores } from '../types/game';
+
+/**
+ * How long each phase lasts, and how many players it takes to start
+ */
+export interface RoundTimings {
+  minPlayers: number;
+  warmupMs: number;
+  roundMs: number;
+  // Sudden death: the first score wins; nobody scoring before this runs out is a draw
+  overtimeMs: number;
+  resultsMs: number;
+  intermissionMs: number;
+}
+
+export const DEFAULT_ROUND_TIMINGS: RoundTimings = {
+  minPlayers: 2,
+  warmupMs: 15000,
+  roundMs: 300000,
+  overtimeMs: 60000,
+  resultsMs: 8000,
+  intermissionMs: 12000
+};
+
+/**
+ * What players may do in a phase
+ */
+export interface RoundRules {
+  movement: boolean;
+  hits: boolean;
+  scoring: boolean;
+  respawn: boolean;
+}
+
+/**
+ * Warmup lets everyone practice without it counting; the results screen
+ * freezes the arena so the final positions stay on show.
+ */
+export const ROUND_RULES: Record<RoundPhase, RoundRules> = {
+  waiting: { movement: true, hits: true, scoring: false, respawn: true },
+  warmup: { movement: true, hits: true, scoring: false, respawn: true },
+  live: { movement: true, hits: true, scoring: true, respawn: true },
+  overtime: { movement: true, hits: true, scoring: true, respawn: true },
+  results: { movement: false, hits: false, scoring: false, respawn: false },
+  intermission: { movement: true, hits: false, scoring: false, respawn: true }
+};
+
+export const ROUND_PHASES = Object.keys(ROUND_RULES) as RoundPhase[];
+
+export const isRoundPhase = (value: unknown): value is RoundPhase =>
+  typeof value === 'string' && (ROUND_PHASES as string[]).includes(value);
+
+// Scores carry over only while a finished round is still being looked at
+const KEEPS_SCORES: RoundPhase[] = ['overtime', 'results', 'intermission'];
+
+const emptyScores = (): TeamScores => ({ jackalopes: 0, mercs: 0 });
+
+/**
+ * A session's match lifecycle.
+ *
+ * Driven entirely by `update` (the clock and the player count) and `score`,
+ * so the server can own it and clients just render what it announces. Both
+ * return the new state when something changed and null otherwise, which is
+ * the cue to broadcast.
+ */
+export class RoundStateMachine {
+  private current: RoundState;
+  private timings: RoundTimings;
+
+  constructor(timings: Partial<RoundTimings> = {}, now: number = Date.now()) {
+    this.timings = { ...DEFAULT_ROUND_TIMINGS, ...timings };
+    this.current = { phase: 'waiting', round: 0, startedAt: now, endsAt: null, scores: emptyScores() };
+  }
+
+  getState(): RoundState {
+    return { ...this.current, scores: { ...this.current.scores } };
+  }
+
+  rules(): RoundRules {
+    return ROUND_RULES[this.current.phase];
+  }
+
+  update(now: number, playerCount: number): RoundState | null {
+    const { phase, endsAt } = this.current;
+    const enoughPlayers = playerCount >= this.timings.minPlayers;
+    const expired = endsAt !== null && now >= endsAt;
+
+    switch (phase) {
+      case 'waiting':
+        return enoughPlayers ? this.enter('warmup', now) : null;
+
+      case 'warmup':
+        if (!enoughPlayers) return this.enter('waiting', now);
+        return expired ? this.enter('live', now) : null;
+
+      case 'live':
+      case 'overtime':
+        // Too few left to play it out; start over once people are back
+        if (!enoughPlayers) return this.enter('waiting', now);
+        if (!expired) return null;
+        if (phase === 'live' && this.current.scores.jackalopes === this.current.scores.mercs) {
+          return this.enter('overtime', now);
+        }
+        return this.finish(now);
+
+      case 'results':
+        return expired ? this.enter('intermission', now) : null;
+
+      case 'intermission':
+        if (!expired) return null;
+        return this.enter(enoughPlayers ? 'warmup' : 'waiting', now);
+    }
+  }
+
+  /**
+   * Take the round's new totals (counted from the score ledger). Returns null
+   * when the current phase doesn't score.
+   */
+  score(totals: TeamScores, now: number): RoundState | null {
+    if (!this.rules().scoring) return null;
+
+    this.current.scores = { ...totals };
+    return this.current.phase === 'overtime' ? this.finish(now) : this.getState();
+  }
+
+  private finish(now: number): RoundState {
+    const { jackalopes, mercs } = this.current.scores;
+    const winner = jackalopes === mercs ? 'draw' : jackalopes > mercs ? 'jackalope' : 'merc';
+    return this.enter('results', now, winner);
+  }
+
+  private enter(phase: RoundPhase, now: number, winner?: RoundState['winner']): RoundState {
+    const durations: Record<RoundPhase, number | null> = {
+      waiting: null,
+      warmup: this.timings.warmupMs,
+      live: this.timings.roundMs,
+      overtime: this.timings.overtimeMs,
+      results: this.timings.resultsMs,
+      intermission: this.timings.intermissionMs
+    };
+    const duration = durations[phase];
+
+    this.current = {
+      phase,
+      round: phase === 'live' ? this.current.round + 1 : this.current.round,
+      startedAt: now,
+      endsAt: duration === null ? null : now + duration,
+      scores: KEEPS_SCORES.includes(phase) ? this.current.scores : emptyScores(),
+      winner: winner ?? (phase === 'intermission' ? this.current.winner : undefined)
+    };
+    return this.getState();
+  }
+}
@@ -0,0 +1,78 @@
+import { PlayerScoreLine, ScoreEntry, TeamScores } from '../types/game';
+
+/**
+ * Every point scored in a session, in the order the authority accepted them.
+ *
+ * Nothing else stores a score: team totals and the per-player scoreboard
+ * are both derived from the entries, so two points landing at once can't
+ * overwrite each other, and a client that joins late rebuilds exactly the
+ * same numbers from the entries it is sent.
+ */
+export class ScoreLedger {
+  private list: ScoreEntry[] = [];
+  private ids = new Set<string>();
+
+  /**
+   * Add an entry; false if one with the same id is already in
+   */
+  record(entry: ScoreEntry): boolean {
+    if (this.ids.has(entry.id)) return false;
+    this.ids.add(entry.id);
+    this.list.push(entry);
+    return true;
+  }
+
+  /**
+   * Replace everything with `entries`, e.g. the full ledger sent on joining
+   */
+  load(entries: ScoreEntry[]): void {
+    this.clear();
+    entries.forEach(entry => this.record(entry));
+  }
+
+  clear(): void {
+    this.list = [];
+    this.ids.clear();
+  }
+
+  entries(round?: number): ScoreEntry[] {
+    return round === undefined ? [...this.list] : this.list.filter(entry => entry.round === round);
+  }
+
+  totals(round?: number): TeamScores {
+    const totals: TeamScores = { jackalopes: 0, mercs: 0 };
+    this.entries(round).forEach(entry => {
+      if (entry.team === 'jackalope') {
+        totals.jackalopes++;
+      } else {
+        totals.mercs++;
+      }
+    });
+    return totals;
+  }
+
+  /**
+   * Kills, captures and deaths for everyone who appears in the ledger
+   */
+  breakdown(round?: number): Record<string, PlayerScoreLine> {
+    const lines: Record<string, PlayerScoreLine> = {};
+    const line = (id: string): PlayerScoreLine => {
+      if (!lines[id]) lines[id] = { kills: 0, captures: 0, deaths: 0 };
+      return lines[id];
+    };
+
+    this.entries(round).forEach(entry => {
+      if (entry.kind === 'kill') {
+        line(entry.playerId).kills++;
+        if (entry.targetId) line(entry.targetId).deaths++;
+      } else {
+        line(entry.playerId).captures++;
+      }
+    });
+    return lines;
+  }
+
+  get size(): number {
+    return this.list.length;
+  }
+}
@@ -0,0 +1,210 @@
+import { GameEventData, GameSnapshot, PlayerSnapshot, PlayerSnapshotDelta, SequencedEvent, SnapshotDelta } from '../types/game';
+
+// Moves smaller than this aren't worth a field; the sender diffs against what
+// the receiver rebuilt, so skipped changes can't pile up
+const EPSILON = 1e-3;
+
+/**
+ * Snapshots sent without an ack before the sender gives up on its baseline
+ * and starts again from a keyframe (3s at the usual 10 a second)
+ */
+export const MAX_UNACKED_SNAPSHOTS = 30;
+
+// The sender only ever builds on one it had acked, so a few past that is plenty
+const MAX_BASELINES = MAX_UNACKED_SNAPSHOTS + 2;
+
+/**
+ * Most events kept waiting for an ack; past this the oldest are given up on
+ * rather than growing every snapshot while the receiver is away
+ */
+export const MAX_PENDING_EVENTS = 64;
+
+const close = (a: number[], b: number[]): boolean =>
+  a.length === b.length && a.every((value, i) => Math.abs(value - b[i]) < EPSILON);
+
+// What changed about a player, or null if nothing did; players new since the baseline go whole
+const diffPlayer = (before: PlayerSnapshot | undefined, after: PlayerSnapshot): PlayerSnapshotDelta | null => {
+  if (!before) return { ...after };
+  const delta: PlayerSnapshotDelta = { id: after.id };
+  if (!close(before.position, after.position)) delta.position = after.position;
+  if (!close(before.rotation, after.rotation)) delta.rotation = after.rotation;
+  if (after.velocity && !(before.velocity && close(before.velocity, after.velocity))) delta.velocity = after.velocity;
+  if (after.health !== before.health) delta.health = after.health;
+  if (after.playerType !== undefined && after.playerType !== before.playerType) delta.playerType = after.playerType;
+  if (after.flashlightOn !== undefined && after.flashlightOn !== before.flashlightOn) delta.flashlightOn = after.flashlightOn;
+  return Object.keys(delta).length > 1 ? delta : null;
+};
+
+const isWhole = (player: Partial<PlayerSnapshot>): player is PlayerSnapshot =>
+  !!player.id && !!player.position && !!player.rotation && player.health !== undefined;
+
+/**
+ * Rebuild the snapshot `delta` describes on top of `baseline` (null for a
+ * keyframe). Null if it mentions a player the baseline doesn't have without
+ * sending them whole.
+ */
+export const applySnapshotDelta = (baseline: GameSnapshot | null, delta: SnapshotDelta): GameSnapshot | null => {
+  const players: Record<string, PlayerSnapshot> = {};
+  if (baseline) {
+    Object.values(baseline.players)
+      .filter(player => !delta.removed.includes(player.id))
+      .forEach(player => { players[player.id] = player; });
+  }
+  for (const change of Object.values(delta.players)) {
+    const player = { ...players[change.id], ...change };
+    if (!isWhole(player)) return null;
+    players[change.id] = player;
+  }
+  return { sequence: delta.sequence, timestamp: delta.timestamp, players, events: delta.events.map(({ event }) => event) };
+};
+
+/**
+ * Sending side of delta-compressed snapshots.
+ *
+ * Each snapshot goes out as the difference from the last one the receiver
+ * acknowledged, or as a keyframe while there is none. Events are numbered
+ * and repeated in every snapshot until one carrying them is acknowledged.
+ */
+export class SnapshotEncoder {
+  private sequence = 0;
+  private eventSequence = 0;
+  private pending: SequencedEvent[] = [];
+  private baseline: GameSnapshot | null = null;
+  // For each delta not yet acknowledged: what the receiver will rebuild from it, and the last event it carried
+  private sent = new Map<number, { snapshot: GameSnapshot; eventsThrough: number }>();
+
+  /**
+   * Number an event and hold it for the following snapshots until one of
+   * them is acknowledged. The number lets the receiver tell this copy from
+   * one sent on its own.
+   */
+  queue(event: GameEventData): number {
+    this.pending.push({ sequence: ++this.eventSequence, event });
+    if (this.pending.length > MAX_PENDING_EVENTS) this.pending.shift();
+    return this.eventSequence;
+  }
+
+  /**
+   * Diff `snapshot` against the acknowledged baseline. Its events join the
+   * ones still waiting for an ack; its sequence is replaced by the encoder's own.
+   */
+  encode(snapshot: GameSnapshot): SnapshotDelta {
+    snapshot.events.forEach(event => this.queue(event));
+    // The receiver has gone quiet; whatever it last acked may be long gone
+    if (this.sent.size >= MAX_UNACKED_SNAPSHOTS) this.resync();
+
+    const baseline = this.baseline;
+    const players: Record<string, PlayerSnapshotDelta> = {};
+    Object.values(snapshot.players).forEach(player => {
+      const change = diffPlayer(baseline?.players[player.id], player);
+      if (change) players[player.id] = change;
+    });
+
+    const delta: SnapshotDelta = {
+      sequence: ++this.sequence,
+      timestamp: snapshot.timestamp,
+      players,
+      removed: baseline ? Object.keys(baseline.players).filter(id => !(id in snapshot.players)) : [],
+      events: [...this.pending]
+    };
+    if (baseline) delta.baseline = baseline.sequence;
+
+    this.sent.set(delta.sequence, { snapshot: applySnapshotDelta(baseline, delta)!, eventsThrough: this.eventSequence });
+    return delta;
+  }
+
+  /**
+   * The receiver has snapshot `sequence`: build on it from now on, and stop
+   * repeating the events it carried
+   */
+  acknowledge(sequence: number): void {
+    const acked = this.sent.get(sequence);
+    // Older than the current baseline, or sent before a resync
+    if (!acked) return;
+    this.baseline = acked.snapshot;
+    Array.from(this.sent.keys()).filter(sent => sent <= sequence).forEach(sent => this.sent.delete(sent));
+    this.pending = this.pending.filter(event => event.sequence > acked.eventsThrough);
+  }
+
+  /**
+   * Drop the baseline so the next snapshot is a keyframe, e.g. after a
+   * reconnect or when the receiver reports it lost the baseline. Unacked
+   * events are kept and still delivered.
+   */
+  resync(): void {
+    this.baseline = null;
+    this.sent.clear();
+  }
+
+  // Events sent but not yet acknowledged
+  pendingEvents(): number {
+    return this.pending.length;
+  }
+}
+
+/**
+ * Outcome of decoding a snapshot. `stale` frames are duplicates or arrived
+ * after a newer one and are best ignored; `baseline_lost` ones need a keyframe.
+ */
+export type SnapshotDecodeResult =
+  | { ok: true; snapshot: GameSnapshot }
+  | { ok: false; reason: 'stale' | 'baseline_lost' };
+
+/**
+ * Receiving side of delta-compressed snapshots: keeps recent snapshots to
+ * decode against and lets each numbered event through once, whether it came
+ * in a snapshot or on its own
+ */
+export class SnapshotDecoder {
+  private received = new Map<number, GameSnapshot>();
+  private lastSequence = 0;
+  // Every event up to here has been taken; those taken past it are listed
+  private eventsThrough = 0;
+  private eventsTaken = new Set<number>();
+
+  /**
+   * Rebuild the snapshot `delta` describes, carrying only events not taken
+   * before. The sender numbers snapshots upwards for as long as it lives, so
+   * anything at or below the newest one decoded is out of date.
+   */
+  decode(delta: SnapshotDelta): SnapshotDecodeResult {
+    if (delta.sequence <= this.lastSequence) return { ok: false, reason: 'stale' };
+
+    let baseline: GameSnapshot | null = null;
+    if (delta.baseline !== undefined) {
+      baseline = this.received.get(delta.baseline) ?? null;
+      if (!baseline) return { ok: false, reason: 'baseline_lost' };
+    }
+    const snapshot = applySnapshotDelta(baseline, delta);
+    if (!snapshot) return { ok: false, reason: 'baseline_lost' };
+
+    this.lastSequence = delta.sequence;
+    this.received.set(delta.sequence, snapshot);
+    Array.from(this.received.keys())
+      .slice(0, Math.max(0, this.received.size - MAX_BASELINES))
+      .forEach(sequence => this.received.delete(sequence));
+
+    // Whatever the sender numbered before its oldest pending event is settled, taken or given up on
+    if (delta.events.length > 0) this.settleEventsThrough(Math.min(...delta.events.map(event => event.sequence)) - 1);
+    const events = delta.events.filter(event => this.takeEvent(event.sequence));
+    return { ok: true, snapshot: { ...snapshot, events: events.map(({ event }) => event) } };
+  }
+
+  /**
+   * True the first time event `sequence` turns up, false for every copy after
+   */
+  takeEvent(sequence: number): boolean {
+    if (sequence <= this.eventsThrough || this.eventsTaken.has(sequence)) return false;
+    this.eventsTaken.add(sequence);
+    this.settleEventsThrough(this.eventsThrough);
+    return true;
+  }
+
+  private settleEventsThrough(sequence: number): void {
+    this.eventsThrough = Math.max(this.eventsThrough, sequence);
+    while (this.eventsTaken.has(this.eventsThrough + 1)) this.eventsThrough++;
+    this.eventsTaken.forEach(taken => {
+      if (taken <= this.eventsThrough) this.eventsTaken.delete(taken);
+    });
+  }
+}
@@ -0,0 +1,240 @@
+import { PlayerState, Quaternion, Vector3 } from '../types/game';
+import clockSync from './ClockSync';
+
+export interface InterpolationOptions {
+  // How far behind server time remote players are rendered
+  renderDelayMs?: number;
+  // How long to keep moving a player along its last velocity once updates stop
+  maxExtrapolationMs?: number;
+  // How much history to keep per player
+  bufferMs?: number;
+  // Anything moving faster than this (units/s) between two updates teleported
+  teleportSpeed?: number;
+  // Timestamps further than this from our server clock are replaced with arrival time
+  maxClockSkewMs?: number;
+}
+
+interface BufferedState {
+  time: number;
+  position: Vector3;
+  rotation: Quaternion;
+  velocity: Vector3 | null;
+  // Don't interpolate into this state from the one before it
+  teleport: boolean;
+}
+
+/**
+ * A remote player's transform at some render time
+ */
+export interface InterpolatedState {
+  position: Vector3;
+  rotation: Quaternion;
+  // True when rendering past the newest update
+  extrapolated: boolean;
+}
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
+
+const slerp = (a: Quaternion, b: Quaternion, t: number): Quaternion => {
+  let cosHalfTheta = a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3];
+  // Take the short way round
+  const sign = cosHalfTheta < 0 ? -1 : 1;
+  cosHalfTheta *= sign;
+
+  // Nearly identical; fall back to a linear blend to avoid dividing by ~0
+  if (cosHalfTheta > 0.9995) {
+    const q: Quaternion = [
+      lerp(a[0], b[0] * sign, t),
+      lerp(a[1], b[1] * sign, t),
+      lerp(a[2], b[2] * sign, t),
+      lerp(a[3], b[3] * sign, t)
+    ];
+    const length = Math.hypot(q[0], q[1], q[2], q[3]) || 1;
+    return [q[0] / length, q[1] / length, q[2] / length, q[3] / length];
+  }
+
+  const halfTheta = Math.acos(cosHalfTheta);
+  const sinHalfTheta = Math.sin(halfTheta);
+  const wa = Math.sin((1 - t) * halfTheta) / sinHalfTheta;
+  const wb = (Math.sin(t * halfTheta) / sinHalfTheta) * sign;
+  return [
+    a[0] * wa + b[0] * wb,
+    a[1] * wa + b[1] * wb,
+    a[2] * wa + b[2] * wb,
+    a[3] * wa + b[3] * wb
+  ];
+};
+
+const distance = (a: Vector3, b: Vector3): number =>
+  Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+/**
+ * Timestamped player_update states for one remote player.
+ *
+ * Rendering a fixed delay behind the newest state means there are almost
+ * always two states either side of the render time to interpolate between,
+ * so jitter and bursts in packet arrival don't show up as rubber-banding.
+ */
+export class InterpolationBuffer {
+  private states: BufferedState[] = [];
+
+  constructor(private options: Required<InterpolationOptions>) {}
+
+  push(state: Pick<PlayerState, 'position' | 'rotation' | 'velocity'>, time: number): void {
+    const last = this.states[this.states.length - 1];
+    // Late packets are useless once something newer has arrived
+    if (last && time <= last.time) return;
+
+    const teleport = !!last &&
+      distance(last.position, state.position) / ((time - last.time) / 1000) > this.options.teleportSpeed;
+
+    this.states.push({
+      time,
+      position: state.position,
+      rotation: state.rotation,
+      velocity: state.velocity ?? null,
+      teleport
+    });
+
+    // Keep at least two states so there is always something to interpolate from
+    const cutoff = time - this.options.bufferMs;
+    while (this.states.length > 2 && this.states[0].time < cutoff) {
+      this.states.shift();
+    }
+  }
+
+  isEmpty(): boolean {
+    return this.states.length === 0;
+  }
+
+  latestTime(): number | null {
+    return this.states.length > 0 ? this.states[this.states.length - 1].time : null;
+  }
+
+  sample(renderTime: number): InterpolatedState | null {
+    const states = this.states;
+    if (states.length === 0) return null;
+
+    const first = states[0];
+    if (renderTime <= first.time) {
+      return { position: first.position, rotation: first.rotation, extrapolated: false };
+    }
+
+    const last = states[states.length - 1];
+    if (renderTime >= last.time) {
+      return this.extrapolate(last, renderTime);
+    }
+
+    // Find the first state after renderTime
+    let index = 1;
+    while (states[index].time <= renderTime) index++;
+    const after = states[index];
+    const before = states[index - 1];
+
+    if (after.teleport) {
+      return { position: before.position, rotation: before.rotation, extrapolated: false };
+    }
+
+    const t = (renderTime - before.time) / (after.time - before.time);
+    return {
+      position: [
+        lerp(before.position[0], after.position[0], t),
+        lerp(before.position[1], after.position[1], t),
+        lerp(before.position[2], after.position[2], t)
+      ],
+      rotation: slerp(before.rotation, after.rotation, t),
+      extrapolated: false
+    };
+  }
+
+  private extrapolate(last: BufferedState, renderTime: number): InterpolatedState {
+    const elapsed = Math.min(renderTime - last.time, this.options.maxExtrapolationMs) / 1000;
+    if (!last.velocity || elapsed <= 0) {
+      return { position: last.position, rotation: last.rotation, extrapolated: elapsed > 0 };
+    }
+
+    return {
+      position: [
+        last.position[0] + last.velocity[0] * elapsed,
+        last.position[1] + last.velocity[1] * elapsed,
+        last.position[2] + last.velocity[2] * elapsed
+      ],
+      rotation: last.rotation,
+      extrapolated: true
+    };
+  }
+}
+
+/**
+ * Interpolation buffers for every remote player, fed by the connection
+ * manager and sampled by RemotePlayer each frame
+ */
+export class SnapshotInterpolation {
+  private buffers: Map<string, InterpolationBuffer> = new Map();
+  private options: Required<InterpolationOptions>;
+
+  constructor(options: InterpolationOptions = {}) {
+    this.options = {
+      renderDelayMs: options.renderDelayMs ?? 100,
+      maxExtrapolationMs: options.maxExtrapolationMs ?? 250,
+      bufferMs: options.bufferMs ?? 1000,
+      teleportSpeed: options.teleportSpeed ?? 100,
+      maxClockSkewMs: options.maxClockSkewMs ?? 1000
+    };
+  }
+
+  /**
+   * Buffer a state received for `playerId`. Its timestamp is the sender's
+   * server time; if that's missing or clearly wrong (sender not synced yet),
+   * arrival time is used instead.
+   */
+  push(playerId: string, state: Pick<PlayerState, 'position' | 'rotation' | 'velocity'> & { timestamp?: number }): void {
+    const now = clockSync.getServerTime();
+    const time = typeof state.timestamp === 'number' && Math.abs(state.timestamp - now) <= this.options.maxClockSkewMs
+      ? state.timestamp
+      : now;
+
+    let buffer = this.buffers.get(playerId);
+    if (!buffer) {
+      buffer = new InterpolationBuffer(this.options);
+      this.buffers.set(playerId, buffer);
+    }
+    buffer.push(state, time);
+  }
+
+  remove(playerId: string): void {
+    this.buffers.delete(playerId);
+  }
+
+  clear(): void {
+    this.buffers.clear();
+  }
+
+  has(playerId: string): boolean {
+    const buffer = this.buffers.get(playerId);
+    return !!buffer && !buffer.isEmpty();
+  }
+
+  /**
+   * Where to draw `playerId` right now, or null if nothing has been received
+   */
+  sample(playerId: string, renderTime: number = this.getRenderTime()): InterpolatedState | null {
+    return this.buffers.get(playerId)?.sample(renderTime) ?? null;
+  }
+
+  getRenderTime(): number {
+    return clockSync.getServerTime() - this.options.renderDelayMs;
+  }
+
+  getRenderDelay(): number {
+    return this.options.renderDelayMs;
+  }
+
+  setRenderDelay(renderDelayMs: number): void {
+    this.options.renderDelayMs = Math.max(0, renderDelayMs);
+  }
+}
+
+export const snapshotInterpolation = new SnapshotInterpolation();
+
+export default snapshotInterpolation;
@@ -0,0 +1,160 @@
+import { PlayerType, Vector3 } from '../types/game';
+
+/**
+ * Somewhere a team can come back into play
+ */
+export interface SpawnPoint {
+  id: string;
+  team: PlayerType;
+  position: Vector3;
+}
+
+/**
+ * An axis-aligned box that blocks sight, given by its centre and full size
+ */
+export interface Occluder {
+  center: Vector3;
+  size: Vector3;
+}
+
+/**
+ * What a map tells the spawn logic: where each team may spawn, and what blocks sight
+ */
+export interface SpawnMap {
+  spawns: SpawnPoint[];
+  occluders: Occluder[];
+}
+
+/**
+ * How a spawn point is picked:
+ * - `safest`: the point furthest from enemies that no enemy can see
+ * - `retreat`: the safest point, pushed further out from the middle of the
+ *   map with every respawn until the round restarts
+ */
+export type SpawnPolicy = 'safest' | 'retreat';
+
+export interface SpawnOptions {
+  policies: Record<PlayerType, SpawnPolicy>;
+  // Enemies further away than this can't see a spawn point, whatever is in between
+  sightRange: number;
+  // Eye height of an enemy, and the height above the point they would need to see
+  eyeHeight: number;
+  targetHeight: number;
+  // `retreat`: how far each respawn moves out, and after how many it stops
+  retreatStep: number;
+  retreatMaxSteps: number;
+  // How long a respawned player can't be hurt
+  protectionMs: number;
+}
+
+export const DEFAULT_SPAWN_OPTIONS: SpawnOptions = {
+  policies: { jackalope: 'retreat', merc: 'safest' },
+  sightRange: 120,
+  eyeHeight: 1.5,
+  targetHeight: 1,
+  retreatStep: 50,
+  retreatMaxSteps: 8,
+  protectionMs: 3000
+};
+
+export interface SpawnChoice {
+  pointId: string;
+  position: Vector3;
+  protectedUntil: number;
+}
+
+/**
+ * Whether the segment from `from` to `to` clears every occluder (slab test per box)
+ */
+export const lineOfSight = (from: Vector3, to: Vector3, occluders: Occluder[]): boolean =>
+  !occluders.some(({ center, size }) => {
+    let enter = 0;
+    let exit = 1;
+    for (let axis = 0; axis < 3; axis++) {
+      const min = center[axis] - size[axis] / 2;
+      const max = center[axis] + size[axis] / 2;
+      const delta = to[axis] - from[axis];
+      if (Math.abs(delta) < 1e-9) {
+        if (from[axis] < min || from[axis] > max) return false;
+        continue;
+      }
+      let t0 = (min - from[axis]) / delta;
+      let t1 = (max - from[axis]) / delta;
+      if (t0 > t1) [t0, t1] = [t1, t0];
+      enter = Math.max(enter, t0);
+      exit = Math.min(exit, t1);
+      if (enter > exit) return false;
+    }
+    return true;
+  });
+
+const horizontalDistance = (a: Vector3, b: Vector3): number => Math.hypot(a[0] - b[0], a[2] - b[2]);
+
+/**
+ * Picks where players come back into play.
+ *
+ * Runs on the authority: the server in its sessions, or the requesting
+ * client when the server only relays. Each team draws from its own points
+ * on the map. Points an enemy can see are only used when every point is
+ * seen; among the rest, the one with the nearest enemy furthest away wins,
+ * and ties go to whichever point was used least recently so teammates
+ * don't stack up.
+ */
+export class SpawnSelector {
+  private respawns: Map<string, number> = new Map();
+  private lastUsedAt: Map<string, number> = new Map();
+  readonly options: SpawnOptions;
+
+  constructor(readonly map: SpawnMap, options: Partial<SpawnOptions> = {}) {
+    this.options = { ...DEFAULT_SPAWN_OPTIONS, ...options };
+  }
+
+  choose(playerId: string, team: PlayerType, enemies: Vector3[], now: number = Date.now()): SpawnChoice {
+    const { policies, retreatStep, retreatMaxSteps, protectionMs } = this.options;
+    const point = this.safestPoint(team, enemies);
+    this.lastUsedAt.set(point.id, now);
+
+    let position = point.position;
+    if (policies[team] === 'retreat') {
+      const count = Math.min((this.respawns.get(playerId) ?? 0) + 1, retreatMaxSteps);
+      this.respawns.set(playerId, count);
+      // Straight out from the middle of the map
+      const out = Math.hypot(position[0], position[2]) || 1;
+      const step = count * retreatStep / out;
+      position = [position[0] + position[0] * step, position[1], position[2] + position[2] * step];
+    }
+
+    return { pointId: point.id, position, protectedUntil: now + protectionMs };
+  }
+
+  /**
+   * Start everyone from their team's nearest points again, e.g. when a round goes live
+   */
+  reset(): void {
+    this.respawns.clear();
+    this.lastUsedAt.clear();
+  }
+
+  remove(playerId: string): void {
+    this.respawns.delete(playerId);
+  }
+
+  private safestPoint(team: PlayerType, enemies: Vector3[]): SpawnPoint {
+    const { sightRange, eyeHeight, targetHeight } = this.options;
+    const points = this.map.spawns.filter(point => point.team === team);
+    if (points.length === 0) throw new Error(`map has no spawn points for ${team}`);
+
+    const rated = points.map(point => {
+      const target: Vector3 = [point.position[0], point.position[1] + targetHeight, point.position[2]];
+      const seen = enemies.some(enemy =>
+        horizontalDistance(enemy, point.position) <= sightRange &&
+        lineOfSight([enemy[0], enemy[1] + eyeHeight, enemy[2]], target, this.map.occluders));
+      const nearest = Math.min(sightRange, ...enemies.map(enemy => horizontalDistance(enemy, point.position)));
+      return { point, seen, nearest, lastUsed: this.lastUsedAt.get(point.id) ?? 0 };
+    });
+
+    rated.sort((a, b) =>
+      Number(a.seen) - Number(b.seen) || b.nearest - a.nearest || a.lastUsed - b.lastUsed);
+    return rated[0].point;
+  }
+}
@@ -0,0 +1,71 @@
+import { WireCodec } from './protocol';
+
+export type TrafficDirection = 'sent' | 'received';
+
+/**
+ * One direction's traffic over the last second, and since the counter started
+ */
+export interface TrafficRate {
+  bytesPerSecond: number;
+  // What the same messages would have cost as JSON
+  jsonBytesPerSecond: number;
+  messagesPerSecond: number;
+  totalBytes: number;
+}
+
+export interface TrafficReport {
+  codec: WireCodec;
+  sent: TrafficRate;
+  received: TrafficRate;
+}
+
+interface TrafficSample {
+  at: number;
+  bytes: number;
+  jsonBytes: number;
+}
+
+const WINDOW_MS = 1000;
+
+/**
+ * Size of a frame on the wire. Text frames are counted in characters, which
+ * is their size in bytes as long as they're ASCII.
+ */
+export const frameBytes = (frame: string | ArrayBuffer | ArrayBufferView): number =>
+  typeof frame === 'string' ? frame.length : frame.byteLength;
+
+/**
+ * Bandwidth counter for a connection, set against what JSON would have
+ * used, so the binary codec's saving can be seen
+ */
+export class TrafficStats {
+  private samples: Record<TrafficDirection, TrafficSample[]> = { sent: [], received: [] };
+  private totals: Record<TrafficDirection, number> = { sent: 0, received: 0 };
+
+  record(direction: TrafficDirection, bytes: number, jsonBytes: number, now = Date.now()): void {
+    this.samples[direction].push({ at: now, bytes, jsonBytes });
+    this.totals[direction] += bytes;
+    this.prune(direction, now);
+  }
+
+  report(codec: WireCodec, now = Date.now()): TrafficReport {
+    return { codec, sent: this.rate('sent', now), received: this.rate('received', now) };
+  }
+
+  private rate(direction: TrafficDirection, now: number): TrafficRate {
+    this.prune(direction, now);
+    const samples = this.samples[direction];
+    return {
+      bytesPerSecond: samples.reduce((sum, sample) => sum + sample.bytes, 0) * 1000 / WINDOW_MS,
+      jsonBytesPerSecond: samples.reduce((sum, sample) => sum + sample.jsonBytes, 0) * 1000 / WINDOW_MS,
+      messagesPerSecond: samples.length * 1000 / WINDOW_MS,
+      totalBytes: this.totals[direction]
+    };
+  }
+
+  private prune(direction: TrafficDirection, now: number): void {
+    const samples = this.samples[direction];
+    const firstKept = samples.findIndex(sample => now - sample.at < WINDOW_MS);
+    samples.splice(0, firstKept === -1 ? samples.length : firstKept);
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * The part of a WebSocket the ConnectionManager talks through. A browser
+ * WebSocket is one as it is; wrappers and other carriers implement the same
+ * shape so they can be swapped in without the manager knowing.
+ *
+ * `readyState` uses the WebSocket constants (CONNECTING, OPEN, CLOSING, CLOSED).
+ */
+export interface Transport {
+  readonly readyState: number;
+  binaryType: BinaryType;
+  onopen: ((event: Event) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  send(data: string | ArrayBuffer): void;
+  close(code?: number, reason?: string): void;
+}
@@ -0,0 +1,1264 @@
+/**
+ * Jackalopes wire protocol
+ *
+ * Message types shared by both ConnectionManager implementations, plus the
+ * runtime decoders that turn raw JSON from the server into typed messages.
+ * Legacy field spellings (`player_id`/`player` for `id`, top-level
+ * `position` instead of `state.position`) are accepted here and nowhere
+ * else, so the rest of the client only ever sees the canonical shape.
+ */
+
+import {
+  GameEventData,
+  MovementInput,
+  PlayerSnapshotDelta,
+  PlayerState,
+  PlayerType,
+  Quaternion,
+  RoundState,
+  ScoreEntry,
+  SequencedEvent,
+  SnapshotDelta,
+  Vector3
+} from '../types/game';
+import { isRoundPhase } from './RoundState';
+import { isJackalopeAbility } from './Abilities';
+import {
+  BinaryFrame,
+  decodeBinaryClientMessage,
+  decodeBinaryServerMessage,
+  encodeBinaryClientMessage,
+  encodeBinaryServerMessage
+} from './BinaryCodec';
+
+/**
+ * Protocol version spoken by this client.
+ * v2: auth negotiates the wire codec, and binary frames may follow
+ */
+export const PROTOCOL_VERSION = 2;
+
+/**
+ * First protocol version that negotiates the wire codec; older peers only ever get JSON
+ */
+export const CODEC_NEGOTIATION_VERSION = 2;
+
+/**
+ * Oldest server protocol version this client can talk to.
+ * Servers that don't announce a version are treated as version 0 (legacy).
+ */
+export const MIN_PROTOCOL_VERSION = 0;
+
+/**
+ * Most players a session holds (2v2)
+ */
+export const MAX_PLAYERS_PER_SESSION = 4;
+
+/**
+ * Room everyone lands in unless the page or the lobby browser picks another
+ */
+export const DEFAULT_SESSION_KEY = 'JACKALOPES-TEST-SESSION';
+
+/**
+ * Longest session name a client may choose; longer names are cut short
+ */
+export const MAX_SESSION_NAME_LENGTH = 32;
+
+/**
+ * How frames are encoded. `binary` (see BinaryCodec) only covers the
+ * high-frequency messages; the rest stay JSON either way.
+ */
+export type WireCodec = 'json' | 'binary';
+
+/**
+ * Codecs this build speaks, most preferred first
+ */
+export const WIRE_CODECS: WireCodec[] = ['binary', 'json'];
+
+export const isWireCodec = (value: unknown): value is WireCodec =>
+  value === 'json' || value === 'binary';
+
+/**
+ * Features a server may offer in auth_success beyond the protocol version.
+ * `snapshot_deltas`: it acknowledges game_snapshot deltas and applies the events they carry.
+ */
+export type ServerCapability = 'snapshot_deltas';
+
+/**
+ * Everything this build's server offers
+ */
+export const SERVER_CAPABILITIES: ServerCapability[] = ['snapshot_deltas'];
+
+const isServerCapability = (value: unknown): value is ServerCapability =>
+  SERVER_CAPABILITIES.includes(value as ServerCapability);
+
+/**
+ * Full state of a player as known to the session
+ */
+export interface RemotePlayerState {
+  position: Vector3;
+  rotation: Quaternion;
+  health: number;
+  playerType: PlayerType;
+  flashlightOn: boolean;
+}
+
+/**
+ * A session as shown in the lobby browser
+ */
+export interface SessionSummary {
+  key: string;
+  name: string;
+  playerCount: number;
+  maxPlayers: number;
+  spectatorCount: number;
+  // Private sessions are left out of session_list; their key is the join code
+  private: boolean;
+  // Which map it's played on (see src/game/maps); older servers don't say
+  mapId?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Client -> server messages
+// ---------------------------------------------------------------------------
+
+export interface AuthMessage {
+  type: 'auth';
+  protocolVersion: number;
+  playerName: string;
+  playerType?: PlayerType;
+  playerIndex?: number;
+  // Token from a previous auth_success; reclaims that player if it's still within its grace window
+  resumeToken?: string;
+  // Codecs the client can read; servers that don't know this field answer in JSON
+  codecs?: WireCodec[];
+}
+
+export interface JoinSessionMessage {
+  type: 'join_session';
+  playerName: string;
+  sessionKey: string;
+  // Preferred team; granted unless it would unbalance the session
+  playerType?: PlayerType;
+  playerIndex?: number;
+  // Watch instead of play. Joining a full session spectates regardless.
+  spectate?: boolean;
+}
+
+/**
+ * Ask for the public sessions; answered with session_list
+ */
+export interface ListSessionsMessage {
+  type: 'list_sessions';
+}
+
+/**
+ * Open a new session and join it. Private sessions get a generated join code
+ * as their key, which the creator has to share for anyone else to get in.
+ */
+export interface CreateSessionMessage {
+  type: 'create_session';
+  playerName: string;
+  name?: string;
+  private?: boolean;
+  playerType?: PlayerType;
+  // Map to play on; the server's default when left out
+  mapId?: string;
+}
+
+/**
+ * Ask to move to the other team; answered with team_assignment, or an error
+ * (code team_switch_denied) if the teams would end up uneven
+ */
+export interface TeamSwitchRequestMessage {
+  type: 'team_switch_request';
+  playerType: PlayerType;
+}
+
+export interface PlayerUpdateMessage {
+  type: 'player_update';
+  state: PlayerState;
+}
+
+export interface GameEventMessage {
+  type: 'game_event';
+  event: GameEventData;
+  // Set while snapshots repeat our events (see SnapshotEncoder.queue), so the server takes each once
+  sequence?: number;
+}
+
+/**
+ * A snapshot as a delta against the last one the server acknowledged (see SnapshotDelta)
+ */
+export interface GameSnapshotMessage {
+  type: 'game_snapshot';
+  delta: SnapshotDelta;
+}
+
+export interface RequestPlayerListMessage {
+  type: 'request_player_list';
+}
+
+export interface KeepaliveMessage {
+  type: 'keepalive';
+  timestamp: number;
+}
+
+export interface PingMessage {
+  type: 'ping';
+  timestamp: number;
+}
+
+export interface ChatMessage {
+  type: 'chat';
+  message: string;
+  playerType?: PlayerType;
+}
+
+/**
+ * Union type of every message a client may send
+ */
+export type ClientMessage =
+  | AuthMessage
+  | JoinSessionMessage
+  | ListSessionsMessage
+  | CreateSessionMessage
+  | TeamSwitchRequestMessage
+  | PlayerUpdateMessage
+  | GameEventMessage
+  | GameSnapshotMessage
+  | RequestPlayerListMessage
+  | KeepaliveMessage
+  | PingMessage
+  | ChatMessage;
+
+// ---------------------------------------------------------------------------
+// Server -> client messages
+// ---------------------------------------------------------------------------
+
+export interface WelcomeMessage {
+  type: 'welcome';
+  protocolVersion: number;
+}
+
+export interface ConnectionMessage {
+  type: 'connection';
+  id: string;
+  gameState: { players: Record<string, RemotePlayerState> };
+}
+
+export interface AuthSuccessMessage {
+  type: 'auth_success';
+  protocolVersion: number;
+  player: { id: string; name?: string };
+  // True when the server validates hits itself rather than just relaying events
+  authoritative?: boolean;
+  // Present it on reconnect to get this player back; good for resumeGraceMs after a disconnect
+  resumeToken?: string;
+  resumeGraceMs?: number;
+  // Set when a resumeToken was accepted; the player keeps its id, team, position and score
+  resumed?: boolean;
+  playerIndex?: number;
+  playerType?: PlayerType;
+  // Codec picked from the auth's list, used both ways from here on; absent means JSON
+  codec?: WireCodec;
+  // What the server offers beyond the protocol version; absent means nothing
+  capabilities?: ServerCapability[];
+}
+
+export interface JoinSuccessMessage {
+  type: 'join_success';
+  player?: { id: string; name?: string };
+  session?: { id: string; key?: string; name?: string; private?: boolean; mapId?: string };
+  playerIndex?: number;
+  // Team the session put us on
+  playerType?: PlayerType;
+  playerCount?: number;
+  lobbyFull?: boolean;
+  // Watching rather than playing; queuePosition is our place in line for the next free slot (1 = next)
+  spectator?: boolean;
+  queuePosition?: number;
+}
+
+/**
+ * Sent to a spectator when their place in the queue changes. Reaching the
+ * front and getting a slot arrives as a fresh join_success instead.
+ */
+export interface SpectatorQueueMessage {
+  type: 'spectator_queue';
+  position: number;
+}
+
+export interface SessionListMessage {
+  type: 'session_list';
+  sessions: SessionSummary[];
+}
+
+export interface PlayerJoinedMessage {
+  type: 'player_joined';
+  id: string;
+  state: RemotePlayerState;
+}
+
+export interface PlayerLeftMessage {
+  type: 'player_left';
+  id: string;
+}
+
+/**
+ * A player dropped but may come back; keep them around until player_resumed or player_left
+ */
+export interface PlayerReconnectingMessage {
+  type: 'player_reconnecting';
+  id: string;
+  graceMs: number;
+}
+
+export interface PlayerResumedMessage {
+  type: 'player_resumed';
+  id: string;
+  state: RemotePlayerState;
+}
+
+/**
+ * A player's team changed after joining: they asked to switch, or the
+ * session moved them to even out the teams after someone left
+ */
+export interface TeamAssignmentMessage {
+  type: 'team_assignment';
+  id: string;
+  playerType: PlayerType;
+  reason: 'switch' | 'balance';
+}
+
+/**
+ * The session's round moved on (or its scores changed); also sent on joining
+ */
+export interface RoundStateMessage {
+  type: 'round_state';
+  state: RoundState;
+}
+
+/**
+ * Every score entry so far, sent on joining; `score_entry` carries each new one
+ */
+export interface ScoreLedgerMessage {
+  type: 'score_ledger';
+  entries: ScoreEntry[];
+}
+
+export interface ScoreEntryMessage {
+  type: 'score_entry';
+  entry: ScoreEntry;
+}
+
+export interface PlayerListMessage {
+  type: 'player_list';
+  players: Record<string, RemotePlayerState>;
+}
+
+export interface PlayerUpdateBroadcast {
+  type: 'player_update';
+  id: string;
+  state: PlayerState;
+  positionError?: number;
+  serverCorrection?: boolean;
+}
+
+/**
+ * Tells a client how far into its input stream the server has got and where
+ * that left it. `corrected` is set when the server overrode the client's
+ * claimed position.
+ */
+export interface InputAckMessage {
+  type: 'input_ack';
+  sequence: number;
+  position: Vector3;
+  corrected: boolean;
+  // Our health as the authority has it; everyone else gets it in player_update
+  health?: number;
+}
+
+/**
+ * Receipt for a game_snapshot. `baselineLost` means the server couldn't
+ * decode it and needs a keyframe.
+ */
+export interface SnapshotAckMessage {
+  type: 'snapshot_ack';
+  sequence: number;
+  baselineLost?: boolean;
+}
+
+/**
+ * Players the server has stopped sending updates about, because they're too
+ * far away or fogged out; sent whenever the list changes
+ */
+export interface RelevancyMessage {
+  type: 'relevancy';
+  dormant: string[];
+}
+
+export interface GameEventBroadcast {
+  type: 'game_event';
+  event: GameEventData;
+}
+
+export interface PongMessage {
+  type: 'pong';
+  timestamp: number;
+  serverTime?: number;
+}
+
+export interface ChatBroadcast {
+  type: 'chat';
+  message: string;
+  id?: string;
+  playerType?: PlayerType;
+}
+
+export interface ErrorMessage {
+  type: 'error';
+  message: string;
+  code?: string;
+}
+
+/**
+ * Union type of every message a server may send
+ */
+export type ServerMessage =
+  | WelcomeMessage
+  | ConnectionMessage
+  | AuthSuccessMessage
+  | JoinSuccessMessage
+  | SessionListMessage
+  | SpectatorQueueMessage
+  | PlayerJoinedMessage
+  | PlayerLeftMessage
+  | PlayerReconnectingMessage
+  | PlayerResumedMessage
+  | TeamAssignmentMessage
+  | RoundStateMessage
+  | ScoreLedgerMessage
+  | ScoreEntryMessage
+  | PlayerListMessage
+  | PlayerUpdateBroadcast
+  | InputAckMessage
+  | SnapshotAckMessage
+  | RelevancyMessage
+  | GameEventBroadcast
+  | PongMessage
+  | ChatBroadcast
+  | ErrorMessage;
+
+export type ServerMessageType = ServerMessage['type'];
+
+// ---------------------------------------------------------------------------
+// Decoding
+// ---------------------------------------------------------------------------
+
+/**
+ * Result of decoding a raw message. Decoded messages may carry warnings
+ * (legacy field spellings, filled-in optional fields) which callers should log.
+ */
+export type DecodeResult<T> =
+  | { ok: true; value: T; warnings: string[] }
+  | { ok: false; error: string };
+
+const ok = <T>(value: T, warnings: string[]): DecodeResult<T> => ({ ok: true, value, warnings });
+const fail = <T>(error: string): DecodeResult<T> => ({ ok: false, error });
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0;
+
+export const isVector3 = (value: unknown): value is Vector3 =>
+  Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber);
+
+export const isQuaternion = (value: unknown): value is Quaternion =>
+  Array.isArray(value) && value.length === 4 && value.every(isFiniteNumber);
+
+export const isPlayerType = (value: unknown): value is PlayerType =>
+  value === 'merc' || value === 'jackalope';
+
+/**
+ * Read a player id, accepting the legacy `player_id` and `player` spellings
+ */
+const readPlayerId = (raw: RawObject, warnings: string[]): string | null => {
+  if (isNonEmptyString(raw.id)) return raw.id;
+  for (const alias of ['player_id', 'player'] as const) {
+    if (isNonEmptyString(raw[alias])) {
+      warnings.push(`${raw.type}: legacy field '${alias}' used for player id`);
+      return raw[alias] as string;
+    }
+  }
+  return null;
+};
+
+/**
+ * Check whether a server speaking `version` is usable by this client
+ */
+export const isProtocolCompatible = (version: number): boolean =>
+  version >= MIN_PROTOCOL_VERSION && version <= PROTOCOL_VERSION;
+
+/**
+ * Read an announced protocol version; servers predating the handshake send none
+ */
+const readProtocolVersion = (raw: RawObject, warnings: string[]): number | null => {
+  if (raw.protocolVersion === undefined) {
+    warnings.push(`${raw.type}: no protocolVersion announced, assuming legacy server`);
+    return 0;
+  }
+  return Number.isInteger(raw.protocolVersion) ? raw.protocolVersion as number : null;
+};
+
+// Optional fields that are dropped rather than failing the event when malformed
+const optionalString = (value: unknown): string | undefined => isNonEmptyString(value) ? value : undefined;
+const optionalNumber = (value: unknown): number | undefined => isFiniteNumber(value) ? value : undefined;
+
+/**
+ * Decode a game event, validating the fields required by its event_type.
+ * Only the fields of that event type are kept; anything else a sender adds
+ * goes no further.
+ */
+export const decodeGameEvent = (raw: unknown): DecodeResult<GameEventData> => {
+  if (!isObject(raw)) return fail('game event is not an object');
+  if (!isFiniteNumber(raw.timestamp)) return fail(`${String(raw.event_type)}: missing timestamp`);
+  const timestamp = raw.timestamp;
+
+  switch (raw.event_type) {
+    case 'player_shoot':
+      if (!isNonEmptyString(raw.shotId)) return fail('player_shoot: missing shotId');
+      if (!isNonEmptyString(raw.player_id)) return fail('player_shoot: missing player_id');
+      if (!isVector3(raw.origin)) return fail('player_shoot: invalid origin');
+      if (!isVector3(raw.direction)) return fail('player_shoot: invalid direction');
+      if (!isPlayerType(raw.playerType)) return fail('player_shoot: invalid playerType');
+      if (raw.latency !== undefined && !isFiniteNumber(raw.latency)) return fail('player_shoot: invalid latency');
+      if (raw.weapon !== undefined && !isNonEmptyString(raw.weapon)) return fail('player_shoot: invalid weapon');
+      return ok({
+        event_type: 'player_shoot',
+        timestamp,
+        shotId: raw.shotId,
+        player_id: raw.player_id,
+        origin: raw.origin,
+        direction: raw.direction,
+        playerType: raw.playerType,
+        color: optionalString(raw.color),
+        weapon: raw.weapon,
+        latency: raw.latency
+      }, []);
+
+    case 'player_respawn':
+      if (!isNonEmptyString(raw.player_id)) return fail('player_respawn: missing player_id');
+      if (!isNonEmptyString(raw.requestedBy)) return fail('player_respawn: missing requestedBy');
+      if (raw.spawnPosition !== undefined && !isVector3(raw.spawnPosition)) {
+        return fail('player_respawn: invalid spawnPosition');
+      }
+      if (raw.protectedUntil !== undefined && !isFiniteNumber(raw.protectedUntil)) {
+        return fail('player_respawn: invalid protectedUntil');
+      }
+      return ok({
+        event_type: 'player_respawn',
+        timestamp,
+        respawnId: optionalString(raw.respawnId),
+        player_id: raw.player_id,
+        requestedBy: raw.requestedBy,
+        spawnPosition: raw.spawnPosition,
+        protectedUntil: raw.protectedUntil
+      }, []);
+
+    case 'player_scored':
+      if (!isNonEmptyString(raw.player_id)) return fail('player_scored: missing player_id');
+      if (!isFiniteNumber(raw.points)) return fail('player_scored: invalid points');
+      return ok({
+        event_type: 'player_scored',
+        timestamp,
+        player_id: raw.player_id,
+        points: raw.points,
+        target_id: optionalString(raw.target_id)
+      }, []);
+
+    case 'player_hit':
+      if (!isNonEmptyString(raw.player_id)) return fail('player_hit: missing player_id');
+      if (!isNonEmptyString(raw.hit_by)) return fail('player_hit: missing hit_by');
+      if (!isFiniteNumber(raw.damage)) return fail('player_hit: invalid damage');
+      if (raw.health !== undefined && !isFiniteNumber(raw.health)) return fail('player_hit: invalid health');
+      if (raw.position !== undefined && !isVector3(raw.position)) return fail('player_hit: invalid position');
+      return ok({
+        event_type: 'player_hit',
+        timestamp,
+        player_id: raw.player_id,
+        hit_by: raw.hit_by,
+        damage: raw.damage,
+        health: raw.health,
+        killed: typeof raw.killed === 'boolean' ? raw.killed : undefined,
+        shotId: optionalString(raw.shotId),
+        position: raw.position
+      }, []);
+
+    case 'hit_report':
+      if (!isNonEmptyString(raw.shotId)) return fail('hit_report: missing shotId');
+      if (!isNonEmptyString(raw.player_id)) return fail('hit_report: missing player_id');
+      if (!isNonEmptyString(raw.target_id)) return fail('hit_report: missing target_id');
+      if (!isVector3(raw.hitPosition)) return fail('hit_report: invalid hitPosition');
+      return ok({
+        event_type: 'hit_report',
+        timestamp,
+        shotId: raw.shotId,
+        player_id: raw.player_id,
+        target_id: raw.target_id,
+        hitPosition: raw.hitPosition
+      }, []);
+
+    case 'game_score_update':
+      if (!isNonEmptyString(raw.shotId)) return fail('game_score_update: missing shotId');
+      if (!isNonEmptyString(raw.source)) return fail('game_score_update: missing source');
+      if (!isFiniteNumber(raw.jackalopesScore) || !isFiniteNumber(raw.mercsScore)) {
+        return fail('game_score_update: invalid scores');
+      }
+      if (raw.scoreType !== undefined && !isPlayerType(raw.scoreType)) {
+        return fail('game_score_update: invalid scoreType');
+      }
+      return ok({
+        event_type: 'game_score_update',
+        timestamp,
+        shotId: raw.shotId,
+        source: raw.source,
+        scoreType: raw.scoreType,
+        jackalopesScore: raw.jackalopesScore,
+        mercsScore: raw.mercsScore,
+        eliminatedJackalopeId: optionalString(raw.eliminatedJackalopeId),
+        mercId: optionalString(raw.mercId),
+        targetMercId: optionalString(raw.targetMercId),
+        hitShotId: optionalString(raw.hitShotId),
+        scoredJackalopes: Array.isArray(raw.scoredJackalopes) && raw.scoredJackalopes.every(isNonEmptyString)
+          ? raw.scoredJackalopes : undefined,
+        scored_time: optionalNumber(raw.scored_time),
+        reset_time: optionalNumber(raw.reset_time)
+      }, []);
+
+    case 'game_score_request':
+      if (!isNonEmptyString(raw.shotId)) return fail('game_score_request: missing shotId');
+      return ok({ event_type: 'game_score_request', timestamp, shotId: raw.shotId }, []);
+
+    case 'capture_claim':
+      if (!isNonEmptyString(raw.player_id)) return fail('capture_claim: missing player_id');
+      if (!isNonEmptyString(raw.holeId)) return fail('capture_claim: missing holeId');
+      if (!isNonEmptyString(raw.claimId)) return fail('capture_claim: missing claimId');
+      if (raw.position !== undefined && !isVector3(raw.position)) return fail('capture_claim: invalid position');
+      return ok({
+        event_type: 'capture_claim',
+        timestamp,
+        player_id: raw.player_id,
+        holeId: raw.holeId,
+        claimId: raw.claimId,
+        position: raw.position
+      }, []);
+
+    case 'score_entry': {
+      const entry = decodeScoreEntry(raw.entry);
+      if (!entry.ok) return fail(`score_entry: ${entry.error}`);
+      return ok({ event_type: 'score_entry', timestamp, entry: entry.value }, []);
+    }
+
+    case 'ability_used':
+      if (!isNonEmptyString(raw.player_id)) return fail('ability_used: missing player_id');
+      if (!isJackalopeAbility(raw.ability)) return fail('ability_used: invalid ability');
+      if (!isNonEmptyString(raw.abilityId)) return fail('ability_used: missing abilityId');
+      if (!isVector3(raw.position)) return fail('ability_used: invalid position');
+      if (raw.direction !== undefined && !isVector3(raw.direction)) return fail('ability_used: invalid direction');
+      return ok({
+        event_type: 'ability_used',
+        timestamp,
+        player_id: raw.player_id,
+        ability: raw.ability,
+        abilityId: raw.abilityId,
+        position: raw.position,
+        direction: raw.direction
+      }, []);
+
+    default:
+      return fail(`unknown event_type '${String(raw.event_type)}'`);
+  }
+};
+
+const isMovementInput = (value: unknown): value is MovementInput =>
+  isObject(value) &&
+  isFiniteNumber(value.sequence) &&
+  ['forward', 'backward', 'left', 'right', 'jump', 'sprint'].every(key => typeof value[key] === 'boolean') &&
+  isFiniteNumber(value.moveX) &&
+  isFiniteNumber(value.moveY) &&
+  isFiniteNumber(value.yaw) &&
+  isFiniteNumber(value.delta);
+
+/**
+ * Decode a player state, accepting the legacy layout where position and
+ * rotation sit next to `state` rather than inside it
+ */
+const decodePlayerState = (raw: RawObject, warnings: string[]): DecodeResult<PlayerState> => {
+  const state: RawObject = isObject(raw.state) ? raw.state : {};
+
+  let position = state.position;
+  if (position === undefined && raw.position !== undefined) {
+    warnings.push(`${raw.type}: legacy top-level position`);
+    position = raw.position;
+  }
+  let rotation = state.rotation;
+  if (rotation === undefined && raw.rotation !== undefined) {
+    warnings.push(`${raw.type}: legacy top-level rotation`);
+    rotation = raw.rotation;
+  }
+  const playerType = state.playerType ?? raw.playerType;
+
+  if (!isVector3(position)) return fail(`${raw.type}: invalid position`);
+  if (!isQuaternion(rotation)) return fail(`${raw.type}: invalid rotation`);
+  // Guessing a team would put the player on the wrong side for everyone else
+  if (playerType === undefined) return fail(`${raw.type}: missing playerType`);
+  if (!isPlayerType(playerType)) return fail(`${raw.type}: invalid playerType`);
+  if (state.velocity !== undefined && !isVector3(state.velocity)) return fail(`${raw.type}: invalid velocity`);
+  if (state.inputs !== undefined && !(Array.isArray(state.inputs) && state.inputs.every(isMovementInput))) {
+    return fail(`${raw.type}: invalid inputs`);
+  }
+
+  const sequence = state.sequence ?? raw.sequence;
+  const timestamp = state.timestamp ?? raw.timestamp;
+  if (!isFiniteNumber(sequence)) warnings.push(`${raw.type}: missing sequence`);
+  if (!isFiniteNumber(timestamp)) warnings.push(`${raw.type}: missing timestamp`);
+
+  return ok({
+    position,
+    rotation,
+    velocity: state.velocity as Vector3 | undefined,
+    sequence: isFiniteNumber(sequence) ? sequence : 0,
+    inputs: state.inputs as MovementInput[] | undefined,
+    playerType,
+    jumping: state.jumping === true,
+    running: state.running === true,
+    shooting: state.shooting === true,
+    flashlightOn: state.flashlightOn === true,
+    health: isFiniteNumber(state.health) ? state.health : undefined,
+    timestamp: isFiniteNumber(timestamp) ? timestamp : Date.now()
+  }, warnings);
+};
+
+/**
+ * Decode a full player record as sent in player_joined, player_list and connection
+ */
+const decodeRemotePlayerState = (raw: unknown, context: string): DecodeResult<RemotePlayerState> => {
+  if (!isObject(raw)) return fail(`${context}: player state is not an object`);
+  if (!isVector3(raw.position)) return fail(`${context}: invalid position`);
+  if (!isQuaternion(raw.rotation)) return fail(`${context}: invalid rotation`);
+  if (!isPlayerType(raw.playerType)) return fail(`${context}: invalid playerType`);
+  return ok({
+    position: raw.position,
+    rotation: raw.rotation,
+    health: isFiniteNumber(raw.health) ? raw.health : 100,
+    playerType: raw.playerType,
+    flashlightOn: raw.flashlightOn === true
+  }, []);
+};
+
+const decodePlayerMap = (
+  raw: unknown,
+  context: string,
+  warnings: string[]
+): DecodeResult<Record<string, RemotePlayerState>> => {
+  if (!isObject(raw)) return fail(`${context}: players is not an object`);
+  const players: Record<string, RemotePlayerState> = {};
+  for (const [id, value] of Object.entries(raw)) {
+    const decoded = decodeRemotePlayerState(value, `${context}[${id}]`);
+    if (decoded.ok) {
+      players[id] = decoded.value;
+    } else {
+      // One bad entry shouldn't cost us the whole list
+      warnings.push(`dropped player: ${decoded.error}`);
+    }
+  }
+  return ok(players, warnings);
+};
+
+// Only the fields that are there need to be valid; which ones must be is up to the baseline
+const decodePlayerSnapshotDelta = (raw: unknown, context: string): DecodeResult<PlayerSnapshotDelta> => {
+  if (!isObject(raw) || !isNonEmptyString(raw.id)) return fail(`${context}: missing id`);
+  const player: PlayerSnapshotDelta = { id: raw.id };
+  if (raw.position !== undefined) {
+    if (!isVector3(raw.position)) return fail(`${context}: invalid position`);
+    player.position = raw.position;
+  }
+  if (raw.rotation !== undefined) {
+    if (!isQuaternion(raw.rotation)) return fail(`${context}: invalid rotation`);
+    player.rotation = raw.rotation;
+  }
+  if (raw.velocity !== undefined) {
+    if (!isVector3(raw.velocity)) return fail(`${context}: invalid velocity`);
+    player.velocity = raw.velocity;
+  }
+  if (raw.health !== undefined) {
+    if (!isFiniteNumber(raw.health)) return fail(`${context}: invalid health`);
+    player.health = raw.health;
+  }
+  if (raw.playerType !== undefined) {
+    if (!isPlayerType(raw.playerType)) return fail(`${context}: invalid playerType`);
+    player.playerType = raw.playerType;
+  }
+  if (typeof raw.flashlightOn === 'boolean') player.flashlightOn = raw.flashlightOn;
+  return ok(player, []);
+};
+
+const decodeSnapshotDelta = (raw: unknown): DecodeResult<SnapshotDelta> => {
+  if (!isObject(raw)) return fail('missing delta');
+  if (!isFiniteNumber(raw.sequence) || !isFiniteNumber(raw.timestamp)) return fail('delta: missing sequence or timestamp');
+  if (raw.baseline !== undefined && !isFiniteNumber(raw.baseline)) return fail('delta: invalid baseline');
+  if (!isObject(raw.players)) return fail('delta: players is not an object');
+  if (!Array.isArray(raw.removed) || !raw.removed.every(isNonEmptyString)) return fail('delta: invalid removed');
+  if (!Array.isArray(raw.events)) return fail('delta: events is not an array');
+
+  const players: Record<string, PlayerSnapshotDelta> = {};
+  for (const [id, value] of Object.entries(raw.players)) {
+    const player = decodePlayerSnapshotDelta(value, `delta.players[${id}]`);
+    if (!player.ok) return player;
+    players[player.value.id] = player.value;
+  }
+  // Dropping an event here would lose it for good once the snapshot is acknowledged
+  const events: SequencedEvent[] = [];
+  for (const entry of raw.events) {
+    if (!isObject(entry) || !isFiniteNumber(entry.sequence)) return fail('delta: event without a sequence');
+    const event = decodeGameEvent(entry.event);
+    if (!event.ok) return fail(`delta: ${event.error}`);
+    events.push({ sequence: entry.sequence, event: event.value });
+  }
+
+  const delta: SnapshotDelta = { sequence: raw.sequence, timestamp: raw.timestamp, players, removed: raw.removed, events };
+  if (raw.baseline !== undefined) delta.baseline = raw.baseline;
+  return ok(delta, []);
+};
+
+const decodeRoundState = (raw: unknown): DecodeResult<RoundState> => {
+  if (!isObject(raw)) return fail('round_state: missing state');
+  if (!isRoundPhase(raw.phase)) return fail('round_state: invalid phase');
+  if (!isObject(raw.scores) || !isFiniteNumber(raw.scores.jackalopes) || !isFiniteNumber(raw.scores.mercs)) {
+    return fail('round_state: invalid scores');
+  }
+  const state: RoundState = {
+    phase: raw.phase,
+    round: Number.isInteger(raw.round) ? raw.round as number : 0,
+    startedAt: isFiniteNumber(raw.startedAt) ? raw.startedAt : 0,
+    endsAt: isFiniteNumber(raw.endsAt) ? raw.endsAt : null,
+    scores: { jackalopes: raw.scores.jackalopes, mercs: raw.scores.mercs }
+  };
+  if (isPlayerType(raw.winner) || raw.winner === 'draw') state.winner = raw.winner;
+  return ok(state, []);
+};
+
+const decodeScoreEntry = (raw: unknown): DecodeResult<ScoreEntry> => {
+  if (!isObject(raw)) return fail('missing score entry');
+  if (!isNonEmptyString(raw.id)) return fail('score entry: missing id');
+  if (raw.kind !== 'kill' && raw.kind !== 'capture') return fail(`score entry ${raw.id}: invalid kind`);
+  if (!isPlayerType(raw.team)) return fail(`score entry ${raw.id}: invalid team`);
+  if (!isNonEmptyString(raw.playerId)) return fail(`score entry ${raw.id}: missing playerId`);
+  const entry: ScoreEntry = {
+    id: raw.id,
+    kind: raw.kind,
+    team: raw.team,
+    playerId: raw.playerId,
+    round: Number.isInteger(raw.round) ? raw.round as number : 0,
+    timestamp: isFiniteNumber(raw.timestamp) ? raw.timestamp : 0
+  };
+  if (isNonEmptyString(raw.targetId)) entry.targetId = raw.targetId;
+  if (isNonEmptyString(raw.shotId)) entry.shotId = raw.shotId;
+  if (isNonEmptyString(raw.holeId)) entry.holeId = raw.holeId;
+  return ok(entry, []);
+};
+
+/**
+ * Decode a parsed JSON message from the server into a typed ServerMessage
+ */
+export const decodeServerMessage = (raw: unknown): DecodeResult<ServerMessage> => {
+  if (!isObject(raw)) return fail('message is not an object');
+  if (!isNonEmptyString(raw.type)) return fail('message has no type');
+
+  const warnings: string[] = [];
+
+  switch (raw.type) {
+    case 'welcome': {
+      const protocolVersion = readProtocolVersion(raw, warnings);
+      if (protocolVersion === null) return fail('welcome: invalid protocolVersion');
+      return ok({ type: 'welcome', protocolVersion }, warnings);
+    }
+
+    case 'connection': {
+      const id = readPlayerId(raw, warnings);
+      if (!id) return fail('connection: missing player id');
+      const gameState = isObject(raw.gameState) ? raw.gameState : {};
+      const players = decodePlayerMap(gameState.players ?? {}, 'connection', warnings);
+      if (!players.ok) return players;
+      return ok({ type: 'connection', id, gameState: { players: players.value } }, warnings);
+    }
+
+    case 'auth_success': {
+      const protocolVersion = readProtocolVersion(raw, warnings);
+      if (protocolVersion === null) return fail('auth_success: invalid protocolVersion');
+      if (!isObject(raw.player) || !isNonEmptyString(raw.player.id)) return fail('auth_success: missing player.id');
+      return ok({
+        type: 'auth_success',
+        protocolVersion,
+        player: { id: raw.player.id, name: typeof raw.player.name === 'string' ? raw.player.name : undefined },
+        authoritative: raw.authoritative === true,
+        resumeToken: isNonEmptyString(raw.resumeToken) ? raw.resumeToken : undefined,
+        resumeGraceMs: isFiniteNumber(raw.resumeGraceMs) ? raw.resumeGraceMs : undefined,
+        resumed: raw.resumed === true,
+        playerIndex: Number.isInteger(raw.playerIndex) ? raw.playerIndex as number : undefined,
+        playerType: isPlayerType(raw.playerType) ? raw.playerType : undefined,
+        codec: isWireCodec(raw.codec) ? raw.codec : undefined,
+        capabilities: Array.isArray(raw.capabilities) ? raw.capabilities.filter(isServerCapability) : undefined
+      }, warnings);
+    }
+
+    case 'join_success': {
+      const message: JoinSuccessMessage = { type: 'join_success' };
+      if (isObject(raw.player) && isNonEmptyString(raw.player.id)) {
+        message.player = { id: raw.player.id, name: typeof raw.player.name === 'string' ? raw.player.name : undefined };
+      }
+      if (isObject(raw.session) && isNonEmptyString(raw.session.id)) {
+        message.session = {
+          id: raw.session.id,
+          key: typeof raw.session.key === 'string' ? raw.session.key : undefined,
+          name: typeof raw.session.name === 'string' ? raw.session.name : undefined,
+          private: typeof raw.session.private === 'boolean' ? raw.session.private : undefined,
+          mapId: isNonEmptyString(raw.session.mapId) ? raw.session.mapId : undefined
+        };
+      }
+      if (Number.isInteger(raw.playerIndex)) message.playerIndex = raw.playerIndex as number;
+      if (isPlayerType(raw.playerType)) message.playerType = raw.playerType;
+      if (Number.isInteger(raw.playerCount)) message.playerCount = raw.playerCount as number;
+      if (typeof raw.lobbyFull === 'boolean') message.lobbyFull = raw.lobbyFull;
+      if (raw.spectator === true) message.spectator = true;
+      if (Number.isInteger(raw.queuePosition)) message.queuePosition = raw.queuePosition as number;
+      return ok(message, warnings);
+    }
+
+    case 'session_list': {
+      if (!Array.isArray(raw.sessions)) return fail('session_list: missing sessions');
+      const sessions: SessionSummary[] = [];
+      raw.sessions.forEach((entry, index) => {
+        if (isObject(entry) && isNonEmptyString(entry.key) && isFiniteNumber(entry.playerCount)) {
+          sessions.push({
+            key: entry.key,
+            name: isNonEmptyString(entry.name) ? entry.name : entry.key,
+            playerCount: entry.playerCount,
+            maxPlayers: isFiniteNumber(entry.maxPlayers) ? entry.maxPlayers : MAX_PLAYERS_PER_SESSION,
+            spectatorCount: isFiniteNumber(entry.spectatorCount) ? entry.spectatorCount : 0,
+            private: entry.private === true,
+            mapId: isNonEmptyString(entry.mapId) ? entry.mapId : undefined
+          });
+        } else {
+          warnings.push(`session_list: dropped invalid session at ${index}`);
+        }
+      });
+      return ok({ type: 'session_list', sessions }, warnings);
+    }
+
+    case 'spectator_queue': {
+      if (!Number.isInteger(raw.position)) return fail('spectator_queue: invalid position');
+      return ok({ type: 'spectator_queue', position: raw.position as number }, warnings);
+    }
+
+    case 'player_joined': {
+      const id = readPlayerId(raw, warnings);
+      if (!id) return fail('player_joined: missing player id');
+      let stateRaw: unknown = raw.state;
+      if (stateRaw === undefined && raw.initialState !== undefined) {
+        warnings.push("player_joined: legacy field 'initialState'");
+        stateRaw = raw.initialState;
+      }
+      if (stateRaw === undefined) {
+        return fail('player_joined: missing state');
+      }
+      // Older servers put the player type next to the state rather than in it
+      if (isObject(stateRaw) && stateRaw.playerType === undefined && raw.playerType !== undefined) {
+        stateRaw = { ...stateRaw, playerType: raw.playerType };
+      }
+      const state = decodeRemotePlayerState(stateRaw, 'player_joined');
+      if (!state.ok) return state;
+      return ok({ type: 'player_joined', id, state: state.value }, warnings);
+    }
+
+    case 'player_left': {
+      const id = readPlayerId(raw, warnings);
+      if (!id) return fail('player_left: missing player id');
+      return ok({ type: 'player_left', id }, warnings);
+    }
+
+    case 'player_reconnecting': {
+      const id = readPlayerId(raw, warnings);
+      if (!id) return fail('player_reconnecting: missing player id');
+      return ok({ type: 'player_reconnecting', id, graceMs: isFiniteNumber(raw.graceMs) ? raw.graceMs : 0 }, warnings);
+    }
+
+    case 'player_resumed': {
+      const id = readPlayerId(raw, warnings);
+      if (!id) return fail('player_resumed: missing player id');
+      const state = decodeRemotePlayerState(raw.state, 'player_resumed');
+      if (!state.ok) return state;
+      return ok({ type: 'player_resumed', id, state: state.value }, warnings);
+    }
+
+    case 'team_assignment': {
+      const id = readPlayerId(raw, warnings);
+      if (!id) return fail('team_assignment: missing player id');
+      if (!isPlayerType(raw.playerType)) return fail('team_assignment: invalid playerType');
+      if (raw.reason !== 'switch' && raw.reason !== 'balance') return fail('team_assignment: invalid reason');
+      return ok({ type: 'team_assignment', id, playerType: raw.playerType, reason: raw.reason }, warnings);
+    }
+
+    case 'round_state': {
+      const state = decodeRoundState(raw.state);
+      if (!state.ok) return state;
+      return ok({ type: 'round_state', state: state.value }, warnings);
+    }
+
+    case 'score_ledger': {
+      if (!Array.isArray(raw.entries)) return fail('score_ledger: missing entries');
+      const entries: ScoreEntry[] = [];
+      for (const item of raw.entries) {
+        const entry = decodeScoreEntry(item);
+        if (entry.ok) {
+          entries.push(entry.value);
+        } else {
+          warnings.push(`dropped ${entry.error}`);
+        }
+      }
+      return ok({ type: 'score_ledger', entries }, warnings);
+    }
+
+    case 'score_entry': {
+      const entry = decodeScoreEntry(raw.entry);
+      if (!entry.ok) return fail(`score_entry: ${entry.error}`);
+      return ok({ type: 'score_entry', entry: entry.value }, warnings);
+    }
+
+    case 'player_list': {
+      const players = decodePlayerMap(raw.players, 'player_list', warnings);
+      if (!players.ok) return players;
+      return ok({ type: 'player_list', players: players.value }, warnings);
+    }
+
+    case 'player_update': {
+      const id = readPlayerId(raw, warnings);
+      if (!id) return fail('player_update: missing player id');
+      const state = decodePlayerState(raw, warnings);
+      if (!state.ok) return state;
+      return ok({
+        type: 'player_update',
+        id,
+        state: state.value,
+        positionError: isFiniteNumber(raw.positionError) ? raw.positionError : undefined,
+        serverCorrection: typeof raw.serverCorrection === 'boolean' ? raw.serverCorrection : undefined
+      }, warnings);
+    }
+
+    case 'relevancy': {
+      if (!Array.isArray(raw.dormant) || !raw.dormant.every(isNonEmptyString)) return fail('relevancy: invalid dormant');
+      return ok({ type: 'relevancy', dormant: raw.dormant }, warnings);
+    }
+
+    case 'snapshot_ack': {
+      if (!isFiniteNumber(raw.sequence)) return fail('snapshot_ack: missing sequence');
+      return ok({ type: 'snapshot_ack', sequence: raw.sequence, baselineLost: raw.baselineLost === true }, warnings);
+    }
+
+    case 'input_ack': {
+      if (!isFiniteNumber(raw.sequence)) return fail('input_ack: missing sequence');
+      if (!isVector3(raw.position)) return fail('input_ack: invalid position');
+      return ok({
+        type: 'input_ack',
+        sequence: raw.sequence,
+        position: raw.position,
+        corrected: raw.corrected === true,
+        health: isFiniteNumber(raw.health) ? raw.health : undefined
+      }, warnings);
+    }
+
+    case 'game_event': {
+      const event = decodeGameEvent(raw.event);
+      if (!event.ok) return fail(`game_event: ${event.error}`);
+      return ok({ type: 'game_event', event: event.value }, warnings);
+    }
+
+    case 'pong': {
+      if (!isFiniteNumber(raw.timestamp)) return fail('pong: missing timestamp');
+      return ok({
+        type: 'pong',
+        timestamp: raw.timestamp,
+        serverTime: isFiniteNumber(raw.serverTime) ? raw.serverTime : undefined
+      }, warnings);
+    }
+
+    case 'chat': {
+      if (typeof raw.message !== 'string') return fail('chat: missing message');
+      return ok({
+        type: 'chat',
+        message: raw.message,
+        id: readPlayerId(raw, warnings) ?? undefined,
+        playerType: isPlayerType(raw.playerType) ? raw.playerType : undefined
+      }, warnings);
+    }
+
+    case 'error': {
+      const message = typeof raw.message === 'string' ? raw.message : 'Unknown server error';
+      return ok({
+        type: 'error',
+        message,
+        code: typeof raw.code === 'string' ? raw.code : undefined
+      }, warnings);
+    }
+
+    default:
+      return fail(`unknown message type '${raw.type}'`);
+  }
+};
+
+/**
+ * Decode a parsed JSON message from a client into a typed ClientMessage.
+ * Used by the local development server (see server/).
+ */
+export const decodeClientMessage = (raw: unknown): DecodeResult<ClientMessage> => {
+  if (!isObject(raw)) return fail('message is not an object');
+  if (!isNonEmptyString(raw.type)) return fail('message has no type');
+
+  const warnings: string[] = [];
+  const playerType = isPlayerType(raw.playerType) ? raw.playerType : undefined;
+  const playerIndex = Number.isInteger(raw.playerIndex) ? raw.playerIndex as number : undefined;
+
+  switch (raw.type) {
+    case 'auth': {
+      const protocolVersion = readProtocolVersion(raw, warnings);
+      if (protocolVersion === null) return fail('auth: invalid protocolVersion');
+      return ok({
+        type: 'auth',
+        protocolVersion,
+        playerName: typeof raw.playerName === 'string' && raw.playerName ? raw.playerName : 'Player',
+        playerType,
+        playerIndex,
+        resumeToken: isNonEmptyString(raw.resumeToken) ? raw.resumeToken : undefined,
+        codecs: Array.isArray(raw.codecs) ? raw.codecs.filter(isWireCodec) : undefined
+      }, warnings);
+    }
+
+    case 'join_session': {
+      if (!isNonEmptyString(raw.sessionKey)) return fail('join_session: missing sessionKey');
+      return ok({
+        type: 'join_session',
+        playerName: typeof raw.playerName === 'string' ? raw.playerName : 'Player',
+        sessionKey: raw.sessionKey,
+        playerType,
+        playerIndex,
+        spectate: raw.spectate === true
+      }, warnings);
+    }
+
+    case 'list_sessions':
+      return ok({ type: 'list_sessions' }, warnings);
+
+    case 'create_session':
+      return ok({
+        type: 'create_session',
+        playerName: typeof raw.playerName === 'string' ? raw.playerName : 'Player',
+        name: isNonEmptyString(raw.name) ? raw.name.slice(0, MAX_SESSION_NAME_LENGTH) : undefined,
+        private: raw.private === true,
+        playerType,
+        mapId: isNonEmptyString(raw.mapId) ? raw.mapId : undefined
+      }, warnings);
+
+    case 'team_switch_request':
+      if (!playerType) return fail('team_switch_request: invalid playerType');
+      return ok({ type: 'team_switch_request', playerType }, warnings);
+
+    case 'player_update': {
+      const state = decodePlayerState(raw, warnings);
+      if (!state.ok) return state;
+      return ok({ type: 'player_update', state: state.value }, warnings);
+    }
+
+    case 'game_event': {
+      const event = decodeGameEvent(raw.event);
+      if (!event.ok) return fail(`game_event: ${event.error}`);
+      const message: GameEventMessage = { type: 'game_event', event: event.value };
+      if (Number.isInteger(raw.sequence)) message.sequence = raw.sequence as number;
+      return ok(message, warnings);
+    }
+
+    case 'game_snapshot': {
+      const delta = decodeSnapshotDelta(raw.delta);
+      if (!delta.ok) return fail(`game_snapshot: ${delta.error}`);
+      return ok({ type: 'game_snapshot', delta: delta.value }, warnings);
+    }
+
+    case 'request_player_list':
+      return ok({ type: 'request_player_list' }, warnings);
+
+    case 'keepalive':
+    case 'ping': {
+      if (!isFiniteNumber(raw.timestamp)) return fail(`${raw.type}: missing timestamp`);
+      return ok({ type: raw.type, timestamp: raw.timestamp }, warnings);
+    }
+
+    case 'chat': {
+      if (typeof raw.message !== 'string') return fail('chat: missing message');
+      return ok({ type: 'chat', message: raw.message, playerType }, warnings);
+    }
+
+    default:
+      return fail(`unknown message type '${raw.type}'`);
+  }
+};
+
+/**
+ * Parse and decode a raw WebSocket frame; text frames are JSON, binary ones BinaryCodec
+ */
+export const parseServerMessage = (data: string | BinaryFrame): DecodeResult<ServerMessage> => {
+  if (typeof data !== 'string') return decodeBinaryServerMessage(data);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (error) {
+    return fail(`invalid JSON: ${(error as Error).message}`);
+  }
+  return decodeServerMessage(raw);
+};
+
+/**
+ * Serialize a client message for the wire. With the binary codec, messages
+ * it covers become ArrayBuffers and the rest still go as JSON.
+ */
+export const encodeClientMessage = (message: ClientMessage, codec: WireCodec = 'json'): string | ArrayBuffer =>
+  (codec === 'binary' && encodeBinaryClientMessage(message)) || JSON.stringify(message);
+
+/**
+ * Parse and decode a raw frame received from a client
+ */
+export const parseClientMessage = (data: string | BinaryFrame): DecodeResult<ClientMessage> => {
+  if (typeof data !== 'string') {
+    const decoded = decodeBinaryClientMessage(data);
+    // Snapshot events come through the binary codec as plain JSON, unchecked
+    return decoded.ok && decoded.value.type === 'game_snapshot' ? decodeClientMessage(decoded.value) : decoded;
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (error) {
+    return fail(`invalid JSON: ${(error as Error).message}`);
+  }
+  return decodeClientMessage(raw);
+};
+
+/**
+ * Serialize a server message for the wire, as encodeClientMessage does
+ */
+export const encodeServerMessage = (message: ServerMessage, codec: WireCodec = 'json'): string | ArrayBuffer =>
+  (codec === 'binary' && encodeBinaryServerMessage(message)) || JSON.stringify(message);
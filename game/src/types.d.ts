@@ -13,7 +13,7 @@ interface Window {
   __toggleNetworkLogs?: (verbose: boolean) => string;
   connectionManager?: any;
   __networkManager?: {
-    sendRespawnRequest: (playerId: string, spawnPosition?: [number, number, number]) => void;
+    sendRespawnRequest: (playerId: string) => void;
   };
   
   jackalopesGame?: {
@@ -21,22 +21,12 @@ interface Window {
     levaPanelState?: 'open' | 'closed';
     flashlightOn?: boolean;
     debugLevel?: number;
-    spawnManager?: {
-      baseSpawnX: number;
-      currentSpawnX: number;
-      stepSize: number;
-      minX: number;
-      getNextSpawnPoint: () => [number, number, number];
-      resetSpawnPoints: () => [number, number, number];
-      getSpawnPoint: () => [number, number, number];
-    };
   };
   
   playerPositionTracker?: {
     updatePosition: (newPos: THREE.Vector3) => void;
   };
   
-  __lastHitJackalope?: string;
 }
 
 // Add colored console functionality
@@ -57,7 +47,7 @@ declare global {
     __toggleNetworkLogs?: (verbose: boolean) => string;
     connectionManager?: any;
     __networkManager?: {
-      sendRespawnRequest: (playerId: string, spawnPosition?: [number, number, number]) => void;
+      sendRespawnRequest: (playerId: string) => void;
     };
     __playMercShot?: () => void;
     __playJackalopeHitSound?: () => void;
@@ -65,9 +55,7 @@ declare global {
     __jackalopeAttachmentHandlers?: Record<string, (projectileData: {id: string, position: Vector3}) => boolean>;
     __createExplosionEffect?: (position: Vector3, color: string, particleCount: number, radius: number) => void;
     __disableStabilizationFor?: Record<string, boolean>;
-    __jackalopeHitHandlers?: Record<string, (projectileId: string, shooterId: string) => boolean>;
     __createSpawnEffect?: (position: Vector3, color: string, particleCount: number, radius: number) => void;
-    __lastHitJackalope?: string;
     __processedShots?: Set<string>;
     __fallbackModels?: Record<string, Object3D<Event>>;
     __debugScene?: any;
@@ -78,15 +66,6 @@ declare global {
       levaPanelState?: 'open' | 'closed';
       flashlightOn?: boolean;
       debugLevel?: number;
-      spawnManager?: {
-        baseSpawnX: number;
-        currentSpawnX: number;
-        stepSize: number;
-        minX: number;
-        getNextSpawnPoint: () => [number, number, number];
-        resetSpawnPoints: () => [number, number, number];
-        getSpawnPoint: () => [number, number, number];
-      };
     };
     playerPositionTracker?: {
       updatePosition: (newPos: Vector3) => void;
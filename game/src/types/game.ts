@@ -17,6 +17,27 @@ export type Vector3 = [number, number, number];
  */
 export type Quaternion = [number, number, number, number];
 
+/**
+ * One physics step of movement input, numbered so the server can
+ * acknowledge how far into the client's input stream it has got
+ */
+export interface MovementInput {
+  sequence: number;
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+  jump: boolean;
+  sprint: boolean;
+  // Analog stick axes, -1..1
+  moveX: number;
+  moveY: number;
+  // Camera heading the input was relative to
+  yaw: number;
+  // Step length in seconds
+  delta: number;
+}
+
 /**
  * Player state information
  */
@@ -24,11 +45,17 @@ export interface PlayerState {
   position: Vector3;
   rotation: Quaternion;
   velocity?: Vector3;
+  // Last input sequence reflected in `position`
   sequence: number;
+  // Inputs applied since the previous update
+  inputs?: MovementInput[];
   playerType: PlayerType;
   jumping?: boolean;
   running?: boolean;
   shooting?: boolean;
+  flashlightOn?: boolean;
+  // Filled in by the authority; whatever a client claims here is ignored
+  health?: number;
   timestamp: number;
 }
 
@@ -41,6 +68,11 @@ export interface ShotEvent {
   direction: Vector3;
   player_id: string;
   playerType: PlayerType;
+  color?: string;
+  // Key into DAMAGE_PROFILES; fireball when missing
+  weapon?: string;
+  // Shooter's measured one-way latency (ms) when firing, used for lag compensation
+  latency?: number;
   timestamp: number;
 }
 
@@ -48,9 +80,13 @@ export interface ShotEvent {
  * Respawn event data
  */
 export interface RespawnEvent {
+  respawnId?: string;
   player_id: string;
   requestedBy: string;
+  // Chosen by the authority; anything a client asks for is ignored
   spawnPosition?: Vector3;
+  // Server time until which the respawned player can't be hurt
+  protectedUntil?: number;
   timestamp: number;
 }
 
@@ -87,13 +123,93 @@ export interface PlayerScoredEvent extends GameEvent {
 }
 
 /**
- * Player hit event
+ * Player hit event, broadcast by the authority once a hit is confirmed
  */
 export interface PlayerHitEvent extends GameEvent {
   event_type: 'player_hit';
   player_id: string;
   hit_by: string;
   damage: number;
+  // The target's health after the hit, and whether it finished them
+  health?: number;
+  killed?: boolean;
+  shotId?: string;
+  position?: Vector3;
+}
+
+/**
+ * Hit claim sent by the shooter's client; only the authority acts on it
+ */
+export interface HitReportEvent extends GameEvent {
+  event_type: 'hit_report';
+  shotId: string;
+  player_id: string;
+  target_id: string;
+  hitPosition: Vector3;
+}
+
+/**
+ * Team score broadcast
+ */
+export interface GameScoreUpdateEvent extends GameEvent {
+  event_type: 'game_score_update';
+  shotId: string;
+  source: string;
+  scoreType?: PlayerType;
+  jackalopesScore: number;
+  mercsScore: number;
+  eliminatedJackalopeId?: string;
+  mercId?: string;
+  targetMercId?: string;
+  hitShotId?: string;
+  scoredJackalopes?: string[];
+  scored_time?: number;
+  reset_time?: number;
+}
+
+/**
+ * Request for the current team scores
+ */
+export interface GameScoreRequestEvent extends GameEvent {
+  event_type: 'game_score_request';
+  shotId: string;
+}
+
+/**
+ * A jackalope reaching a rabbit hole; the authority decides whether it counts
+ */
+export interface CaptureClaimEvent extends GameEvent {
+  event_type: 'capture_claim';
+  player_id: string;
+  holeId: string;
+  claimId: string;
+  position?: Vector3;
+}
+
+/**
+ * A point the hit-authority client scored, for servers that only relay events
+ */
+export interface ScoreEntryEvent extends GameEvent {
+  event_type: 'score_entry';
+  entry: ScoreEntry;
+}
+
+/**
+ * Jackalope abilities (see network/Abilities.ts)
+ */
+export type JackalopeAbility = 'dash' | 'burrow' | 'decoy';
+
+/**
+ * A jackalope using an ability; the authority only passes it on if it was ready
+ */
+export interface AbilityUsedEvent extends GameEvent {
+  event_type: 'ability_used';
+  player_id: string;
+  ability: JackalopeAbility;
+  abilityId: string;
+  position: Vector3;
+  // Which way the dash goes or the decoy runs
+  direction?: Vector3;
 }
 
 /**
@@ -103,7 +219,127 @@ export type GameEventData =
   | PlayerShootEvent
   | PlayerRespawnEvent
   | PlayerScoredEvent
-  | PlayerHitEvent;
+  | PlayerHitEvent
+  | HitReportEvent
+  | GameScoreUpdateEvent
+  | GameScoreRequestEvent
+  | CaptureClaimEvent
+  | ScoreEntryEvent
+  | AbilityUsedEvent;
+
+/**
+ * Event type discriminator of all game events
+ */
+export type GameEventType = GameEventData['event_type'];
+
+/**
+ * Stage of a match. `waiting` until there are enough players, then
+ * warmup → live → (overtime on a tie) → results → intermission → warmup...
+ */
+export type RoundPhase = 'waiting' | 'warmup' | 'live' | 'overtime' | 'results' | 'intermission';
+
+/**
+ * Team scores for the current round
+ */
+export interface TeamScores {
+  jackalopes: number;
+  mercs: number;
+}
+
+/**
+ * Where the session's match is, as announced by the authority
+ */
+export interface RoundState {
+  phase: RoundPhase;
+  // Counts up each time a round goes live
+  round: number;
+  // Server time the phase began, and when it ends (null when it waits on players)
+  startedAt: number;
+  endsAt: number | null;
+  scores: TeamScores;
+  // Set once a round has been decided
+  winner?: PlayerType | 'draw';
+}
+
+/**
+ * One point in the score ledger: a merc killing a jackalope, or a jackalope
+ * making it into a rabbit hole
+ */
+export interface ScoreEntry {
+  id: string;
+  kind: 'kill' | 'capture';
+  // Team the point goes to, and the player who earned it
+  team: PlayerType;
+  playerId: string;
+  // The jackalope that went down, and the shot that did it (kills)
+  targetId?: string;
+  shotId?: string;
+  // Which rabbit hole (captures)
+  holeId?: string;
+  round: number;
+  timestamp: number;
+}
+
+/**
+ * A player's tally, derived from the ledger
+ */
+export interface PlayerScoreLine {
+  kills: number;
+  captures: number;
+  deaths: number;
+}
+
+/**
+ * Per-player entry in a game snapshot
+ */
+export interface PlayerSnapshot {
+  id: string;
+  position: Vector3;
+  rotation: Quaternion;
+  velocity?: Vector3;
+  health: number;
+  playerType?: PlayerType;
+  flashlightOn?: boolean;
+}
+
+/**
+ * Game snapshot for state synchronization
+ */
+export interface GameSnapshot {
+  timestamp: number;
+  sequence: number;
+  players: Record<string, PlayerSnapshot>;
+  events: GameEventData[];
+}
+
+/**
+ * Only the fields of a player that changed since the baseline (all of them in a keyframe)
+ */
+export type PlayerSnapshotDelta = Partial<PlayerSnapshot> & { id: string };
+
+/**
+ * Game event numbered by its sender, so a receiver can drop repeats
+ */
+export interface SequencedEvent {
+  sequence: number;
+  event: GameEventData;
+}
+
+/**
+ * A snapshot as sent: the difference from a snapshot the receiver
+ * acknowledged, or a keyframe when there is no such baseline
+ */
+export interface SnapshotDelta {
+  sequence: number;
+  timestamp: number;
+  // Sequence of the snapshot this applies to; absent in a keyframe
+  baseline?: number;
+  players: Record<string, PlayerSnapshotDelta>;
+  // Players in the baseline that are gone
+  removed: string[];
+  // Every event the receiver hasn't acknowledged yet
+  events: SequencedEvent[];
+}
 
 /**
  * Game settings interface
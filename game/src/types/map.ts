@@ -0,0 +1,128 @@
+/**
+ * Map definition types
+ *
+ * A map is plain JSON (see src/game/maps) describing everything about a
+ * level that isn't a player: what you can stand on and hide behind, where
+ * jackalopes score, where each team spawns, the scenery, and how it's lit.
+ */
+
+import { PlayerType, Vector3 } from './game';
+
+/**
+ * Version of the map schema described here; maps declaring another are refused
+ */
+export const MAP_SCHEMA_VERSION = 1;
+
+/**
+ * A solid box: the platforms inside the arena. `prop` puts scenery on top of it.
+ */
+export interface MapBlock {
+  position: Vector3;
+  // Full width, height and depth
+  size: Vector3;
+  color?: string;
+  prop?: ScatterKind;
+}
+
+/**
+ * A wall segment or door frame; solid, and blocks sight for spawning
+ */
+export interface MapWall {
+  position: Vector3;
+  size: Vector3;
+  color: string;
+}
+
+/**
+ * A rabbit hole: a jackalope reaching it scores for its team
+ */
+export interface ScoringZone {
+  id: string;
+  position: Vector3;
+  radius: number;
+}
+
+/**
+ * Somewhere a team comes back into play
+ */
+export interface MapSpawnPoint {
+  id: string;
+  team: PlayerType;
+  position: Vector3;
+}
+
+/**
+ * Scenery that comes in from the model library (see TreeLoader)
+ */
+export type ScatterKind = 'tree' | 'rock' | 'plant' | 'bush';
+
+/**
+ * Scenery. Scattered models are decoration only; stones and hills are solid;
+ * a mountain range is a ring of generated peaks around `position`.
+ */
+export type MapProp =
+  | { kind: ScatterKind; position: Vector3; scale: number }
+  | { kind: 'stone'; position: Vector3; size: number; color: string }
+  | { kind: 'hill'; position: Vector3; radius: number; height: number; color: string }
+  | {
+      kind: 'mountains';
+      position: Vector3;
+      count: number;
+      spread: number;
+      baseScale: number;
+      scaleVariation: number;
+      heightVariation: number;
+    };
+
+export type MapPropKind = MapProp['kind'];
+
+/**
+ * The rolling ground outside the arena. Everything within `flatRadius` of
+ * the middle stays level so there's somewhere even to fight.
+ */
+export interface MapTerrain {
+  size: number;
+  segments: number;
+  maxHeight: number;
+  noiseScale: number;
+  flatRadius: number;
+  // Grid colours, dark and light
+  colors: [string, string];
+}
+
+/**
+ * Named lighting and fog setups a map can ask for (see LIGHTING_PRESETS and FOG_PRESETS)
+ */
+export type LightingPresetName = 'moonlit' | 'dusk' | 'overcast';
+export type FogPresetName = 'night' | 'mist' | 'clear';
+
+export interface LightingPreset {
+  ambientIntensity: number;
+  directionalIntensity: number;
+  directionalHeight: number;
+  directionalDistance: number;
+}
+
+export interface FogPreset {
+  color: string;
+  near: number;
+  far: number;
+}
+
+/**
+ * A whole map, as stored in its JSON file
+ */
+export interface GameMap {
+  schemaVersion: number;
+  id: string;
+  name: string;
+  description?: string;
+  terrain: MapTerrain;
+  blocks: MapBlock[];
+  walls: MapWall[];
+  scoringZones: ScoringZone[];
+  spawns: MapSpawnPoint[];
+  props: MapProp[];
+  lighting: LightingPresetName;
+  fog: FogPresetName;
+}
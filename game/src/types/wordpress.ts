@@ -17,6 +17,8 @@ export interface JackalopesGameSettings {
   debug: boolean;
   nonce: string;
   sessionKey: string;
+  // Set when the page pins its room (the shortcode's session attribute); hides the lobby browser
+  sessionLocked?: boolean;
 }
 
 /**
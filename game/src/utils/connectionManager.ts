@@ -1,5 +1,17 @@
 // The top of the file, add import for the JackalopesGameSettings interface
 import { JackalopesGameSettings } from '../types/wordpress';
+import { PlayerRespawnEvent, PlayerShootEvent, PlayerState, Vector3 } from '../types/game';
+import {
+  ClientMessage,
+  DEFAULT_SESSION_KEY,
+  PROTOCOL_VERSION,
+  decodeGameEvent,
+  encodeClientMessage,
+  isProtocolCompatible,
+  parseServerMessage
+} from '../network/protocol';
+import { BroadcastTransport, tabChannelOf } from '../network/BroadcastTransport';
+import { Transport } from '../network/Transport';
 
 /**
  * Connection Manager for Jackalopes game
@@ -12,6 +24,7 @@ import { JackalopesGameSettings } from '../types/wordpress';
 export enum LogLevel {
   NONE = 0,
   ERROR = 1,
+  WARN = 2,
   INFO = 3,
   VERBOSE = 5
 }
@@ -24,6 +37,7 @@ export enum ConnectionEventType {
   GameEvent = 'game_event',
   Chat = 'chat',
   Error = 'error',
+  ProtocolMismatch = 'protocol_mismatch',
   ServerUnreachable = 'server_unreachable' // Added for better error handling
 }
 
@@ -37,7 +51,7 @@ type ConnectionEventListener = (event: any) => void;
  * Connection Manager class
  */
 export class ConnectionManager {
-  private socket: WebSocket | null = null;
+  private socket: Transport | null = null;
   private serverUrl: string;
   private connected: boolean = false;
   private reconnectAttempts: number = 0;
@@ -57,6 +71,7 @@ export class ConnectionManager {
   private verboseLogging: boolean = false;
   private processedShots: Set<string> = new Set();
   private lobbyFull: boolean = false;
+  private serverProtocolVersion: number | null = null;
   
   /**
    * Create a new connection manager
@@ -88,34 +103,7 @@ export class ConnectionManager {
       window.__shotBroadcast = (shot: any) => this.handleUniversalShot(shot);
     }
     
-    // Get default player index from localStorage
-    try {
-      // Get player count
-      const playerCount = localStorage.getItem('jackalopes_player_count');
-      if (playerCount) {
-        this.playerIndex = parseInt(playerCount, 10);
-        // Assign player type based on index
-        this.playerType = this.playerIndex % 2 === 0 ? 'jackalope' : 'merc';
-      } else {
-        // First player - initialize count
-        localStorage.setItem('jackalopes_player_count', '0');
-        this.playerIndex = 0;
-        this.playerType = 'jackalope';
-      }
-      
-      // Keep track of how many players we have
-      localStorage.setItem('jackalopes_player_count', (this.playerIndex + 1).toString());
-      
-      // If we have 4 or more players, the lobby is full (for 2v2 gameplay)
-      this.lobbyFull = this.playerIndex >= 4;
-      
-      // Log player assignment
-      this.log(LogLevel.INFO, `Player assigned index ${this.playerIndex} as ${this.playerType}`);
-    } catch (e) {
-      console.error('Error initializing player index:', e);
-      this.playerIndex = 0;
-      this.playerType = 'jackalope';
-    }
+    // Index, team and whether the lobby is full all come from the session we join
   }
   
   /**
@@ -125,7 +113,7 @@ export class ConnectionManager {
    * @param sessionKey - The game session key
    * @returns A promise that resolves when connected
    */
-  public connect(playerName: string, sessionKey: string = 'JACKALOPES-DEFAULT'): Promise<boolean> {
+  public connect(playerName: string, sessionKey: string = DEFAULT_SESSION_KEY): Promise<boolean> {
     this.playerName = playerName;
     this.sessionKey = sessionKey;
     
@@ -134,7 +122,9 @@ export class ConnectionManager {
     
     return new Promise((resolve, reject) => {
       try {
-        this.socket = new WebSocket(this.serverUrl);
+        // A tabs:// URL plays against a server hosted by one of the open tabs
+        const channel = tabChannelOf(this.serverUrl);
+        this.socket = channel ? new BroadcastTransport(channel) : new WebSocket(this.serverUrl);
         
         // Set connection timeout
         const connectionTimeout = setTimeout(() => {
@@ -156,7 +146,8 @@ export class ConnectionManager {
           // Authenticate with the server
           this.sendMessage({
             type: 'auth',
-            playerName: this.playerName,
+            protocolVersion: PROTOCOL_VERSION,
+            playerName: this.playerName || 'Player',
             playerType: this.playerType, // Include player type in auth
             playerIndex: this.playerIndex // Include player index
           });
@@ -165,23 +156,42 @@ export class ConnectionManager {
         };
         
         this.socket.onmessage = (event) => {
-          const data = JSON.parse(event.data);
+          const decoded = parseServerMessage(event.data);
+          if (!decoded.ok) {
+            this.log(LogLevel.ERROR, `Rejected malformed message: ${decoded.error}`, event.data);
+            return;
+          }
+          if (decoded.warnings.length > 0) {
+            this.log(LogLevel.WARN, 'Protocol warnings:', decoded.warnings);
+          }
+          const data = decoded.value;
           
           // Filter player_update messages in logs if not verbose
           if (data.type !== 'player_update' || this.verboseLogging) {
             this.log(LogLevel.VERBOSE, 'Received message:', data);
           }
           
+          // Reject servers we can't talk to before going any further
+          if (data.type === 'welcome' || data.type === 'auth_success') {
+            if (!isProtocolCompatible(data.protocolVersion)) {
+              clearTimeout(connectionTimeout);
+              this.handleProtocolMismatch(data.protocolVersion);
+              reject(new Error(`Unsupported protocol version ${data.protocolVersion}`));
+              return;
+            }
+            this.serverProtocolVersion = data.protocolVersion;
+          }
+          
           // Handle authentication response
           if (data.type === 'auth_success') {
-            this.log(LogLevel.INFO, 'Authentication successful', data);
+            this.log(LogLevel.INFO, `Authentication successful (protocol v${data.protocolVersion})`, data);
             this.playerId = data.player.id;
             
             // Join session after authentication
             this.sendMessage({
               type: 'join_session',
-              playerName: this.playerName,
-              sessionKey: this.sessionKey,
+              playerName: this.playerName || 'Player',
+              sessionKey: this.sessionKey || DEFAULT_SESSION_KEY,
               playerType: this.playerType, // Include player type
               playerIndex: this.playerIndex // Include player index
             });
@@ -191,13 +201,16 @@ export class ConnectionManager {
           if (data.type === 'join_success') {
             this.log(LogLevel.INFO, 'Joined session successfully', data);
             
-            // Update player index if provided
+            // Take the slot and team the session gave us
             if (data.playerIndex !== undefined) {
               this.playerIndex = data.playerIndex;
-              // Update player type based on new index
+            }
+            if (data.playerType) {
+              this.playerType = data.playerType;
+            } else if (data.playerIndex !== undefined) {
               this.playerType = this.getPlayerCharacterType().type;
-              this.log(LogLevel.INFO, `Server assigned player index: ${this.playerIndex}, type: ${this.playerType}`);
             }
+            this.log(LogLevel.INFO, `Server assigned player index: ${this.playerIndex}, type: ${this.playerType}`);
             
             // Check if lobby is full
             if (data.lobbyFull) {
@@ -282,9 +295,6 @@ export class ConnectionManager {
     this.connected = true; // Pretend we're connected
     this.forcedReady = true;
     
-    // Set up localStorage event listener for cross-browser communication
-    window.addEventListener('storage', this.handleStorageEvent);
-    
     // Notify about offline mode
     this.triggerEvent(ConnectionEventType.Connected, { 
       playerId: `local_${Math.random().toString(36).substring(2, 9)}`,
@@ -295,42 +305,6 @@ export class ConnectionManager {
     });
   }
   
-  /**
-   * Handle localStorage events for cross-browser communication in offline mode
-   */
-  private handleStorageEvent = (e: StorageEvent) => {
-    if (!this.offlineMode) return;
-    
-    try {
-      // Handle shot broadcasts
-      if (e.key === 'jackalopes_shot' && e.newValue) {
-        const shotData = JSON.parse(e.newValue);
-        
-        // Don't process our own shots (based on origin browser tab)
-        if (shotData.origin_tab === window.name) return;
-        
-        // Process the shot
-        this.handleUniversalShot(shotData);
-      }
-      
-      // Handle player updates
-      if (e.key === 'jackalopes_player_update' && e.newValue) {
-        const updateData = JSON.parse(e.newValue);
-        
-        // Don't process our own updates
-        if (updateData.origin_tab === window.name) return;
-        
-        // Convert to expected format and trigger event
-        this.triggerEvent(ConnectionEventType.PlayerUpdate, {
-          type: 'player_update',
-          player: updateData
-        });
-      }
-    } catch (error) {
-      this.log(LogLevel.ERROR, 'Error handling storage event:', error);
-    }
-  };
-  
   /**
    * Force the connection to ready state (for testing)
    */
@@ -340,9 +314,6 @@ export class ConnectionManager {
     this.connected = true;
     this.offlineMode = true;
     
-    // Set up localStorage event listener for cross-browser communication
-    window.addEventListener('storage', this.handleStorageEvent);
-    
     // Notify about forced ready state
     this.triggerEvent(ConnectionEventType.Connected, { 
       playerId: `local_${Math.random().toString(36).substring(2, 9)}`,
@@ -373,16 +344,45 @@ export class ConnectionManager {
     // Log the shot
     this.log(LogLevel.VERBOSE, 'Processing universal shot:', shot);
     
+    const decoded = decodeGameEvent({ ...shot, event_type: 'player_shoot' });
+    if (!decoded.ok) {
+      this.log(LogLevel.ERROR, `Rejected malformed shot: ${decoded.error}`, shot);
+      return;
+    }
+    
     // Trigger game event
     this.triggerEvent(ConnectionEventType.GameEvent, {
       type: 'game_event',
-      event: {
-        event_type: 'player_shoot',
-        ...shot
-      }
+      event: decoded.value
     });
   }
   
+  /**
+   * Give up on a server speaking an unsupported protocol version
+   * 
+   * @param serverVersion - The version announced by the server
+   */
+  private handleProtocolMismatch(serverVersion: number): void {
+    this.log(LogLevel.ERROR, `Server protocol v${serverVersion} is not supported (client speaks v${PROTOCOL_VERSION})`);
+    this.triggerEvent(ConnectionEventType.ProtocolMismatch, {
+      serverVersion,
+      clientVersion: PROTOCOL_VERSION
+    });
+    
+    // Reconnecting won't help, so stop here rather than falling back to offline mode
+    this.reconnectAttempts = this.maxReconnectAttempts;
+    this.disconnect();
+  }
+  
+  /**
+   * Get the protocol version negotiated with the server
+   * 
+   * @returns The server's protocol version, or null if not connected yet
+   */
+  public getProtocolVersion(): number | null {
+    return this.serverProtocolVersion;
+  }
+  
   /**
    * Attempt to reconnect to the server
    */
@@ -416,16 +416,13 @@ export class ConnectionManager {
    * 
    * @param message - The message to send
    */
-  public sendMessage(message: any): void {
+  public sendMessage(message: ClientMessage): void {
     // Add player type to outgoing messages when appropriate
-    if (message && (message.type === 'player_update' || message.type === 'join_session' || message.type === 'auth')) {
-      if (message.type === 'player_update' && message.state) {
-        message.state.playerType = this.playerType;
-        message.state.playerIndex = this.playerIndex;
-      } else if (!message.playerType) {
-        message.playerType = this.playerType;
-        message.playerIndex = this.playerIndex;
-      }
+    if (message.type === 'player_update') {
+      message.state.playerType = this.playerType;
+    } else if ((message.type === 'join_session' || message.type === 'auth') && !message.playerType) {
+      message.playerType = this.playerType;
+      message.playerIndex = this.playerIndex;
     }
     
     // Filter player_update messages in logs unless verbose
@@ -433,43 +430,15 @@ export class ConnectionManager {
       this.log(LogLevel.VERBOSE, 'Sending message:', message);
     }
     
-    // In offline mode, use localStorage for cross-browser communication
+    // In offline mode nothing leaves this tab; play across tabs with a tabs:// server URL instead
     if (this.offlineMode) {
-      // For shots, use the shot broadcast mechanism
-      if (message.type === 'game_event' && message.event?.event_type === 'player_shoot') {
-        const shotData = {
+      // Our own shots are still shown through the shot broadcast mechanism
+      if (message.type === 'game_event' && message.event.event_type === 'player_shoot' && window.__shotBroadcast) {
+        window.__shotBroadcast({
           ...message.event,
           timestamp: Date.now(),
-          origin_tab: window.name, // Mark the origin tab
           color: this.playerType === 'merc' ? '#ff0000' : '#0000ff'
-        };
-        
-        // Store in localStorage for other browser tabs
-        localStorage.setItem('jackalopes_shot', JSON.stringify(shotData));
-        
-        // Also process it via the window broadcast for current tab
-        if (window.__shotBroadcast) {
-          window.__shotBroadcast(shotData);
-        }
-        
-        return;
-      }
-      
-      // For player updates, use localStorage
-      if (message.type === 'player_update') {
-        const updateData = {
-          ...message.state,
-          timestamp: Date.now(),
-          origin_tab: window.name, // Mark the origin tab
-          playerType: this.playerType,
-          playerIndex: this.playerIndex,
-          id: this.playerId || `local_${Math.random().toString(36).substring(2, 9)}`
-        };
-        
-        // Store in localStorage for other browser tabs
-        localStorage.setItem('jackalopes_player_update', JSON.stringify(updateData));
-        
-        return;
+        });
       }
       
       return; // Other messages are ignored in offline mode
@@ -477,7 +446,7 @@ export class ConnectionManager {
     
     // Normal WebSocket sending
     if (this.socket && this.connected) {
-      this.socket.send(JSON.stringify(message));
+      this.socket.send(encodeClientMessage(message));
     } else {
       this.log(LogLevel.ERROR, 'Cannot send message: not connected');
     }
@@ -488,13 +457,14 @@ export class ConnectionManager {
    * 
    * @param state - The player state to send
    */
-  public sendPlayerUpdate(state: any): void {
+  public sendPlayerUpdate(state: Pick<PlayerState, 'position' | 'rotation'> & Partial<PlayerState>): void {
     this.sendMessage({
       type: 'player_update',
       state: {
         ...state,
-        playerType: this.playerType,
-        playerIndex: this.playerIndex
+        sequence: state.sequence ?? Date.now(),
+        timestamp: state.timestamp ?? Date.now(),
+        playerType: this.playerType
       }
     });
   }
@@ -505,24 +475,22 @@ export class ConnectionManager {
    * @param origin - The origin position of the shot
    * @param direction - The direction of the shot
    */
-  public sendShootEvent(origin: [number, number, number], direction: [number, number, number]): void {
+  public sendShootEvent(origin: Vector3, direction: Vector3): void {
     // Generate a unique shot ID
     const shotId = `shot_${this.getClientId()}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
     
-    this.sendMessage({
-      type: 'game_event',
-      event: {
-        event_type: 'player_shoot',
-        shotId,
-        origin,
-        direction,
-        player_id: this.getClientId(),
-        playerType: this.playerType,
-        playerIndex: this.playerIndex,
-        timestamp: Date.now(),
-        color: this.playerType === 'merc' ? '#ff0000' : '#0000ff'
-      }
-    });
+    const event: PlayerShootEvent = {
+      event_type: 'player_shoot',
+      shotId,
+      origin,
+      direction,
+      player_id: this.getClientId(),
+      playerType: this.playerType,
+      timestamp: Date.now(),
+      color: this.playerType === 'merc' ? '#ff0000' : '#0000ff'
+    };
+    
+    this.sendMessage({ type: 'game_event', event });
   }
   
   /**
@@ -538,23 +506,16 @@ export class ConnectionManager {
    * @param playerId - The ID of the player to respawn
    * @param spawnPosition - Optional spawn position
    */
-  public sendRespawnRequest(playerId: string, spawnPosition?: [number, number, number]): void {
-    // If no spawn position is provided, generate one using the spawn manager
-    if (!spawnPosition && window.jackalopesGame?.spawnManager) {
-      spawnPosition = window.jackalopesGame.spawnManager.getNextSpawnPoint();
-      this.log(LogLevel.INFO, `Generated spawn position: [${spawnPosition.join(', ')}]`);
-    }
+  public sendRespawnRequest(playerId: string, spawnPosition?: Vector3): void {
+    const event: PlayerRespawnEvent = {
+      event_type: 'player_respawn',
+      player_id: playerId,
+      requestedBy: this.getClientId(),
+      timestamp: Date.now(),
+      spawnPosition
+    };
     
-    this.sendMessage({
-      type: 'game_event',
-      event: {
-        event_type: 'player_respawn',
-        player_id: playerId,
-        requestedBy: this.getClientId(),
-        timestamp: Date.now(),
-        spawnPosition
-      }
-    });
+    this.sendMessage({ type: 'game_event', event });
   }
   
   /**
@@ -628,11 +589,6 @@ export class ConnectionManager {
       this.reconnectTimer = null;
     }
     
-    // Remove storage event listener if we were in offline mode
-    if (this.offlineMode) {
-      window.removeEventListener('storage', this.handleStorageEvent);
-    }
-    
     this.connected = false;
     this.forcedReady = false;
     this.offlineMode = false;
@@ -755,20 +711,6 @@ export class ConnectionManager {
     return { type, thirdPerson };
   }
   
-  /**
-   * Reset player count in localStorage
-   */
-  public resetPlayerCount(): void {
-    try {
-      localStorage.setItem('jackalopes_player_count', '0');
-      this.playerIndex = 0;
-      this.playerType = 'jackalope';
-      this.log(LogLevel.INFO, 'Reset player count to 0');
-    } catch (e) {
-      this.log(LogLevel.ERROR, 'Error resetting player count:', e);
-    }
-  }
-  
   /**
    * Reset and correct character type based on player index
    * 
@@ -827,6 +769,8 @@ export class ConnectionManager {
     switch (level) {
       case LogLevel.ERROR:
         return '[ConnectionManager ERROR]';
+      case LogLevel.WARN:
+        return '[ConnectionManager WARN]';
       case LogLevel.INFO:
         return '[ConnectionManager INFO]';
       case LogLevel.VERBOSE:
@@ -849,15 +793,6 @@ declare global {
       debugLevel?: number;
       levaPanelState?: 'open' | 'closed';
       flashlightOn?: boolean;
-      spawnManager?: {
-        baseSpawnX: number;
-        currentSpawnX: number;
-        stepSize: number;
-        minX: number;
-        getNextSpawnPoint: () => [number, number, number];
-        resetSpawnPoints: () => [number, number, number];
-        getSpawnPoint: () => [number, number, number];
-      };
     };
   }
 }
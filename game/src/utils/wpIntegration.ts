@@ -34,9 +34,9 @@ function setupDebugHelpers() {
   
   // Make respawn function available globally
   window.__networkManager = {
-    sendRespawnRequest: (playerId: string, spawnPosition?: [number, number, number]) => {
+    sendRespawnRequest: (playerId: string) => {
       if (window.connectionManager?.sendRespawnRequest) {
-        window.connectionManager.sendRespawnRequest(playerId, spawnPosition);
+        window.connectionManager.sendRespawnRequest(playerId);
       }
     }
   };
@@ -47,26 +47,7 @@ function setupDebugHelpers() {
       playerType: 'merc',
       debugLevel: 1,
       levaPanelState: 'closed',
-      flashlightOn: false,
-      spawnManager: {
-        baseSpawnX: -100,
-        currentSpawnX: -100,
-        stepSize: 50,
-        minX: -500,
-        getNextSpawnPoint: function(): [number, number, number] {
-          this.currentSpawnX = Math.max(this.minX, this.currentSpawnX - this.stepSize);
-          console.log(`🐰 [SpawnManager] Next spawn at X: ${this.currentSpawnX}`);
-          return [this.currentSpawnX, 3, 10];
-        },
-        resetSpawnPoints: function() {
-          console.log(`🐰 [SpawnManager] Resetting spawn positions to base X: ${this.baseSpawnX}`);
-          this.currentSpawnX = this.baseSpawnX;
-          return [this.currentSpawnX, 3, 10];
-        },
-        getSpawnPoint: function(): [number, number, number] {
-          return [this.currentSpawnX, 3, 10];
-        }
-      }
+      flashlightOn: false
     };
   }
   
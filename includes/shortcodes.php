@@ -33,6 +33,7 @@ function jackalopes_wp_game_shortcode($atts = []) {
             'server' => '', // Optional server URL override
             'disable_ui' => 'false', // Option to disable default UI
             'disable_threejs' => 'false', // Option to disable Three.js loading
+            'session' => '', // Optional session key or join code; pins the page to that room
         ],
         $atts,
         'jackalopes'
@@ -55,6 +56,7 @@ function jackalopes_wp_game_shortcode($atts = []) {
          data-server="<?php echo esc_attr($atts['server']); ?>"
          data-disable-ui="<?php echo esc_attr($atts['disable_ui']); ?>"
          data-disable-threejs="<?php echo esc_attr($atts['disable_threejs']); ?>"
+         data-session="<?php echo esc_attr($atts['session']); ?>"
          style="width: <?php echo esc_attr($atts['width']); ?>; height: <?php echo esc_attr($atts['height']); ?>; position: relative; overflow: hidden;">
         <div class="jackalopes-loading">
             <div class="jackalopes-loading-spinner"></div>
@@ -106,7 +108,8 @@ function jackalopes_wp_game_shortcode($atts = []) {
                     fullscreen: <?php echo $atts['fullscreen'] === 'true' ? 'true' : 'false'; ?>,
                     serverUrl: '<?php echo esc_js($atts['server']); ?>',
                     disableUi: <?php echo $atts['disable_ui'] === 'true' ? 'true' : 'false'; ?>,
-                    disableThreejs: <?php echo $atts['disable_threejs'] === 'true' ? 'true' : 'false'; ?>
+                    disableThreejs: <?php echo $atts['disable_threejs'] === 'true' ? 'true' : 'false'; ?>,
+                    sessionKey: '<?php echo esc_js($atts['session']); ?>'
                 });
                 
                 // Add event listener for fullscreen changes